@@ -0,0 +1,219 @@
+/**
+ * Local HTTP control API + status dashboard (opt-in via CONTROL_API_ENABLED).
+ *
+ * Routes:
+ * - GET  /                    — bundled status dashboard (for a co-GM's second monitor)
+ * - GET  /api/pipelines       — ids of the session pipelines (one per table)
+ * - GET  /api/status          — SessionController.getStatus() as JSON
+ * - POST /api/commands/:type  — apply a GM command; body `{ "args": "..." }`
+ *
+ * Prometheus metrics are served by their own listener (metrics/server.ts).
+ *
+ * With several pipelines (SESSION_CAMPAIGNS), `?pipeline=<id>` picks the
+ * table; without it, status and commands go to the first pipeline.
+ *
+ * Commands go through parseGmCommand() so they accept exactly what the
+ * Foundry/Discord chat paths accept, then through applyGmCommand().
+ *
+ * Auth: with CONTROL_API_TOKEN set, every /api route (reads included — the
+ * status carries GM notes, caches and pending tool calls) requires
+ * `Authorization: Bearer <token>`. Without a token the API is read-only and
+ * refuses to bind anywhere but loopback. The dashboard page itself is static.
+ */
+
+import * as http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { logger } from '../logger.js';
+import { parseGmCommand } from '../state/gm-commands.js';
+import { DASHBOARD_HTML } from './dashboard.js';
+import type { SessionController } from '../session/controller.js';
+
+/** Command bodies are short; anything larger is rejected. */
+const MAX_BODY_BYTES = 16 * 1024;
+
+/** The controller surface the API reads and drives. */
+export type ControlTarget = Pick<SessionController, 'getStatus' | 'applyGmCommand'>;
+
+export interface ControlServerOptions {
+  host: string;
+  port: number;
+  token: string;
+}
+
+/** Hosts that only accept connections from this machine. */
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127(?:\.\d{1,3}){3}$/.test(host);
+}
+
+/** Thrown while reading a request body; carries the HTTP status to answer with. */
+class RequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export class ControlServer {
+  private server: http.Server | null = null;
+
+  constructor(
+    /** Pipeline id → controller, in configuration order. */
+    private readonly controllers: ReadonlyMap<string, ControlTarget>,
+    private readonly options: ControlServerOptions,
+  ) {}
+
+  /** Start listening. Resolves with the bound port (useful when port is 0). */
+  async start(): Promise<number> {
+    if (!this.options.token && !isLoopbackHost(this.options.host)) {
+      throw new Error(`refusing to bind ${this.options.host} without CONTROL_API_TOKEN — set a token or use a loopback host`);
+    }
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(err => {
+        logger.warn('ControlServer: request failed:', err);
+        if (!res.headersSent) sendJson(res, 500, { error: 'internal error' });
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : this.options.port;
+    logger.info(
+      `ControlServer: listening on http://${this.options.host}:${port}/` +
+      (this.options.token ? '' : ' (read-only — set CONTROL_API_TOKEN to enable commands)')
+    );
+    return port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+
+    if (method === 'GET' && (url.pathname === '/' || url.pathname === '/index.html')) {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+      res.end(DASHBOARD_HTML);
+      return;
+    }
+
+    if (url.pathname.startsWith('/api/') && this.options.token && !this.isAuthorized(req)) {
+      sendJson(res, 401, { error: 'missing or invalid bearer token' });
+      return;
+    }
+
+    if (method === 'GET' && url.pathname === '/api/pipelines') {
+      sendJson(res, 200, { pipelines: [...this.controllers.keys()] });
+      return;
+    }
+
+    const isStatus = url.pathname === '/api/status';
+    const commandMatch = url.pathname.match(/^\/api\/commands\/(\w+)$/);
+    if ((isStatus && method === 'GET') || commandMatch) {
+      const pipelineId = url.searchParams.get('pipeline');
+      const controller = pipelineId !== null
+        ? this.controllers.get(pipelineId)
+        : this.controllers.values().next().value;
+      if (!controller) {
+        sendJson(res, 404, { error: `unknown pipeline "${pipelineId ?? ''}"` });
+        return;
+      }
+
+      if (isStatus) {
+        sendJson(res, 200, controller.getStatus());
+      } else if (method !== 'POST') {
+        sendJson(res, 405, { error: 'use POST' });
+      } else {
+        await this.handleCommand(controller, commandMatch![1], req, res);
+      }
+      return;
+    }
+
+    sendJson(res, 404, { error: 'not found' });
+  }
+
+  private async handleCommand(
+    controller: ControlTarget,
+    type: string,
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    // Bearer auth already checked in handle()
+    if (!this.options.token) {
+      sendJson(res, 403, { error: 'commands disabled — CONTROL_API_TOKEN not set' });
+      return;
+    }
+
+    let args = '';
+    try {
+      const body = await readBody(req);
+      if (body.trim()) {
+        const parsed = JSON.parse(body) as { args?: unknown };
+        if (parsed.args !== undefined && typeof parsed.args !== 'string') {
+          throw new RequestError(400, '"args" must be a string');
+        }
+        args = (parsed.args as string | undefined) ?? '';
+      }
+    } catch (err) {
+      if (err instanceof RequestError) {
+        sendJson(res, err.status, { error: err.message });
+      } else {
+        sendJson(res, 400, { error: 'body must be JSON: { "args": "..." }' });
+      }
+      return;
+    }
+
+    const cmd = parseGmCommand(`/${type} ${args}`, new Date().toISOString());
+    if (!cmd) {
+      sendJson(res, 404, { error: `unknown command "${type}"` });
+      return;
+    }
+
+    logger.info(`ControlServer: GM command via API: ${cmd.raw}`);
+    controller.applyGmCommand(cmd);
+    sendJson(res, 202, { ok: true, command: { type: cmd.type, args: cmd.args } });
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers.authorization ?? '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match) return false;
+    const given = Buffer.from(match[1].trim());
+    const expected = Buffer.from(this.options.token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // Keep draining so the 413 response can still be written
+      if (size > MAX_BODY_BYTES) {
+        reject(new RequestError(413, 'body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
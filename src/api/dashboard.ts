@@ -0,0 +1,203 @@
+/**
+ * Bundled status dashboard served at GET / by the control API.
+ *
+ * Self-contained (no build step, no external assets): polls /api/status
+ * every few seconds and renders the assistant's view of the session.
+ * Every /api request carries the bearer token kept in localStorage (the
+ * token box next to the command input); the command box posts to
+ * /api/commands/:type. With more than one pipeline, a selector picks the table
+ * (remembered in the URL hash).
+ */
+
+export const DASHBOARD_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Magi GM Assistant — Status</title>
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<style>
+  :root { color-scheme: dark; --bg: #16181d; --panel: #1f232b; --muted: #8b93a3; --accent: #7aa2f7; --warn: #e0af68; --bad: #f7768e; --ok: #9ece6a; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.45 system-ui, sans-serif; background: var(--bg); color: #dde1e8; }
+  header { display: flex; gap: 16px; align-items: baseline; padding: 12px 20px; border-bottom: 1px solid #2c313c; }
+  header h1 { font-size: 16px; margin: 0; }
+  .badge { padding: 2px 8px; border-radius: 10px; background: #2c313c; font-size: 12px; }
+  .badge.ACTIVE { background: #2d4a2b; color: var(--ok); }
+  .badge.SLEEP { background: #4a3f2b; color: var(--warn); }
+  main { display: grid; grid-template-columns: repeat(auto-fill, minmax(380px, 1fr)); gap: 12px; padding: 12px 20px; }
+  section { background: var(--panel); border-radius: 6px; padding: 10px 14px; overflow: auto; max-height: 420px; }
+  section h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .05em; color: var(--muted); margin: 0 0 8px; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 2px 6px 2px 0; vertical-align: top; }
+  td:first-child { color: var(--muted); white-space: nowrap; }
+  ul { margin: 0; padding-left: 18px; }
+  li { margin-bottom: 4px; }
+  .muted { color: var(--muted); }
+  .stale { color: var(--bad); }
+  .env { border-left: 3px solid var(--accent); padding-left: 8px; margin-bottom: 10px; }
+  .env .body { white-space: pre-wrap; color: #c0c5ce; }
+  form { display: flex; gap: 6px; padding: 0 20px 16px; }
+  input, select { background: var(--panel); color: inherit; border: 1px solid #2c313c; border-radius: 4px; padding: 6px 8px; }
+  input[name=command] { flex: 1; }
+  button { background: var(--accent); border: 0; border-radius: 4px; padding: 6px 14px; color: #111; cursor: pointer; }
+  #result { padding: 0 20px; color: var(--muted); }
+</style>
+</head>
+<body>
+<header>
+  <h1>Magi GM Assistant</h1>
+  <select id="pipeline" hidden></select>
+  <span id="state" class="badge">…</span>
+  <span id="session" class="muted"></span>
+  <span id="updated" class="muted"></span>
+</header>
+<form id="cmd">
+  <input name="command" placeholder="/scene The Concourse 20   ·   /note the duke is lying   ·   /sleep" autocomplete="off">
+  <input name="token" type="password" placeholder="API token">
+  <button>Send</button>
+</form>
+<div id="result"></div>
+<main>
+  <section><h2>Pacing</h2><div id="pacing"></div></section>
+  <section><h2>Freshness</h2><div id="freshness"></div></section>
+  <section><h2>Recent advice</h2><div id="envelopes"></div></section>
+  <section><h2>Pending triggers</h2><div id="triggers"></div></section>
+  <section><h2>Advice memory</h2><div id="memory"></div></section>
+  <section><h2>GM feedback</h2><div id="feedback"></div></section>
+  <section><h2>GM notes</h2><div id="notes"></div></section>
+  <section><h2>NPC cache</h2><div id="npcs"></div></section>
+  <section><h2>Scenes · beats · whispers</h2><div id="scenes"></div></section>
+  <section><h2>Session stats</h2><div id="stats"></div></section>
+  <section><h2>Context budget</h2><div id="budget"></div></section>
+</main>
+<script>
+const $ = (id) => document.getElementById(id);
+const esc = (v) => String(v ?? '').replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]));
+const rows = (obj) => '<table>' + Object.entries(obj).map(([k, v]) =>
+  '<tr><td>' + esc(k) + '</td><td>' + esc(typeof v === 'object' && v !== null ? JSON.stringify(v) : v) + '</td></tr>').join('') + '</table>';
+const list = (items, render) => items.length ? '<ul>' + items.map(i => '<li>' + render(i) + '</li>').join('') + '</ul>' : '<span class="muted">none</span>';
+
+function render(s) {
+  $('state').textContent = s.assistantState;
+  $('state').className = 'badge ' + s.assistantState;
+  $('session').textContent = s.sessionActive ? 'session ' + s.sessionId + (s.planCard ? ' · plan: ' + s.planCard : '') : 'standby — no active session';
+  $('updated').textContent = 'updated ' + new Date().toLocaleTimeString();
+
+  const p = s.pacing;
+  $('pacing').innerHTML = rows({
+    act: p.current_act + ' (' + p.act_timing.elapsed_minutes + '/' + p.act_timing.planned_max_minutes + ' min)',
+    scene: (p.current_scene || '—') + ' (' + p.scene_timing.elapsed_minutes + '/' + p.scene_timing.planned_max_minutes + ' min)',
+    spotlight: p.spotlight_debt,
+    engagement: p.engagement_signals,
+    separation: p.separation_status,
+    climax: p.climax_proximity,
+    'session end': p.session_end_time || '—',
+    seeds: p.planted_seeds.map(x => (x.revealed ? '✓ ' : x.reveal_pending ? '? ' : '○ ') + x.name).join(', ') || '—',
+    threads: p.open_threads.join(', ') || '—',
+    caches: 'npc ' + p.npc_cache_status + ', scenes ' + p.scene_index_status,
+  });
+
+  const f = s.freshness;
+  const now = Date.now();
+  $('freshness').innerHTML = '<table><tr><td>transcript_cursor</td><td>' + esc(f.transcript_cursor) + '</td></tr>' + Object.entries(f).filter(([k]) => k.endsWith('_ts') || k.endsWith('_at')).map(([k, v]) => {
+    const age = v ? Math.round((now - new Date(v).getTime()) / 1000) : null;
+    const cls = age === null || age > f.stale_threshold_seconds ? 'stale' : '';
+    return '<tr><td>' + esc(k) + '</td><td class="' + cls + '">' + (age === null ? 'never' : age + 's ago') + '</td></tr>';
+  }).join('') + '</table>';
+
+  $('envelopes').innerHTML = s.recentEnvelopes.length ? s.recentEnvelopes.slice().reverse().map(r =>
+    '<div class="env"><b>[' + esc(r.envelope.tag) + ']</b> ' + esc(r.envelope.summary) +
+    ' <span class="muted">' + esc(r.envelope.category) + ' · ' + esc(r.channel) + ' · ' + new Date(r.deliveredAt).toLocaleTimeString() +
+    (r.rating ? ' · rated ' + esc(r.rating.verdict + (r.rating.reason ? ' (' + r.rating.reason + ')' : '')) : '') + '</span>' +
+    (r.envelope.body ? '<div class="body">' + esc(r.envelope.body) + '</div>' : '') + '</div>').join('') : '<span class="muted">none yet</span>';
+
+  $('triggers').innerHTML = list(s.pendingTriggers, t => '<b>P' + esc(t.priority) + '</b> ' + esc(t.type) + ' <span class="muted">' + esc(JSON.stringify(t.data).slice(0, 160)) + '</span>');
+  $('memory').innerHTML = list(s.adviceMemory, m => '[' + esc(m.tag) + '] ' + esc(m.summary) + ' <span class="muted">' + esc(m.category) + '</span>');
+  $('feedback').innerHTML = list(s.feedbackPolicies, p => esc(p.category) + ': ' + Math.round(p.badRatio * 100) + '% bad of last ' + p.ratings +
+    ' <span class="muted">' + (p.action === 'suppress' ? 'suppressed' : p.action === 'raise_confidence' ? 'confidence ≥ ' + p.minConfidence : 'normal') + '</span>');
+  $('notes').innerHTML = list(s.gmNotes, n => esc(n.text) + ' <span class="muted">' + new Date(n.timestamp).toLocaleTimeString() + '</span>');
+  $('npcs').innerHTML = (s.caches.buildInProgress ? '<p class="muted">building…</p>' : '') +
+    list(s.caches.npcs, n => (n.served ? '✓ ' : '○ ') + esc(n.display_name) + (n.pronunciation ? ' <span class="muted">(' + esc(n.pronunciation) + ')</span>' : ''));
+  $('scenes').innerHTML =
+    '<b>Scenes</b>' + list(s.caches.scenes, x => (x.served ? '✓ ' : '○ ') + esc(x.title)) +
+    '<b>Beats</b>' + list(s.caches.beats, b => (b.served ? '✓ ' : '○ ') + esc(b.sceneTitle) + ' <span class="muted">(' + b.bullets.length + ' notes)</span>') +
+    '<b>Whispers</b>' + list(s.caches.whispers, w => (w.sent ? '✓ sent ' : w.notified ? '! ready ' : '○ ') + esc(w.target) + ': ' + esc(w.description));
+  const st = s.sessionStats;
+  $('stats').innerHTML = rows({
+    delivered: st.adviceDelivered + ' (foundry ' + st.adviceViaFoundry + ', discord ' + st.adviceViaDiscord + ')',
+    suppressed: st.adviceSuppressed,
+    segments: st.totalSegmentCount,
+    'beat reminders': st.beatRemindersDelivered,
+    'whispers sent': st.whispersSent,
+    'llm spend': '$' + st.llmUsage.costUsd.toFixed(3) + ' (' + st.llmUsage.calls + ' calls)' + (st.budgetCapReachedAt ? ' — cap reached, P1 only' : ''),
+    'prompt cache': st.llmUsage.cacheReadTokens + st.llmUsage.cacheWriteTokens > 0
+      ? Math.round(100 * st.llmUsage.cacheReadTokens / (st.llmUsage.inputTokens + st.llmUsage.cacheReadTokens + st.llmUsage.cacheWriteTokens)) + '% of prompt tokens from cache'
+      : 'no cache hits yet',
+    speakers: st.speakerDistribution,
+  });
+
+  const b = s.contextBudget;
+  $('budget').innerHTML = b
+    ? '<p class="muted">' + b.total + ' / ' + (b.limit - b.responseReserve) + ' prompt tokens (+' + b.responseReserve + ' reserved) · ' +
+      b.charsPerToken + ' chars/token' + (b.calibrationSamples ? ' (calibrated)' : ' (default)') + '</p>' +
+      '<table>' + b.sections.filter(x => x.tokens || x.trimmedTokens).map(x => '<tr><td>' + esc(x.name) + '</td><td>' + x.tokens +
+      (x.trimmedTokens ? ' <span class="stale">−' + x.trimmedTokens + ' trimmed</span>' : '') + '</td></tr>').join('') + '</table>'
+    : '<span class="muted">no reasoning call yet</span>';
+}
+
+const form = $('cmd');
+form.token.value = localStorage.getItem('magiGmToken') || '';
+const authed = (init = {}) => ({ cache: 'no-store', ...init, headers: { ...(init.headers || {}), Authorization: 'Bearer ' + form.token.value } });
+
+const picker = $('pipeline');
+const scoped = (path) => picker.value ? path + '?pipeline=' + encodeURIComponent(picker.value) : path;
+
+async function loadPipelines() {
+  try {
+    const { pipelines } = await (await fetch('/api/pipelines', authed())).json();
+    picker.innerHTML = pipelines.map(id => '<option>' + esc(id) + '</option>').join('');
+    const wanted = decodeURIComponent(location.hash.slice(1));
+    if (pipelines.includes(wanted)) picker.value = wanted;
+    picker.hidden = pipelines.length < 2;
+  } catch { /* single-pipeline fallback: unscoped requests */ }
+}
+picker.addEventListener('change', () => { location.hash = encodeURIComponent(picker.value); refresh(); });
+
+async function refresh() {
+  try {
+    const res = await fetch(scoped('/api/status'), authed());
+    if (res.status === 401) {
+      $('updated').textContent = 'enter the API token to load status';
+      return;
+    }
+    render(await res.json());
+  } catch (err) {
+    $('updated').textContent = 'connection lost — retrying';
+  }
+}
+
+form.token.addEventListener('change', () => {
+  localStorage.setItem('magiGmToken', form.token.value);
+  loadPipelines().then(refresh);
+});
+form.addEventListener('submit', async (e) => {
+  e.preventDefault();
+  const m = form.command.value.trim().match(/^\\/?(\\w+)\\s*(.*)$/);
+  if (!m) return;
+  localStorage.setItem('magiGmToken', form.token.value);
+  const res = await fetch(scoped('/api/commands/' + encodeURIComponent(m[1])), authed({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ args: m[2] }),
+  }));
+  const body = await res.json().catch(() => ({}));
+  $('result').textContent = res.ok ? 'Applied /' + m[1] : 'Error ' + res.status + ': ' + (body.error || 'request failed');
+  if (res.ok) { form.command.value = ''; refresh(); }
+});
+
+loadPipelines().then(refresh);
+setInterval(refresh, 3000);
+</script>
+</body>
+</html>
+`;
@@ -1,11 +1,92 @@
+import * as path from 'path';
 import { config as dotenvConfig } from 'dotenv';
 import { registerSecret } from './logger.js';
 
 dotenvConfig();
 
+/**
+ * One Discord guild's table when several run from one process
+ * (SESSION_CAMPAIGNS). Unset fields inherit the top-level config.
+ */
+export interface SessionCampaignBinding {
+  /** Pipeline id for logs, the control API and persistence file names. Defaults to the guild ID. */
+  id: string;
+  guildId: string;
+  campaignName?: string;
+  campaignGroup?: string;
+  campaignWikiCard?: string;
+  gmIdentifier?: string;
+  discordAdviceWebhookUrl?: string;
+  sessionEndTime?: string;
+  userMappings?: Record<string, string>;
+  triggerRulesPath?: string;
+  triggerRulesCard?: string;
+}
+
+/** Anthropic list prices in USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Prompt-cache reads. */
+  cacheRead: number;
+  /** Prompt-cache writes (5-minute TTL). */
+  cacheWrite: number;
+}
+
+/**
+ * Built-in price table, keyed by model id prefix (the longest matching prefix
+ * wins, so dated snapshots resolve to their family). LLM_PRICING overrides
+ * or extends it.
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+};
+
+/** What the model may do with an MCP tool: call it, never see it, or stage it for GM approval. */
+export type ToolPermission = 'allow' | 'deny' | 'confirm';
+
+/** What the fact-check stage does with advice naming things it cannot verify. */
+export type FactCheckMode = 'off' | 'flag' | 'suppress';
+
+/**
+ * Built-in tool policy, keyed by prefixed tool name or `*` pattern (an exact
+ * name beats a pattern, a longer pattern beats a shorter one; anything
+ * unmatched is denied). Only read-only wiki and Foundry tools are allowed —
+ * whispers, card edits and image posts stay with the GM. TOOL_POLICY
+ * overrides or extends it.
+ */
+export const DEFAULT_TOOL_POLICY: Record<string, ToolPermission> = {
+  'wiki__get*': 'allow',
+  'wiki__search*': 'allow',
+  'wiki__list*': 'allow',
+  'foundry__get*': 'allow',
+  'foundry__list*': 'allow',
+  'foundry__search*': 'allow',
+};
+
+export type LlmProviderName = 'anthropic' | 'openai-compatible' | 'mock';
+
 export interface GmConfig {
   anthropicApiKey: string;
   anthropicModel: string;
+  /** Reasoning backend: Anthropic, a local OpenAI-compatible server, or the scripted mock. */
+  llmProvider: LlmProviderName;
+  /** OpenAI-compatible API root including /v1 (llama.cpp server, Ollama, vLLM). */
+  openaiCompatBaseUrl: string;
+  openaiCompatApiKey: string;
+  openaiCompatModel: string;
+  /** Scripted responses for LLM_PROVIDER=mock (see llm/mock.ts). */
+  llmMockScriptPath: string;
+  /** Per-model prices for session cost accounting (DEFAULT_MODEL_PRICING + LLM_PRICING). */
+  llmPricing: Record<string, ModelPrice>;
+  /** Per-session LLM spending cap in USD; reaching it limits the model to P1. 0 = no cap. */
+  sessionBudgetUsd: number;
 
   // MCP server URLs
   discordMcpUrl: string;
@@ -17,6 +98,11 @@ export interface GmConfig {
   foundryMcpToken: string;
   wikiMcpToken: string;
 
+  // MCP resource subscriptions (push updates; polling is the fallback)
+  mcpSubscriptionsEnabled: boolean;
+  /** Safety-net poll interval for resources with a live subscription (missed notifications). */
+  mcpSubscriptionPollSeconds: number;
+
   // Output
   discordAdviceWebhookUrl: string;
 
@@ -28,6 +114,10 @@ export interface GmConfig {
   sleepSilenceMinutes: number;
   transcriptWindowMinutes: number;
   finalSegmentsOnly: boolean;
+  /** Flowing-RP detection: ≥ this many segments from ≥ this many speakers within the window suppresses P3/P4. */
+  flowingRpMinSegments: number;
+  flowingRpMinSpeakers: number;
+  flowingRpWindowSeconds: number;
 
   // v3 timing / triggers
   sessionEndTime: string;
@@ -41,12 +131,40 @@ export interface GmConfig {
   hesitationKeywords: string[];
   /** v6: Maximum GAP (hesitation) triggers per session. 0 = unlimited. */
   maxGapTriggersPerSession: number;
+  /** Spotlight debt and quiet-player triggers from transcript talk time. */
+  spotlightTrackingEnabled: boolean;
+  /** Rolling window for each character's share of player talk. */
+  spotlightWindowMinutes: number;
+  /** Minutes of active play a player can stay quiet before a P3 spotlight trigger. */
+  spotlightQuietMinutes: number;
+  /** Words a line needs to count as the player taking the spotlight. */
+  spotlightMinWords: number;
+  /** Engagement (HIGH/MEDIUM/LOW) per mapped player from transcript features. */
+  engagementTrackingEnabled: boolean;
+  /** Rolling window the engagement features are measured over. */
+  engagementWindowMinutes: number;
+  /** Active-play minutes without a line before a player counts as dropped out (LOW). */
+  engagementDropoutMinutes: number;
+  /** Minutes a new level must hold before it replaces the current one. */
+  engagementHoldMinutes: number;
 
   // Context / memory
   maxContextTokens: number;
   adviceMaxTokens: number;
   adviceMemorySize: number;
+  /** Cosine similarity at which advice repeats earlier advice this session (0 = subject keys only). */
+  adviceDedupSimilarity: number;
+  /** Most envelopes one reasoning call may deliver (the rest are dropped, in order). */
+  maxAdvicePerBatch: number;
   npcCacheMaxBriefWords: number;
+  /** Cache the session-stable prompt prefix (tools, system prompt, episode plan) across calls. */
+  promptCacheEnabled: boolean;
+  /** Advice categories delivered progressively while the model writes them ([] = never stream). */
+  streamDeliveryCategories: string[];
+  /** Which MCP tools the model may call (DEFAULT_TOOL_POLICY + TOOL_POLICY). */
+  toolPolicy: Record<string, ToolPermission>;
+  /** Advice naming unverified or conflicting people/places: flag it, suppress it, or skip the check. */
+  factCheckMode: FactCheckMode;
 
   // Campaign identity (v4: used for wiki discovery)
   campaignName: string;
@@ -56,12 +174,52 @@ export interface GmConfig {
   systemPromptPath: string;
   campaignWikiCard: string;
   sttFuzzyMatchPath: string;
+  /** JSON file of custom trigger rules (empty = none). */
+  triggerRulesPath: string;
+  /** Wiki card holding custom trigger rules as JSON (empty = none); replaces file rules of the same type. */
+  triggerRulesCard: string;
 
   // State persistence (opt-in)
   statePersistenceEnabled: boolean;
   statePersistencePath: string;
   statePersistenceMaxAgeMinutes: number;
 
+  // GM feedback on advice (/good, /bad, reactions)
+  /** Cross-session ratings file. Empty = ratings kept in memory only. */
+  feedbackPath: string;
+  /** Adapt delivery to ratings (suppress / raise confidence floor per category). */
+  feedbackAdaptEnabled: boolean;
+  /** Most recent ratings per category considered by the policy. */
+  feedbackWindow: number;
+  /** Ratings a category needs before its policy changes. */
+  feedbackMinRatings: number;
+  /** Share of bad ratings (%) at which a category is suppressed. */
+  feedbackSuppressPercent: number;
+  /** Share of bad ratings (%) at which a category needs FEEDBACK_MIN_CONFIDENCE_PERCENT. */
+  feedbackRaisePercent: number;
+  feedbackMinConfidencePercent: number;
+
+  // Seeds / open threads
+  /** Unrevealed seeds and open threads carried between sessions. Empty = this process only. */
+  storyCarryoverPath: string;
+
+  // Session recording to JSONL archives (opt-in)
+  recordingEnabled: boolean;
+  recordingDir: string;
+
+  // Local HTTP control API + status dashboard (opt-in)
+  controlApiEnabled: boolean;
+  controlApiHost: string;
+  controlApiPort: number;
+  /** Bearer token required for every /api route. Empty = read-only, loopback binds only. */
+  controlApiToken: string;
+  /** Number of recently delivered envelopes kept for the status view. */
+  controlApiRecentEnvelopes: number;
+  /** Serve Prometheus metrics on GET /metrics (own listener, independent of the control API). */
+  metricsEnabled: boolean;
+  metricsHost: string;
+  metricsPort: number;
+
   /** Dry-run mode: run the full pipeline but suppress delivery, wiki writes, and image posting. */
   dryRun: boolean;
 
@@ -69,6 +227,8 @@ export interface GmConfig {
   userMappings: Record<string, string>;
   /** Target Discord guild ID - selects which session to track when multiple are active. */
   targetGuildId: string;
+  /** Guild → campaign bindings; one independent pipeline per entry. Empty = single pipeline. */
+  sessionCampaigns: SessionCampaignBinding[];
   /**
    * GM identifier for silence/hesitation detection.
    * Matched against userId, displayName, and speakerLabel (case-insensitive).
@@ -100,12 +260,174 @@ function parseUserMappings(raw: string): Record<string, string> {
   return {};
 }
 
+const LLM_PROVIDERS: readonly LlmProviderName[] = ['anthropic', 'openai-compatible', 'mock'];
+
+function parseLlmProvider(raw: string | undefined): LlmProviderName {
+  if (!raw) return 'anthropic';
+  const normalized = raw.trim().toLowerCase();
+  if ((LLM_PROVIDERS as readonly string[]).includes(normalized)) return normalized as LlmProviderName;
+  console.error(`[config] LLM_PROVIDER "${raw}" is not one of ${LLM_PROVIDERS.join(', ')} — using anthropic.`);
+  return 'anthropic';
+}
+
+const FACT_CHECK_MODES: readonly FactCheckMode[] = ['off', 'flag', 'suppress'];
+
+function parseFactCheckMode(raw: string | undefined): FactCheckMode {
+  if (!raw) return 'flag';
+  const normalized = raw.trim().toLowerCase();
+  if ((FACT_CHECK_MODES as readonly string[]).includes(normalized)) return normalized as FactCheckMode;
+  console.error(`[config] FACT_CHECK_MODE "${raw}" is not one of ${FACT_CHECK_MODES.join(', ')} — using flag.`);
+  return 'flag';
+}
+
+const PRICE_FIELDS = ['input', 'output', 'cacheRead', 'cacheWrite'] as const;
+
+function parseModelPricing(raw: string): Record<string, ModelPrice> {
+  const pricing = { ...DEFAULT_MODEL_PRICING };
+  if (!raw) return pricing;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.error('[config] LLM_PRICING is not valid JSON — using the built-in price table.');
+    return pricing;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    console.error('[config] LLM_PRICING must be a JSON object — using the built-in price table.');
+    return pricing;
+  }
+  for (const [model, value] of Object.entries(parsed as Record<string, unknown>)) {
+    const entry = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    if (typeof entry.input !== 'number' || typeof entry.output !== 'number') {
+      console.error(`[config] LLM_PRICING: "${model}" needs numeric "input" and "output" — skipped.`);
+      continue;
+    }
+    // Cache prices default to Anthropic's usual multipliers of the input price
+    const price: ModelPrice = { input: entry.input, output: entry.output, cacheRead: entry.input * 0.1, cacheWrite: entry.input * 1.25 };
+    for (const field of PRICE_FIELDS) {
+      if (typeof entry[field] === 'number') price[field] = entry[field] as number;
+    }
+    pricing[model] = price;
+  }
+  return pricing;
+}
+
+const TOOL_PERMISSIONS: readonly ToolPermission[] = ['allow', 'deny', 'confirm'];
+
+function parseToolPolicy(raw: string): Record<string, ToolPermission> {
+  const policy = { ...DEFAULT_TOOL_POLICY };
+  if (!raw) return policy;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.error('[config] TOOL_POLICY is not valid JSON — using the built-in tool policy.');
+    return policy;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    console.error('[config] TOOL_POLICY must be a JSON object — using the built-in tool policy.');
+    return policy;
+  }
+  for (const [tool, value] of Object.entries(parsed as Record<string, unknown>)) {
+    const permission = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (!(TOOL_PERMISSIONS as readonly string[]).includes(permission)) {
+      console.error(`[config] TOOL_POLICY: "${tool}" must be one of ${TOOL_PERMISSIONS.join(', ')} — skipped.`);
+      continue;
+    }
+    policy[tool] = permission as ToolPermission;
+  }
+  return policy;
+}
+
+const BINDING_STRING_FIELDS = [
+  'campaignName', 'campaignGroup', 'campaignWikiCard', 'gmIdentifier', 'discordAdviceWebhookUrl', 'sessionEndTime',
+  'triggerRulesPath', 'triggerRulesCard',
+] as const;
+
+function parseSessionCampaigns(raw: string): SessionCampaignBinding[] {
+  if (!raw) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.error('[config] SESSION_CAMPAIGNS is not valid JSON — running a single pipeline.');
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    console.error('[config] SESSION_CAMPAIGNS must be a JSON array — running a single pipeline.');
+    return [];
+  }
+
+  const bindings: SessionCampaignBinding[] = [];
+  const ids = new Set<string>();
+  for (const item of parsed) {
+    const entry = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    if (typeof entry.guildId !== 'string' || !entry.guildId) {
+      console.error('[config] SESSION_CAMPAIGNS entry without a "guildId" skipped.');
+      continue;
+    }
+    const id = typeof entry.id === 'string' && entry.id ? entry.id : entry.guildId;
+    if (ids.has(id)) {
+      console.error(`[config] SESSION_CAMPAIGNS: duplicate id "${id}" skipped.`);
+      continue;
+    }
+    ids.add(id);
+
+    const binding: SessionCampaignBinding = { id, guildId: entry.guildId };
+    for (const field of BINDING_STRING_FIELDS) {
+      if (typeof entry[field] === 'string') binding[field] = entry[field] as string;
+    }
+    if (typeof entry.userMappings === 'object' && entry.userMappings !== null && !Array.isArray(entry.userMappings)) {
+      binding.userMappings = entry.userMappings as Record<string, string>;
+    }
+    bindings.push(binding);
+  }
+  return bindings;
+}
+
+/**
+ * Config for one pipeline: the top-level config with a binding's campaign,
+ * GM, delivery target and guild filter applied. Persistence, feedback and
+ * story carry-over get per-binding files so pipelines never share snapshots,
+ * learned ratings or campaign threads.
+ */
+export function configForBinding(base: GmConfig, binding: SessionCampaignBinding): GmConfig {
+  const safeId = binding.id.replace(/[^\w-]/g, '_');
+  const perBinding = (filePath: string) => {
+    const ext = path.extname(filePath);
+    return `${ext ? filePath.slice(0, -ext.length) : filePath}.${safeId}${ext}`;
+  };
+  return {
+    ...base,
+    campaignName: binding.campaignName ?? base.campaignName,
+    campaignGroup: binding.campaignGroup ?? base.campaignGroup,
+    campaignWikiCard: binding.campaignWikiCard ?? base.campaignWikiCard,
+    gmIdentifier: binding.gmIdentifier ?? base.gmIdentifier,
+    discordAdviceWebhookUrl: binding.discordAdviceWebhookUrl ?? base.discordAdviceWebhookUrl,
+    sessionEndTime: binding.sessionEndTime ?? base.sessionEndTime,
+    userMappings: binding.userMappings ?? base.userMappings,
+    triggerRulesPath: binding.triggerRulesPath ?? base.triggerRulesPath,
+    triggerRulesCard: binding.triggerRulesCard ?? base.triggerRulesCard,
+    statePersistencePath: perBinding(base.statePersistencePath),
+    feedbackPath: base.feedbackPath ? perBinding(base.feedbackPath) : '',
+    storyCarryoverPath: base.storyCarryoverPath ? perBinding(base.storyCarryoverPath) : '',
+    targetGuildId: binding.guildId,
+    sessionCampaigns: [binding],
+  };
+}
+
 function parseInt10(raw: string | undefined, fallback: number): number {
   if (!raw) return fallback;
   const n = parseInt(raw, 10);
   return Number.isFinite(n) ? n : fallback;
 }
 
+function parseNumber(raw: string | undefined, fallback: number): number {
+  if (!raw) return fallback;
+  const n = parseFloat(raw);
+  return Number.isFinite(n) ? n : fallback;
+}
+
 function parseBoolean(raw: string | undefined, fallback: boolean): boolean {
   if (raw === undefined) return fallback;
   const normalized = raw.trim().toLowerCase();
@@ -136,12 +458,16 @@ export function getConfig(): GmConfig {
   const discordMcpToken = process.env.DISCORD_MCP_TOKEN ?? '';
   const foundryMcpToken = process.env.FOUNDRY_MCP_TOKEN ?? '';
   const wikiMcpToken = process.env.WIKI_MCP_TOKEN ?? '';
+  const controlApiToken = process.env.CONTROL_API_TOKEN ?? '';
+  const openaiCompatApiKey = process.env.OPENAI_COMPAT_API_KEY ?? '';
 
   // Register secrets for log redaction
   if (anthropicApiKey) registerSecret(anthropicApiKey);
   if (discordMcpToken) registerSecret(discordMcpToken);
   if (foundryMcpToken) registerSecret(foundryMcpToken);
   if (wikiMcpToken) registerSecret(wikiMcpToken);
+  if (controlApiToken) registerSecret(controlApiToken);
+  if (openaiCompatApiKey) registerSecret(openaiCompatApiKey);
 
   const wikiMcpUrl = process.env.WIKI_MCP_URL ?? '';
   if (!wikiMcpUrl) {
@@ -151,6 +477,13 @@ export function getConfig(): GmConfig {
   _config = {
     anthropicApiKey,
     anthropicModel: process.env.ANTHROPIC_MODEL ?? 'claude-sonnet-4-5-20250929',
+    llmProvider: parseLlmProvider(process.env.LLM_PROVIDER),
+    openaiCompatBaseUrl: process.env.OPENAI_COMPAT_BASE_URL ?? 'http://127.0.0.1:11434/v1',
+    openaiCompatApiKey,
+    openaiCompatModel: process.env.OPENAI_COMPAT_MODEL ?? 'llama3.1:8b',
+    llmMockScriptPath: process.env.LLM_MOCK_SCRIPT ?? '',
+    llmPricing: parseModelPricing(process.env.LLM_PRICING ?? ''),
+    sessionBudgetUsd: Math.max(0, parseNumber(process.env.SESSION_BUDGET_USD, 0)),
 
     discordMcpUrl: process.env.DISCORD_MCP_URL ?? 'http://127.0.0.1:3001',
     foundryMcpUrl: process.env.FOUNDRY_MCP_URL ?? 'http://127.0.0.1:3002',
@@ -160,6 +493,9 @@ export function getConfig(): GmConfig {
     foundryMcpToken,
     wikiMcpToken,
 
+    mcpSubscriptionsEnabled: parseBoolean(process.env.MCP_SUBSCRIPTIONS_ENABLED, true),
+    mcpSubscriptionPollSeconds: parseInt10(process.env.MCP_SUBSCRIPTION_POLL_SECONDS, 60),
+
     discordAdviceWebhookUrl: process.env.DISCORD_ADVICE_WEBHOOK_URL ?? '',
 
     // Timing / triggers
@@ -170,6 +506,9 @@ export function getConfig(): GmConfig {
     sleepSilenceMinutes: parseInt10(process.env.SLEEP_SILENCE_MINUTES, 15),
     transcriptWindowMinutes: parseInt10(process.env.TRANSCRIPT_WINDOW_MINUTES, 20),
     finalSegmentsOnly: parseBoolean(process.env.FINAL_SEGMENTS_ONLY, true),
+    flowingRpMinSegments: parseInt10(process.env.FLOWING_RP_MIN_SEGMENTS, 4),
+    flowingRpMinSpeakers: parseInt10(process.env.FLOWING_RP_MIN_SPEAKERS, 2),
+    flowingRpWindowSeconds: parseInt10(process.env.FLOWING_RP_WINDOW_SECONDS, 60),
 
     // v3 timing / triggers
     sessionEndTime: process.env.SESSION_END_TIME ?? '',
@@ -182,12 +521,26 @@ export function getConfig(): GmConfig {
     hesitationSilenceSeconds: parseInt10(process.env.HESITATION_SILENCE_SECONDS, 15),
     hesitationKeywords: parseStringArray(process.env.HESITATION_KEYWORDS, DEFAULT_HESITATION_KEYWORDS),
     maxGapTriggersPerSession: parseInt10(process.env.MAX_GAP_TRIGGERS_PER_SESSION, 5),
+    spotlightTrackingEnabled: parseBoolean(process.env.SPOTLIGHT_TRACKING_ENABLED, true),
+    spotlightWindowMinutes: parseInt10(process.env.SPOTLIGHT_WINDOW_MINUTES, 20),
+    spotlightQuietMinutes: parseInt10(process.env.SPOTLIGHT_QUIET_MINUTES, 15),
+    spotlightMinWords: parseInt10(process.env.SPOTLIGHT_MIN_WORDS, 4),
+    engagementTrackingEnabled: parseBoolean(process.env.ENGAGEMENT_TRACKING_ENABLED, true),
+    engagementWindowMinutes: parseInt10(process.env.ENGAGEMENT_WINDOW_MINUTES, 10),
+    engagementDropoutMinutes: parseInt10(process.env.ENGAGEMENT_DROPOUT_MINUTES, 10),
+    engagementHoldMinutes: parseInt10(process.env.ENGAGEMENT_HOLD_MINUTES, 3),
 
     // Context / memory
     maxContextTokens: parseInt10(process.env.MAX_CONTEXT_TOKENS, 20_000),
     adviceMaxTokens: parseInt10(process.env.ADVICE_MAX_TOKENS, 2048),
     adviceMemorySize: parseInt10(process.env.ADVICE_MEMORY_SIZE, 5),
+    adviceDedupSimilarity: Math.min(1, Math.max(0, parseNumber(process.env.ADVICE_DEDUP_SIMILARITY, 0.6))),
+    maxAdvicePerBatch: Math.max(1, parseInt10(process.env.MAX_ADVICE_PER_BATCH, 2)),
     npcCacheMaxBriefWords: parseInt10(process.env.NPC_CACHE_MAX_BRIEF_WORDS, 60),
+    promptCacheEnabled: parseBoolean(process.env.PROMPT_CACHE_ENABLED, true),
+    streamDeliveryCategories: parseStringArray(process.env.STREAM_DELIVERY_CATEGORIES, ['script']),
+    toolPolicy: parseToolPolicy(process.env.TOOL_POLICY ?? ''),
+    factCheckMode: parseFactCheckMode(process.env.FACT_CHECK_MODE),
 
     // Campaign identity (v4: used for wiki discovery)
     campaignName: process.env.CAMPAIGN_NAME ?? '',
@@ -197,16 +550,41 @@ export function getConfig(): GmConfig {
     systemPromptPath: process.env.SYSTEM_PROMPT_PATH ?? './prompts/system.md',
     campaignWikiCard: process.env.CAMPAIGN_WIKI_CARD ?? '',
     sttFuzzyMatchPath: process.env.STT_FUZZY_MATCH_PATH ?? './config/fuzzy-match.json',
+    triggerRulesPath: process.env.TRIGGER_RULES_PATH ?? '',
+    triggerRulesCard: process.env.TRIGGER_RULES_CARD ?? '',
 
     // State persistence (opt-in)
     statePersistenceEnabled: parseBoolean(process.env.STATE_PERSISTENCE_ENABLED, false),
     statePersistencePath: process.env.STATE_PERSISTENCE_PATH ?? './.runtime/gm-state.json',
     statePersistenceMaxAgeMinutes: parseInt10(process.env.STATE_PERSISTENCE_MAX_AGE_MINUTES, 360),
 
+    feedbackPath: process.env.FEEDBACK_PATH ?? './.runtime/gm-feedback.json',
+    feedbackAdaptEnabled: parseBoolean(process.env.FEEDBACK_ADAPT_ENABLED, true),
+    feedbackWindow: parseInt10(process.env.FEEDBACK_WINDOW, 20),
+    feedbackMinRatings: parseInt10(process.env.FEEDBACK_MIN_RATINGS, 5),
+    feedbackSuppressPercent: parseInt10(process.env.FEEDBACK_SUPPRESS_PERCENT, 80),
+    feedbackRaisePercent: parseInt10(process.env.FEEDBACK_RAISE_PERCENT, 50),
+    feedbackMinConfidencePercent: parseInt10(process.env.FEEDBACK_MIN_CONFIDENCE_PERCENT, 70),
+
+    storyCarryoverPath: process.env.STORY_CARRYOVER_PATH ?? './.runtime/story-carryover.json',
+
+    recordingEnabled: parseBoolean(process.env.RECORDING_ENABLED, false),
+    recordingDir: process.env.RECORDING_DIR ?? './.runtime/recordings',
+
+    controlApiEnabled: parseBoolean(process.env.CONTROL_API_ENABLED, false),
+    controlApiHost: process.env.CONTROL_API_HOST ?? '127.0.0.1',
+    controlApiPort: parseInt10(process.env.CONTROL_API_PORT, 3100),
+    controlApiToken,
+    controlApiRecentEnvelopes: parseInt10(process.env.CONTROL_API_RECENT_ENVELOPES, 20),
+    metricsEnabled: parseBoolean(process.env.METRICS_ENABLED, true),
+    metricsHost: process.env.METRICS_HOST ?? '127.0.0.1',
+    metricsPort: parseInt10(process.env.METRICS_PORT, 9464),
+
     dryRun: parseBoolean(process.env.DRY_RUN, false),
 
     userMappings: parseUserMappings(process.env.USER_MAPPINGS ?? ''),
     targetGuildId: process.env.TARGET_GUILD_ID ?? '',
+    sessionCampaigns: parseSessionCampaigns(process.env.SESSION_CAMPAIGNS ?? ''),
     gmIdentifier: process.env.GM_IDENTIFIER ?? '',
   };
 
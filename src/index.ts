@@ -14,94 +14,57 @@
  * - Wiki discovery: auto-discover session plan, fuzzy table, NPC links from wiki tags
  * - Readiness report: structured startup status log
  * - CAMPAIGN_NAME + CAMPAIGN_GROUP replace manual CAMPAIGN_WIKI_CARD for discovery
+ *
+ * Startup and process lifecycle live here; per-session orchestration (polling,
+ * trigger routing, GM commands, caches) lives in SessionController.
+ *
+ * Crash recovery (STATE_PERSISTENCE_ENABLED):
+ * - Session state snapshotted every 30s and on shutdown; restored on restart
+ *   when the snapshot matches the active Discord session and is fresh enough
+ *
+ * Control API (CONTROL_API_ENABLED):
+ * - Local HTTP status dashboard + authenticated GM command endpoints
+ *
+ * Metrics (METRICS_ENABLED):
+ * - Prometheus scrape endpoint at GET /metrics on its own listener (METRICS_HOST/PORT)
+ *
+ * Session recording (RECORDING_ENABLED):
+ * - Every MCP read/tool call and LLM exchange archived as JSONL per session
+ *
+ * Multiple tables (SESSION_CAMPAIGNS):
+ * - One independent pipeline per Discord guild, each with its own campaign,
+ *   GM, pacing, memory, caches, triggers and delivery target (session/pipeline.ts)
  */
 
 import { config as dotenvConfig } from 'dotenv';
 dotenvConfig();
 
-import { getConfig } from './config.js';
+import { getConfig, configForBinding } from './config.js';
 import { logger } from './logger.js';
 import { McpAggregator } from './mcp/client.js';
-import { PacingStateManager } from './state/pacing.js';
-import { AdviceMemoryBuffer } from './state/advice-memory.js';
-import { TriggerDetector, loadFuzzyMatchTable } from './reasoning/triggers.js';
-import { ReasoningEngine } from './reasoning/engine.js';
-import { extractMcpText } from './reasoning/context.js';
-import { runWikiDiscovery, formatReadinessReport, type DiscoveryReport } from './discovery/wiki-bootstrap.js';
-import { NpcCacheBuilder } from './reasoning/npc-cache.js';
-import { SceneIndexBuilder } from './reasoning/scene-index.js';
-import { BeatCacheBuilder } from './reasoning/beat-cache.js';
-import { WhisperStager } from './reasoning/whisper-stage.js';
-import { AdviceDelivery } from './output/index.js';
-import { ImageQueue } from './output/image-queue.js';
-import { parseGmCommand } from './state/gm-commands.js';
-import { createSessionStats, type SessionStats } from './qa/session-stats.js';
-import { runPostSessionQa, formatQaReport } from './qa/post-session.js';
-import { AssistantState, TriggerPriority } from './types/index.js';
-import type { ActivationSource, NpcCacheEntry, SceneIndexEntry, BeatReminderEntry, WhisperStageEntry } from './types/index.js';
-import type { FuzzyMatchTable } from './reasoning/triggers.js';
+import { SessionRecorder } from './mcp/recorder.js';
+import { createSessionPipeline, DEFAULT_PIPELINE_ID, type SessionPipeline } from './session/pipeline.js';
+import { ControlServer } from './api/control-server.js';
+import { AssistantMetrics } from './metrics/index.js';
+import { MetricsServer } from './metrics/server.js';
+import { configuredModel } from './llm/index.js';
 
 const config = getConfig();
 
 // ── Core components ────────────────────────────────────────────────────────
 
 const mcp = new McpAggregator();
-const pacing = new PacingStateManager();
-const memory = new AdviceMemoryBuffer(config.adviceMemorySize);
-const imageQueue = new ImageQueue();
-
-let triggers: TriggerDetector | null = null;
-let engine: ReasoningEngine | null = null;
-let delivery: AdviceDelivery | null = null;
-
-// v3: Cache state
-let npcCache: NpcCacheEntry[] = [];
-let sceneIndex: SceneIndexEntry[] = [];
-let beatCache: BeatReminderEntry[] = [];
-let whisperStage: WhisperStageEntry[] = [];
-let activationBuildInProgress = false;
-
-// v4: Wiki discovery state
-let discoveredPlanCard: string | null = null;
-let discoveredBeatCards: string[] = [];
-let lastDiscoveryReport: DiscoveryReport | null = null;
-let currentFuzzyTable: FuzzyMatchTable = {};
-
-// v4: Session stats (for post-session QA)
-let sessionStats: SessionStats = createSessionStats();
-
-// v4: GM notes buffer (injected into reasoning context)
-const MAX_GM_NOTES = 10;
-interface GmNoteEntry { text: string; timestamp: string }
-let gmNotes: GmNoteEntry[] = [];
-
-// ── Polling state ──────────────────────────────────────────────────────────
-
-let sessionWatchTimer: ReturnType<typeof setInterval> | null = null;
-let transcriptPollTimer: ReturnType<typeof setInterval> | null = null;
-let gameStatePollTimer: ReturnType<typeof setInterval> | null = null;
-let pacingUpdateTimer: ReturnType<typeof setInterval> | null = null;
-let sessionActive = false;
-let lastTranscriptRowId = 0;
-let lastSessionId: string | null = null;
-let lastSceneId: string | null = null;
-let lastSeenChatMsgId: string | null = null;
-let transcriptPollInFlight = false;
-let gameStatePollInFlight = false;
-let lastTextEventId = 0;
-let sessionJustChanged = false;
-
-// Local transcript cache — ring buffer of recent segments
-const TRANSCRIPT_CACHE_SIZE = 500;
-interface CachedSegment {
-  rowId: number;
-  text: string;
-  userId?: string;
-  displayName?: string;
-  speakerLabel?: string;
-  timestamp: string;
+const metrics = new AssistantMetrics();
+mcp.setMetrics(metrics);
+// The recorder archives one session at a time, so it only runs with a single pipeline
+if (config.recordingEnabled && config.sessionCampaigns.length <= 1) {
+  mcp.setRecorder(new SessionRecorder(config.recordingDir, configuredModel(config)));
 }
-const transcriptCache: CachedSegment[] = [];
+
+// Created in main() once MCP is connected and discovery has run
+const pipelines: SessionPipeline[] = [];
+let controlServer: ControlServer | null = null;
+let metricsServer: MetricsServer | null = null;
 
 // ── Graceful shutdown ──────────────────────────────────────────────────────
 
@@ -114,16 +77,11 @@ async function gracefulShutdown(signal: string): Promise<void> {
   logger.info(`Received ${signal} — starting graceful shutdown...`);
 
   try {
-    if (sessionWatchTimer) clearInterval(sessionWatchTimer);
-    if (transcriptPollTimer) clearInterval(transcriptPollTimer);
-    if (gameStatePollTimer) clearInterval(gameStatePollTimer);
-    if (pacingUpdateTimer) clearInterval(pacingUpdateTimer);
-    sessionWatchTimer = null;
-    transcriptPollTimer = null;
-    gameStatePollTimer = null;
-    pacingUpdateTimer = null;
-
-    if (triggers) triggers.stop();
+    // Stops all loops and writes a final crash-recovery snapshot
+    for (const pipeline of pipelines) pipeline.controller.shutdown();
+    await mcp.stopRecording(); // flush the session archive
+    if (controlServer) await controlServer.stop();
+    if (metricsServer) await metricsServer.stop();
     await mcp.disconnect();
     logger.info('Shutdown complete. Goodbye.');
   } catch (err) {
@@ -145,934 +103,6 @@ process.on('uncaughtException', (err) => {
   gracefulShutdown('uncaughtException');
 });
 
-// ── Session lifecycle ─────────────────────────────────────────────────────
-
-/**
- * Start all work loops when a Discord session is detected.
- * Called from pollForSession() when session://active returns an active session.
- */
-function startSessionLoops(): void {
-  if (sessionActive) return;
-  sessionActive = true;
-
-  // Stop the session-watch poll
-  if (sessionWatchTimer) {
-    clearInterval(sessionWatchTimer);
-    sessionWatchTimer = null;
-  }
-
-  // Reset state for the new session
-  pacing.startSession();
-  memory.clear();
-  transcriptCache.length = 0;
-  lastTranscriptRowId = 0;
-  lastSessionId = null;
-  lastSceneId = null;
-  lastSeenChatMsgId = null;
-  lastTextEventId = 0;
-  sessionJustChanged = false;
-  npcCache = [];
-  sceneIndex = [];
-  gmNotes = [];
-  sessionStats = createSessionStats();
-  sessionStats.sessionStartedAt = new Date().toISOString();
-
-  if (engine) engine.setGmNotes([]);
-  if (triggers) {
-    triggers.resetSession();
-    triggers.start();
-  }
-
-  // Start work timers
-  transcriptPollTimer = setInterval(() => {
-    pollTranscript().catch(err => logger.debug('Transcript poll error:', err));
-  }, 10_000);
-
-  gameStatePollTimer = setInterval(() => {
-    pollGameState().catch(err => logger.debug('Game state poll error:', err));
-  }, 10_000);
-
-  pacingUpdateTimer = setInterval(() => {
-    pacing.updateElapsed();
-    if (triggers) {
-      triggers.checkPacingOverrun(config.sceneOverrunThresholdMinutes);
-    }
-  }, 30_000);
-
-  // Immediate first poll — don't wait 10s
-  pollTranscript().catch(err => logger.debug('Transcript poll error:', err));
-  pollGameState().catch(err => logger.debug('Game state poll error:', err));
-
-  logger.info(`Session detected — monitoring for triggers (${pacing.assistantState})`);
-}
-
-/**
- * Stop all work loops when the Discord session ends.
- * Called from pollTranscript() when no active session is found.
- * v4: Runs post-session QA before resetting state.
- */
-async function stopSessionLoops(): Promise<void> {
-  if (!sessionActive) return;
-  sessionActive = false;
-
-  // Stop work timers
-  if (transcriptPollTimer) { clearInterval(transcriptPollTimer); transcriptPollTimer = null; }
-  if (gameStatePollTimer) { clearInterval(gameStatePollTimer); gameStatePollTimer = null; }
-  if (pacingUpdateTimer) { clearInterval(pacingUpdateTimer); pacingUpdateTimer = null; }
-
-  if (triggers) triggers.stop();
-
-  // v4: Run post-session QA before resetting state
-  try {
-    const phoneticDiscoveries = triggers ? triggers.getPhoneticDiscoveries() : [];
-    const qaReport = await runPostSessionQa(
-      mcp,
-      transcriptCache.map(s => ({
-        text: s.text,
-        userId: s.userId,
-        displayName: s.displayName,
-        speakerLabel: s.speakerLabel,
-        timestamp: s.timestamp,
-      })),
-      sessionStats,
-      currentFuzzyTable,
-      phoneticDiscoveries,
-    );
-
-    // Merge persisted delta into in-memory fuzzy table so next session won't re-persist
-    if (qaReport.fuzzyTablePersisted && Object.keys(qaReport.fuzzyTableDelta).length > 0) {
-      for (const [key, value] of Object.entries(qaReport.fuzzyTableDelta)) {
-        currentFuzzyTable[key] = value;
-      }
-      logger.info(`PostSessionQA: merged ${Object.keys(qaReport.fuzzyTableDelta).length} new entries into in-memory fuzzy table`);
-    }
-
-    // Post QA summary to Discord + Foundry
-    if (delivery) {
-      const summary = formatQaReport(qaReport);
-      await delivery.postSystemMessage(summary);
-    }
-  } catch (err) {
-    logger.error('Post-session QA failed:', err);
-  }
-
-  // Reset state
-  transcriptCache.length = 0;
-  lastTranscriptRowId = 0;
-  lastSessionId = null;
-  lastSceneId = null;
-  lastSeenChatMsgId = null;
-  lastTextEventId = 0;
-  npcCache = [];
-  sceneIndex = [];
-  pacing.startSession(); // resets to PREGAME
-
-  // Resume session-watch
-  sessionWatchTimer = setInterval(() => {
-    pollForSession().catch(err => logger.debug('Session watch error:', err));
-  }, 30_000);
-
-  logger.info('Session ended — returning to standby');
-}
-
-/**
- * Lightweight poll: check Discord for an active session.
- * Runs every 30s during standby. Triggers startSessionLoops() on detection.
- */
-async function pollForSession(): Promise<void> {
-  if (!mcp.isConnected('discord')) return;
-  try {
-    const sessionRaw = await mcp.readResource('discord', 'session://active');
-    if (!sessionRaw) return;
-    const session = JSON.parse(sessionRaw);
-    if (!session.active || !session.sessions?.length) return;
-
-    // Session found — check guild match if configured
-    const sessions = session.sessions as Array<{ id: string; guildId?: string }>;
-    const targetGuild = config.targetGuildId;
-    if (targetGuild) {
-      const match = sessions.find((s: { id: string; guildId?: string }) => s.guildId === targetGuild);
-      if (!match) return;
-    }
-
-    startSessionLoops();
-  } catch {
-    // Discord may be temporarily unavailable — silently retry next cycle
-  }
-}
-
-// ── v4: Delivery stats tracking ───────────────────────────────────────────
-
-function trackDelivery(channel: 'foundry' | 'discord' | 'none'): void {
-  if (channel === 'none') return;
-  sessionStats.adviceDelivered++;
-  if (channel === 'foundry') sessionStats.adviceViaFoundry++;
-  else if (channel === 'discord') sessionStats.adviceViaDiscord++;
-}
-
-// ── v4: GM notes ──────────────────────────────────────────────────────────
-
-function addGmNote(text: string, timestamp: string): void {
-  gmNotes.push({ text, timestamp });
-  if (gmNotes.length > MAX_GM_NOTES) {
-    gmNotes.splice(0, gmNotes.length - MAX_GM_NOTES);
-  }
-  if (engine) engine.setGmNotes([...gmNotes]);
-  logger.info(`GM note added: "${text.slice(0, 100)}${text.length > 100 ? '...' : ''}"`);
-}
-
-// ── v3: ACTIVE Initialization ─────────────────────────────────────────────
-
-/**
- * Handle transition to ACTIVE state from any source.
- * Centralizes state transition + async cache build so all activation paths
- * (Foundry scene change, /scene command, /act command, auto-ACTIVE)
- * go through one function.
- */
-async function handleActivation(source: ActivationSource): Promise<void> {
-  const prevState = pacing.assistantState;
-  if (prevState !== AssistantState.PREGAME) {
-    if (prevState === AssistantState.SLEEP) {
-      pacing.transitionTo(AssistantState.ACTIVE);
-      pacing.setActivationSource(source);
-      logger.info(`Orchestrator: SLEEP → ACTIVE (${source})`);
-    }
-    // If caches failed or were never built, rebuild them
-    const cacheMissing = npcCache.length === 0 && sceneIndex.length === 0;
-    const cacheError = pacing.state.npc_cache_status === 'error' || pacing.state.scene_index_status === 'error';
-    const planCard = discoveredPlanCard ?? config.campaignWikiCard;
-    if ((cacheMissing || cacheError) && planCard && !activationBuildInProgress) {
-      logger.info('Orchestrator: rebuilding caches (missing or errored)');
-      activationBuildInProgress = true;
-      buildActivationCaches(planCard).catch(err => {
-        logger.error('Orchestrator: activation cache rebuild failed:', err);
-      }).finally(() => {
-        activationBuildInProgress = false;
-      });
-    }
-    return;
-  }
-
-  // PREGAME → ACTIVE
-  pacing.transitionTo(AssistantState.ACTIVE);
-  pacing.setActivationSource(source);
-  sessionStats.activatedAt = new Date().toISOString();
-  sessionStats.activationSource = source;
-  logger.info(`Orchestrator: PREGAME → ACTIVE (${source})`);
-
-  // Set session end time from config if available
-  if (config.sessionEndTime) {
-    const endTime = parseSessionEndTime(config.sessionEndTime);
-    if (endTime) {
-      pacing.setSessionEndTime(endTime);
-      logger.info(`Orchestrator: session end time set to ${endTime}`);
-    }
-  }
-
-  // Kick off async cache build (non-blocking — P1 triggers still work during build)
-  const episodePlan = discoveredPlanCard ?? config.campaignWikiCard;
-  if (episodePlan && !activationBuildInProgress) {
-    activationBuildInProgress = true;
-    buildActivationCaches(episodePlan).catch(err => {
-      logger.error('Orchestrator: activation cache build failed:', err);
-    }).finally(() => {
-      activationBuildInProgress = false;
-    });
-  }
-}
-
-/**
- * Build NPC pre-cache, scene index, beat cache, and whisper stage from the episode plan.
- * Called asynchronously on ACTIVE transition.
- */
-async function buildActivationCaches(episodePlanCard: string): Promise<void> {
-  logger.info('Orchestrator: building NPC cache, scene index, beat cache, whisper stage...');
-
-  pacing.setNpcCacheStatus('building');
-  pacing.setSceneIndexStatus('building');
-
-  // Build all in parallel
-  const [npcResult, sceneResult, beatResult, whisperResult] = await Promise.allSettled([
-    new NpcCacheBuilder(mcp, config.npcCacheMaxBriefWords).build(episodePlanCard),
-    new SceneIndexBuilder(mcp, config.autoActiveMinTermLength).build(episodePlanCard),
-    new BeatCacheBuilder(mcp).build(discoveredBeatCards),
-    new WhisperStager(mcp).build(discoveredBeatCards),
-  ]);
-
-  // Apply NPC cache
-  if (npcResult.status === 'fulfilled') {
-    npcCache = npcResult.value;
-    pacing.setNpcCacheStatus('ready');
-    pacing.markNpcCacheBuilt();
-    if (triggers) {
-      triggers.setNpcCache(npcCache);
-      // Backfill: scan recent transcript for NPC mentions that arrived
-      // during the async cache build window.
-      const recentSegments = transcriptCache.map(s => ({
-        text: s.text,
-        timestamp: s.timestamp,
-      }));
-      triggers.backfillNpcMentions(recentSegments);
-    }
-    if (engine) engine.setNpcCache(npcCache);
-    logger.info(`Orchestrator: NPC cache ready (${npcCache.length} entries)`);
-  } else {
-    pacing.setNpcCacheStatus('error');
-    logger.error('Orchestrator: NPC cache build failed:', npcResult.reason);
-  }
-
-  // Apply scene index
-  if (sceneResult.status === 'fulfilled') {
-    sceneIndex = sceneResult.value;
-    pacing.setSceneIndexStatus('ready');
-    pacing.markSceneIndexBuilt();
-    if (triggers) triggers.setSceneIndex(sceneIndex);
-    if (engine) engine.setSceneIndex(sceneIndex);
-    logger.info(`Orchestrator: scene index ready (${sceneIndex.length} entries)`);
-  } else {
-    pacing.setSceneIndexStatus('error');
-    logger.error('Orchestrator: scene index build failed:', sceneResult.reason);
-  }
-
-  // v7: Apply beat cache
-  if (beatResult.status === 'fulfilled') {
-    beatCache = beatResult.value;
-    if (triggers) triggers.setBeatCache(beatCache);
-    const withNotes = beatCache.filter(b => b.bullets.length > 0).length;
-    logger.info(`Orchestrator: beat cache ready (${beatCache.length} entries, ${withNotes} with GM Notes)`);
-  } else {
-    logger.error('Orchestrator: beat cache build failed:', beatResult.reason);
-  }
-
-  // v7: Apply whisper stage
-  if (whisperResult.status === 'fulfilled') {
-    whisperStage = whisperResult.value;
-    if (triggers) triggers.setWhisperStage(whisperStage);
-    logger.info(`Orchestrator: whisper stage ready (${whisperStage.length} entries)`);
-  } else {
-    logger.error('Orchestrator: whisper stage build failed:', whisperResult.reason);
-  }
-}
-
-/**
- * Parse a session end time string into ISO 8601.
- * Accepts ISO 8601, "HH:MM", or "H:MM" (interpreted as today or tomorrow).
- */
-function parseSessionEndTime(raw: string): string | null {
-  // Try ISO 8601 first
-  const isoDate = new Date(raw);
-  if (!isNaN(isoDate.getTime()) && raw.includes('-')) {
-    return isoDate.toISOString();
-  }
-
-  // Try HH:MM format
-  const timeMatch = raw.match(/^(\d{1,2}):(\d{2})$/);
-  if (timeMatch) {
-    const hours = parseInt(timeMatch[1], 10);
-    const minutes = parseInt(timeMatch[2], 10);
-    const now = new Date();
-    const target = new Date(now);
-    target.setHours(hours, minutes, 0, 0);
-    // If the target time is in the past, assume tomorrow
-    if (target.getTime() <= now.getTime()) {
-      target.setDate(target.getDate() + 1);
-    }
-    return target.toISOString();
-  }
-
-  logger.warn(`Orchestrator: could not parse SESSION_END_TIME "${raw}"`);
-  return null;
-}
-
-// ── Transcript polling ─────────────────────────────────────────────────────
-
-async function pollTranscript(): Promise<void> {
-  if (!mcp.isConnected('discord')) return;
-  if (transcriptPollInFlight) return;
-  transcriptPollInFlight = true;
-
-  try {
-    // Read active session
-    let sessionId: string | null = null;
-    try {
-      const sessionRaw = await mcp.readResource('discord', 'session://active');
-      if (sessionRaw) {
-        const session = JSON.parse(sessionRaw);
-        if (!session.active || !session.sessions?.length) {
-          if (sessionActive) {
-            await stopSessionLoops();
-          }
-          return;
-        }
-
-        const sessions = session.sessions as Array<{ id: string; guildId?: string }>;
-        const targetGuild = config.targetGuildId;
-        if (targetGuild) {
-          const match = sessions.find(s => s.guildId === targetGuild);
-          sessionId = match?.id ?? null;
-        } else {
-          if (sessions.length > 1) {
-            logger.warn(`Transcript poll: ${sessions.length} active sessions — set TARGET_GUILD_ID`);
-          }
-          sessionId = sessions[0].id ?? null;
-        }
-      }
-    } catch {
-      return;
-    }
-
-    if (!sessionId) {
-      if (sessionActive) {
-        await stopSessionLoops();
-      }
-      return;
-    }
-
-    // Reset on session change — skip trigger feeding on first poll to avoid replaying history
-    if (sessionId !== lastSessionId) {
-      logger.info(`Transcript poll: session changed (${lastSessionId} → ${sessionId})`);
-      lastTranscriptRowId = 0;
-      transcriptCache.length = 0;
-      lastSessionId = sessionId;
-      sessionJustChanged = true;
-    }
-
-    const raw = await mcp.readResource('discord', `session://${sessionId}/transcript`);
-    if (!raw) return;
-
-    const rawSegments = JSON.parse(raw) as Array<{
-      id: number;
-      transcript: string;
-      segmentStart: string;
-      userId?: string;
-      displayName?: string;
-      speakerLabel?: string;
-      isFinal?: boolean;
-    }>;
-    if (rawSegments.length === 0) return;
-
-    // Client-side incremental: new vs updated
-    const newSegments: typeof rawSegments = [];
-    const updatedSegments: typeof rawSegments = [];
-    for (const seg of rawSegments) {
-      if (seg.id > lastTranscriptRowId) {
-        newSegments.push(seg);
-      } else {
-        const cached = transcriptCache.find(c => c.rowId === seg.id);
-        if (cached && cached.text !== seg.transcript) {
-          updatedSegments.push(seg);
-        }
-      }
-    }
-
-    // Apply in-place updates and re-feed newly-finalized segments to triggers
-    const newlyFinalized: typeof rawSegments = [];
-    for (const updated of updatedSegments) {
-      const idx = transcriptCache.findIndex(c => c.rowId === updated.id);
-      if (idx >= 0) {
-        transcriptCache[idx].text = updated.transcript;
-        if (updated.displayName) {
-          transcriptCache[idx].displayName = updated.displayName;
-        }
-        if (updated.isFinal) {
-          newlyFinalized.push(updated);
-        }
-      }
-    }
-    if (triggers && newlyFinalized.length > 0) {
-      const forTrigger = newlyFinalized.map(s => ({
-        text: s.transcript,
-        userId: s.userId,
-        displayName: s.displayName,
-        speakerLabel: s.speakerLabel,
-        timestamp: s.segmentStart,
-      }));
-      triggers.onTranscriptUpdate(forTrigger);
-    }
-
-    // Update cursor
-    if (newSegments.length > 0) {
-      const maxId = Math.max(...newSegments.map(s => s.id));
-      if (maxId > lastTranscriptRowId) {
-        lastTranscriptRowId = maxId;
-      }
-    }
-
-    // Cache new segments
-    const mapped: CachedSegment[] = newSegments.map(s => ({
-      rowId: s.id,
-      text: s.transcript,
-      userId: s.userId,
-      displayName: s.displayName,
-      speakerLabel: s.speakerLabel,
-      timestamp: s.segmentStart,
-    }));
-
-    if (mapped.length > 0) {
-      transcriptCache.push(...mapped);
-      if (transcriptCache.length > TRANSCRIPT_CACHE_SIZE) {
-        transcriptCache.splice(0, transcriptCache.length - TRANSCRIPT_CACHE_SIZE);
-      }
-
-      // v4: Accumulate real-time transcript stats (survives ring buffer eviction)
-      for (const seg of mapped) {
-        sessionStats.totalSegmentCount++;
-        const speaker = seg.displayName ?? seg.speakerLabel ?? seg.userId ?? 'unknown';
-        sessionStats.speakerDistribution[speaker] = (sessionStats.speakerDistribution[speaker] ?? 0) + 1;
-      }
-
-      if (sessionJustChanged) {
-        sessionJustChanged = false;
-        logger.info(`Transcript poll: seeded ${mapped.length} historical segments (triggers skipped)`);
-      } else {
-        const finalOnly = config.finalSegmentsOnly;
-        const toDetect = finalOnly
-          ? newSegments.filter(s => s.isFinal)
-          : newSegments;
-
-        if (triggers && toDetect.length > 0) {
-          const forTrigger = toDetect.map(s => ({
-            text: s.transcript,
-            userId: s.userId,
-            displayName: s.displayName,
-            speakerLabel: s.speakerLabel,
-            timestamp: s.segmentStart,
-          }));
-          triggers.onTranscriptUpdate(forTrigger);
-        }
-      }
-    }
-    // Text events polling (image queue, GM commands, @magi notes)
-    if (lastSessionId) {
-      try {
-        const textRaw = await mcp.readResource('discord', `session://${lastSessionId}/text-events`);
-        if (textRaw) {
-          const textEvents = JSON.parse(textRaw) as Array<{
-            id?: number;
-            content?: string;
-            eventType?: string;
-            authorId?: string;
-            authorName?: string;
-          }>;
-          const gmId = config.gmIdentifier?.toLowerCase();
-          for (const evt of textEvents) {
-            const evtId = evt.id ?? 0;
-            if (evtId <= lastTextEventId) continue;
-            lastTextEventId = evtId;
-
-            if (evt.eventType !== 'create') continue;
-            const rawContent = evt.content?.trim() ?? '';
-            const contentLower = rawContent.toLowerCase();
-
-            // Image queue confirmation (GM-only not enforced — low risk)
-            if (contentLower === '/yes' && imageQueue.hasPending()) {
-              const suggestion = imageQueue.confirm();
-              if (suggestion && mcp.isConnected('discord')) {
-                try {
-                  await mcp.callTool('discord__post_image', {
-                    imageUrl: `http://localhost:30000/${suggestion.path}`,
-                    caption: suggestion.description,
-                    channelId: suggestion.post_to || undefined,
-                  });
-                  logger.info(`Image posted: ${suggestion.path}`);
-                } catch (err) {
-                  logger.warn('Failed to post image:', err);
-                }
-              }
-            } else if (contentLower === '/no' && imageQueue.hasPending()) {
-              imageQueue.reject();
-            }
-
-            // GM commands from Discord text (/plan, /note, @magi, etc.)
-            // Filter: only accept from GM if gmIdentifier is configured and author info is available
-            const cmd = parseGmCommand(rawContent, new Date().toISOString());
-            if (cmd) {
-              const evtAuthorId = evt.authorId?.toLowerCase();
-              const evtAuthorName = evt.authorName?.toLowerCase();
-              // v6: Fixed identity check — missing author info now rejects (not accepts)
-              const isGm = !gmId
-                || evtAuthorId === gmId
-                || evtAuthorName === gmId;
-              if (!isGm) {
-                logger.debug(`Discord text: ignoring command from non-GM "${evtAuthorName ?? evtAuthorId ?? 'unknown'}"`);
-              } else {
-                logger.info(`GM command received: ${cmd.type} from ${evtAuthorName ?? evtAuthorId ?? 'unknown'}`);
-                applyGmCommand(cmd);
-              }
-            }
-          }
-        }
-      } catch (textErr) {
-        logger.warn('Text event poll error (non-fatal):', textErr);
-      }
-    }
-  } catch (err) {
-    logger.warn('Transcript poll error:', err);
-  } finally {
-    transcriptPollInFlight = false;
-  }
-}
-
-// ── Game state polling ─────────────────────────────────────────────────────
-
-async function pollGameState(): Promise<void> {
-  if (!mcp.isConnected('foundry') || !triggers) return;
-  if (gameStatePollInFlight) return;
-  gameStatePollInFlight = true;
-
-  try {
-    const raw = await mcp.readResource('foundry', 'game://state');
-    if (!raw) return;
-
-    const state = JSON.parse(raw);
-
-    if (state.connectedAt === null) {
-      lastSceneId = null;
-      lastSeenChatMsgId = null;
-      return;
-    }
-
-    // Detect scene changes → trigger P2
-    const sceneId = state.scene?.id ?? null;
-    if (sceneId !== lastSceneId && lastSceneId !== null) {
-      triggers.onGameEvent('sceneChange', {
-        sceneId,
-        sceneName: state.scene?.name ?? '',
-      });
-    }
-    lastSceneId = sceneId;
-
-    // Parse GM commands from new Foundry chat messages (GM-only)
-    const chat = state.recentChat as Array<{
-      id?: string;
-      content?: string;
-      speakerAlias?: string;
-      isGm?: boolean;
-      timestamp?: string;
-    }>;
-    if (chat.length > 0) {
-      if (!lastSeenChatMsgId) {
-        lastSeenChatMsgId = chat[chat.length - 1].id ?? null;
-      } else {
-        const lastIdx = chat.findIndex(m => m.id === lastSeenChatMsgId);
-        if (lastIdx >= 0) {
-          const newMessages = chat.slice(lastIdx + 1);
-          for (const msg of newMessages) {
-            if (msg.content && msg.isGm === true) {
-              const cmd = parseGmCommand(msg.content, msg.timestamp ?? new Date().toISOString());
-              if (cmd) {
-                applyGmCommand(cmd);
-              }
-            }
-          }
-        }
-        lastSeenChatMsgId = chat[chat.length - 1].id ?? lastSeenChatMsgId;
-      }
-    }
-  } catch (err) {
-    logger.debug('Foundry game state poll error (non-fatal):', err);
-  } finally {
-    gameStatePollInFlight = false;
-  }
-}
-
-// ── GM Command Application ─────────────────────────────────────────────────
-
-function applyGmCommand(cmd: import('./types/index.js').GmCommand): void {
-  logger.info(`GM command: ${cmd.raw}`);
-
-  switch (cmd.type) {
-    case 'act': {
-      const actNum = parseInt(cmd.args[0], 10);
-      const planned = parseInt(cmd.args[1], 10) || 0;
-      if (Number.isFinite(actNum)) {
-        pacing.advanceAct(actNum, planned);
-        if (pacing.assistantState === AssistantState.PREGAME) {
-          handleActivation('command');
-        }
-      }
-      break;
-    }
-    case 'scene': {
-      let sceneName: string;
-      let planned = 0;
-      const lastArg = cmd.args[cmd.args.length - 1];
-      if (cmd.args.length > 1 && /^\d+$/.test(lastArg)) {
-        planned = parseInt(lastArg, 10);
-        sceneName = cmd.args.slice(0, -1).join(' ');
-      } else {
-        sceneName = cmd.args.join(' ');
-      }
-      pacing.advanceScene(sceneName, planned);
-      if (pacing.assistantState === AssistantState.PREGAME) {
-        handleActivation('command');
-      }
-      break;
-    }
-    case 'spotlight': {
-      const player = cmd.args[0];
-      const debt = parseInt(cmd.args[1], 10) || 0;
-      if (player) pacing.setSpotlight(player, debt);
-      break;
-    }
-    case 'engagement': {
-      const player = cmd.args[0];
-      const level = cmd.args[1]?.toUpperCase() as 'HIGH' | 'MEDIUM' | 'LOW';
-      if (player && level) pacing.setEngagement(player, level);
-      break;
-    }
-    case 'separation': {
-      const status = cmd.args[0]?.toUpperCase() as 'NORMAL' | 'SPLIT' | 'CRITICAL';
-      if (status) pacing.setSeparation(status);
-      break;
-    }
-    case 'climax': {
-      const proximity = cmd.args[0]?.toUpperCase() as 'NORMAL' | 'APPROACHING' | 'ESCALATING' | 'CLIMAX';
-      if (proximity) pacing.setClimaxProximity(proximity);
-      break;
-    }
-    case 'seed': {
-      const seedName = cmd.args.join(' ');
-      if (seedName) pacing.addSeed(seedName, pacing.state.current_scene);
-      break;
-    }
-    case 'sleep':
-      pacing.transitionTo(AssistantState.SLEEP);
-      logger.info('GM command: ACTIVE → SLEEP');
-      break;
-    case 'wake':
-      handleActivation('command');
-      logger.info('GM command: → ACTIVE');
-      break;
-
-    // v3 commands
-    case 'endtime': {
-      const timeStr = cmd.args.join(' ');
-      if (timeStr) {
-        const endTime = parseSessionEndTime(timeStr);
-        if (endTime) {
-          pacing.setSessionEndTime(endTime);
-          logger.info(`GM command: session end time set to ${endTime}`);
-        }
-      }
-      break;
-    }
-    case 'npc': {
-      const subcommand = cmd.args[0]?.toLowerCase();
-      const npcPlanCard = discoveredPlanCard ?? config.campaignWikiCard;
-      if (subcommand === 'refresh' && npcPlanCard) {
-        if (activationBuildInProgress) {
-          logger.warn('GM command: NPC cache rebuild already in progress, skipping');
-        } else {
-          logger.info('GM command: forcing NPC cache rebuild');
-          activationBuildInProgress = true;
-          buildActivationCaches(npcPlanCard).catch(err => {
-            logger.error('GM command: NPC cache rebuild failed:', err);
-          }).finally(() => {
-            activationBuildInProgress = false;
-          });
-        }
-      } else if (subcommand === 'serve') {
-        const npcName = cmd.args.slice(1).join(' ').toLowerCase();
-        const npc = npcCache.find(n => n.key === npcName || n.aliases.includes(npcName));
-        if (npc) {
-          npc.served = false; // Reset served flag so trigger detector will serve it
-          logger.info(`GM command: marking ${npc.display_name} for re-serve`);
-        } else {
-          logger.warn(`GM command: NPC "${npcName}" not found in cache`);
-        }
-      }
-      break;
-    }
-
-    // v4 commands
-    case 'status': {
-      if (delivery) {
-        if (lastDiscoveryReport) {
-          const report = formatReadinessReport(lastDiscoveryReport, config);
-          delivery.postSystemMessage(report).catch(err => {
-            logger.warn('GM command: failed to post status:', err);
-          });
-        } else {
-          delivery.postSystemMessage('No discovery report available. Set CAMPAIGN_NAME to enable wiki discovery.').catch(() => {});
-        }
-      }
-      break;
-    }
-    case 'rediscover': {
-      if (!config.campaignName) {
-        logger.warn('GM command: /rediscover requires CAMPAIGN_NAME to be set');
-        break;
-      }
-      logger.info('GM command: re-running wiki discovery...');
-      runWikiDiscovery(mcp, config).then(async (discovery) => {
-        lastDiscoveryReport = discovery;
-        discoveredPlanCard = discovery.planCardName;
-        discoveredBeatCards = discovery.beatCardPaths;
-        currentFuzzyTable = discovery.fuzzyTable;
-
-        // Hot-reload fuzzy table into trigger detector
-        if (triggers) {
-          triggers.reloadFuzzyTable(discovery.fuzzyTable);
-          logger.info('GM command: wiki discovery complete. Fuzzy table and plan card hot-reloaded.');
-        }
-
-        if (delivery) {
-          const report = formatReadinessReport(discovery, config);
-          await delivery.postSystemMessage(`Rediscovery complete:\n${report}`);
-        }
-      }).catch(err => {
-        logger.error('GM command: /rediscover failed:', err);
-      });
-      break;
-    }
-    case 'plan': {
-      const cardName = cmd.args[0];
-      if (!cardName) {
-        logger.warn('GM command: /plan requires a card name');
-        break;
-      }
-      logger.info(`GM command: /plan "${cardName}" — validating...`);
-      mcp.callTool('wiki__get_card', { name: cardName, max_content_length: 100 })
-        .then(async (result) => {
-          // Unwrap MCP envelope → JSON card envelope → check actual HTML content
-          const mcpText = extractMcpText(result);
-          if (!mcpText) {
-            logger.warn(`GM command: /plan card "${cardName}" returned empty MCP result`);
-            if (delivery) await delivery.postSystemMessage(`Plan card "${cardName}" not found or empty.`);
-            return;
-          }
-          let cardContent = mcpText;
-          try {
-            const parsed = JSON.parse(mcpText);
-            if (typeof parsed === 'object' && parsed !== null && typeof parsed.text === 'string') {
-              cardContent = parsed.text;
-            }
-          } catch { /* not JSON — use raw */ }
-          if (!cardContent || cardContent.trim().length === 0) {
-            logger.warn(`GM command: /plan card "${cardName}" exists but is empty`);
-            if (delivery) await delivery.postSystemMessage(`Plan card "${cardName}" exists but has no content.`);
-            return;
-          }
-          discoveredPlanCard = cardName;
-          logger.info(`GM command: session plan set to "${cardName}"`);
-          if (delivery) {
-            await delivery.postSystemMessage(`Session plan set to: ${cardName}`);
-          }
-          // Rebuild caches with new plan card
-          if (!activationBuildInProgress && pacing.assistantState === AssistantState.ACTIVE) {
-            activationBuildInProgress = true;
-            buildActivationCaches(cardName).catch(err => {
-              logger.error('GM command: /plan cache rebuild failed:', err);
-            }).finally(() => {
-              activationBuildInProgress = false;
-            });
-          }
-        })
-        .catch(async (err) => {
-          logger.warn(`GM command: /plan card "${cardName}" not found:`, err);
-          if (delivery) await delivery.postSystemMessage(`Plan card not found: "${cardName}". Check the card name.`);
-        });
-      break;
-    }
-    case 'note': {
-      const noteText = cmd.args[0];
-      if (!noteText) {
-        logger.warn('GM command: /note requires text');
-        break;
-      }
-      addGmNote(noteText, cmd.timestamp);
-      if (delivery) {
-        delivery.postSystemMessage(`Note received (${gmNotes.length}/${MAX_GM_NOTES}): ${noteText.slice(0, 80)}${noteText.length > 80 ? '...' : ''}`).catch(() => {});
-      }
-      break;
-    }
-
-    // v7: Whisper delivery confirmation
-    case 'send': {
-      const targetArg = cmd.args[0]?.toLowerCase().trim();
-      if (!targetArg) {
-        // Send most recent un-sent whisper
-        const pending = whisperStage.find(w => w.notified && !w.sent);
-        if (pending) {
-          sendWhisper(pending);
-        } else {
-          logger.warn('GM command: /send — no pending whispers');
-          if (delivery) delivery.postSystemMessage('No pending whispers to send.').catch(() => {});
-        }
-        break;
-      }
-      // Find by target name
-      const match = whisperStage.find(w => !w.sent && w.target.toLowerCase().includes(targetArg));
-      if (match) {
-        sendWhisper(match);
-      } else {
-        logger.warn(`GM command: /send — no whisper found for "${targetArg}"`);
-        if (delivery) delivery.postSystemMessage(`No whisper found for "${targetArg}".`).catch(() => {});
-      }
-      break;
-    }
-
-    // v7: Beat reminder management
-    case 'beats': {
-      const subCmd = cmd.args[0]?.toLowerCase();
-      if (subCmd === 'serve' && cmd.args[1]) {
-        const beatId = cmd.args[1].toLowerCase();
-        const beat = beatCache.find(b => b.sceneId.includes(beatId) || b.sceneTitle.toLowerCase().includes(beatId));
-        if (beat && delivery) {
-          beat.served = true;
-          beat.servedAt = new Date().toISOString();
-          const beatEnvelope: import('./types/index.js').AdviceEnvelope = {
-            category: 'beat',
-            tag: 'BEAT_REMINDER',
-            priority: TriggerPriority.P2,
-            summary: `Beat: ${beat.sceneTitle}`,
-            body: beat.bullets.map(b => `- ${b}`).join('\n'),
-            confidence: 1.0,
-            source_cards: [beat.sourceCard],
-          };
-          delivery.deliver(beatEnvelope).then(() => {
-            sessionStats.beatRemindersDelivered++;
-          }).catch(err => logger.error('Failed to deliver beat reminder:', err));
-        } else {
-          logger.warn(`GM command: /beats serve — beat not found for "${cmd.args[1]}"`);
-        }
-      } else {
-        // List all beats
-        const lines = beatCache.map(b =>
-          `${b.served ? '✓' : '○'} ${b.sceneTitle} (${b.bullets.length} notes)`
-        );
-        const msg = lines.length > 0
-          ? `Beat reminders (${beatCache.length}):\n${lines.join('\n')}`
-          : 'No beat reminders cached.';
-        if (delivery) delivery.postSystemMessage(msg).catch(() => {});
-      }
-      break;
-    }
-  }
-}
-
-/** v7: Send a pre-staged whisper via Foundry. */
-async function sendWhisper(entry: WhisperStageEntry): Promise<void> {
-  try {
-    await mcp.callTool('foundry__send_whisper', {
-      target: entry.target,
-      content: entry.text,
-    });
-    entry.sent = true;
-    sessionStats.whispersSent++;
-    logger.info(`Orchestrator: whisper sent to ${entry.target} (${entry.id})`);
-    if (delivery) {
-      delivery.postSystemMessage(`Whisper sent to ${entry.target}.`).catch(() => {});
-    }
-  } catch (err) {
-    logger.error(`Orchestrator: failed to send whisper to ${entry.target}:`, err);
-    if (delivery) {
-      delivery.postSystemMessage(`Failed to send whisper to ${entry.target}.`).catch(() => {});
-    }
-  }
-}
-
 // ── Startup ────────────────────────────────────────────────────────────────
 
 async function main(): Promise<void> {
@@ -1087,7 +117,7 @@ async function main(): Promise<void> {
   if (config.dryRun) {
     logger.info('  *** DRY-RUN MODE — delivery and wiki writes suppressed ***');
   }
-  logger.info(`  Model: ${config.anthropicModel}`);
+  logger.info(`  Model: ${configuredModel(config)} (${config.llmProvider})`);
   logger.info(`  Discord MCP: ${config.discordMcpUrl}`);
   logger.info(`  Foundry MCP: ${config.foundryMcpUrl}`);
   logger.info(`  Wiki MCP: ${config.wikiMcpUrl || '(NOT SET — REQUIRED)'}`);
@@ -1148,190 +178,56 @@ async function main(): Promise<void> {
     throw new Error(`Wiki + Discord MCP startup failed after ${STARTUP_RETRIES} attempts — cannot start without wiki and Discord access.`);
   }
 
-  // ── Step 3b: v4 — Wiki discovery (session plan, fuzzy table, NPC links) ──
-  let fuzzyTable: import('./reasoning/triggers.js').FuzzyMatchTable = {};
-  let readinessReport: string | null = null;
-
-  if (config.campaignName) {
-    const discovery = await runWikiDiscovery(mcp, config);
-    lastDiscoveryReport = discovery;
-    discoveredPlanCard = discovery.planCardName;
-    discoveredBeatCards = discovery.beatCardPaths;
-    fuzzyTable = discovery.fuzzyTable;
-    currentFuzzyTable = discovery.fuzzyTable;
-
-    // Apply session end time from plan card (config override takes precedence)
-    if (!config.sessionEndTime && discovery.sessionEndTime) {
-      const endTime = parseSessionEndTime(discovery.sessionEndTime);
-      if (endTime) {
-        pacing.setSessionEndTime(endTime);
-      }
+  // ── Step 3b–5: One pipeline per table (discovery, state, components) ──
+  if (config.sessionCampaigns.length > 0) {
+    if (config.targetGuildId) {
+      logger.warn('  TARGET_GUILD_ID is ignored when SESSION_CAMPAIGNS is set — each binding names its guild.');
     }
-
-    // Log readiness report (also posted to Discord after delivery is initialized)
-    readinessReport = formatReadinessReport(discovery, config);
-    for (const line of readinessReport.split('\n')) {
-      logger.info(`  ${line}`);
+    if (config.recordingEnabled && config.sessionCampaigns.length > 1) {
+      logger.warn('  RECORDING_ENABLED is ignored with more than one SESSION_CAMPAIGNS binding.');
     }
-  } else {
-    logger.warn('  CAMPAIGN_NAME not set — wiki discovery skipped. Set CAMPAIGN_NAME and tag your session plan cards.');
-
-    // Fallback: validate legacy CAMPAIGN_WIKI_CARD if set
-    if (config.campaignWikiCard) {
-      try {
-        const planResult = await mcp.callTool('wiki__get_card', {
-          name: config.campaignWikiCard,
-          max_content_length: 100,
-        });
-        const planText = extractMcpText(planResult);
-        if (planText && planText.length > 0) {
-          discoveredPlanCard = config.campaignWikiCard;
-          logger.info(`  Using legacy CAMPAIGN_WIKI_CARD: "${config.campaignWikiCard}"`);
-        } else {
-          logger.warn(`  Legacy CAMPAIGN_WIKI_CARD "${config.campaignWikiCard}" exists but is empty.`);
-        }
-      } catch {
-        logger.error(`  Legacy CAMPAIGN_WIKI_CARD "${config.campaignWikiCard}" not found — check card name spelling.`);
-      }
-    }
-
-    // Load static fuzzy table (legacy behavior when wiki discovery is skipped)
-    fuzzyTable = loadFuzzyMatchTable(config.sttFuzzyMatchPath);
-    currentFuzzyTable = fuzzyTable;
-    if (Object.keys(fuzzyTable).length > 0) {
-      logger.info(`  Static fuzzy table loaded: ${Object.keys(fuzzyTable).length} terms from ${config.sttFuzzyMatchPath}`);
+    logger.info(`  Session campaigns: ${config.sessionCampaigns.map(b => `${b.id} (guild ${b.guildId})`).join(', ')}`);
+    for (const binding of config.sessionCampaigns) {
+      pipelines.push(await createSessionPipeline(mcp, configForBinding(config, binding), binding.id, metrics));
     }
+  } else {
+    pipelines.push(await createSessionPipeline(mcp, config, DEFAULT_PIPELINE_ID, metrics));
   }
 
-  // ── Step 3c: Configuration warnings ──────────────────────────────────
-  if (!config.gmIdentifier) {
-    logger.warn('  GM_IDENTIFIER not set — silence detection and hesitation detection will track all speakers.');
-  }
-  if (!config.sessionEndTime && !pacing.state.session_end_time) {
-    logger.warn('  SESSION_END_TIME not set — pacing gates (convergence/denouement) are disabled. Set via /endtime HH:MM during session.');
-  }
-  if (config.autoActiveEnabled && Object.keys(fuzzyTable).length === 0) {
-    logger.warn('  Auto-ACTIVE enabled but fuzzy match table is empty — transcript-based activation may not work.');
-  }
-
-  // ── Step 4: Initialize state ──────────────────────────────────────────
-  pacing.startSession();
-  memory.clear();
-  logger.info(`  State: ${pacing.assistantState} | Memory cleared | Advice interval: ${config.minAdviceIntervalSeconds}s`);
-
-  // ── Step 5: Create components ─────────────────────────────────────────
-  engine = new ReasoningEngine(mcp, pacing, memory, () => [...transcriptCache]);
-  delivery = new AdviceDelivery(mcp);
-
-  triggers = new TriggerDetector(pacing, fuzzyTable);
-
-  // v4: Post readiness report to Discord + Foundry (Phase 3 of startup)
-  if (readinessReport) {
-    delivery.postSystemMessage(readinessReport).then(ok => {
-      if (!ok) logger.warn('Readiness report could not be posted to any channel (webhook may not be configured).');
-    }).catch(err => {
-      logger.warn('Failed to post readiness report:', err);
+  // ── Step 5b: Optional local control API + status dashboard ───────────
+  if (config.controlApiEnabled) {
+    const controllers = new Map(pipelines.map(p => [p.id, p.controller] as const));
+    controlServer = new ControlServer(controllers, {
+      host: config.controlApiHost,
+      port: config.controlApiPort,
+      token: config.controlApiToken,
     });
-  }
-
-  // v3: Listen for activation events from trigger detector
-  triggers.on('activated', (source: ActivationSource) => {
-    handleActivation(source);
-  });
-
-  triggers.on('trigger', async (batch) => {
-    if (!engine || !delivery) return;
-
-    // v7: Beat reminders and whisper notifications bypass LLM — pre-composed content
-    const beatEvents = batch.events.filter(e => e.type === 'beat_reminder');
-    const whisperEvents = batch.events.filter(e => e.type === 'whisper_ready');
-    const otherEvents = batch.events.filter(e => e.type !== 'beat_reminder' && e.type !== 'whisper_ready');
-
-    for (const evt of beatEvents) {
-      const bullets = evt.data.bullets as string[];
-      const title = evt.data.scene_title as string;
-      const sourceCard = evt.data.source_card as string;
-      const envelope: import('./types/index.js').AdviceEnvelope = {
-        category: 'beat',
-        tag: 'BEAT_REMINDER',
-        priority: TriggerPriority.P2,
-        summary: `Beat: ${title}`,
-        body: bullets.map(b => `- ${b}`).join('\n'),
-        confidence: 1.0,
-        source_cards: [sourceCard],
-      };
-      if (!memory.isDuplicate(envelope)) {
-        memory.push(envelope);
-        const channel = await delivery.deliver(envelope);
-        trackDelivery(channel);
-        sessionStats.beatRemindersDelivered++;
-      }
-    }
-
-    for (const evt of whisperEvents) {
-      const target = evt.data.target as string;
-      const description = evt.data.description as string;
-      const sourceCard = evt.data.source_card as string;
-      const envelope: import('./types/index.js').AdviceEnvelope = {
-        category: 'whisper',
-        tag: 'WHISPER_READY',
-        priority: TriggerPriority.P2,
-        summary: `Whisper ready: ${description} → ${target}`,
-        body: `Private content staged for ${target}. Type /send ${target} to deliver.\nSource: ${sourceCard}`,
-        confidence: 1.0,
-        source_cards: [sourceCard],
-      };
-      if (!memory.isDuplicate(envelope)) {
-        memory.push(envelope);
-        const channel = await delivery.deliver(envelope);
-        trackDelivery(channel);
-        sessionStats.whisperNotificationsDelivered++;
-      }
-    }
-
-    // Process remaining events through LLM as normal
-    if (otherEvents.length > 0) {
-      const remainingBatch: import('./types/index.js').TriggerBatch = {
-        events: otherEvents,
-        flushedAt: batch.flushedAt,
-      };
-      const envelope = await engine.process(remainingBatch);
-      if (envelope) {
-        if (envelope.image) {
-          imageQueue.setPending(envelope.image);
-        }
-        const channel = await delivery.deliver(envelope);
-        trackDelivery(channel);
-      } else {
-        sessionStats.adviceSuppressed++;
-      }
-    } else if (beatEvents.length === 0 && whisperEvents.length === 0) {
-      // Empty batch after filtering — should not happen, but handle gracefully
-      sessionStats.adviceSuppressed++;
+    try {
+      await controlServer.start();
+    } catch (err) {
+      // Non-fatal: the assistant works without the dashboard
+      logger.error(`Control API failed to start on ${config.controlApiHost}:${config.controlApiPort}:`, err);
+      controlServer = null;
     }
-  });
+  }
 
-  // Deliver advice from queued batches
-  engine.on('advice', async (envelope) => {
-    if (delivery) {
-      if (envelope.image) {
-        imageQueue.setPending(envelope.image);
-      }
-      const channel = await delivery.deliver(envelope);
-      trackDelivery(channel);
+  // ── Step 5c: Prometheus scrape endpoint ───────────────────────────────
+  if (config.metricsEnabled) {
+    metricsServer = new MetricsServer(metrics, { host: config.metricsHost, port: config.metricsPort });
+    try {
+      await metricsServer.start();
+    } catch (err) {
+      // Non-fatal: metrics are observability only
+      logger.error(`Metrics endpoint failed to start on ${config.metricsHost}:${config.metricsPort}:`, err);
+      metricsServer = null;
     }
-  });
+  }
 
   // ── Step 6: Wait for session ───────────────────────────────────────────
   // Don't start triggers or polling loops yet — wait for an active Discord session.
   // This avoids wasting resources between sessions.
 
-  sessionWatchTimer = setInterval(() => {
-    pollForSession().catch(err => logger.debug('Session watch error:', err));
-  }, 30_000);
-
-  // Check immediately on startup (don't wait 30s)
-  pollForSession().catch(err => logger.debug('Session watch error:', err));
+  for (const pipeline of pipelines) pipeline.controller.startWatching();
 
   logger.info(`GM Assistant v6 ready — waiting for session (${gitCommit})`);
 }
@@ -0,0 +1,169 @@
+/**
+ * Anthropic Messages API provider (the default).
+ *
+ * Prompt caching: the request prefix is ordered tools → system → user turn,
+ * so with promptCache on, one breakpoint after the system prompt caches the
+ * tool schemas and system prompt, and a second after the stable part of the
+ * user turn (episode plan) extends it. A third, moving breakpoint on the
+ * newest tool results lets each tool round trip reuse the one before it.
+ * Cache reads are billed at a tenth of the input price and do not count
+ * toward the input-token rate limit.
+ *
+ * With an onText hook the calls are streamed, so the engine can deliver an
+ * envelope while it is still being written.
+ *
+ * A finalTool is enforced with tool_choice "any" (the model must call some
+ * tool: look something up or answer), narrowed to the final tool itself on
+ * the last round trip maxToolIterations allows. Changing tool_choice
+ * invalidates the cached message blocks, so that last call misses the
+ * stable-prompt and tool-result breakpoints (tools + system still hit).
+ * Accepted: it only happens when a call has used its whole lookup budget,
+ * and the alternative — the same "any" throughout — lets that call end
+ * with a lookup instead of an answer.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { usageFromResponse } from '../qa/llm-cost.js';
+import type {
+  LlmProvider,
+  LlmCompletionRequest,
+  LlmCompletionHooks,
+  LlmCompletion,
+} from './provider.js';
+
+const EPHEMERAL: Anthropic.Messages.CacheControlEphemeral = { type: 'ephemeral' };
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+
+  constructor(
+    private readonly client: Pick<Anthropic, 'messages'>,
+    readonly model: string,
+  ) {}
+
+  async complete(request: LlmCompletionRequest, hooks: LlmCompletionHooks): Promise<LlmCompletion> {
+    const finalTool = request.finalTool;
+    const tools: Anthropic.Messages.Tool[] = [...request.tools, ...(finalTool ? [finalTool] : [])].map(t => ({
+      name: t.name,
+      description: t.description,
+      input_schema: t.inputSchema as Anthropic.Messages.Tool['input_schema'],
+    }));
+    const cache = request.promptCache ? { cache_control: EPHEMERAL } : {};
+    const system: Anthropic.Messages.TextBlockParam[] = [{ type: 'text', text: request.system, ...cache }];
+    const userTurn: Anthropic.Messages.TextBlockParam[] = request.stablePrompt
+      ? [{ type: 'text', text: request.stablePrompt, ...cache }, { type: 'text', text: request.prompt }]
+      : [{ type: 'text', text: request.prompt }];
+    const messages: Anthropic.Messages.MessageParam[] = [{ role: 'user', content: userTurn }];
+    const call = (last: boolean) => this.createMessage({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      system,
+      messages,
+      tools,
+      // Narrowing on the last call costs a message-cache miss on that call (see header)
+      ...(finalTool ? { tool_choice: last ? { type: 'tool', name: finalTool.name } : { type: 'any' } } : {}),
+    }, hooks, finalTool?.name, request.signal);
+
+    let response = await call(request.maxToolIterations === 0);
+    let iterations = 0;
+    let lastToolResults: Anthropic.Messages.ToolResultBlockParam[] = [];
+    const answers = () => response.content.filter(
+      (block): block is Anthropic.Messages.ToolUseBlock => block.type === 'tool_use' && block.name === finalTool?.name,
+    );
+
+    while (response.stop_reason === 'tool_use' && answers().length === 0 && iterations < request.maxToolIterations) {
+      iterations++;
+
+      const toolResults: Anthropic.Messages.ToolResultBlockParam[] = [];
+      for (const block of response.content) {
+        if (block.type !== 'tool_use') continue;
+        const outcome = await hooks.executeTool({
+          id: block.id,
+          name: block.name,
+          input: block.input as Record<string, unknown>,
+        });
+        toolResults.push({
+          type: 'tool_result',
+          tool_use_id: block.id,
+          content: outcome.content,
+          ...(outcome.isError ? { is_error: true } : {}),
+        });
+      }
+
+      // Keep at most one conversation breakpoint (the API allows four in total)
+      if (request.promptCache && toolResults.length > 0) {
+        for (const block of lastToolResults) delete block.cache_control;
+        toolResults[toolResults.length - 1].cache_control = EPHEMERAL;
+        lastToolResults = toolResults;
+      }
+
+      messages.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: toolResults },
+      );
+      response = await call(iterations === request.maxToolIterations);
+    }
+
+    const outputs = answers().map(block => block.input as Record<string, unknown>);
+    const text = response.content
+      .filter((block): block is Anthropic.Messages.TextBlock => block.type === 'text')
+      .map(b => b.text)
+      .join('\n')
+      .trim();
+    return { text, toolIterations: iterations, ...(outputs.length > 0 ? { outputs } : {}) };
+  }
+
+  private async createMessage(
+    params: Anthropic.Messages.MessageCreateParamsNonStreaming,
+    hooks: LlmCompletionHooks,
+    finalToolName: string | undefined,
+    signal?: AbortSignal,
+  ): Promise<Anthropic.Messages.Message> {
+    const started = Date.now();
+    try {
+      const response = hooks.onText
+        ? await this.streamMessage(params, hooks.onText, finalToolName, signal)
+        : await this.client.messages.create(params, { signal });
+      hooks.onCall?.({
+        request: params,
+        response,
+        durationMs: Date.now() - started,
+        usage: response.usage ? usageFromResponse(params.model, response.usage) : null,
+      });
+      return response;
+    } catch (err) {
+      hooks.onCall?.({ request: params, error: err, durationMs: Date.now() - started, usage: null });
+      throw err;
+    }
+  }
+
+  /**
+   * Stream a call, reporting the text block as it grows — or, with a final
+   * tool, that tool's input JSON; resolves to the complete message.
+   */
+  private async streamMessage(
+    params: Anthropic.Messages.MessageCreateParamsNonStreaming,
+    onText: (text: string) => void,
+    finalToolName: string | undefined,
+    signal?: AbortSignal,
+  ): Promise<Anthropic.Messages.Message> {
+    const stream = this.client.messages.stream(params, { signal });
+    if (!finalToolName) {
+      stream.on('text', (_delta, snapshot) => onText(snapshot));
+      return stream.finalMessage();
+    }
+
+    let answerBlock = -1;
+    let json = '';
+    stream.on('streamEvent', (event) => {
+      if (event.type === 'content_block_start' && event.content_block.type === 'tool_use' && event.content_block.name === finalToolName) {
+        answerBlock = event.index;
+        json = '';
+      } else if (event.type === 'content_block_delta' && event.index === answerBlock && event.delta.type === 'input_json_delta') {
+        json += event.delta.partial_json;
+        onText(json);
+      }
+    });
+    return stream.finalMessage();
+  }
+}
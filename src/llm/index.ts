@@ -0,0 +1,53 @@
+/**
+ * LLM provider selection (LLM_PROVIDER).
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { GmConfig } from '../config.js';
+import { AnthropicProvider } from './anthropic.js';
+import { OpenAiCompatibleProvider } from './openai-compatible.js';
+import { MockProvider, loadMockScript } from './mock.js';
+import type { LlmProvider } from './provider.js';
+
+export type {
+  LlmProvider,
+  LlmTool,
+  LlmToolCall,
+  LlmToolOutcome,
+  LlmCompletionRequest,
+  LlmCompletionHooks,
+  LlmCompletion,
+  LlmCallReport,
+} from './provider.js';
+export { AnthropicProvider } from './anthropic.js';
+export { OpenAiCompatibleProvider } from './openai-compatible.js';
+export { MockProvider, loadMockScript, type MockResponse, type MockResponder } from './mock.js';
+
+/** Build the configured reasoning backend. */
+export function createLlmProvider(config: GmConfig): LlmProvider {
+  switch (config.llmProvider) {
+    case 'openai-compatible':
+      return new OpenAiCompatibleProvider({
+        baseUrl: config.openaiCompatBaseUrl,
+        model: config.openaiCompatModel,
+        apiKey: config.openaiCompatApiKey,
+      });
+    case 'mock': {
+      const script = config.llmMockScriptPath
+        ? loadMockScript(config.llmMockScriptPath)
+        : { responses: [], loop: false };
+      return new MockProvider(script.responses, { loop: script.loop });
+    }
+    case 'anthropic':
+      return new AnthropicProvider(new Anthropic({ apiKey: config.anthropicApiKey }), config.anthropicModel);
+  }
+}
+
+/** Model id the configured provider sends (recording headers, startup log). */
+export function configuredModel(config: GmConfig): string {
+  switch (config.llmProvider) {
+    case 'openai-compatible': return config.openaiCompatModel;
+    case 'mock': return 'mock';
+    case 'anthropic': return config.anthropicModel;
+  }
+}
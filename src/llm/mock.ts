@@ -0,0 +1,173 @@
+/**
+ * Scripted mock provider — deterministic, offline reasoning for tests,
+ * replays and demos (LLM_PROVIDER=mock, LLM_MOCK_SCRIPT=<file.json>).
+ *
+ * Each scripted response stands in for one model call: `toolCalls` run
+ * through the caller's executeTool hook (so the MCP side really happens)
+ * and the next response continues the turn; `envelope` or `text` ends it.
+ * With a finalTool, `envelope` (or tool calls naming the final tool) comes
+ * back as the structured outputs; `text` plays a model that ignored it.
+ * Once the script is used up, every call answers NO_ADVICE (or the script
+ * starts over with `loop`). Streaming callers get the final text (or output
+ * JSON) in slices.
+ *
+ * Script file: an array of responses, or `{ "responses": [...], "loop": true }`.
+ */
+
+import * as fs from 'fs';
+import { logger } from '../logger.js';
+import type { LlmUsage } from '../qa/llm-cost.js';
+import type {
+  LlmProvider,
+  LlmCompletionRequest,
+  LlmCompletionHooks,
+  LlmCompletion,
+  LlmToolOutcome,
+} from './provider.js';
+
+export type MockResponse =
+  | { toolCalls: Array<{ name: string; input?: Record<string, unknown> }>; usage?: MockUsage }
+  | { envelope: Record<string, unknown>; usage?: MockUsage }
+  | { text: string; usage?: MockUsage };
+
+/** Token counts to report for a scripted call (omit to report no usage). */
+export interface MockUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+/** Computes a response from the request instead of reading a script (call = 0-based call count). */
+export type MockResponder = (request: LlmCompletionRequest, call: number) => MockResponse;
+
+export interface MockToolExchange {
+  name: string;
+  input: Record<string, unknown>;
+  outcome: LlmToolOutcome;
+}
+
+/** With an onText hook, the final text is "streamed" in slices this long. */
+const STREAM_CHUNK_CHARS = 24;
+
+const NO_ADVICE: MockResponse = { envelope: { category: 'none', tag: 'NO_ADVICE', summary: '' } };
+
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock';
+  /** Every completion request seen, oldest first. */
+  readonly requests: LlmCompletionRequest[] = [];
+  /** Every tool call made on the model's behalf, with what it returned. */
+  readonly toolExchanges: MockToolExchange[] = [];
+  private calls = 0;
+  private toolCallIds = 0;
+
+  constructor(
+    private readonly script: MockResponse[] | MockResponder,
+    private readonly options: { loop?: boolean; model?: string } = {},
+  ) {}
+
+  get model(): string {
+    return this.options.model ?? 'mock';
+  }
+
+  /** Scripted responses not yet used (0 for responder functions and looping scripts). */
+  get remaining(): number {
+    return Array.isArray(this.script) && !this.options.loop ? Math.max(0, this.script.length - this.calls) : 0;
+  }
+
+  async complete(request: LlmCompletionRequest, hooks: LlmCompletionHooks): Promise<LlmCompletion> {
+    this.requests.push(request);
+    request.signal?.throwIfAborted();
+    let response = this.next(request, hooks);
+    let iterations = 0;
+    const finalName = request.finalTool?.name;
+    const answers = () => 'toolCalls' in response ? response.toolCalls.filter(c => c.name === finalName) : [];
+
+    while ('toolCalls' in response && answers().length === 0 && iterations < request.maxToolIterations) {
+      iterations++;
+      for (const call of response.toolCalls) {
+        const input = call.input ?? {};
+        const outcome = await hooks.executeTool({ id: `mock_tool_${++this.toolCallIds}`, name: call.name, input });
+        this.toolExchanges.push({ name: call.name, input, outcome });
+      }
+      request.signal?.throwIfAborted();
+      response = this.next(request, hooks);
+    }
+
+    const answerCalls = answers();
+    const outputs = answerCalls.length > 0 ? answerCalls.map(c => c.input ?? {})
+      : finalName && 'envelope' in response ? [response.envelope]
+      : undefined;
+    const text = outputs ? ''
+      : 'envelope' in response ? JSON.stringify(response.envelope)
+      : 'text' in response ? response.text.trim()
+      : '';
+    // Streaming shows the first answer being written (later ones start over)
+    const streamed = outputs ? JSON.stringify(outputs[0]) : text;
+    if (hooks.onText) {
+      for (let end = STREAM_CHUNK_CHARS; end < streamed.length + STREAM_CHUNK_CHARS; end += STREAM_CHUNK_CHARS) {
+        hooks.onText(streamed.slice(0, end));
+      }
+    }
+    return { text, toolIterations: iterations, ...(outputs ? { outputs } : {}) };
+  }
+
+  private next(request: LlmCompletionRequest, hooks: LlmCompletionHooks): MockResponse {
+    const index = this.calls++;
+    let response: MockResponse;
+    if (typeof this.script === 'function') {
+      response = this.script(request, index);
+    } else if (index < this.script.length) {
+      response = this.script[index];
+    } else if (this.options.loop && this.script.length > 0) {
+      response = this.script[index % this.script.length];
+    } else {
+      response = NO_ADVICE;
+    }
+
+    const usage: LlmUsage | null = response.usage
+      ? {
+        model: this.model,
+        inputTokens: response.usage.inputTokens ?? 0,
+        outputTokens: response.usage.outputTokens ?? 0,
+        cacheReadTokens: response.usage.cacheReadTokens ?? 0,
+        cacheWriteTokens: response.usage.cacheWriteTokens ?? 0,
+      }
+      : null;
+    hooks.onCall?.({ request: { mock: index, system: request.system.length, prompt: request.prompt.length }, response, durationMs: 0, usage });
+    return response;
+  }
+}
+
+/** Load a mock script file. Unreadable or malformed → empty script (always NO_ADVICE). */
+export function loadMockScript(filePath: string): { responses: MockResponse[]; loop: boolean } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    logger.error(`MockProvider: cannot read script ${filePath} — every call will answer NO_ADVICE:`, err);
+    return { responses: [], loop: false };
+  }
+
+  const body = (Array.isArray(parsed) ? { responses: parsed } : parsed) as { responses?: unknown; loop?: unknown };
+  if (!body || !Array.isArray(body.responses)) {
+    logger.error(`MockProvider: ${filePath} must be an array of responses or { "responses": [...] }`);
+    return { responses: [], loop: false };
+  }
+
+  const responses: MockResponse[] = [];
+  for (const [i, item] of body.responses.entries()) {
+    const entry = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    if (Array.isArray(entry.toolCalls) && entry.toolCalls.every(c => typeof c?.name === 'string')) {
+      responses.push(entry as MockResponse);
+    } else if (typeof entry.envelope === 'object' && entry.envelope !== null) {
+      responses.push(entry as MockResponse);
+    } else if (typeof entry.text === 'string') {
+      responses.push(entry as MockResponse);
+    } else {
+      logger.warn(`MockProvider: ${filePath} response #${i + 1} has no toolCalls, envelope or text — skipped`);
+    }
+  }
+  logger.info(`MockProvider: loaded ${responses.length} scripted responses from ${filePath}`);
+  return { responses, loop: body.loop === true };
+}
@@ -0,0 +1,176 @@
+/**
+ * OpenAI-compatible chat completions provider — for self-hosted models
+ * behind llama.cpp's server, Ollama, vLLM, LM Studio and the like
+ * (POST {baseUrl}/chat/completions with function tools).
+ *
+ * Tool use depends on the model and server: models without function-calling
+ * support simply answer in text, which the engine handles like any reply.
+ * There is no cache-control API; the stable context goes first in the user
+ * turn so servers with automatic prefix reuse (llama.cpp, vLLM) can skip it.
+ * Calls are not streamed (onText is never called): streamed tool-call
+ * deltas differ too much between servers.
+ *
+ * A finalTool is requested with tool_choice "required" (and named outright
+ * on the last round trip). Servers that ignore tool_choice may still answer
+ * in text; arguments that are not valid JSON come back as the text so the
+ * engine can repair them.
+ */
+
+import type { LlmUsage } from '../qa/llm-cost.js';
+import type {
+  LlmProvider,
+  LlmCompletionRequest,
+  LlmCompletionHooks,
+  LlmCompletion,
+  LlmToolOutcome,
+} from './provider.js';
+
+/** Local models on modest hardware can be slow; give each call this long. */
+const REQUEST_TIMEOUT_MS = 180_000;
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null; tool_calls?: ChatToolCall[] }; finish_reason?: string }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export interface OpenAiCompatibleOptions {
+  /** API root including the version segment, e.g. http://127.0.0.1:11434/v1 */
+  baseUrl: string;
+  model: string;
+  /** Sent as a bearer token when set (most local servers need none). */
+  apiKey?: string;
+}
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai-compatible';
+  readonly model: string;
+  private readonly endpoint: string;
+
+  constructor(private readonly options: OpenAiCompatibleOptions) {
+    this.model = options.model;
+    this.endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  async complete(request: LlmCompletionRequest, hooks: LlmCompletionHooks): Promise<LlmCompletion> {
+    const finalTool = request.finalTool;
+    const tools = [...request.tools, ...(finalTool ? [finalTool] : [])].map(t => ({
+      type: 'function' as const,
+      function: { name: t.name, description: t.description, parameters: t.inputSchema },
+    }));
+    const messages: ChatMessage[] = [
+      { role: 'system', content: request.system },
+      { role: 'user', content: request.stablePrompt ? `${request.stablePrompt}\n\n${request.prompt}` : request.prompt },
+    ];
+    const call = (last: boolean) => this.post({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      messages,
+      ...(tools.length > 0 ? { tools } : {}),
+      ...(finalTool ? { tool_choice: last ? { type: 'function', function: { name: finalTool.name } } : 'required' } : {}),
+    }, hooks, request.signal);
+
+    let message = await call(request.maxToolIterations === 0);
+    let iterations = 0;
+    const answers = () => message.tool_calls?.filter(c => c.function.name === finalTool?.name) ?? [];
+
+    while (message.tool_calls?.length && answers().length === 0 && iterations < request.maxToolIterations) {
+      iterations++;
+      messages.push({ role: 'assistant', content: message.content ?? null, tool_calls: message.tool_calls });
+
+      for (const toolCall of message.tool_calls) {
+        const outcome = await this.runToolCall(toolCall, hooks);
+        messages.push({ role: 'tool', tool_call_id: toolCall.id, content: outcome.content });
+      }
+      message = await call(iterations === request.maxToolIterations);
+    }
+
+    const text = (message.content ?? '').trim();
+    const answerCalls = answers();
+    if (answerCalls.length === 0) return { text, toolIterations: iterations };
+
+    // Arguments that are not valid JSON go back as text for the engine to repair
+    const outputs: Record<string, unknown>[] = [];
+    const unparsed: string[] = [];
+    for (const answerCall of answerCalls) {
+      try {
+        const output = JSON.parse(answerCall.function.arguments || '{}');
+        if (typeof output === 'object' && output !== null && !Array.isArray(output)) {
+          outputs.push(output as Record<string, unknown>);
+          continue;
+        }
+      } catch {
+        // repaired from text below
+      }
+      unparsed.push(answerCall.function.arguments.trim());
+    }
+    return {
+      text: unparsed.length > 0 ? (unparsed.length === 1 ? unparsed[0] : `[${unparsed.join(',')}]`) : text,
+      toolIterations: iterations,
+      ...(outputs.length > 0 ? { outputs } : {}),
+    };
+  }
+
+  private async runToolCall(toolCall: ChatToolCall, hooks: LlmCompletionHooks): Promise<LlmToolOutcome> {
+    let input: Record<string, unknown>;
+    try {
+      const parsed = JSON.parse(toolCall.function.arguments || '{}');
+      input = typeof parsed === 'object' && parsed !== null ? parsed as Record<string, unknown> : {};
+    } catch {
+      return { content: 'Error: tool arguments were not valid JSON. Send a JSON object.', isError: true };
+    }
+    return hooks.executeTool({ id: toolCall.id, name: toolCall.function.name, input });
+  }
+
+  private async post(
+    body: Record<string, unknown>,
+    hooks: LlmCompletionHooks,
+    signal?: AbortSignal,
+  ): Promise<{ content?: string | null; tool_calls?: ChatToolCall[] }> {
+    const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+    const started = Date.now();
+    try {
+      const res = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+      if (!res.ok) {
+        const detail = (await res.text().catch(() => '')).slice(0, 300);
+        throw new Error(`${this.endpoint} returned ${res.status}${detail ? `: ${detail}` : ''}`);
+      }
+      const response = await res.json() as ChatCompletionResponse;
+      const message = response.choices?.[0]?.message;
+      if (!message) throw new Error(`${this.endpoint} returned no choices`);
+
+      const usage: LlmUsage | null = response.usage
+        ? {
+          model: this.model,
+          inputTokens: response.usage.prompt_tokens ?? 0,
+          outputTokens: response.usage.completion_tokens ?? 0,
+          cacheReadTokens: 0,
+          cacheWriteTokens: 0,
+        }
+        : null;
+      hooks.onCall?.({ request: body, response, durationMs: Date.now() - started, usage });
+      return message;
+    } catch (err) {
+      hooks.onCall?.({ request: body, error: err, durationMs: Date.now() - started, usage: null });
+      throw err;
+    }
+  }
+}
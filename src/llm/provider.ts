@@ -0,0 +1,101 @@
+/**
+ * LLM provider interface — one reasoning turn against some model backend.
+ *
+ * A provider owns the wire protocol: building requests, running the
+ * tool-use loop (model asks for tools → results go back → model answers),
+ * and extracting the final text. What a tool call does, and the policy
+ * around it (dedup, truncation, error wording), stays with the caller via
+ * the executeTool hook, so every backend behaves the same way.
+ *
+ * With a finalTool (emit_advice) the turn ends in a structured answer: the
+ * provider offers it alongside the caller's tools, requires a tool call on
+ * every model call where the backend supports that, and returns the final
+ * tool's inputs as `outputs` instead of running it (the model may call it
+ * more than once to give several answers).
+ */
+
+import type { LlmUsage } from '../qa/llm-cost.js';
+
+/** A tool the model may call (MCP tools, server-prefixed). */
+export interface LlmTool {
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments (type: 'object'). */
+  inputSchema: Record<string, unknown>;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface LlmToolOutcome {
+  content: string;
+  isError?: boolean;
+}
+
+export interface LlmCompletionRequest {
+  system: string;
+  /**
+   * Session-stable context (episode plan, player mappings), sent at the
+   * start of the user turn ahead of `prompt`. Empty when there is none.
+   */
+  stablePrompt: string;
+  /** The per-call context, sent as the rest of the user turn. */
+  prompt: string;
+  tools: LlmTool[];
+  /**
+   * The tool the model answers through. Never passed to executeTool; its
+   * inputs come back as LlmCompletion.outputs. While streaming, onText
+   * receives the input JSON of the call being written instead of the text.
+   */
+  finalTool?: LlmTool;
+  maxTokens: number;
+  /** Tool round trips allowed before the last response is taken as final. */
+  maxToolIterations: number;
+  /**
+   * Ask the backend to cache tools + system + stablePrompt across calls
+   * (PROMPT_CACHE_ENABLED). Backends without explicit caching ignore it.
+   */
+  promptCache: boolean;
+  /** Aborts the turn (a P1 preempting low-priority work); the provider rejects. */
+  signal?: AbortSignal;
+}
+
+/** One underlying API call, for the session recorder and cost accounting. */
+export interface LlmCallReport {
+  request: unknown;
+  response?: unknown;
+  error?: unknown;
+  durationMs: number;
+  /** Null when the backend reported no usage (or the call failed). */
+  usage: LlmUsage | null;
+}
+
+export interface LlmCompletionHooks {
+  executeTool(call: LlmToolCall): Promise<LlmToolOutcome>;
+  onCall?(report: LlmCallReport): void;
+  /**
+   * Text of the call in flight so far, as it streams (each call starts over
+   * from ''). Setting it asks the provider to stream; providers that can't
+   * simply never call it.
+   */
+  onText?(text: string): void;
+}
+
+export interface LlmCompletion {
+  /** Final text from the model, trimmed ('' when it produced none). */
+  text: string;
+  /** The finalTool inputs in call order, when the model answered through it. */
+  outputs?: Record<string, unknown>[];
+  toolIterations: number;
+}
+
+export interface LlmProvider {
+  /** Provider id for logs (anthropic, openai-compatible, mock). */
+  readonly name: string;
+  /** Model id sent with each request (and used for pricing). */
+  readonly model: string;
+  complete(request: LlmCompletionRequest, hooks: LlmCompletionHooks): Promise<LlmCompletion>;
+}
@@ -1,16 +1,31 @@
 /**
  * MCP aggregator client — connects to Discord, Foundry, and Wiki MCP servers.
  * Discovers tools from each, prefixes names, routes tool calls.
+ *
+ * Resource subscriptions: where a server advertises `resources.subscribe`,
+ * subscribeResource() registers for `notifications/resources/updated` and
+ * re-emits them as `resourceUpdated`. Requested subscriptions are remembered
+ * and re-established after a reconnect; callers use isSubscribed() to decide
+ * whether they still need to poll. Requests are reference-counted, so session
+ * pipelines sharing one aggregator can subscribe to the same URI and only the
+ * last unsubscribe reaches the server.
+ *
+ * Recording: with a SessionRecorder attached (RECORDING_ENABLED), every
+ * readResource/callTool round trip, every push notification, and every LLM
+ * exchange reported via recordLlmExchange() is appended to the session archive.
  */
 
 import { EventEmitter } from 'events';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
 import type Anthropic from '@anthropic-ai/sdk';
 import { getConfig } from '../config.js';
 import { logger } from '../logger.js';
 import { mcpToolToAnthropic, parsePrefixedToolName } from './tool-converter.js';
+import type { SessionRecorder } from './recorder.js';
+import type { AssistantMetrics } from '../metrics/index.js';
 
 interface McpToolDef {
   name: string;
@@ -35,6 +50,12 @@ export class McpAggregator extends EventEmitter<McpAggregatorEvents> {
   private reconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
   private serverConfigs: Array<{ name: string; url: string; token: string; required: boolean; transport: 'sse' | 'streamable-http' }> = [];
   private _shuttingDown = false;
+  /** Subscriptions requested by callers (server → URI → request count), re-applied on reconnect. */
+  private requestedSubscriptions = new Map<string, Map<string, number>>();
+  /** Subscriptions confirmed on the current connection (cleared on disconnect). */
+  private activeSubscriptions = new Map<string, Set<string>>();
+  private recorder: SessionRecorder | null = null;
+  private metrics: AssistantMetrics | null = null;
   private _cleaningUp = false;
 
   /**
@@ -83,6 +104,7 @@ export class McpAggregator extends EventEmitter<McpAggregatorEvents> {
         } catch { /* ignore cleanup errors */ }
       }
       this.servers.clear();
+      this.activeSubscriptions.clear();
       this._cleaningUp = false;
       throw new Error(requiredFailure);
     }
@@ -135,14 +157,26 @@ export class McpAggregator extends EventEmitter<McpAggregatorEvents> {
       inputSchema: t.inputSchema as Record<string, unknown> | undefined,
     }));
 
+    // Push updates for subscribed resources
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      this.recorder?.recordNotification(name, notification.params.uri);
+      this.emit('resourceUpdated', name, notification.params.uri);
+    });
+
     this.servers.set(name, { client, tools, transport, url: baseUrl, required });
     logger.info(`MCP aggregator: connected to '${name}' — ${tools.length} tools`);
 
+    // Re-establish subscriptions requested before a reconnect
+    for (const uri of this.requestedSubscriptions.get(name)?.keys() ?? []) {
+      await this.activateSubscription(name, uri);
+    }
+
     // Monitor for disconnection — SSEClientTransport emits 'close' or errors
     transport.onclose = () => {
       if (this._shuttingDown || this._cleaningUp) return;
       logger.warn(`MCP aggregator: lost connection to '${name}' — scheduling reconnect`);
       this.servers.delete(name);
+      this.activeSubscriptions.delete(name);
       this.scheduleReconnect(name, baseUrl, token, required, transportType);
     };
 
@@ -166,8 +200,10 @@ export class McpAggregator extends EventEmitter<McpAggregatorEvents> {
       try {
         await this.connectServer(name, baseUrl, token, required, transportType);
         logger.info(`MCP aggregator: reconnected to '${name}'`);
+        this.metrics?.mcpReconnect(name, true);
       } catch (err) {
         logger.warn(`MCP aggregator: reconnect to '${name}' failed:`, err);
+        this.metrics?.mcpReconnect(name, false);
         this.scheduleReconnect(name, baseUrl, token, required, transportType, attempt + 1);
       }
     }, delay);
@@ -188,6 +224,19 @@ export class McpAggregator extends EventEmitter<McpAggregatorEvents> {
 
   /** Route a prefixed tool call to the correct server. */
   async callTool(prefixedName: string, args: Record<string, unknown>): Promise<unknown> {
+    if (!this.recorder?.recording) return this.callToolDirect(prefixedName, args);
+    const started = Date.now();
+    try {
+      const result = await this.callToolDirect(prefixedName, args);
+      this.recorder.recordToolCall(prefixedName, args, Date.now() - started, result);
+      return result;
+    } catch (err) {
+      this.recorder.recordToolCall(prefixedName, args, Date.now() - started, undefined, err);
+      throw err;
+    }
+  }
+
+  private async callToolDirect(prefixedName: string, args: Record<string, unknown>): Promise<unknown> {
     const parsed = parsePrefixedToolName(prefixedName);
     if (!parsed) {
       throw new Error(`Invalid tool name format: ${prefixedName}`);
@@ -208,6 +257,19 @@ export class McpAggregator extends EventEmitter<McpAggregatorEvents> {
 
   /** Read a resource from a specific server. */
   async readResource(serverName: string, uri: string, timeoutMs = 15_000): Promise<string> {
+    if (!this.recorder?.recording) return this.readResourceDirect(serverName, uri, timeoutMs);
+    const started = Date.now();
+    try {
+      const result = await this.readResourceDirect(serverName, uri, timeoutMs);
+      this.recorder.recordResource(serverName, uri, Date.now() - started, result);
+      return result;
+    } catch (err) {
+      this.recorder.recordResource(serverName, uri, Date.now() - started, null, err);
+      throw err;
+    }
+  }
+
+  private async readResourceDirect(serverName: string, uri: string, timeoutMs: number): Promise<string> {
     const conn = this.servers.get(serverName);
     if (!conn) {
       throw new Error(`MCP server '${serverName}' not connected`);
@@ -236,6 +298,110 @@ export class McpAggregator extends EventEmitter<McpAggregatorEvents> {
     }
   }
 
+  // ── Metrics ──────────────────────────────────────────────────────────────
+
+  /** Count reconnect attempts per server for GET /metrics. */
+  setMetrics(metrics: AssistantMetrics | null): void {
+    this.metrics = metrics;
+  }
+
+  // ── Session recording ────────────────────────────────────────────────────
+
+  /** Attach a recorder (null detaches). Recording only happens between start/stopRecording. */
+  setRecorder(recorder: SessionRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  /** Begin recording a session archive (no-op without a recorder). */
+  startRecording(sessionId: string): void {
+    this.recorder?.start(sessionId);
+  }
+
+  /** Close the current session archive (no-op without a recorder). Resolves once it is flushed. */
+  stopRecording(): Promise<void> {
+    return this.recorder?.stop() ?? Promise.resolve();
+  }
+
+  /** Record an LLM request/response made outside the aggregator (e.g. by the reasoning engine). */
+  recordLlmExchange(request: unknown, durationMs: number, response: unknown, error?: unknown): void {
+    this.recorder?.recordLlm(request, durationMs, response, error);
+  }
+
+  // ── Resource subscriptions ───────────────────────────────────────────────
+
+  /** Whether a connected server advertises resource subscription support. */
+  supportsSubscriptions(serverName: string): boolean {
+    const conn = this.servers.get(serverName);
+    return conn?.client.getServerCapabilities()?.resources?.subscribe === true;
+  }
+
+  /**
+   * Subscribe to update notifications for a resource. The request is remembered
+   * and retried after reconnects. Non-throwing: returns true only if the
+   * subscription is live on the current connection (false → caller should poll).
+   * Each call must be balanced by one unsubscribeResource().
+   */
+  async subscribeResource(serverName: string, uri: string): Promise<boolean> {
+    let requested = this.requestedSubscriptions.get(serverName);
+    if (!requested) {
+      requested = new Map();
+      this.requestedSubscriptions.set(serverName, requested);
+    }
+    requested.set(uri, (requested.get(uri) ?? 0) + 1);
+    if (this.isSubscribed(serverName, uri)) return true;
+    return this.activateSubscription(serverName, uri);
+  }
+
+  /**
+   * Release one subscription request. The server-side subscription is dropped
+   * once no requests remain (best effort — errors are logged, not thrown).
+   */
+  async unsubscribeResource(serverName: string, uri: string): Promise<void> {
+    const requested = this.requestedSubscriptions.get(serverName);
+    const remaining = (requested?.get(uri) ?? 0) - 1;
+    if (remaining > 0) {
+      requested!.set(uri, remaining);
+      return;
+    }
+    requested?.delete(uri);
+    const active = this.activeSubscriptions.get(serverName);
+    if (!active?.has(uri)) return;
+    active.delete(uri);
+
+    const conn = this.servers.get(serverName);
+    if (!conn) return;
+    try {
+      await conn.client.unsubscribeResource({ uri });
+      logger.debug(`MCP aggregator: unsubscribed from ${serverName} ${uri}`);
+    } catch (err) {
+      logger.debug(`MCP aggregator: unsubscribe from ${serverName} ${uri} failed:`, err);
+    }
+  }
+
+  /** Whether update notifications for a resource are live on the current connection. */
+  isSubscribed(serverName: string, uri: string): boolean {
+    return this.activeSubscriptions.get(serverName)?.has(uri) ?? false;
+  }
+
+  private async activateSubscription(serverName: string, uri: string): Promise<boolean> {
+    const conn = this.servers.get(serverName);
+    if (!conn || !this.supportsSubscriptions(serverName)) return false;
+    try {
+      await conn.client.subscribeResource({ uri });
+    } catch (err) {
+      logger.warn(`MCP aggregator: subscribe to ${serverName} ${uri} failed — falling back to polling:`, err);
+      return false;
+    }
+    let active = this.activeSubscriptions.get(serverName);
+    if (!active) {
+      active = new Set();
+      this.activeSubscriptions.set(serverName, active);
+    }
+    active.add(uri);
+    logger.info(`MCP aggregator: subscribed to ${serverName} ${uri}`);
+    return true;
+  }
+
   /** Check if a specific server is connected. */
   isConnected(serverName: string): boolean {
     return this.servers.has(serverName);
@@ -290,5 +456,6 @@ export class McpAggregator extends EventEmitter<McpAggregatorEvents> {
       }
     }
     this.servers.clear();
+    this.activeSubscriptions.clear();
   }
 }
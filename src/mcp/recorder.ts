@@ -0,0 +1,298 @@
+/**
+ * Session recorder — writes everything the assistant saw during a session to
+ * a JSONL archive (opt-in via RECORDING_ENABLED).
+ *
+ * One file per Discord session: `<RECORDING_DIR>/<sessionId>-<startTime>.jsonl`.
+ * Each line is a RecordingEntry with an ISO timestamp:
+ * - resource:     readResource() result (or error)
+ * - tool_call:    callTool() request + response (or error)
+ * - llm:          Anthropic messages.create() request + response (or error)
+ * - notification: resourceUpdated push notification
+ *
+ * Repeated identical resource reads (the 10s transcript poll) are written as
+ * `unchanged: true` without the payload to keep archives small; the previous
+ * entry for the same server + uri carries the content. Resources that are
+ * JSON arrays of rows with a numeric `id` (the transcript) are written as
+ * `delta: true` after the first read — only the rows added or changed since
+ * the previous read — so the archive grows with the session, not its square.
+ *
+ * The last read of each resource before start() is kept in memory and opens
+ * the archive, so the session://active read that detected the session (and
+ * the game state read alongside it) is part of the recording.
+ *
+ * Writes go through a buffered append stream; stop() resolves once the
+ * archive is flushed and closed.
+ *
+ * Non-throwing: write failures are logged once and recording continues to be
+ * attempted, so a full disk never takes down a session.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../logger.js';
+
+/** Bump when the entry shape changes incompatibly. */
+export const RECORDING_FORMAT_VERSION = 2;
+
+interface RecordingEntryBase {
+  ts: string;
+}
+
+export interface RecordingStartEntry extends RecordingEntryBase {
+  kind: 'session_start';
+  version: number;
+  sessionId: string;
+  model: string;
+}
+
+export interface RecordingEndEntry extends RecordingEntryBase {
+  kind: 'session_end';
+  sessionId: string;
+}
+
+export interface RecordingResourceEntry extends RecordingEntryBase {
+  kind: 'resource';
+  server: string;
+  uri: string;
+  durationMs: number;
+  /** Resource text. Omitted when `unchanged` or on error. */
+  result?: string;
+  /** Same content as the previous read of this server + uri. */
+  unchanged?: boolean;
+  /** `result` holds only the rows added or changed since the previous read (see applyRowDelta). */
+  delta?: boolean;
+  error?: string;
+}
+
+export interface RecordingToolEntry extends RecordingEntryBase {
+  kind: 'tool_call';
+  tool: string;
+  args: Record<string, unknown>;
+  durationMs: number;
+  result?: unknown;
+  error?: string;
+}
+
+export interface RecordingLlmEntry extends RecordingEntryBase {
+  kind: 'llm';
+  request: unknown;
+  durationMs: number;
+  response?: unknown;
+  error?: string;
+}
+
+export interface RecordingNotificationEntry extends RecordingEntryBase {
+  kind: 'notification';
+  server: string;
+  uri: string;
+}
+
+export type RecordingEntry =
+  | RecordingStartEntry
+  | RecordingEndEntry
+  | RecordingResourceEntry
+  | RecordingToolEntry
+  | RecordingLlmEntry
+  | RecordingNotificationEntry;
+
+/** Distributive Omit so each union member keeps its own fields. */
+type WithoutTs<T> = T extends unknown ? Omit<T, 'ts'> : never;
+
+/** A resource read made before start(), replayed into the archive when it opens. */
+interface PendingRead {
+  server: string;
+  uri: string;
+  durationMs: number;
+  result: string;
+}
+
+export class SessionRecorder {
+  private filePath: string | null = null;
+  private sessionId: string | null = null;
+  private stream: fs.WriteStream | null = null;
+  private closing: Promise<void> = Promise.resolve();
+  private lastResource = new Map<string, string>();
+  /** Per server + uri: row id → row JSON, for resources recorded as deltas. */
+  private lastRows = new Map<string, Map<number, string>>();
+  private preSession = new Map<string, PendingRead>();
+  private writeFailed = false;
+
+  constructor(
+    private readonly dir: string,
+    private readonly model: string,
+  ) {}
+
+  /** Path of the archive currently being written, or null when not recording. */
+  get currentFile(): string | null {
+    return this.filePath;
+  }
+
+  get recording(): boolean {
+    return this.filePath !== null;
+  }
+
+  /** Open a new archive for a session. Closes any archive still open. */
+  start(sessionId: string, now: Date = new Date()): void {
+    if (this.sessionId === sessionId && this.filePath) return;
+    if (this.filePath) this.stop(now);
+
+    const stamp = now.toISOString().replace(/[:.]/g, '-');
+    const safeId = sessionId.replace(/[^\w-]/g, '_');
+    this.filePath = path.join(this.dir, `${safeId}-${stamp}.jsonl`);
+    this.sessionId = sessionId;
+    this.lastResource.clear();
+    this.lastRows.clear();
+    this.writeFailed = false;
+
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+    } catch (err) {
+      logger.warn(`SessionRecorder: cannot create ${this.dir}:`, err);
+    }
+    const file = this.filePath;
+    this.stream = fs.createWriteStream(file, { flags: 'a', encoding: 'utf-8' });
+    this.stream.on('error', err => this.reportWriteError(file, err));
+
+    this.write({ kind: 'session_start', version: RECORDING_FORMAT_VERSION, sessionId, model: this.model }, now);
+    for (const read of this.preSession.values()) {
+      this.recordResource(read.server, read.uri, read.durationMs, read.result, undefined, now);
+    }
+    this.preSession.clear();
+    logger.info(`SessionRecorder: recording session ${sessionId} to ${this.filePath}`);
+  }
+
+  /** Close the current archive (no-op if not recording). Resolves once it is flushed. */
+  stop(now: Date = new Date()): Promise<void> {
+    if (!this.filePath || !this.sessionId || !this.stream) return this.closing;
+    this.write({ kind: 'session_end', sessionId: this.sessionId }, now);
+    const stream = this.stream;
+    this.closing = new Promise(resolve => stream.once('close', () => resolve()));
+    stream.end();
+    logger.info(`SessionRecorder: closed ${this.filePath}`);
+    this.filePath = null;
+    this.sessionId = null;
+    this.stream = null;
+    this.lastResource.clear();
+    this.lastRows.clear();
+    return this.closing;
+  }
+
+  /** Record a resource read, collapsing repeats of identical content and writing row arrays as deltas. */
+  recordResource(server: string, uri: string, durationMs: number, result: string | null, error?: unknown, now: Date = new Date()): void {
+    const key = `${server}|${uri}`;
+    if (!this.filePath) {
+      if (error === undefined) this.preSession.set(key, { server, uri, durationMs, result: result ?? '' });
+      return;
+    }
+    if (error !== undefined) {
+      this.write({ kind: 'resource', server, uri, durationMs, error: errorMessage(error) }, now);
+      return;
+    }
+    const text = result ?? '';
+    if (this.lastResource.get(key) === text) {
+      this.write({ kind: 'resource', server, uri, durationMs, unchanged: true }, now);
+      return;
+    }
+    this.lastResource.set(key, text);
+
+    const rows = parseRows(text);
+    if (!rows) {
+      this.lastRows.delete(key);
+      this.write({ kind: 'resource', server, uri, durationMs, result: text }, now);
+      return;
+    }
+    const known = this.lastRows.get(key);
+    const changed = rows.filter(row => known?.get(row.id) !== row.json);
+    const next = known ?? new Map<number, string>();
+    for (const row of rows) next.set(row.id, row.json);
+    this.lastRows.set(key, next);
+    if (!known) {
+      this.write({ kind: 'resource', server, uri, durationMs, result: text }, now);
+    } else {
+      this.write({ kind: 'resource', server, uri, durationMs, delta: true, result: `[${changed.map(row => row.json).join(',')}]` }, now);
+    }
+  }
+
+  recordToolCall(tool: string, args: Record<string, unknown>, durationMs: number, result: unknown, error?: unknown): void {
+    if (!this.filePath) return;
+    this.write(error !== undefined
+      ? { kind: 'tool_call', tool, args, durationMs, error: errorMessage(error) }
+      : { kind: 'tool_call', tool, args, durationMs, result });
+  }
+
+  recordLlm(request: unknown, durationMs: number, response: unknown, error?: unknown): void {
+    if (!this.filePath) return;
+    this.write(error !== undefined
+      ? { kind: 'llm', request, durationMs, error: errorMessage(error) }
+      : { kind: 'llm', request, durationMs, response });
+  }
+
+  recordNotification(server: string, uri: string): void {
+    if (!this.filePath) return;
+    this.write({ kind: 'notification', server, uri });
+  }
+
+  private write(entry: WithoutTs<RecordingEntry>, now: Date = new Date()): void {
+    if (!this.stream) return;
+    this.stream.write(JSON.stringify({ ts: now.toISOString(), ...entry }) + '\n');
+  }
+
+  private reportWriteError(file: string, err: unknown): void {
+    if (this.writeFailed) return;
+    this.writeFailed = true;
+    logger.warn(`SessionRecorder: failed to write ${file} (further errors suppressed):`, err);
+  }
+}
+
+/** Rows of a JSON array whose elements all carry a numeric `id`; null for any other text. */
+function parseRows(text: string): Array<{ id: number; json: string }> | null {
+  if (!text.startsWith('[')) return null;
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (!Array.isArray(parsed) || parsed.length === 0) return null;
+    const rows: Array<{ id: number; json: string }> = [];
+    for (const row of parsed) {
+      if (!row || typeof row !== 'object' || typeof (row as { id?: unknown }).id !== 'number') return null;
+      rows.push({ id: (row as { id: number }).id, json: JSON.stringify(row) });
+    }
+    return rows;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rebuild the full resource text from the previous payload and a `delta`
+ * entry's rows: rows are replaced by id, new ids appended, ordered by id.
+ */
+export function applyRowDelta(previous: string | undefined, delta: string): string {
+  const byId = new Map<number, unknown>();
+  for (const text of [previous, delta]) {
+    if (!text) continue;
+    try {
+      const rows: unknown = JSON.parse(text);
+      if (!Array.isArray(rows)) continue;
+      for (const row of rows as Array<{ id: number }>) byId.set(row.id, row);
+    } catch { /* unreadable payload — keep what we have */ }
+  }
+  return JSON.stringify([...byId.entries()].sort((a, b) => a[0] - b[0]).map(([, row]) => row));
+}
+
+/** Read a recording archive back into entries. Malformed lines are skipped. */
+export function readRecording(filePath: string): RecordingEntry[] {
+  const entries: RecordingEntry[] = [];
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as RecordingEntry);
+    } catch {
+      logger.warn(`SessionRecorder: skipping malformed line in ${filePath}`);
+    }
+  }
+  return entries;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
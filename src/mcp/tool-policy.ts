@@ -0,0 +1,45 @@
+/**
+ * Tool permission policy — which prefixed MCP tools the model may call.
+ *
+ * Rules map an exact tool name or a `*` pattern to allow, deny or confirm.
+ * An exact name beats any pattern and a longer pattern beats a shorter one,
+ * so `{"foundry__*": "deny", "foundry__get_actor": "allow"}` works as
+ * expected. Tools no rule matches are denied: the model only sees what the
+ * policy lets through (DEFAULT_TOOL_POLICY is a read-only allowlist).
+ */
+
+import type { ToolPermission } from '../config.js';
+
+interface PatternRule {
+  pattern: string;
+  regex: RegExp;
+  permission: ToolPermission;
+}
+
+function patternToRegex(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+export class ToolPolicy {
+  private exact = new Map<string, ToolPermission>();
+  private patterns: PatternRule[] = [];
+
+  constructor(rules: Record<string, ToolPermission>) {
+    for (const [pattern, permission] of Object.entries(rules)) {
+      if (pattern.includes('*')) {
+        this.patterns.push({ pattern, regex: patternToRegex(pattern), permission });
+      } else {
+        this.exact.set(pattern, permission);
+      }
+    }
+    // Most specific first
+    this.patterns.sort((a, b) => b.pattern.length - a.pattern.length);
+  }
+
+  permission(toolName: string): ToolPermission {
+    const exact = this.exact.get(toolName);
+    if (exact) return exact;
+    return this.patterns.find(rule => rule.regex.test(toolName))?.permission ?? 'deny';
+  }
+}
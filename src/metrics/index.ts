@@ -0,0 +1,110 @@
+/**
+ * Assistant telemetry — the counters and histograms served on GET /metrics.
+ *
+ * One AssistantMetrics per process. Each session pipeline records through a
+ * PipelineMetrics view that stamps its pipeline id on every series, so
+ * several tables on one process graph separately. MCP reconnects are
+ * process-wide (the aggregator is shared) and carry only the server name.
+ */
+
+import { MetricsRegistry, type Counter, type Histogram } from './registry.js';
+import type { LlmUsage } from '../qa/llm-cost.js';
+
+export { METRICS_CONTENT_TYPE } from './registry.js';
+
+/** Why a detected trigger did not go straight to the model. */
+export type SuppressionMetricReason =
+  | 'cooldown'
+  | 'pregame'
+  | 'sleep'
+  | 'flowing_rp'
+  | 'gap_cap'
+  | 'queue_full'
+  | 'foundry_scene_change'
+  | 'budget';
+
+/** What a reasoning call ended with. */
+export type ReasoningOutcome = 'advice' | 'no_advice' | 'empty' | 'duplicate' | 'feedback' | 'fact_check' | 'preempted' | 'error';
+
+export type CacheName = 'npc' | 'scene' | 'beat' | 'whisper' | 'story';
+
+export class AssistantMetrics {
+  readonly registry = new MetricsRegistry();
+
+  readonly triggers: Counter = this.registry.counter(
+    'gm_triggers_total', 'Trigger events flushed to the reasoning pipeline.', ['pipeline', 'type', 'priority']);
+  readonly suppressions: Counter = this.registry.counter(
+    'gm_trigger_suppressions_total',
+    'Trigger events held back, by reason (cooldown counts deferred flushes; the rest are dropped).',
+    ['pipeline', 'reason']);
+  readonly reasoningDuration: Histogram = this.registry.histogram(
+    'gm_reasoning_duration_seconds', 'Wall time of one reasoning call, context assembly through parsing.',
+    ['pipeline', 'outcome'], [0.5, 1, 2, 5, 10, 20, 30, 60, 120]);
+  readonly toolIterations: Histogram = this.registry.histogram(
+    'gm_reasoning_tool_iterations', 'Tool-use round trips per reasoning call.',
+    ['pipeline'], [0, 1, 2, 3, 4, 5]);
+  readonly llmTokens: Counter = this.registry.counter(
+    'gm_llm_tokens_total', 'Anthropic tokens billed, by direction (input, output, cache_read, cache_write).', ['pipeline', 'model', 'direction']);
+  readonly llmCost: Counter = this.registry.counter(
+    'gm_llm_cost_usd_total', 'Estimated Anthropic spend from the LLM_PRICING table.', ['pipeline', 'model']);
+  readonly deliveries: Counter = this.registry.counter(
+    'gm_delivery_attempts_total', 'Advice delivery attempts per output channel.', ['pipeline', 'channel', 'outcome']);
+  readonly mcpReconnects: Counter = this.registry.counter(
+    'gm_mcp_reconnects_total', 'MCP reconnect attempts per server.', ['server', 'outcome']);
+  readonly cacheBuildDuration: Histogram = this.registry.histogram(
+    'gm_cache_build_duration_seconds', 'Activation cache build time.',
+    ['pipeline', 'cache', 'outcome'], [0.5, 1, 2, 5, 10, 30, 60, 120]);
+
+  /** Metrics view for one session pipeline. */
+  pipeline(id: string): PipelineMetrics {
+    return new PipelineMetrics(this, id);
+  }
+
+  mcpReconnect(server: string, ok: boolean): void {
+    this.mcpReconnects.inc({ server, outcome: ok ? 'ok' : 'failed' });
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+}
+
+export class PipelineMetrics {
+  constructor(
+    private readonly metrics: AssistantMetrics,
+    readonly pipelineId: string,
+  ) {}
+
+  trigger(type: string, priority: number): void {
+    this.metrics.triggers.inc({ pipeline: this.pipelineId, type, priority: `P${priority}` });
+  }
+
+  suppressed(reason: SuppressionMetricReason, count = 1): void {
+    this.metrics.suppressions.inc({ pipeline: this.pipelineId, reason }, count);
+  }
+
+  reasoning(outcome: ReasoningOutcome, seconds: number, toolIterations: number): void {
+    this.metrics.reasoningDuration.observe({ pipeline: this.pipelineId, outcome }, seconds);
+    this.metrics.toolIterations.observe({ pipeline: this.pipelineId }, toolIterations);
+  }
+
+  llmTokens(usage: LlmUsage): void {
+    const labels = { pipeline: this.pipelineId, model: usage.model };
+    this.metrics.llmTokens.inc({ ...labels, direction: 'input' }, usage.inputTokens);
+    this.metrics.llmTokens.inc({ ...labels, direction: 'output' }, usage.outputTokens);
+    this.metrics.llmTokens.inc({ ...labels, direction: 'cache_read' }, usage.cacheReadTokens);
+    this.metrics.llmTokens.inc({ ...labels, direction: 'cache_write' }, usage.cacheWriteTokens);
+  }
+
+  llmCost(model: string, usd: number): void {
+    this.metrics.llmCost.inc({ pipeline: this.pipelineId, model }, usd);
+  }
+
+  delivery(channel: 'foundry' | 'discord', outcome: 'ok' | 'failed' | 'dry_run'): void {
+    this.metrics.deliveries.inc({ pipeline: this.pipelineId, channel, outcome });
+  }
+
+  cacheBuild(cache: CacheName, seconds: number, ok: boolean): void {
+    this.metrics.cacheBuildDuration.observe({ pipeline: this.pipelineId, cache, outcome: ok ? 'ok' : 'failed' }, seconds);
+  }
+}
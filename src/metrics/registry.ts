@@ -0,0 +1,146 @@
+/**
+ * Minimal Prometheus registry — counters and histograms rendered in the
+ * text exposition format (version 0.0.4), which Prometheus and OpenMetrics
+ * scrapers both accept. Kept dependency-free: the assistant only needs
+ * labelled counters and fixed-bucket histograms.
+ */
+
+export type Labels = Record<string, string>;
+
+/** Content-Type for the rendered exposition. */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+interface Metric {
+  render(): string[];
+}
+
+/** Stable series key: label values in declared order. */
+function seriesKey(labelNames: readonly string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map(name => labels[name] ?? ''));
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labelNames: readonly string[], values: string[], extra?: [string, string]): string {
+  const pairs = labelNames.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`);
+  if (extra) pairs.push(`${extra[0]}="${escapeLabelValue(extra[1])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+export class Counter implements Metric {
+  private readonly series = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly labelNames: readonly string[],
+  ) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    if (!(amount > 0)) return; // Counters only go up; ignore NaN/negative
+    const key = seriesKey(this.labelNames, labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + amount);
+  }
+
+  /** Current value of one series (0 if never incremented). */
+  get(labels: Labels = {}): number {
+    return this.series.get(seriesKey(this.labelNames, labels)) ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [key, value] of this.series) {
+      lines.push(`${this.name}${formatLabels(this.labelNames, JSON.parse(key))} ${formatValue(value)}`);
+    }
+    return lines;
+  }
+}
+
+interface HistogramSeries {
+  /** Non-cumulative counts per bucket; the last slot is +Inf. */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  private readonly series = new Map<string, HistogramSeries>();
+  private readonly bounds: number[];
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly labelNames: readonly string[],
+    buckets: number[],
+  ) {
+    this.bounds = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    if (!Number.isFinite(value)) return;
+    const key = seriesKey(this.labelNames, labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { buckets: new Array(this.bounds.length + 1).fill(0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    const index = this.bounds.findIndex(bound => value <= bound);
+    s.buckets[index === -1 ? this.bounds.length : index]++;
+    s.sum += value;
+    s.count++;
+  }
+
+  /** Observation count of one series (0 if never observed). */
+  count(labels: Labels = {}): number {
+    return this.series.get(seriesKey(this.labelNames, labels))?.count ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, s] of this.series) {
+      const values = JSON.parse(key) as string[];
+      let cumulative = 0;
+      for (let i = 0; i <= this.bounds.length; i++) {
+        cumulative += s.buckets[i];
+        const le = i < this.bounds.length ? formatValue(this.bounds[i]) : '+Inf';
+        lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, ['le', le])} ${cumulative}`);
+      }
+      lines.push(`${this.name}_sum${formatLabels(this.labelNames, values)} ${formatValue(s.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(this.labelNames, values)} ${s.count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(name, new Counter(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[], buckets: number[]): Histogram {
+    return this.register(name, new Histogram(name, help, labelNames, buckets));
+  }
+
+  /** Text exposition of every registered metric, in registration order. */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) lines.push(...metric.render());
+    return lines.join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(name: string, metric: T): T {
+    if (this.metrics.has(name)) throw new Error(`Metric "${name}" is already registered`);
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
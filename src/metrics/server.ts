@@ -0,0 +1,61 @@
+/**
+ * Prometheus scrape listener (METRICS_ENABLED) — GET /metrics only.
+ *
+ * Separate from the control API so a remote scraper can reach the counters
+ * (METRICS_HOST beyond loopback) without also exposing the dashboard and
+ * session status. The exposition carries only counters and histograms
+ * labelled by pipeline, trigger type and server — no session content.
+ */
+
+import * as http from 'http';
+import { logger } from '../logger.js';
+import { METRICS_CONTENT_TYPE, type AssistantMetrics } from './index.js';
+
+export interface MetricsServerOptions {
+  host: string;
+  port: number;
+}
+
+export class MetricsServer {
+  private server: http.Server | null = null;
+
+  constructor(
+    private readonly metrics: Pick<AssistantMetrics, 'render'>,
+    private readonly options: MetricsServerOptions,
+  ) {}
+
+  /** Start listening. Resolves with the bound port (useful when port is 0). */
+  async start(): Promise<number> {
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if ((req.method ?? 'GET') === 'GET' && url.pathname === '/metrics') {
+        res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE, 'Cache-Control': 'no-store' });
+        res.end(this.metrics.render());
+        return;
+      }
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('not found\n');
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : this.options.port;
+    logger.info(`MetricsServer: serving http://${this.options.host}:${port}/metrics`);
+    return port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+}
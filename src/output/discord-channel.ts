@@ -1,20 +1,33 @@
 /**
  * Advice delivery to Discord via webhook.
  * v4: supports [VIA DISCORD] fallback prefix and system messages.
+ *
+ * Advice is posted with `?wait=true` so the webhook returns the message,
+ * whose id lets GM reactions (👍/👎) be matched back to the envelope.
  */
 
-import { getConfig } from '../config.js';
+import { getConfig, type GmConfig } from '../config.js';
 import { logger } from '../logger.js';
 import type { AdviceEnvelope } from '../types/index.js';
 
 export class DiscordChannelOutput {
+  /** Discord message id per delivered envelope (for reaction feedback). */
+  private readonly messageIds = new WeakMap<AdviceEnvelope, string>();
+
+  constructor(private config: GmConfig = getConfig()) {}
+
+  /** Id of the Discord message that carried an envelope, if it went out via the webhook. */
+  messageIdFor(envelope: AdviceEnvelope): string | null {
+    return this.messageIds.get(envelope) ?? null;
+  }
+
   /**
    * Deliver an advice envelope to the Discord webhook.
    * @param envelope — The advice envelope to deliver.
    * @param fallbackMode — If true, prefix with [VIA DISCORD] to indicate Foundry is unavailable.
    */
   async deliver(envelope: AdviceEnvelope, fallbackMode = false): Promise<boolean> {
-    const config = getConfig();
+    const config = this.config;
     if (!config.discordAdviceWebhookUrl) {
       return false;
     }
@@ -31,7 +44,9 @@ export class DiscordChannelOutput {
     };
 
     try {
-      const response = await fetch(config.discordAdviceWebhookUrl, {
+      const url = new URL(config.discordAdviceWebhookUrl);
+      url.searchParams.set('wait', 'true');
+      const response = await fetch(url, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
@@ -42,6 +57,9 @@ export class DiscordChannelOutput {
         return false;
       }
 
+      const message = await response.json().catch(() => null) as { id?: unknown } | null;
+      if (typeof message?.id === 'string') this.messageIds.set(envelope, message.id);
+
       logger.debug(`DiscordChannelOutput: delivered [${envelope.tag}] to Discord webhook`);
       return true;
     } catch (err) {
@@ -54,7 +72,7 @@ export class DiscordChannelOutput {
    * Post a system message (status notifications, warnings) to the Discord webhook.
    */
   async deliverSystemMessage(message: string): Promise<boolean> {
-    const config = getConfig();
+    const config = this.config;
     if (!config.discordAdviceWebhookUrl) {
       return false;
     }
@@ -1,11 +1,23 @@
 /**
  * Advice delivery to Foundry VTT via whispered chat messages.
  * v2: formats AdviceEnvelope with category-colored [TAG] prefix.
+ *
+ * Streamed advice: when the Foundry bridge offers an update-message tool,
+ * a placeholder whisper is posted as soon as the stream opens and edited as
+ * the summary and body arrive (at most once per STREAM_UPDATE_INTERVAL_MS);
+ * the finished envelope replaces it. Without that tool, the summary goes out
+ * on its own once complete and the finished envelope follows as a normal
+ * whisper. Advice withdrawn after its summary went out (fact-check, dedup,
+ * preemption) gets a "withdrawn" whisper in its place.
  */
 
 import { logger } from '../logger.js';
+import { extractMcpText } from '../reasoning/context.js';
 import type { McpAggregator } from '../mcp/client.js';
-import type { AdviceEnvelope, AdviceCategory } from '../types/index.js';
+import type { AdviceEnvelope, AdviceCategory, AdviceStreamUpdate } from '../types/index.js';
+
+const UPDATE_TOOL = 'foundry__update_message';
+const STREAM_UPDATE_INTERVAL_MS = 1000;
 
 /** Category → HTML color for the tag prefix. */
 const CATEGORY_COLORS: Record<AdviceCategory, string> = {
@@ -22,28 +34,38 @@ const CATEGORY_COLORS: Record<AdviceCategory, string> = {
   none: '#9e9e9e',         // grey
 };
 
+interface FoundryStream {
+  /** 'update': edit one placeholder whisper; 'split': summary whisper, then the finished advice. */
+  mode: 'update' | 'split';
+  messageId: string | null;
+  summaryPosted: boolean;
+  latest: AdviceStreamUpdate;
+  lastSentAt: number;
+  /** Serializes this stream's Foundry calls. */
+  chain: Promise<void>;
+}
+
 export class FoundryAdviceOutput {
+  private streams = new Map<string, FoundryStream>();
+
   constructor(private mcp: McpAggregator) {}
 
   async deliver(envelope: AdviceEnvelope): Promise<boolean> {
+    // The finished envelope ends its stream whichever way it goes out
+    const stream = envelope.stream_id ? this.takeStream(envelope.stream_id) : null;
     if (!this.mcp.isConnected('foundry')) {
       logger.warn('FoundryAdviceOutput: Foundry MCP not connected — skipping');
       return false;
     }
 
-    const color = CATEGORY_COLORS[envelope.category] || CATEGORY_COLORS.none;
-    let html = `<p><strong style="color:${color}">[${envelope.tag}]</strong> ${envelope.body ?? ''}</p>`;
-
-    // Append image suggestion text when present
-    if (envelope.image) {
-      html += `<p style="color:#888; font-style:italic">📷 Image suggestion: ${envelope.image.description} (${envelope.image.path}) — Type /yes in Discord to post.</p>`;
+    const html = formatAdviceHtml(envelope);
+    if (stream && await this.finishStream(stream, html)) {
+      logger.info(`FoundryAdviceOutput: delivered [${envelope.tag}] to Foundry (streamed)`);
+      return true;
     }
 
     try {
-      await this.mcp.callTool('foundry__send_whisper', {
-        content: html,
-        title: 'Magi GM Assistant',
-      });
+      await this.sendWhisper(html);
       logger.info(`FoundryAdviceOutput: delivered [${envelope.tag}] to Foundry`);
       return true;
     } catch (err) {
@@ -52,6 +74,95 @@ export class FoundryAdviceOutput {
     }
   }
 
+  // ── Streaming ───────────────────────────────────────────────────────────
+
+  /** Show streamed advice as it arrives. Non-blocking; failures only log. */
+  stream(update: AdviceStreamUpdate): void {
+    let stream = this.streams.get(update.id);
+    if (!stream) {
+      if (update.state === 'withdrawn' || !this.mcp.isConnected('foundry')) return;
+      const canUpdate = this.mcp.getAllTools().some(t => t.name === UPDATE_TOOL);
+      stream = { mode: canUpdate ? 'update' : 'split', messageId: null, summaryPosted: false, latest: update, lastSentAt: 0, chain: Promise.resolve() };
+      this.streams.set(update.id, stream);
+    }
+    stream.latest = update;
+    if (update.state === 'withdrawn') this.streams.delete(update.id);
+
+    const target = stream;
+    target.chain = target.chain
+      .then(() => this.pushStream(target))
+      .catch(err => logger.warn(`FoundryAdviceOutput: streamed update for [${update.tag}] failed:`, err));
+  }
+
+  private async pushStream(stream: FoundryStream): Promise<void> {
+    const update = stream.latest;
+
+    if (stream.mode === 'split') {
+      if (update.state === 'open' && update.summaryComplete && !stream.summaryPosted) {
+        stream.summaryPosted = true;
+        await this.sendWhisper(formatStreamingHtml({ ...update, body: '' }));
+      } else if (update.state === 'withdrawn' && stream.summaryPosted) {
+        // Nothing to edit: retract the summary with a whisper of its own
+        await this.sendWhisper(formatWithdrawnHtml(update));
+      }
+      return;
+    }
+
+    if (!stream.messageId) {
+      if (update.state === 'withdrawn') return;
+      // Until the placeholder has an id, a failure leaves nothing to edit:
+      // treat it as a split stream whose summary is already out
+      stream.mode = 'split';
+      stream.summaryPosted = true;
+      stream.lastSentAt = Date.now();
+      const messageId = whisperMessageId(await this.sendWhisper(formatStreamingHtml(update)));
+      if (messageId) {
+        stream.mode = 'update';
+        stream.messageId = messageId;
+      } else {
+        logger.warn('FoundryAdviceOutput: send_whisper returned no message id — finished advice will follow as a new whisper');
+      }
+      return;
+    }
+
+    if (update.state === 'withdrawn') {
+      await this.updateWhisper(stream.messageId, formatWithdrawnHtml(update));
+      return;
+    }
+    if (Date.now() - stream.lastSentAt < STREAM_UPDATE_INTERVAL_MS) return;
+    stream.lastSentAt = Date.now();
+    await this.updateWhisper(stream.messageId, formatStreamingHtml(update));
+  }
+
+  /** Remove a stream from tracking; its queued Foundry calls still run. */
+  private takeStream(streamId: string): FoundryStream | null {
+    const stream = this.streams.get(streamId) ?? null;
+    this.streams.delete(streamId);
+    return stream;
+  }
+
+  /** Replace the placeholder with the finished advice. False → deliver it as a new whisper. */
+  private async finishStream(stream: FoundryStream, html: string): Promise<boolean> {
+    await stream.chain;
+    if (stream.mode !== 'update' || !stream.messageId) return false;
+
+    try {
+      await this.updateWhisper(stream.messageId, html);
+      return true;
+    } catch (err) {
+      logger.warn('FoundryAdviceOutput: could not finish streamed whisper — posting it again:', err);
+      return false;
+    }
+  }
+
+  private sendWhisper(html: string): Promise<unknown> {
+    return this.mcp.callTool('foundry__send_whisper', { content: html, title: 'Magi GM Assistant' });
+  }
+
+  private async updateWhisper(messageId: string, html: string): Promise<void> {
+    await this.mcp.callTool(UPDATE_TOOL, { message_id: messageId, content: html });
+  }
+
   /**
    * Deliver a system message (readiness report, status alert) as a Foundry whisper.
    */
@@ -75,3 +186,45 @@ export class FoundryAdviceOutput {
     }
   }
 }
+
+// ── Formatting ──────────────────────────────────────────────────────────────
+
+function tagHtml(category: AdviceCategory, tag: string): string {
+  const color = CATEGORY_COLORS[category] || CATEGORY_COLORS.none;
+  return `<strong style="color:${color}">[${tag}]</strong>`;
+}
+
+function formatAdviceHtml(envelope: AdviceEnvelope): string {
+  let html = `<p>${tagHtml(envelope.category, envelope.tag)} ${envelope.body ?? ''}</p>`;
+
+  // Append image suggestion text when present
+  if (envelope.image) {
+    html += `<p style="color:#888; font-style:italic">📷 Image suggestion: ${envelope.image.description} (${envelope.image.path}) — Type /yes in Discord to post.</p>`;
+  }
+  return html;
+}
+
+/** Summary in italics, then the body so far; the ellipsis marks it as still arriving. */
+function formatStreamingHtml(update: AdviceStreamUpdate): string {
+  const summary = update.summary ? `<em>${update.summary}</em>` : '';
+  if (!update.body) return `<p>${tagHtml(update.category, update.tag)} ${summary} …</p>`;
+  return `<p>${tagHtml(update.category, update.tag)} ${summary}</p><p>${update.body} …</p>`;
+}
+
+function formatWithdrawnHtml(update: AdviceStreamUpdate): string {
+  const summary = update.summary ? ` <s>${update.summary}</s>` : '';
+  return `<p style="color:#888">${tagHtml(update.category, update.tag)}${summary} <em>withdrawn</em></p>`;
+}
+
+/** Message id from a send_whisper result (`{ id }`, `{ messageId }` or `{ message_id }` as JSON text). */
+function whisperMessageId(result: unknown): string | null {
+  const text = extractMcpText(result);
+  if (!text) return null;
+  try {
+    const parsed = JSON.parse(text) as Record<string, unknown>;
+    const id = parsed.messageId ?? parsed.message_id ?? parsed.id;
+    return typeof id === 'string' && id ? id : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,6 +1,7 @@
 /**
- * Single-slot image suggestion queue with 2-minute TTL.
- * The GM confirms or rejects via /yes or /no in Discord.
+ * Image suggestion queue with a 2-minute TTL per suggestion.
+ * The GM confirms or rejects the oldest via /yes or /no in Discord; one
+ * reasoning call may suggest several images, and each waits its turn.
  */
 
 import { logger } from '../logger.js';
@@ -15,55 +16,49 @@ export interface PendingImage {
 }
 
 export class ImageQueue {
-  private pending: PendingImage | null = null;
+  private pending: PendingImage[] = [];
 
-  /** Queue an image suggestion. Replaces any existing pending suggestion. */
-  setPending(suggestion: ImageSuggestion, ttlMs = DEFAULT_TTL_MS): void {
-    if (this.pending) {
-      logger.info('ImageQueue: replacing existing pending image');
-    }
-    this.pending = {
+  /** Queue an image suggestion behind any already pending. */
+  enqueue(suggestion: ImageSuggestion, ttlMs = DEFAULT_TTL_MS): void {
+    this.pending.push({
       suggestion,
       enqueuedAt: Date.now(),
       ttlMs,
-    };
-    logger.info(`ImageQueue: queued image "${suggestion.path}" (TTL: ${ttlMs / 1000}s)`);
+    });
+    logger.info(`ImageQueue: queued image "${suggestion.path}" (TTL: ${ttlMs / 1000}s, ${this.pending.length} pending)`);
   }
 
-  /** Get the current pending image, or null if expired/empty. */
+  /** Get the oldest pending image, or null if all expired/empty. */
   getPending(): PendingImage | null {
-    if (!this.pending) return null;
-
-    // Check TTL
-    const age = Date.now() - this.pending.enqueuedAt;
-    if (age > this.pending.ttlMs) {
-      logger.info('ImageQueue: pending image expired (TTL exceeded)');
-      this.pending = null;
-      return null;
+    // Drop expired suggestions from the front
+    while (this.pending.length > 0) {
+      const oldest = this.pending[0];
+      if (Date.now() - oldest.enqueuedAt <= oldest.ttlMs) return oldest;
+      logger.info(`ImageQueue: pending image "${oldest.suggestion.path}" expired (TTL exceeded)`);
+      this.pending.shift();
     }
-
-    return this.pending;
+    return null;
   }
 
-  /** Confirm the pending image (returns the suggestion and clears the slot). */
+  /** Confirm the oldest pending image (returns the suggestion and removes it). */
   confirm(): ImageSuggestion | null {
     const current = this.getPending();
     if (!current) {
       logger.warn('ImageQueue: confirm called but no pending image');
       return null;
     }
-    const suggestion = current.suggestion;
-    this.pending = null;
-    logger.info(`ImageQueue: confirmed image "${suggestion.path}"`);
-    return suggestion;
+    this.pending.shift();
+    logger.info(`ImageQueue: confirmed image "${current.suggestion.path}"`);
+    return current.suggestion;
   }
 
-  /** Reject the pending image (clears the slot silently). */
+  /** Reject the oldest pending image (removes it silently). */
   reject(): void {
-    if (this.pending) {
-      logger.info(`ImageQueue: rejected image "${this.pending.suggestion.path}"`);
+    const current = this.getPending();
+    if (current) {
+      logger.info(`ImageQueue: rejected image "${current.suggestion.path}"`);
+      this.pending.shift();
     }
-    this.pending = null;
   }
 
   /** Check if there's a pending (non-expired) image. */
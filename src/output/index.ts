@@ -8,14 +8,18 @@
  * 4. Periodic reminder every 30 minutes while Foundry is down (event-driven:
  *    reminders fire on advice delivery attempts, not a wall-clock timer).
  * 5. On Foundry reconnection: post recovery notice to Discord.
+ *
+ * Streamed advice (stream()) only ever goes to Foundry; the finished
+ * envelope still comes through deliver() and falls back as above.
  */
 
-import { getConfig } from '../config.js';
+import { getConfig, type GmConfig } from '../config.js';
 import { logger } from '../logger.js';
 import { FoundryAdviceOutput } from './foundry-sidebar.js';
 import { DiscordChannelOutput } from './discord-channel.js';
 import type { McpAggregator } from '../mcp/client.js';
-import type { AdviceEnvelope } from '../types/index.js';
+import type { PipelineMetrics } from '../metrics/index.js';
+import type { AdviceEnvelope, AdviceStreamUpdate } from '../types/index.js';
 
 const FOUNDRY_WARNING_INTERVAL_MS = 30 * 60_000; // 30 minutes
 
@@ -25,9 +29,13 @@ export class AdviceDelivery {
   private foundryAvailable = true;
   private lastFoundryWarningTime = 0;
 
-  constructor(mcp: McpAggregator) {
+  constructor(
+    mcp: McpAggregator,
+    private config: GmConfig = getConfig(),
+    private metrics: PipelineMetrics | null = null,
+  ) {
     this.foundry = new FoundryAdviceOutput(mcp);
-    this.discord = new DiscordChannelOutput();
+    this.discord = new DiscordChannelOutput(config);
   }
 
   /**
@@ -41,13 +49,15 @@ export class AdviceDelivery {
     logger.info(`AdviceDelivery: [${envelope.tag}] ${bodyPreview}${(envelope.body?.length ?? 0) > 200 ? '...' : ''}`);
 
     // Dry-run mode: log what would be delivered but don't actually send
-    if (getConfig().dryRun) {
+    if (this.config.dryRun) {
       logger.info(`AdviceDelivery: [DRY-RUN] would deliver [${envelope.tag}] (${envelope.category}, confidence=${envelope.confidence})`);
+      this.metrics?.delivery('foundry', 'dry_run');
       return 'foundry'; // Pretend success so the pipeline continues normally
     }
 
     // Try Foundry first
     const foundryOk = await this.foundry.deliver(envelope);
+    this.metrics?.delivery('foundry', foundryOk ? 'ok' : 'failed');
 
     if (foundryOk) {
       // Foundry succeeded — check if we need to post a recovery notice
@@ -87,6 +97,7 @@ export class AdviceDelivery {
 
     // Fall back to Discord with [VIA DISCORD] prefix
     const discordOk = await this.discord.deliver(envelope, true);
+    this.metrics?.delivery('discord', discordOk ? 'ok' : 'failed');
     if (discordOk) {
       logger.info(`AdviceDelivery: delivered [${envelope.tag}] via Discord (Foundry fallback)`);
       return 'discord';
@@ -96,12 +107,39 @@ export class AdviceDelivery {
     return 'none';
   }
 
+  /**
+   * Deliver several envelopes from one reasoning call, one at a time so they
+   * reach the GM in order. Returns the channel used for each.
+   */
+  async deliverAll(envelopes: AdviceEnvelope[]): Promise<Array<'foundry' | 'discord' | 'none'>> {
+    const channels: Array<'foundry' | 'discord' | 'none'> = [];
+    for (const envelope of envelopes) {
+      channels.push(await this.deliver(envelope));
+    }
+    return channels;
+  }
+
+  /**
+   * Show advice to the GM while it is still being generated. Foundry only:
+   * skipped in dry-run and while Foundry is down (the finished envelope then
+   * goes through deliver() as usual).
+   */
+  stream(update: AdviceStreamUpdate): void {
+    if (this.config.dryRun || !this.foundryAvailable) return;
+    this.foundry.stream(update);
+  }
+
+  /** Discord message id for an envelope delivered via the webhook (null otherwise). */
+  discordMessageId(envelope: AdviceEnvelope): string | null {
+    return this.discord.messageIdFor(envelope);
+  }
+
   /**
    * Post a system message (readiness report, warnings) to Discord and Foundry.
    * Returns true if at least one channel succeeded.
    */
   async postSystemMessage(message: string): Promise<boolean> {
-    if (getConfig().dryRun) {
+    if (this.config.dryRun) {
       const preview = message.slice(0, 150);
       logger.info(`AdviceDelivery: [DRY-RUN] would post system message: ${preview}${message.length > 150 ? '...' : ''}`);
       return true;
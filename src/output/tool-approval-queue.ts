@@ -0,0 +1,66 @@
+/**
+ * Tool calls staged for GM approval (TOOL_POLICY "confirm") with a 10-minute TTL.
+ * The model's call is held here instead of running; the GM runs it with
+ * /approve [n] or drops it with /reject [n] (no number = the most recent).
+ */
+
+import { logger } from '../logger.js';
+
+const DEFAULT_TTL_MS = 10 * 60_000; // 10 minutes
+
+export interface PendingToolCall {
+  /** Number the GM types after /approve or /reject. */
+  id: number;
+  name: string;
+  input: Record<string, unknown>;
+  stagedAt: number;
+  ttlMs: number;
+}
+
+export class ToolApprovalQueue {
+  private pending: PendingToolCall[] = [];
+  private nextId = 1;
+
+  constructor(private readonly ttlMs = DEFAULT_TTL_MS) {}
+
+  /** Stage a call. An identical call already waiting is returned instead of staged twice. */
+  stage(name: string, input: Record<string, unknown>): PendingToolCall {
+    const key = JSON.stringify(input);
+    const existing = this.list().find(p => p.name === name && JSON.stringify(p.input) === key);
+    if (existing) return existing;
+
+    const call: PendingToolCall = { id: this.nextId++, name, input, stagedAt: Date.now(), ttlMs: this.ttlMs };
+    this.pending.push(call);
+    logger.info(`ToolApprovalQueue: staged #${call.id} ${name} (TTL: ${this.ttlMs / 1000}s)`);
+    return call;
+  }
+
+  /** Waiting (non-expired) calls, oldest first. */
+  list(): PendingToolCall[] {
+    const now = Date.now();
+    const live = this.pending.filter(p => now - p.stagedAt <= p.ttlMs);
+    if (live.length < this.pending.length) {
+      logger.info(`ToolApprovalQueue: ${this.pending.length - live.length} staged call(s) expired (TTL exceeded)`);
+      this.pending = live;
+    }
+    return [...live];
+  }
+
+  /** Remove and return a staged call by id (the most recent when omitted). Null if none. */
+  take(id?: number): PendingToolCall | null {
+    const live = this.list();
+    const call = id === undefined ? live[live.length - 1] : live.find(p => p.id === id);
+    if (!call) return null;
+    this.pending = this.pending.filter(p => p !== call);
+    return call;
+  }
+
+  hasPending(): boolean {
+    return this.list().length > 0;
+  }
+
+  /** Drop everything (session end). */
+  clear(): void {
+    this.pending = [];
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * LLM token and cost accounting.
+ *
+ * Every Messages API call reports its usage (ReasoningEngine 'usage' event);
+ * the session controller adds it to SessionStats.llmUsage, priced from the
+ * per-model table in config (DEFAULT_MODEL_PRICING + LLM_PRICING). Models
+ * without a price still count tokens and are flagged as unpriced.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import type { ModelPrice } from '../config.js';
+
+/** Tokens billed for one Messages API call. */
+export interface LlmUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  /** Calls whose model had no price — their tokens are counted, their cost is not. */
+  unpricedCalls: number;
+}
+
+export function createLlmUsageTotals(): LlmUsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+/** Read a Messages API usage block (cache fields are null/absent without prompt caching). */
+export function usageFromResponse(model: string, usage: Anthropic.Messages.Usage): LlmUsage {
+  return {
+    model,
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+  };
+}
+
+/** Price for a model id: exact key, else the longest key it starts with. Null if unknown. */
+export function findModelPrice(model: string, pricing: Record<string, ModelPrice>): ModelPrice | null {
+  if (pricing[model]) return pricing[model];
+  let best: string | null = null;
+  for (const key of Object.keys(pricing)) {
+    if (model.startsWith(key) && (!best || key.length > best.length)) best = key;
+  }
+  return best ? pricing[best] : null;
+}
+
+/** Cost of one call in USD. */
+export function priceUsage(usage: LlmUsage, price: ModelPrice): number {
+  return (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheReadTokens * price.cacheRead +
+    usage.cacheWriteTokens * price.cacheWrite
+  ) / 1_000_000;
+}
+
+/** Add one call to the running totals. Returns its cost (0 when unpriced). */
+export function addLlmUsage(totals: LlmUsageTotals, usage: LlmUsage, pricing: Record<string, ModelPrice>): number {
+  totals.calls++;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.cacheReadTokens += usage.cacheReadTokens;
+  totals.cacheWriteTokens += usage.cacheWriteTokens;
+
+  const price = findModelPrice(usage.model, pricing);
+  if (!price) {
+    totals.unpricedCalls++;
+    return 0;
+  }
+  const cost = priceUsage(usage, price);
+  totals.costUsd += cost;
+  return cost;
+}
+
+/**
+ * Share of prompt tokens served from the prompt cache, for one call or a
+ * session's totals. Null when nothing was sent yet.
+ */
+export function cacheHitRate(usage: Pick<LlmUsage, 'inputTokens' | 'cacheReadTokens' | 'cacheWriteTokens'>): number | null {
+  const prompt = usage.inputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+  return prompt > 0 ? usage.cacheReadTokens / prompt : null;
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 3 : 2)}`;
+}
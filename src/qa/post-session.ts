@@ -6,7 +6,8 @@
  * 2. Generate advice delivery summary
  * 3. Collect phonetic match discoveries → compute fuzzy table delta
  * 4. Write updated fuzzy table to wiki card
- * 5. Post QA summary to Discord (and Foundry if connected)
+ * 5. Include the per-scene engagement estimates
+ * 6. Post QA summary to Discord (and Foundry if connected)
  */
 
 import { getConfig } from '../config.js';
@@ -15,6 +16,8 @@ import type { McpAggregator } from '../mcp/client.js';
 import type { FuzzyMatchTable } from '../reasoning/triggers.js';
 import { extractMcpText } from '../reasoning/context.js';
 import type { SessionStats } from './session-stats.js';
+import type { EngagementSceneReport } from '../state/engagement.js';
+import { formatUsd, cacheHitRate } from './llm-cost.js';
 
 /** Minimum phonetic similarity to persist a match to the fuzzy table. */
 const PERSIST_CONFIDENCE_THRESHOLD = 0.8;
@@ -46,6 +49,8 @@ export interface QaReport {
   fuzzyTableDelta: Record<string, string>;
   /** Whether fuzzy table was successfully persisted to wiki. */
   fuzzyTablePersisted: boolean;
+  /** Dominant estimated engagement per player, per scene. */
+  engagementByScene: EngagementSceneReport[];
 }
 
 /**
@@ -57,6 +62,7 @@ export async function runPostSessionQa(
   stats: SessionStats,
   currentFuzzyTable: FuzzyMatchTable,
   phoneticDiscoveries: Array<{ input: string; canonical: string; similarity: number }>,
+  engagementByScene: EngagementSceneReport[] = [],
 ): Promise<QaReport> {
   logger.info('PostSessionQA: starting...');
 
@@ -122,6 +128,7 @@ export async function runPostSessionQa(
     phoneticDiscoveries,
     fuzzyTableDelta,
     fuzzyTablePersisted,
+    engagementByScene,
   };
 
   logger.info(
@@ -242,6 +249,31 @@ export function formatQaReport(report: QaReport): string {
     lines.push(`  Suppressed (dedup/NO_ADVICE): ${report.stats.adviceSuppressed}`);
   }
 
+  // LLM usage + cost
+  const llm = report.stats.llmUsage;
+  if (llm.calls > 0) {
+    lines.push('');
+    lines.push(`LLM Usage: ${llm.calls} calls, ~${formatUsd(llm.costUsd)}${llm.unpricedCalls > 0 ? ` (${llm.unpricedCalls} unpriced)` : ''}`);
+    lines.push(`  Tokens: ${llm.inputTokens} in, ${llm.outputTokens} out`);
+    if (llm.cacheReadTokens > 0 || llm.cacheWriteTokens > 0) {
+      const hitRate = cacheHitRate(llm) ?? 0;
+      lines.push(`  Prompt cache: ${llm.cacheReadTokens} read, ${llm.cacheWriteTokens} written (${Math.round(hitRate * 100)}% of prompt tokens from cache)`);
+    }
+    if (report.stats.budgetCapReachedAt) {
+      lines.push(`  Spending cap reached at ${report.stats.budgetCapReachedAt} — P1 only from then on`);
+    }
+  }
+
+  // GM feedback
+  const rated = Object.entries(report.stats.feedback.byCategory);
+  if (rated.length > 0) {
+    lines.push('');
+    lines.push('GM Feedback:');
+    for (const [category, t] of rated.sort((a, b) => a[0].localeCompare(b[0]))) {
+      lines.push(`  ${category}: ${t.good} good / ${t.bad} bad`);
+    }
+  }
+
   // Activation
   if (report.stats.activatedAt) {
     const activatedDelay = report.stats.sessionStartedAt
@@ -250,6 +282,16 @@ export function formatQaReport(report: QaReport): string {
     lines.push(`Activation: ${report.stats.activationSource ?? 'unknown'}${activatedDelay !== null ? ` (${activatedDelay} min after session start)` : ''}`);
   }
 
+  // Engagement estimates
+  if (report.engagementByScene.length > 0) {
+    lines.push('');
+    lines.push('Engagement by Scene:');
+    for (const { scene, levels } of report.engagementByScene) {
+      const players = Object.entries(levels).map(([character, level]) => `${character} ${level}`).join(', ');
+      lines.push(`  ${scene}: ${players}`);
+    }
+  }
+
   // Phonetic discoveries
   if (report.phoneticDiscoveries.length > 0) {
     lines.push('');
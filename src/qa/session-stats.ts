@@ -5,6 +5,9 @@
  * Reset on session start, read at session end.
  */
 
+import type { FeedbackTally } from '../state/feedback.js';
+import { createLlmUsageTotals, type LlmUsageTotals } from './llm-cost.js';
+
 export interface SessionStats {
   /** Total advice envelopes delivered (any channel). */
   adviceDelivered: number;
@@ -30,6 +33,15 @@ export interface SessionStats {
   whisperNotificationsDelivered: number;
   /** v7: Whispers actually sent (via /send). */
   whispersSent: number;
+  /** GM ratings of this session's advice (/good, /bad, reactions). */
+  feedback: {
+    byCategory: Record<string, FeedbackTally>;
+    byTag: Record<string, FeedbackTally>;
+  };
+  /** Anthropic tokens and estimated cost for this session. */
+  llmUsage: LlmUsageTotals;
+  /** When SESSION_BUDGET_USD was reached (ISO); null while under the cap. */
+  budgetCapReachedAt: string | null;
 }
 
 /** Create a fresh stats object for a new session. */
@@ -47,5 +59,8 @@ export function createSessionStats(): SessionStats {
     beatRemindersDelivered: 0,
     whisperNotificationsDelivered: 0,
     whispersSent: 0,
+    feedback: { byCategory: {}, byTag: {} },
+    llmUsage: createLlmUsageTotals(),
+    budgetCapReachedAt: null,
   };
 }
@@ -0,0 +1,95 @@
+/**
+ * Streamed advice — turns the growing text of the model's final turn into
+ * AdviceStreamUpdates, so long deliveries (read-aloud script) reach the GM
+ * while they are still being written.
+ *
+ * A stream opens once the envelope's category and tag are complete, the
+ * category is one of STREAM_DELIVERY_CATEGORIES and the advice would not be
+ * held back. When the summary completes it is checked again (dedup needs
+ * it); advice that fails either check is withdrawn, as is anything the turn
+ * ends without delivering.
+ */
+
+import { parsePartialEnvelope } from './envelope-parser.js';
+import type { AdviceCategory, AdviceEnvelope, AdviceStreamUpdate, TriggerPriority } from '../types/index.js';
+
+/** Would this draft be delivered? (dedup + feedback on what is known so far) */
+export type StreamDraftCheck = (draft: AdviceEnvelope) => boolean;
+
+export class AdviceStreamTracker {
+  private last: AdviceStreamUpdate | null = null;
+  private closed = false;
+  private summaryChecked = false;
+
+  constructor(
+    readonly id: string,
+    private readonly priority: TriggerPriority,
+    private readonly categories: ReadonlySet<string>,
+    private readonly accept: StreamDraftCheck,
+    private readonly emit: (update: AdviceStreamUpdate) => void,
+  ) {}
+
+  /** True once an update has gone out (the finished envelope must then carry this id). */
+  get opened(): boolean {
+    return this.last !== null;
+  }
+
+  /** Feed the text of the call in flight so far. */
+  onText(text: string): void {
+    if (this.closed) return;
+    const partial = parsePartialEnvelope(text);
+    if (!partial.complete.has('category') || !partial.complete.has('tag')) return;
+
+    const update: AdviceStreamUpdate = {
+      id: this.id,
+      category: partial.category as AdviceCategory,
+      tag: partial.tag!,
+      priority: this.priority,
+      summary: partial.summary ?? '',
+      summaryComplete: partial.complete.has('summary'),
+      body: partial.body ?? '',
+      state: 'open',
+    };
+
+    if (!this.last) {
+      if (!this.categories.has(update.category) || update.tag === 'NO_ADVICE' || !this.accept(this.draft(update))) {
+        this.closed = true;
+        return;
+      }
+    } else if (update.tag !== this.last.tag) {
+      return; // a later call starting over — wait until it catches up
+    }
+
+    if (update.summaryComplete && !this.summaryChecked) {
+      this.summaryChecked = true;
+      if (!this.accept(this.draft(update))) {
+        this.withdraw();
+        return;
+      }
+    }
+
+    const last = this.last;
+    if (last && last.summary === update.summary && last.body === update.body && last.summaryComplete === update.summaryComplete) return;
+    this.last = update;
+    this.emit(update);
+  }
+
+  /** Close the stream; if anything was shown, tell delivery to take it back. */
+  withdraw(): void {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.last) this.emit({ ...this.last, state: 'withdrawn' });
+  }
+
+  private draft(update: AdviceStreamUpdate): AdviceEnvelope {
+    return {
+      category: update.category,
+      tag: update.tag,
+      priority: update.priority,
+      summary: update.summary,
+      body: update.body,
+      confidence: 1,
+      source_cards: [],
+    };
+  }
+}
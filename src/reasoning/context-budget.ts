@@ -0,0 +1,168 @@
+/**
+ * Context budget — token counting and the per-section allocator behind
+ * MAX_CONTEXT_TOKENS.
+ *
+ * TokenCounter starts from the usual ~4 chars/token and calibrates itself
+ * from the prompt tokens the API bills for the first call of each turn (the
+ * one whose request is exactly the assembled context), so estimates track
+ * the real tokenizer for the campaign's language and markup.
+ *
+ * allocateContextBudget() fits the sections into the budget by trimming them
+ * in trim order — first down to each section's floor, then, if that is
+ * still not enough, all the way out. System prompt, tools and trigger are
+ * never trimmed. The transcript loses its oldest lines; everything else is
+ * cut at the end.
+ */
+
+import type { ContextBudgetReport, ContextSectionName } from '../types/index.js';
+
+const DEFAULT_CHARS_PER_TOKEN = 4;
+const MIN_CHARS_PER_TOKEN = 1.5;
+const MAX_CHARS_PER_TOKEN = 8;
+/** Weight of each new sample after the first (the first replaces the default). */
+const CALIBRATION_WEIGHT = 0.2;
+/** Smaller prompts are dominated by fixed per-request overhead — not worth calibrating on. */
+const MIN_CALIBRATION_TOKENS = 200;
+
+const TRUNCATION_MARKER = '\n...[truncated]';
+const TRANSCRIPT_TRUNCATION_MARKER = '...[earlier transcript truncated]\n';
+/** Sections are joined with a blank line. */
+const SECTION_SEPARATOR = '\n\n';
+
+export class TokenCounter {
+  private ratio = DEFAULT_CHARS_PER_TOKEN;
+  private samples = 0;
+
+  get charsPerToken(): number {
+    return this.ratio;
+  }
+
+  get calibrationSamples(): number {
+    return this.samples;
+  }
+
+  count(text: string): number {
+    return Math.ceil(text.length / this.ratio);
+  }
+
+  /** Characters that fit in `tokens` tokens. */
+  charsFor(tokens: number): number {
+    return Math.max(0, Math.floor(tokens * this.ratio));
+  }
+
+  /** Feed one billed request: `chars` characters of prompt cost `tokens` prompt tokens. */
+  calibrate(chars: number, tokens: number): void {
+    if (tokens < MIN_CALIBRATION_TOKENS || chars <= 0) return;
+    const observed = Math.min(MAX_CHARS_PER_TOKEN, Math.max(MIN_CHARS_PER_TOKEN, chars / tokens));
+    this.ratio = this.samples === 0 ? observed : this.ratio * (1 - CALIBRATION_WEIGHT) + observed * CALIBRATION_WEIGHT;
+    this.samples++;
+  }
+
+  /** Cut `text` at the end so it fits in `maxTokens` (marker included). */
+  truncate(text: string, maxTokens: number): string {
+    if (this.count(text) <= maxTokens) return text;
+    const chars = this.charsFor(maxTokens) - TRUNCATION_MARKER.length;
+    return chars > 0 ? text.slice(0, chars) + TRUNCATION_MARKER : '';
+  }
+
+  /** Drop whole lines from the start so `text` fits in `maxTokens` (marker included). */
+  truncateOldestLines(text: string, maxTokens: number): string {
+    if (this.count(text) <= maxTokens) return text;
+    const budget = this.charsFor(maxTokens) - TRANSCRIPT_TRUNCATION_MARKER.length;
+    const lines = text.split('\n');
+    const kept: string[] = [];
+    let used = 0;
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const cost = lines[i].length + (kept.length > 0 ? 1 : 0);
+      if (used + cost > budget) break;
+      kept.unshift(lines[i]);
+      used += cost;
+    }
+    return kept.length > 0 ? TRANSCRIPT_TRUNCATION_MARKER + kept.join('\n') : '';
+  }
+}
+
+export interface ContextSection {
+  name: ContextSectionName;
+  /** Markdown heading (and any preamble) kept in front of the body; '' for none. */
+  header: string;
+  body: string;
+  /** How the allocator may shrink it; 'none' sections are always sent whole. */
+  trim: 'tail' | 'oldest-lines' | 'none';
+  /** Lower trims first. Ignored for 'none'. */
+  trimOrder?: number;
+  /** Tokens the first pass leaves in place (the second pass may take them too). */
+  floorTokens?: number;
+}
+
+export interface AllocatedContext {
+  /** Rendered section text (header + body) by name ('' when empty or trimmed away). */
+  rendered: Map<ContextSectionName, string>;
+  /** Section bodies after trimming. */
+  bodies: Map<ContextSectionName, string>;
+  report: ContextBudgetReport;
+}
+
+function render(section: ContextSection): string {
+  if (!section.body) return '';
+  return section.header ? `${section.header}\n${section.body}` : section.body;
+}
+
+/**
+ * Fit sections into `promptLimit` tokens. `contextLimit` and `responseReserve`
+ * (promptLimit = contextLimit - responseReserve) are only carried into the report.
+ */
+export function allocateContextBudget(
+  sections: ContextSection[],
+  counter: TokenCounter,
+  contextLimit: number,
+  responseReserve: number,
+): AllocatedContext {
+  const promptLimit = Math.max(0, contextLimit - responseReserve);
+  const state = sections.map(section => {
+    const text = render(section);
+    const tokens = text ? counter.count(text + SECTION_SEPARATOR) : 0;
+    return { section, body: section.body, text, tokens, requested: tokens };
+  });
+  let total = state.reduce((sum, s) => sum + s.tokens, 0);
+
+  const trimmable = state
+    .filter(s => s.section.trim !== 'none' && s.tokens > 0)
+    .sort((a, b) => (a.section.trimOrder ?? 0) - (b.section.trimOrder ?? 0));
+
+  const shrink = (entry: typeof state[number], target: number) => {
+    const { section } = entry;
+    const overhead = counter.count((section.header ? section.header + '\n' : '') + SECTION_SEPARATOR);
+    const bodyTokens = target - overhead;
+    const body = bodyTokens <= 0 ? ''
+      : section.trim === 'oldest-lines' ? counter.truncateOldestLines(section.body, bodyTokens)
+      : counter.truncate(section.body, bodyTokens);
+    entry.body = body;
+    entry.text = render({ ...section, body });
+    const tokens = entry.text ? counter.count(entry.text + SECTION_SEPARATOR) : 0;
+    total -= entry.tokens - tokens;
+    entry.tokens = tokens;
+  };
+
+  for (const pass of ['floor', 'all'] as const) {
+    for (const entry of trimmable) {
+      if (total <= promptLimit) break;
+      const floor = pass === 'floor' ? Math.min(entry.section.floorTokens ?? 0, entry.tokens) : 0;
+      const target = Math.max(floor, entry.tokens - (total - promptLimit));
+      if (target < entry.tokens) shrink(entry, target);
+    }
+  }
+
+  return {
+    rendered: new Map(state.map(s => [s.section.name, s.text])),
+    bodies: new Map(state.map(s => [s.section.name, s.body])),
+    report: {
+      limit: contextLimit,
+      responseReserve,
+      total,
+      charsPerToken: Math.round(counter.charsPerToken * 100) / 100,
+      calibrationSamples: counter.calibrationSamples,
+      sections: state.map(s => ({ name: s.section.name, tokens: s.tokens, trimmedTokens: s.requested - s.tokens })),
+    },
+  };
+}
@@ -5,35 +5,41 @@
  */
 
 import * as fs from 'fs';
-import { getConfig } from '../config.js';
+import { getConfig, type GmConfig } from '../config.js';
 import { logger } from '../logger.js';
+import { systemClock, type Clock } from '../session/clock.js';
 import type { McpAggregator } from '../mcp/client.js';
+import { ToolPolicy } from '../mcp/tool-policy.js';
 import type { PacingStateManager } from '../state/pacing.js';
 import type { AdviceMemoryBuffer } from '../state/advice-memory.js';
-import type { TriggerBatch, AssembledContext, NpcCacheEntry, SceneIndexEntry } from '../types/index.js';
+import type { AdviceFeedbackStore } from '../state/feedback.js';
+import { TokenCounter, allocateContextBudget, type ContextSection } from './context-budget.js';
+import { EMIT_ADVICE_TOOL } from './envelope-parser.js';
+import { describeFateRoll } from './fate-rolls.js';
+import type { TriggerBatch, AssembledContext, ContextSectionName, NpcCacheEntry, SceneIndexEntry } from '../types/index.js';
 
-// ── Tools that Claude must NOT call directly ────────────────────────────────
-// Image posting requires GM confirmation via /yes — Claude suggests, orchestrator posts.
-const BLOCKED_TOOLS = new Set(['discord__post_image']);
-
-// ── Token estimation (~4 chars/token) ──────────────────────────────────────
-
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
+// ── Tools staged for GM approval ────────────────────────────────────────────
+// TOOL_POLICY "confirm" tools are offered with this note so the model knows
+// the call only proposes the action (the GM runs it with /approve).
+const CONFIRM_TOOL_NOTE = '[Requires GM approval: calling this stages the action for the GM; it does not run.] ';
 
 // ── Context budget targets ──────────────────────────────────────────────────
 //
-// Default ceiling: 15,000 tokens (MAX_CONTEXT_TOKENS env var)
+// Default ceiling: 20,000 tokens (MAX_CONTEXT_TOKENS env var)
 //   System prompt:     ~3,000
 //   Episode plan:      ~1,500
 //   Pacing state:        ~300
 //   Character roster:  ~1,500
-//   Recent transcript: ~5,000–6,000
+//   Recent transcript: whatever is left (window: TRANSCRIPT_WINDOW_MINUTES)
 //   ALREADY ADVISED:   ~1,500
 //   Tool definitions:  ~2,000–4,000  (included in estimate)
 //   Response reserve:  ~2,000
 //
+// The per-section caps below apply first. If the sections still don't fit,
+// allocateContextBudget() trims them in TRIM_ORDER — each down to its floor
+// first, then further — until the prompt is exactly within budget. The
+// stable blocks (episode plan, player mappings) are never trimmed: they are
+// the cached prompt prefix, and trimming them per call would change it.
 
 const BUDGET_EPISODE_PLAN = 1500;
 const BUDGET_ROSTER = 1500;
@@ -43,8 +49,22 @@ const BUDGET_SCENE_CARD = 1500;
 const BUDGET_NPC_CARD = 800;
 const BUDGET_UPCOMING_SCENE = 800;
 const BUDGET_GM_NOTES = 500;
+const BUDGET_GM_FEEDBACK = 300;
 const BUDGET_RESPONSE_RESERVE = 2000;
 
+/** Trim order (first trimmed first) and the tokens the first pass leaves each section. */
+const TRIM_ORDER: Partial<Record<ContextSectionName, { order: number; floor: number }>> = {
+  'feedback': { order: 1, floor: 0 },
+  'look-ahead': { order: 2, floor: 0 },
+  'npc-reference': { order: 3, floor: 0 },
+  'roster': { order: 4, floor: 300 },
+  'already-advised': { order: 5, floor: 400 },
+  'transcript': { order: 6, floor: 1500 },
+  'npc-card': { order: 7, floor: 300 },
+  'scene-card': { order: 8, floor: 600 },
+  'gm-notes': { order: 9, floor: 0 },
+};
+
 // ── MCP result extraction ─────────────────────────────────────────────────
 
 /** Extract text content from an MCP callTool result. */
@@ -75,6 +95,9 @@ function extractCardHtml(result: unknown): string | null {
   return text;
 }
 
+/** The aggregator surface context assembly reads from (replays supply a recorded stand-in). */
+export type ContextMcp = Pick<McpAggregator, 'callTool' | 'readResource' | 'isConnected' | 'getAllTools'>;
+
 export interface GmNote {
   text: string;
   timestamp: string;
@@ -85,12 +108,22 @@ export class ContextAssembler {
   private npcCache: NpcCacheEntry[] = [];
   private sceneIndex: SceneIndexEntry[] = [];
   private gmNotes: GmNote[] = [];
+  /** Episode plan as cut to BUDGET_EPISODE_PLAN, kept until the card changes so the cached prefix holds. */
+  private episodePlanBlock: { source: string; block: string } | null = null;
+  private feedback: AdviceFeedbackStore | null = null;
+  private toolPolicy: ToolPolicy;
 
   constructor(
-    private mcp: McpAggregator,
+    private mcp: ContextMcp,
     private pacing: PacingStateManager,
     private memory: AdviceMemoryBuffer,
-  ) {}
+    private clock: Clock = systemClock,
+    private config: GmConfig = getConfig(),
+    /** Shared with the engine, which calibrates it from API usage. */
+    private tokens: TokenCounter = new TokenCounter(),
+  ) {
+    this.toolPolicy = new ToolPolicy(config.toolPolicy);
+  }
 
   setNpcCache(cache: NpcCacheEntry[]): void {
     this.npcCache = cache;
@@ -104,6 +137,10 @@ export class ContextAssembler {
     this.gmNotes = notes;
   }
 
+  setFeedback(feedback: AdviceFeedbackStore | null): void {
+    this.feedback = feedback;
+  }
+
   /**
    * Fetch a wiki card's text content via MCP. Returns stripped HTML or null.
    * Non-throwing: logs and returns null on failure.
@@ -124,7 +161,7 @@ export class ContextAssembler {
 
   /** Load the system prompt template from disk. */
   loadTemplate(): void {
-    const config = getConfig();
+    const config = this.config;
     try {
       this.systemPromptTemplate = fs.readFileSync(config.systemPromptPath, 'utf-8');
       logger.info(`ContextAssembler: loaded system prompt from ${config.systemPromptPath}`);
@@ -136,13 +173,13 @@ export class ContextAssembler {
 
   /**
    * Assemble full context for a reasoning invocation.
-   * Enforces configurable token ceiling (default 15k).
+   * Fits it into MAX_CONTEXT_TOKENS (minus the response reserve) section by section.
    */
   async assemble(
     batch: TriggerBatch,
     transcriptSegments: Array<{ text: string; userId?: string; displayName?: string; timestamp: string }>,
   ): Promise<AssembledContext> {
-    const config = getConfig();
+    const config = this.config;
     const maxTokens = config.maxContextTokens;
 
     // ── Parallel MCP fetches (game state, episode plan, trigger cards) ──
@@ -175,13 +212,13 @@ export class ContextAssembler {
     if (sceneCardRaw.status === 'fulfilled' && sceneCardRaw.value) {
       const title = sceneEvent!.data.scene_title as string;
       sceneCardBlock = this.truncateToTokens(`Scene: ${title}\n\n${sceneCardRaw.value}`, BUDGET_SCENE_CARD);
-      logger.info(`ContextAssembler: pre-fetched scene card "${sceneCardPath}" (~${estimateTokens(sceneCardBlock)} tokens)`);
+      logger.info(`ContextAssembler: pre-fetched scene card "${sceneCardPath}" (~${this.tokens.count(sceneCardBlock)} tokens)`);
     }
     let npcCardBlock = '';
     if (npcCardRaw.status === 'fulfilled' && npcCardRaw.value) {
       const name = npcEvent!.data.npc_name as string;
       npcCardBlock = this.truncateToTokens(`NPC: ${name}\n\n${npcCardRaw.value}`, BUDGET_NPC_CARD);
-      logger.info(`ContextAssembler: pre-fetched NPC card "${npcCardPath}" (~${estimateTokens(npcCardBlock)} tokens)`);
+      logger.info(`ContextAssembler: pre-fetched NPC card "${npcCardPath}" (~${this.tokens.count(npcCardBlock)} tokens)`);
     }
 
     // v6: Build upcoming scene block (look-ahead for anticipatory guidance)
@@ -191,7 +228,7 @@ export class ContextAssembler {
         `Next Scene: ${upcomingScene.title}\n\n${upcomingSceneRaw.value}`,
         BUDGET_UPCOMING_SCENE,
       );
-      logger.info(`ContextAssembler: pre-fetched upcoming scene "${upcomingScene.title}" (~${estimateTokens(upcomingSceneBlock)} tokens)`);
+      logger.info(`ContextAssembler: pre-fetched upcoming scene "${upcomingScene.title}" (~${this.tokens.count(upcomingSceneBlock)} tokens)`);
     }
 
     // Check Foundry connectivity
@@ -205,10 +242,10 @@ export class ContextAssembler {
 
     // Update freshness timestamps
     if (gameStateRaw.status === 'fulfilled') {
-      this.pacing.updateFoundryFreshness(new Date().toISOString());
+      this.pacing.updateFoundryFreshness(this.clock.now().toISOString());
     }
     if (episodePlanRaw.status === 'fulfilled' && episodePlan) {
-      this.pacing.updateWikiFreshness(new Date().toISOString());
+      this.pacing.updateWikiFreshness(this.clock.now().toISOString());
     }
 
     // ── Build components ────────────────────────────────────────────────
@@ -217,89 +254,97 @@ export class ContextAssembler {
     const triggerSummary = this.summarizeTriggers(batch, { sceneCardFetched: !!sceneCardBlock, npcCardFetched: !!npcCardBlock });
     const pacingBlock = this.buildPacingBlock();
     const rosterBlock = this.buildCompressedRoster(gameState);
-    const episodeBlock = this.truncateToTokens(this.stripHtml(episodePlan || 'No episode plan loaded.'), BUDGET_EPISODE_PLAN);
+    const episodeBlock = this.buildEpisodeBlock(episodePlan);
     const npcBlock = this.buildNpcBlock();
     const advisedBlock = this.buildAlreadyAdvisedBlock();
     const freshnessBlock = this.buildFreshnessWarnings();
     const mappingsText = this.buildMappingsText();
     const gmNotesBlock = this.buildGmNotesBlock();
+    const feedbackBlock = this.buildFeedbackBlock();
 
-    // ── Tool definitions (computed early — needed for budget) ──────────
+    // ── Tool definitions ───────────────────────────────────────────────
 
-    // Filter out tools that Claude must not call directly (image posting requires GM confirmation)
-    const tools = this.mcp.getAllTools().filter(
-      t => !BLOCKED_TOOLS.has(t.name)
-    );
-    // Tool definitions (JSON schemas) consume 2-4k tokens — must be subtracted
-    // from transcript budget so the full request stays within maxContextTokens.
-    const toolTokens = estimateTokens(JSON.stringify(tools));
-
-    // ── Token accounting ────────────────────────────────────────────────
-
-    const fixedTokens = estimateTokens(systemPrompt) +
-      estimateTokens(triggerSummary) +
-      estimateTokens(pacingBlock) +
-      estimateTokens(rosterBlock) +
-      estimateTokens(episodeBlock) +
-      estimateTokens(npcBlock) +
-      estimateTokens(sceneCardBlock) +
-      estimateTokens(npcCardBlock) +
-      estimateTokens(upcomingSceneBlock) +
-      estimateTokens(advisedBlock) +
-      estimateTokens(freshnessBlock) +
-      estimateTokens(mappingsText) +
-      estimateTokens(gmNotesBlock) +
-      toolTokens;
-
-    const availableForTranscript = Math.max(0, maxTokens - fixedTokens - BUDGET_RESPONSE_RESERVE);
+    // Only tools TOOL_POLICY lets through (denied tools are never offered)
+    const tools = this.mcp.getAllTools().flatMap(t => {
+      const permission = this.toolPolicy.permission(t.name);
+      if (permission === 'deny') return [];
+      return permission === 'confirm' ? [{ ...t, description: CONFIRM_TOOL_NOTE + (t.description ?? '') }] : [t];
+    });
 
     // Filter transcript to window
     const windowMs = config.transcriptWindowMinutes * 60_000;
-    const now = Date.now();
+    const now = this.clock.now().getTime();
     const windowedSegments = transcriptSegments.filter(s => {
       const segTime = new Date(s.timestamp).getTime();
       return (now - segTime) <= windowMs;
     });
 
-    const recentTranscript = this.buildTranscriptText(windowedSegments, availableForTranscript);
-
     // Update transcript freshness
     if (windowedSegments.length > 0) {
       const latest = windowedSegments[windowedSegments.length - 1];
       this.pacing.updateTranscriptFreshness(0, latest.timestamp);
     }
 
-    // ── Compose dynamic context (user message) ─────────────────────────
-
-    const contextParts = [
-      `## Trigger\n${triggerSummary}`,
-      gmNotesBlock ? `## GM Notes\nDirect instructions from the GM. Treat these as high-priority context.\n\n${gmNotesBlock}` : '',
-      freshnessBlock ? `## Data Freshness\n${freshnessBlock}` : '',
-      `## Pacing State\n${pacingBlock}`,
-      `## Episode Plan (Current Act)\n${episodeBlock}`,
-      sceneCardBlock ? `## Pre-Fetched Scene Card\nFull content from the matched scene card. Use this for read-aloud text, objectives, and setup notes.\n\n${sceneCardBlock}` : '',
-      npcCardBlock ? `## Pre-Fetched NPC Card\nFull character card for the NPC just mentioned. Use this for voice, personality, and relationships.\n\n${npcCardBlock}` : '',
-      upcomingSceneBlock ? `## Upcoming Scene (Look-Ahead)\nThis is the next unplayed scene from the episode plan. Use it to anticipate what the GM will need — surface key details, NPC notes, and setting descriptions BEFORE the transition happens.\n\n${upcomingSceneBlock}` : '',
-      `## Character Roster\n${rosterBlock}`,
-      npcBlock ? `## NPC Reference (Pre-Cached)\n${npcBlock}` : '',
-      mappingsText ? `## Player Identity Mappings\n${mappingsText}` : '',
-      advisedBlock ? `## ${advisedBlock}` : '',
-      `## Recent Transcript\n${recentTranscript}`,
-    ].filter(Boolean).join('\n\n');
-
-    const totalTokens = estimateTokens(systemPrompt) + estimateTokens(contextParts) + toolTokens;
+    // ── Budget allocation ───────────────────────────────────────────────
+    // Tool definitions (JSON schemas, emit_advice included) consume 2-4k
+    // tokens and count toward MAX_CONTEXT_TOKENS like everything else.
+
+    const section = (name: ContextSectionName, header: string, body: string, trim: ContextSection['trim'] = 'tail'): ContextSection => {
+      const order = TRIM_ORDER[name];
+      return order && trim !== 'none'
+        ? { name, header, body, trim, trimOrder: order.order, floorTokens: order.floor }
+        : { name, header, body, trim: 'none' };
+    };
+
+    const { rendered, bodies, report } = allocateContextBudget([
+      section('system-prompt', '', systemPrompt, 'none'),
+      section('tools', '', JSON.stringify([...tools, EMIT_ADVICE_TOOL]), 'none'),
+      section('episode-plan', '## Episode Plan (Current Act)', episodeBlock, 'none'),
+      section('player-mappings', '## Player Identity Mappings', mappingsText, 'none'),
+      section('trigger', '## Trigger', triggerSummary, 'none'),
+      section('gm-notes', '## GM Notes\nDirect instructions from the GM. Treat these as high-priority context.\n', gmNotesBlock),
+      section('freshness', '## Data Freshness', freshnessBlock, 'none'),
+      section('pacing', '## Pacing State', pacingBlock, 'none'),
+      section('scene-card', '## Pre-Fetched Scene Card\nFull content from the matched scene card. Use this for read-aloud text, objectives, and setup notes.\n', sceneCardBlock),
+      section('npc-card', '## Pre-Fetched NPC Card\nFull character card for the NPC just mentioned. Use this for voice, personality, and relationships.\n', npcCardBlock),
+      section('look-ahead', '## Upcoming Scene (Look-Ahead)\nThis is the next unplayed scene from the episode plan. Use it to anticipate what the GM will need — surface key details, NPC notes, and setting descriptions BEFORE the transition happens.\n', upcomingSceneBlock),
+      section('roster', '## Character Roster', rosterBlock),
+      section('npc-reference', '## NPC Reference (Pre-Cached)', npcBlock),
+      section('already-advised', '', advisedBlock ? `## ${advisedBlock}` : ''),
+      section('feedback', '', feedbackBlock ? `## ${feedbackBlock}\nHow the GM has rated your advice by category. Lean toward what they rate good; for categories rated too late, only speak when it is still actionable.` : ''),
+      section('transcript', '## Recent Transcript', this.buildTranscriptText(windowedSegments), 'oldest-lines'),
+    ], this.tokens, maxTokens, BUDGET_RESPONSE_RESERVE);
+
+    // ── Compose stable prefix + dynamic context (user message) ─────────
+    // The stable blocks hold for the whole session, so they lead the user
+    // turn: together with tools and the system prompt they form the prefix
+    // the provider caches (PROMPT_CACHE_ENABLED). Anything that changes
+    // between calls belongs in contextParts.
+
+    const join = (names: ContextSectionName[]) => names.map(n => rendered.get(n) ?? '').filter(Boolean).join('\n\n');
+    const stableContext = join(['episode-plan', 'player-mappings']);
+    const contextParts = join([
+      'trigger', 'gm-notes', 'freshness', 'pacing', 'scene-card', 'npc-card', 'look-ahead',
+      'roster', 'npc-reference', 'already-advised', 'feedback', 'transcript',
+    ]);
+    const recentTranscript = bodies.get('transcript') || 'No recent transcript.';
 
     this.pacing.markAssembled();
-    logger.info(`ContextAssembler: assembled ${totalTokens} estimated tokens (budget: ${maxTokens})`);
+    const trimmed = report.sections.filter(s => s.trimmedTokens > 0);
+    logger.info(
+      `ContextAssembler: assembled ${report.total} estimated tokens (budget: ${maxTokens - BUDGET_RESPONSE_RESERVE} + ${BUDGET_RESPONSE_RESERVE} reserve)` +
+      (trimmed.length > 0 ? ` — trimmed ${trimmed.map(s => `${s.name} -${s.trimmedTokens}`).join(', ')}` : ''),
+    );
 
-    if (totalTokens > maxTokens) {
-      logger.warn(`ContextAssembler: OVER BUDGET — ${totalTokens} > ${maxTokens}`);
+    if (report.total > maxTokens - BUDGET_RESPONSE_RESERVE) {
+      logger.warn(`ContextAssembler: OVER BUDGET — untrimmable sections alone need ${report.total} > ${maxTokens - BUDGET_RESPONSE_RESERVE}`);
     }
 
     return {
       systemPrompt,
       triggerSummary,
       recentTranscript,
+      stableContext,
       gameState: contextParts,
       pacingState: this.pacing.state,
       freshness: this.pacing.freshness,
@@ -307,7 +352,8 @@ export class ContextAssembler {
       npcCache: this.npcCache.length > 0 ? this.npcCache : undefined,
       sceneIndex: this.sceneIndex.length > 0 ? this.sceneIndex : undefined,
       tools,
-      estimatedTokens: totalTokens,
+      estimatedTokens: report.total,
+      budget: report,
     };
   }
 
@@ -325,9 +371,20 @@ export class ContextAssembler {
       next_planned_beat: s.next_planned_beat,
       spotlight_debt: s.spotlight_debt,
       players_without_recent_spotlight: s.players_without_recent_spotlight,
+      spotlight_share: s.spotlight_share,
+      players_not_in_scene: s.players_not_in_scene,
       engagement_signals: s.engagement_signals,
       separation_status: s.separation_status,
       climax_proximity: s.climax_proximity,
+      // Reveal keywords are matching detail, not context
+      planted_seeds: s.planted_seeds.map(x => ({
+        name: x.name,
+        planted_in_scene: x.planted_in_scene,
+        revealed: x.revealed,
+        ...(x.reveal_pending ? { reveal_pending: true } : {}),
+        ...(x.carried_over ? { carried_over: true } : {}),
+      })),
+      open_threads: s.open_threads,
     }, null, 0); // Compact JSON — saves tokens
   }
 
@@ -400,13 +457,13 @@ export class ContextAssembler {
   }
 
   private buildFreshnessWarnings(): string {
-    const stale = this.pacing.staleSources();
+    const stale = this.pacing.staleSources(this.clock.now());
     if (stale.length === 0) return '';
     return stale.map(s => `[DATA STALE] ${s} data may be outdated`).join('\n');
   }
 
   private buildMappingsText(): string {
-    const config = getConfig();
+    const config = this.config;
     const mappings = config.userMappings;
     if (Object.keys(mappings).length === 0) return '';
     return Object.entries(mappings)
@@ -420,33 +477,24 @@ export class ContextAssembler {
     return this.truncateToTokens(lines.join('\n'), BUDGET_GM_NOTES);
   }
 
+  private buildFeedbackBlock(): string {
+    const block = this.feedback?.formatForContext() ?? '';
+    if (!block) return '';
+    return this.truncateToTokens(block, BUDGET_GM_FEEDBACK);
+  }
+
   // ── Transcript Builder ──────────────────────────────────────────────────
 
+  /** One line per segment; the budget allocator drops the oldest lines if it must. */
   private buildTranscriptText(
     segments: Array<{ text: string; userId?: string; displayName?: string; timestamp: string }>,
-    maxTokens: number,
   ): string {
     if (segments.length === 0) return 'No recent transcript.';
 
-    const lines = segments.map(s => {
+    return segments.map(s => {
       const speaker = s.displayName ?? s.userId ?? 'Unknown';
-      return `[${s.timestamp}] ${speaker}: ${s.text}`;
-    });
-
-    // Build from newest, prepending until budget exhausted
-    const result: string[] = [];
-    let totalTokens = 0;
-    for (let i = lines.length - 1; i >= 0; i--) {
-      const lineTokens = estimateTokens(lines[i]);
-      if (totalTokens + lineTokens > maxTokens) {
-        result.unshift('...[earlier transcript truncated]');
-        break;
-      }
-      result.unshift(lines[i]);
-      totalTokens += lineTokens;
-    }
-
-    return result.join('\n');
+      return `[${s.timestamp}] ${speaker}: ${s.text.replace(/\n+/g, ' ')}`;
+    }).join('\n');
   }
 
   // ── Helpers ─────────────────────────────────────────────────────────────
@@ -467,11 +515,21 @@ export class ContextAssembler {
       .trim();
   }
 
+  /**
+   * The episode plan cut to its budget once per plan text: the token
+   * estimate is recalibrated as calls complete, and re-cutting with it would
+   * shift the stable prefix by a few characters and miss the prompt cache.
+   */
+  private buildEpisodeBlock(episodePlan: string): string {
+    const source = episodePlan || 'No episode plan loaded.';
+    if (this.episodePlanBlock?.source !== source) {
+      this.episodePlanBlock = { source, block: this.truncateToTokens(this.stripHtml(source), BUDGET_EPISODE_PLAN) };
+    }
+    return this.episodePlanBlock.block;
+  }
+
   private truncateToTokens(text: string, maxTokens: number): string {
-    if (estimateTokens(text) <= maxTokens) return text;
-    // Truncate at char level (rough)
-    const maxChars = maxTokens * 4;
-    return text.slice(0, maxChars) + '\n...[truncated]';
+    return this.tokens.truncate(text, maxTokens);
   }
 
   private summarizeTriggers(
@@ -497,7 +555,7 @@ export class ContextAssembler {
           break;
         case 'scene_transition_detected':
           parts.push(
-            `P2 — Scene detected from keywords: "${event.data.scene_title}" ` +
+            `P2 — Scene detected from keywords: "${event.data.scene_title}" [subject scene:${event.data.scene_id}] ` +
             `(matched: ${(event.data.matched_keywords as string[])?.join(', ') ?? ''}). ` +
             (prefetch.sceneCardFetched
               ? `The scene card has been pre-fetched below — use it for read-aloud text, objectives, and setup notes.`
@@ -507,7 +565,7 @@ export class ContextAssembler {
         case 'npc_first_appearance': {
           const pron = event.data.npc_pronunciation ? ` (${event.data.npc_pronunciation})` : '';
           parts.push(
-            `P2 — NPC first appearance: ${event.data.npc_name}${pron}. ` +
+            `P2 — NPC first appearance: ${event.data.npc_name}${pron} [subject npc:${event.data.npc_key}]. ` +
             `Brief: ${event.data.npc_brief}. ` +
             (prefetch.npcCardFetched
               ? `Full character card has been pre-fetched below.`
@@ -523,7 +581,9 @@ export class ContextAssembler {
             `P2 — Convergence gate: ${event.data.remaining_minutes}min remaining. ` +
             (event.data.escalation
               ? `ESCALATION: Still in Act ${event.data.current_act}, need to accelerate toward climax.`
-              : `Open threads: ${(event.data.open_threads as string[])?.join(', ') || 'none tracked'}.`)
+              : `Open threads: ${(event.data.open_threads as string[])?.join(', ') || 'none tracked'}. ` +
+                `Unrevealed seeds: ${(event.data.unrevealed_seeds as Array<{ name: string; planted_in_scene: string }> | undefined)
+                  ?.map(s => s.planted_in_scene ? `${s.name} (planted in ${s.planted_in_scene})` : s.name).join(', ') || 'none tracked'}.`)
           );
           break;
         case 'pacing_gate_denouement':
@@ -535,6 +595,44 @@ export class ContextAssembler {
         case 'silence_detection':
           parts.push(`P4 — GM silence: ${event.data.silenceSeconds}s`);
           break;
+        case 'epic_success':
+          parts.push(
+            `P3 — Success with style: ${describeFateRoll(event.data)}. ` +
+            `Suggest the boost they could take or a line of narration that lands the moment.`
+          );
+          break;
+        case 'spectacular_failure':
+          parts.push(
+            `P3 — Spectacular failure: ${describeFateRoll(event.data)}. ` +
+            `Suggest a serious cost for success at a cost, or how the failure moves the story.`
+          );
+          break;
+        case 'roll_tie':
+          parts.push(
+            `P3 — Tie: ${describeFateRoll(event.data)}. ` +
+            `Suggest the minor cost or boost for success at a minor cost.`
+          );
+          break;
+        case 'spotlight_debt':
+          parts.push(
+            `P3 — Spotlight: ${event.data.player} has been quiet for ${event.data.quiet_minutes}min of play ` +
+            `(${event.data.share_percent}% of player talk lately${event.data.in_scene ? '' : ', not yet in this scene'}). ` +
+            `Use category "spotlight": a hook that brings them in — an aspect, an NPC who turns to them, a choice only their character can make.`
+          );
+          break;
+        case 'beat_reminder':
+        case 'whisper_ready':
+        case 'seed_reveal':
+          // Not summarized (beat, whisper and seed events are delivered pre-composed)
+          break;
+        default:
+          // Campaign trigger rule: the GM's own description says what the cue means
+          parts.push(
+            `P${event.priority} — Custom trigger "${event.data.rule}"` +
+            (event.data.description ? `: ${event.data.description}` : '') +
+            `. Heard: "${String(event.data.transcript ?? '').trim().slice(0, 200)}"`
+          );
+          break;
       }
     }
 
@@ -1,65 +1,157 @@
 /**
- * v2 Reasoning engine — invokes Claude with MCP tool use for GM advice.
- * Single-threaded: queues new triggers if processing is in progress.
+ * v2 Reasoning engine — invokes the configured LLM with MCP tool use for GM advice.
+ * Single-threaded: new triggers wait in a priority queue (ReasoningQueue)
+ * while a call is in flight. A P1 arriving during a P3/P4 call aborts that
+ * call (its batch goes back in the queue) and skips the inter-call delay.
  * Parses JSON advice envelopes, checks dedup, pushes to advice memory.
  */
 
 import { EventEmitter } from 'events';
-import Anthropic from '@anthropic-ai/sdk';
-import { getConfig } from '../config.js';
+import type Anthropic from '@anthropic-ai/sdk';
+import { getConfig, type GmConfig } from '../config.js';
 import { logger } from '../logger.js';
-import { ContextAssembler, type GmNote } from './context.js';
-import { parseAdviceEnvelope, wrapFreeTextAsEnvelope, isNoAdvice } from './envelope-parser.js';
+import { ContextAssembler, type ContextMcp, type GmNote } from './context.js';
+import { systemClock, type Clock, type TimerHandle } from '../session/clock.js';
+import { EMIT_ADVICE_TOOL, parseAdviceEnvelopes, toAdviceEnvelope, wrapFreeTextAsEnvelope, isNoAdvice } from './envelope-parser.js';
 import type { McpAggregator } from '../mcp/client.js';
+import type { FuzzyMatchTable } from './triggers.js';
 import type { PacingStateManager } from '../state/pacing.js';
 import type { AdviceMemoryBuffer } from '../state/advice-memory.js';
-import type { TriggerBatch, AdviceEnvelope, TriggerPriority, NpcCacheEntry, SceneIndexEntry } from '../types/index.js';
+import type { AdviceFeedbackStore } from '../state/feedback.js';
+import type { PipelineMetrics, ReasoningOutcome } from '../metrics/index.js';
+import { cacheHitRate, type LlmUsage } from '../qa/llm-cost.js';
+import { createLlmProvider, type LlmProvider, type LlmCallReport, type LlmCompletionHooks, type LlmToolCall, type LlmToolOutcome } from '../llm/index.js';
+import { AdviceStreamTracker } from './advice-stream.js';
+import { ReasoningQueue, topPriority } from './reasoning-queue.js';
+import { TokenCounter } from './context-budget.js';
+import { FactChecker, type FactCheckTurn } from './fact-check.js';
+import { ToolPolicy } from '../mcp/tool-policy.js';
+import { ToolApprovalQueue, type PendingToolCall } from '../output/tool-approval-queue.js';
+import { TriggerPriority, type TriggerBatch, type AdviceEnvelope, type AdviceStreamUpdate, type ContextBudgetReport, type NpcCacheEntry, type SceneIndexEntry } from '../types/index.js';
 
 const MAX_TOOL_ITERATIONS = 5;
 const MAX_TOOL_RESULT_CHARS = 5000;
+const INTER_CALL_DELAY_MS = 10_000;
+const MIN_INTER_CALL_DELAY_MS = 2_000;
 
 export interface ReasoningEngineEvents {
-  advice: [envelope: AdviceEnvelope];
+  /** Advice from a queued batch, in delivery order. */
+  advice: [envelopes: AdviceEnvelope[]];
+  /** Tokens billed by each model API call (session cost accounting). */
+  usage: [usage: LlmUsage];
+  /** Advice in STREAM_DELIVERY_CATEGORIES as it is generated (the final envelope carries stream_id). */
+  stream: [update: AdviceStreamUpdate];
+  /** A TOOL_POLICY "confirm" call the model made, now waiting for /approve. */
+  toolStaged: [call: PendingToolCall];
 }
 
 /** Returns the current transcript cache snapshot for context assembly. */
 export type TranscriptProvider = () => Array<{ text: string; userId?: string; displayName?: string; timestamp: string }>;
 
+/** The aggregator surface the engine uses: context reads, tool calls, LLM recording. */
+export type ReasoningMcp = ContextMcp & Pick<McpAggregator, 'recordLlmExchange'>;
+
+/** A tool result the model saw this turn (evidence for the fact-check stage). */
+interface ToolResultRecord {
+  name: string;
+  content: string;
+}
+
+export interface ReasoningEngineOptions {
+  /** Drives the inter-call delay and context time windows (replays use a virtual clock). */
+  clock?: Clock;
+  /** Model backend. Defaults to the one LLM_PROVIDER selects. */
+  provider?: LlmProvider;
+  /** Per-pipeline config (multi-table processes). Defaults to the global config. */
+  config?: GmConfig;
+  /** GM ratings: fed into context and used to hold back categories the GM rejects. */
+  feedback?: AdviceFeedbackStore | null;
+  /** Reasoning latency, tool iterations and token usage for GET /metrics. */
+  metrics?: PipelineMetrics | null;
+  /** Where "confirm" tool calls wait for the GM. Defaults to a fresh queue. */
+  toolApprovals?: ToolApprovalQueue;
+}
+
 export class ReasoningEngine extends EventEmitter<ReasoningEngineEvents> {
-  private client: Anthropic;
+  private provider: LlmProvider;
   private assembler: ContextAssembler;
-  private mcp: McpAggregator;
+  private mcp: ReasoningMcp;
+  private clock: Clock;
+  private config: GmConfig;
+  private feedback: AdviceFeedbackStore | null;
+  private metrics: PipelineMetrics | null;
+  private toolPolicy: ToolPolicy;
+  private factChecker: FactChecker;
+  /** Tool calls staged for GM approval (TOOL_POLICY "confirm"). */
+  readonly toolApprovals: ToolApprovalQueue;
   private pacing: PacingStateManager;
   private memory: AdviceMemoryBuffer;
   private getTranscript: TranscriptProvider;
   private processing = false;
-  private queuedBatch: TriggerBatch | null = null;
+  private queue = new ReasoningQueue();
+  private drainTimer: TimerHandle | null = null;
+  /** The call in flight, so a P1 can preempt it. */
+  private inFlight: { priority: TriggerPriority; abort: AbortController } | null = null;
+  /** Prompt cache hit rate of the most recent API call (null before the first, or without usage). */
+  private lastCacheHitRate: number | null = null;
+  /** Context token estimates, calibrated from the usage of each turn's first call. */
+  private tokens = new TokenCounter();
+  /** Prompt characters of the turn whose first call hasn't reported yet. */
+  private pendingCalibrationChars: number | null = null;
+  private _lastContextBudget: ContextBudgetReport | null = null;
+  private streamCount = 0;
 
   constructor(
-    mcp: McpAggregator,
+    mcp: ReasoningMcp,
     pacing: PacingStateManager,
     memory: AdviceMemoryBuffer,
     transcriptProvider: TranscriptProvider,
+    options: ReasoningEngineOptions = {},
   ) {
     super();
-    const config = getConfig();
-    this.client = new Anthropic({ apiKey: config.anthropicApiKey });
+    const config = options.config ?? getConfig();
+    this.config = config;
+    this.provider = options.provider ?? createLlmProvider(config);
+    this.clock = options.clock ?? systemClock;
     this.mcp = mcp;
     this.pacing = pacing;
     this.memory = memory;
     this.getTranscript = transcriptProvider;
-    this.assembler = new ContextAssembler(mcp, pacing, memory);
+    this.assembler = new ContextAssembler(mcp, pacing, memory, this.clock, config, this.tokens);
     this.assembler.loadTemplate();
+    this.feedback = options.feedback ?? null;
+    this.assembler.setFeedback(this.feedback);
+    this.metrics = options.metrics ?? null;
+    this.toolPolicy = new ToolPolicy(config.toolPolicy);
+    this.toolApprovals = options.toolApprovals ?? new ToolApprovalQueue();
+    this.factChecker = new FactChecker(mcp, config);
+  }
+
+  /** Per-section token breakdown of the most recently assembled context (diagnostics). */
+  get lastContextBudget(): ContextBudgetReport | null {
+    return this._lastContextBudget;
+  }
+
+  /** True while a batch is being reasoned about (new batches are queued). */
+  get isProcessing(): boolean {
+    return this.processing;
   }
 
   /** Forward NPC cache to the context assembler for injection into context. */
   setNpcCache(cache: NpcCacheEntry[]): void {
     this.assembler.setNpcCache(cache);
+    this.factChecker.setNpcCache(cache);
   }
 
   /** Forward scene index to the context assembler for injection into context. */
   setSceneIndex(index: SceneIndexEntry[]): void {
     this.assembler.setSceneIndex(index);
+    this.factChecker.setSceneIndex(index);
+  }
+
+  /** Forward the STT fuzzy table to the fact-check stage (garbled names in advice are flagged). */
+  setFuzzyTable(table: FuzzyMatchTable): void {
+    this.factChecker.setFuzzyTable(table);
   }
 
   /** Forward GM notes to the context assembler for injection into context. */
@@ -68,181 +160,317 @@ export class ReasoningEngine extends EventEmitter<ReasoningEngineEvents> {
   }
 
   /**
-   * Process a trigger batch. If already processing, queues the batch
-   * (freshest data wins — overwrites any previously queued batch).
+   * Process a trigger batch. If a call is in flight (or the next queued
+   * batch is waiting out the inter-call delay), the batch is queued and its
+   * advice is emitted as 'advice' later; this call then resolves to [].
+   * A P1 batch skips the wait, preempting a P3/P4 call in flight.
+   * Resolves to the envelopes to deliver, in order (at most MAX_ADVICE_PER_BATCH).
    */
-  async process(batch: TriggerBatch): Promise<AdviceEnvelope | null> {
+  async process(batch: TriggerBatch): Promise<AdviceEnvelope[]> {
+    const priority = topPriority(batch);
+    const urgent = priority === TriggerPriority.P1;
+
     if (this.processing) {
-      logger.debug('ReasoningEngine: already processing — queuing batch');
-      this.queuedBatch = batch;
-      return null;
+      const merged = this.queue.push(batch);
+      logger.debug(`ReasoningEngine: already processing — ${merged ? 'merged into queued' : 'queued'} P${priority} batch`);
+      if (urgent && this.inFlight && this.inFlight.priority >= TriggerPriority.P3) {
+        logger.info(`ReasoningEngine: P1 preempting in-flight P${this.inFlight.priority} call`);
+        this.inFlight.abort.abort();
+      }
+      return [];
+    }
+
+    if (this.drainTimer) {
+      if (!urgent) {
+        this.queue.push(batch);
+        return [];
+      }
+      // The queued work can wait; answer the P1 now
+      this.clock.clearTimeout(this.drainTimer);
+      this.drainTimer = null;
     }
 
     this.processing = true;
-    let result: AdviceEnvelope | null = null;
+    const abort = new AbortController();
+    this.inFlight = { priority, abort };
+    let result: AdviceEnvelope[] = [];
     try {
-      result = await this.runReasoning(batch);
+      result = await this.runReasoning(batch, abort.signal);
     } catch (err) {
       logger.error('ReasoningEngine: error:', err);
     }
 
+    this.inFlight = null;
     this.processing = false;
     this.drainQueue();
 
     return result;
   }
 
+  /**
+   * Drop queued batches below `keep` priority (the spending cap stops
+   * lower-priority work already waiting).
+   */
+  discardQueuedBatch(keep: TriggerPriority): void {
+    const dropped = this.queue.discardBelow(keep);
+    if (dropped > 0) {
+      logger.info(`ReasoningEngine: discarding ${dropped} queued batch(es)`);
+    }
+  }
+
   private drainQueue(): void {
-    if (!this.queuedBatch) return;
-    const next = this.queuedBatch;
-    this.queuedBatch = null;
+    if (this.drainTimer || this.queue.nextPriority === null) return;
     // Delay before processing the next batch to avoid back-to-back API calls
-    // that could hit the org-level rate limit (30k tokens/min).
-    const INTER_CALL_DELAY_MS = 10_000;
-    setTimeout(() => {
-      this.process(next).then((envelope) => {
-        if (envelope) this.emit('advice', envelope);
+    // that could hit the org-level rate limit (30k tokens/min). Cache reads
+    // don't count toward that limit, so the wait shrinks with the share of
+    // the last prompt that came from cache. P1 questions don't wait.
+    const delayMs = this.queue.nextPriority === TriggerPriority.P1 ? 0 : Math.max(
+      MIN_INTER_CALL_DELAY_MS,
+      Math.round(INTER_CALL_DELAY_MS * (1 - (this.lastCacheHitRate ?? 0))),
+    );
+    this.drainTimer = this.clock.setTimeout(() => {
+      this.drainTimer = null;
+      const next = this.queue.shift();
+      if (!next) return;
+      this.process(next).then((envelopes) => {
+        if (envelopes.length > 0) this.emit('advice', envelopes);
       }).catch((err) => {
         logger.error('ReasoningEngine: error processing queued batch:', err);
       });
-    }, INTER_CALL_DELAY_MS);
+    }, delayMs);
   }
 
-  private async runReasoning(batch: TriggerBatch): Promise<AdviceEnvelope | null> {
-    const config = getConfig();
+  private async runReasoning(batch: TriggerBatch, signal: AbortSignal): Promise<AdviceEnvelope[]> {
+    const config = this.config;
+    const started = Date.now();
+    let outcome: ReasoningOutcome = 'error';
+    let iterations = 0;
+    const highestPriority = topPriority(batch);
+    const stream = this.createAdviceStream(highestPriority);
+    const toolResults: ToolResultRecord[] = [];
 
     try {
       const context = await this.assembler.assemble(batch, this.getTranscript());
+      this._lastContextBudget = context.budget;
       logger.info(`ReasoningEngine: assembled context (~${context.estimatedTokens} tokens)`);
 
-      const messages: Anthropic.Messages.MessageParam[] = [
-        {
-          role: 'user',
-          content: context.gameState,
-        },
-      ];
+      const tools = (context.tools as Anthropic.Messages.Tool[]).map(t => ({
+        name: t.name,
+        description: t.description ?? '',
+        inputSchema: t.input_schema as Record<string, unknown>,
+      }));
+      this.pendingCalibrationChars = context.systemPrompt.length + context.stableContext.length +
+        context.gameState.length + JSON.stringify([...context.tools, EMIT_ADVICE_TOOL]).length;
 
-      let response = await this.client.messages.create({
-        model: config.anthropicModel,
-        max_tokens: config.adviceMaxTokens,
+      const completion = await this.provider.complete({
         system: context.systemPrompt,
-        messages,
-        tools: context.tools as Anthropic.Messages.Tool[],
+        stablePrompt: context.stableContext,
+        prompt: context.gameState,
+        tools,
+        finalTool: EMIT_ADVICE_TOOL,
+        maxTokens: config.adviceMaxTokens,
+        maxToolIterations: MAX_TOOL_ITERATIONS,
+        promptCache: config.promptCacheEnabled,
+        signal,
+      }, {
+        executeTool: this.createToolExecutor(toolResults),
+        onCall: (report) => this.recordCall(report),
+        onText: stream ? (text) => stream.onText(text) : undefined,
       });
+      iterations = completion.toolIterations;
+      const adviceText = completion.text;
+
+      // emit_advice inputs (schema-validated by the API), else a text reply: JSON, repaired JSON, or prose
+      let envelopes = (completion.outputs ?? []).map(toAdviceEnvelope).filter((e): e is AdviceEnvelope => e !== null);
+      if (envelopes.length === 0 && adviceText) {
+        envelopes = parseAdviceEnvelopes(adviceText);
+        if (envelopes.length === 0) envelopes = [wrapFreeTextAsEnvelope(adviceText, highestPriority)];
+      }
+      if (envelopes.length === 0) {
+        logger.info(`ReasoningEngine: ${completion.outputs ? 'invalid emit_advice input' : 'empty response'} from ${this.provider.name}`);
+        outcome = 'empty';
+        return [];
+      }
 
-      // Tool use loop with zombie guard
-      let iterations = 0;
-      const calledTools = new Set<string>();
-
-      while (response.stop_reason === 'tool_use' && iterations < MAX_TOOL_ITERATIONS) {
-        iterations++;
-
-        const toolUseBlocks = response.content.filter(
-          (block): block is Anthropic.Messages.ToolUseBlock => block.type === 'tool_use'
-        );
-
-        const toolResults: Anthropic.Messages.ToolResultBlockParam[] = [];
-        for (const toolUse of toolUseBlocks) {
-          const callKey = `${toolUse.name}:${JSON.stringify(toolUse.input)}`;
-          if (calledTools.has(callKey)) {
-            logger.warn(`ReasoningEngine: skipping duplicate tool call (${toolUse.name})`);
-            toolResults.push({
-              type: 'tool_result',
-              tool_use_id: toolUse.id,
-              content: 'Error: This tool was already called with identical arguments. Use the previous result or try different arguments.',
-              is_error: true,
-            });
-            continue;
-          }
-          calledTools.add(callKey);
-
-          try {
-            const result = await this.mcp.callTool(
-              toolUse.name,
-              toolUse.input as Record<string, unknown>
-            );
-            let content = typeof result === 'string' ? result : JSON.stringify(result);
-            if (content.length > MAX_TOOL_RESULT_CHARS) {
-              logger.warn(`ReasoningEngine: truncating tool result from ${toolUse.name} (${content.length} → ${MAX_TOOL_RESULT_CHARS} chars)`);
-              content = content.slice(0, MAX_TOOL_RESULT_CHARS) + '\n\n[Result truncated. Use more specific parameters to narrow the query.]';
-            }
-            toolResults.push({
-              type: 'tool_result',
-              tool_use_id: toolUse.id,
-              content,
-            });
-          } catch (err) {
-            logger.warn(`ReasoningEngine: tool call failed (${toolUse.name}):`, err);
-            toolResults.push({
-              type: 'tool_result',
-              tool_use_id: toolUse.id,
-              content: `Error: ${err instanceof Error ? err.message : String(err)}. Do not retry this tool with the same arguments.`,
-              is_error: true,
-            });
-          }
+      // Check NO_ADVICE sentinel
+      const candidates = envelopes.filter(e => !isNoAdvice(e));
+      if (candidates.length === 0) {
+        logger.info('ReasoningEngine: model returned NO_ADVICE');
+        outcome = 'no_advice';
+        return [];
+      }
+      if (candidates.length > config.maxAdvicePerBatch) {
+        logger.info(`ReasoningEngine: ${candidates.length} envelopes — dropping [${candidates.slice(config.maxAdvicePerBatch).map(e => e.tag).join(', ')}] (MAX_ADVICE_PER_BATCH=${config.maxAdvicePerBatch})`);
+        candidates.length = config.maxAdvicePerBatch;
+      }
+
+      // Each envelope is screened and remembered on its own, in order (a later
+      // one repeating an earlier one is caught by dedup)
+      const factTurn: FactCheckTurn = {
+        evidence: [context.stableContext, context.gameState, ...toolResults.map(r => r.content)].join('\n'),
+        question: batch.events.some(e => e.type === 'gm_question'),
+        usedWiki: toolResults.some(r => r.name.startsWith('wiki__')),
+      };
+      const delivered: AdviceEnvelope[] = [];
+      let firstRejection: ReasoningOutcome | null = null;
+      for (const candidate of candidates) {
+        const screened = await this.screenEnvelope(candidate, context.recentTranscript, factTurn);
+        if ('rejected' in screened) {
+          firstRejection ??= screened.rejected;
+          continue;
         }
+        const envelope = screened.envelope;
+        this.memory.push(envelope);
+        // The stream showed the first envelope being written
+        if (candidate === envelopes[0] && stream?.opened) envelope.stream_id = stream.id;
+        delivered.push(envelope);
+      }
 
-        messages.push(
-          { role: 'assistant', content: response.content },
-          { role: 'user', content: toolResults }
-        );
-
-        response = await this.client.messages.create({
-          model: config.anthropicModel,
-          max_tokens: config.adviceMaxTokens,
-          system: context.systemPrompt,
-          messages,
-          tools: context.tools as Anthropic.Messages.Tool[],
-        });
+      if (delivered.length === 0) {
+        outcome = firstRejection ?? 'no_advice';
+        return [];
+      }
+      logger.info(`ReasoningEngine: generated advice [${delivered.map(e => e.tag).join(', ')}] (${iterations} tool iterations)`);
+      if (stream?.opened && !delivered.some(e => e.stream_id)) stream.withdraw();
+      outcome = 'advice';
+      return delivered;
+    } catch (err) {
+      if (signal.aborted) {
+        // Preempted by a P1: try again once the queue gets back to it
+        logger.info(`ReasoningEngine: P${highestPriority} call aborted — requeued`);
+        outcome = 'preempted';
+        this.queue.push(batch, true);
+        return [];
       }
+      logger.error('ReasoningEngine: error during reasoning:', err);
+      return [];
+    } finally {
+      if (outcome !== 'advice') stream?.withdraw();
+      this.metrics?.reasoning(outcome, (Date.now() - started) / 1000, iterations);
+    }
+  }
 
-      // Extract text response
-      const textBlocks = response.content.filter(
-        (block): block is Anthropic.Messages.TextBlock => block.type === 'text'
-      );
-      const adviceText = textBlocks.map(b => b.text).join('\n').trim();
+  /**
+   * Dedup, feedback and fact-check one envelope. Returns the envelope to
+   * deliver (possibly corrected) or why it was held back.
+   */
+  private async screenEnvelope(
+    envelope: AdviceEnvelope,
+    recentTranscript: string,
+    factTurn: FactCheckTurn,
+  ): Promise<{ envelope: AdviceEnvelope } | { rejected: ReasoningOutcome }> {
+    // Dedup check against memory
+    if (this.memory.isDuplicate(envelope)) {
+      logger.info(`ReasoningEngine: dedup — suppressing duplicate advice [${envelope.tag}]`);
+      return { rejected: 'duplicate' };
+    }
 
-      if (!adviceText) {
-        logger.info('ReasoningEngine: empty response from Claude');
-        return null;
-      }
+    // GM feedback: hold back categories the GM keeps rejecting
+    const held = this.feedback?.gate(envelope);
+    if (held) {
+      logger.info(`ReasoningEngine: feedback — suppressing [${envelope.tag}] (${held})`);
+      return { rejected: 'feedback' };
+    }
 
-      // Parse as JSON envelope
-      const highestPriority = Math.min(...batch.events.map(e => e.priority)) as TriggerPriority;
-      let envelope = parseAdviceEnvelope(adviceText);
-      if (!envelope) {
-        // Fall back to free-text wrapping
-        envelope = wrapFreeTextAsEnvelope(adviceText, highestPriority);
-      }
+    // Anti-echo telemetry: check if advice body substantially overlaps with transcript
+    this.checkAntiEcho(envelope, recentTranscript);
 
-      // Check NO_ADVICE sentinel
-      if (isNoAdvice(envelope)) {
-        logger.info('ReasoningEngine: Claude returned NO_ADVICE');
-        return null;
-      }
+    // Fact check: names must come from the caches, the context or the wiki (wiki-first for questions)
+    const checked = await this.factChecker.check(envelope, factTurn);
+    if (checked.suppress) {
+      logger.info(`ReasoningEngine: fact check — suppressing [${envelope.tag}]`);
+      return { rejected: 'fact_check' };
+    }
+    return { envelope: checked.envelope };
+  }
 
-      // Dedup check against memory
-      if (this.memory.isDuplicate(envelope)) {
-        logger.info(`ReasoningEngine: dedup — suppressing duplicate advice [${envelope.tag}]`);
-        return null;
+  /**
+   * Stream tracker for one reasoning turn, or null when nothing listens for
+   * 'stream' or STREAM_DELIVERY_CATEGORIES is empty.
+   */
+  private createAdviceStream(priority: TriggerPriority): AdviceStreamTracker | null {
+    const categories = this.config.streamDeliveryCategories;
+    if (categories.length === 0 || this.listenerCount('stream') === 0) return null;
+    return new AdviceStreamTracker(
+      `stream-${++this.streamCount}`,
+      priority,
+      new Set(categories),
+      (draft) => !this.memory.isDuplicate(draft) && !this.feedback?.gate(draft),
+      (update) => this.emit('stream', update),
+    );
+  }
+
+  /**
+   * Tool executor for one reasoning turn, with a zombie guard: an identical
+   * repeat call is refused rather than re-run. Oversized results are
+   * truncated, and failures go back to the model as error results.
+   * Successful results are appended to `results` for the fact-check stage.
+   */
+  private createToolExecutor(results: ToolResultRecord[]): LlmCompletionHooks['executeTool'] {
+    const calledTools = new Set<string>();
+
+    return async (call: LlmToolCall): Promise<LlmToolOutcome> => {
+      const callKey = `${call.name}:${JSON.stringify(call.input)}`;
+      if (calledTools.has(callKey)) {
+        logger.warn(`ReasoningEngine: skipping duplicate tool call (${call.name})`);
+        return {
+          content: 'Error: This tool was already called with identical arguments. Use the previous result or try different arguments.',
+          isError: true,
+        };
       }
+      calledTools.add(callKey);
 
-      // Anti-echo telemetry: check if advice body substantially overlaps with transcript
-      this.checkAntiEcho(envelope, context.recentTranscript);
+      // The context only offers permitted tools, but the model can still name others
+      const permission = this.toolPolicy.permission(call.name);
+      if (permission === 'deny') {
+        logger.warn(`ReasoningEngine: refusing tool call not permitted by TOOL_POLICY (${call.name})`);
+        return { content: `Error: ${call.name} is not available. Do not call it again.`, isError: true };
+      }
+      if (permission === 'confirm') {
+        const staged = this.toolApprovals.stage(call.name, call.input);
+        this.emit('toolStaged', staged);
+        return {
+          content: `Staged for GM approval as #${staged.id}; it has NOT run. Do not call it again — mention the proposed change in your advice if it matters.`,
+        };
+      }
 
-      // Wiki-first telemetry: log if a question was answered without referencing wiki cards
-      if (batch.events.some(e => e.type === 'gm_question') && envelope.source_cards.length === 0) {
-        logger.warn(`ReasoningEngine: wiki-first gap — question answered without wiki references [${envelope.tag}]`);
+      try {
+        const result = await this.mcp.callTool(call.name, call.input);
+        let content = typeof result === 'string' ? result : JSON.stringify(result);
+        if (content.length > MAX_TOOL_RESULT_CHARS) {
+          logger.warn(`ReasoningEngine: truncating tool result from ${call.name} (${content.length} → ${MAX_TOOL_RESULT_CHARS} chars)`);
+          content = content.slice(0, MAX_TOOL_RESULT_CHARS) + '\n\n[Result truncated. Use more specific parameters to narrow the query.]';
+        }
+        results.push({ name: call.name, content });
+        return { content };
+      } catch (err) {
+        logger.warn(`ReasoningEngine: tool call failed (${call.name}):`, err);
+        return {
+          content: `Error: ${err instanceof Error ? err.message : String(err)}. Do not retry this tool with the same arguments.`,
+          isError: true,
+        };
       }
+    };
+  }
 
-      // Push to memory buffer
-      this.memory.push(envelope);
-      logger.info(`ReasoningEngine: generated advice [${envelope.tag}] (${iterations} tool iterations)`);
+  /** Report one provider API call to the session recorder and its token usage. */
+  private recordCall(report: LlmCallReport): void {
+    this.mcp.recordLlmExchange(report.request, report.durationMs, report.response, report.error);
 
-      return envelope;
-    } catch (err) {
-      logger.error('ReasoningEngine: error during reasoning:', err);
-      return null;
+    // Only a turn's first call is billed for exactly the assembled context (later ones add tool results)
+    if (this.pendingCalibrationChars !== null) {
+      const usage = report.usage;
+      if (usage) this.tokens.calibrate(this.pendingCalibrationChars, usage.inputTokens + usage.cacheReadTokens + usage.cacheWriteTokens);
+      this.pendingCalibrationChars = null;
+    }
+
+    if (report.usage) {
+      this.lastCacheHitRate = cacheHitRate(report.usage);
+      if (report.usage.cacheReadTokens > 0 || report.usage.cacheWriteTokens > 0) {
+        logger.debug(`ReasoningEngine: prompt cache ${report.usage.cacheReadTokens} read / ${report.usage.cacheWriteTokens} written / ${report.usage.inputTokens} uncached`);
+      }
+      this.metrics?.llmTokens(report.usage);
+      this.emit('usage', report.usage);
     }
   }
 
@@ -1,56 +1,185 @@
 /**
- * Pure functions for parsing Claude's JSON advice envelope responses.
+ * Pure functions for parsing Claude's advice envelopes: the emit_advice tool
+ * input (the normal path) and JSON text replies (models or servers without
+ * forced tool use), with a repair pass for JSON that is cut off or sloppy.
+ * One reasoning call may produce several envelopes (one emit_advice call
+ * each, or a JSON array in text), most important first.
  */
 
 import { logger } from '../logger.js';
-import type { AdviceEnvelope, AdviceCategory, TriggerPriority } from '../types/index.js';
+import type { LlmTool } from '../llm/index.js';
+import type { AdviceEnvelope, AdviceCategory, ImageSuggestion, TriggerPriority } from '../types/index.js';
 
 const VALID_CATEGORIES: ReadonlySet<string> = new Set<AdviceCategory>([
   'script', 'gap-fill', 'pacing', 'continuity', 'spotlight',
-  'mechanics', 'technical', 'creative', 'none',
+  'mechanics', 'technical', 'creative', 'beat', 'whisper', 'none',
 ]);
 
 /**
- * Parse a Claude response as a JSON advice envelope.
- * Returns null on parse failure (caller should fall back to wrapFreeTextAsEnvelope).
+ * The tool every reasoning turn ends with: its input is the advice envelope.
+ * Providers require a tool call on every model call, so the model either
+ * looks something up or answers through this.
+ */
+export const EMIT_ADVICE_TOOL: LlmTool = {
+  name: 'emit_advice',
+  description: 'Deliver advice to the GM, as your final action. Call it once per distinct piece of advice '
+    + '(e.g. an NPC brief and a scene transition from the same batch), most important first — never merge '
+    + 'unrelated advice into one call. For NO_ADVICE call it once with category "none" and tag "NO_ADVICE".',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      category: { type: 'string', enum: [...VALID_CATEGORIES], description: 'beat and whisper are reserved for pre-composed reminders.' },
+      tag: { type: 'string', description: 'SHORT_TAG, e.g. SCRIPT, GAP, PACING, NO_ADVICE.' },
+      priority: { type: 'integer', minimum: 1, maximum: 4 },
+      summary: { type: 'string', description: '15 words or fewer.' },
+      body: { type: ['string', 'null'], description: 'Full advice text (null for NO_ADVICE).' },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      source_cards: { type: 'array', items: { type: 'string' }, description: 'Wiki card names referenced.' },
+      image: {
+        type: 'object',
+        description: 'Optional image suggestion (the GM confirms before it is posted).',
+        properties: {
+          path: { type: 'string', description: 'Relative path within the Foundry data directory.' },
+          description: { type: 'string' },
+          post_to: { type: 'string', description: 'Discord channel (defaults to the session text channel).' },
+        },
+        required: ['path', 'description'],
+      },
+      subject: {
+        type: 'string',
+        description: 'Set only for advice the GM needs once per session: "npc:<key>" for an NPC brief, "scene:<id>" for a scene brief.',
+      },
+    },
+    required: ['category', 'tag', 'priority', 'summary', 'body', 'confidence', 'source_cards'],
+  },
+};
+
+/**
+ * Validate an envelope object (emit_advice input or parsed JSON).
+ * Category, tag and summary are required; the rest fall back to defaults.
+ * Returns null when a required field is missing or invalid.
+ */
+export function toAdviceEnvelope(value: unknown): AdviceEnvelope | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const parsed = value as Record<string, unknown>;
+
+  // Validate required fields
+  if (typeof parsed.category !== 'string' || !VALID_CATEGORIES.has(parsed.category)) {
+    logger.warn(`EnvelopeParser: invalid category "${parsed.category}"`);
+    return null;
+  }
+  if (typeof parsed.tag !== 'string' || parsed.tag.length === 0) {
+    logger.warn('EnvelopeParser: missing or empty tag');
+    return null;
+  }
+  if (typeof parsed.summary !== 'string') {
+    logger.warn('EnvelopeParser: missing summary');
+    return null;
+  }
+
+  const priority = typeof parsed.priority === 'number' ? Math.min(4, Math.max(1, Math.round(parsed.priority))) : 4;
+  const confidence = typeof parsed.confidence === 'number' ? Math.min(1, Math.max(0, parsed.confidence)) : 0.5;
+  const image = parsed.image as Partial<ImageSuggestion> | null | undefined;
+  return {
+    category: parsed.category as AdviceCategory,
+    tag: parsed.tag,
+    priority: priority as TriggerPriority,
+    summary: parsed.summary,
+    body: typeof parsed.body === 'string' ? parsed.body : null,
+    confidence,
+    source_cards: Array.isArray(parsed.source_cards) ? parsed.source_cards.filter((c): c is string => typeof c === 'string') : [],
+    image: image && typeof image.path === 'string'
+      ? { path: image.path, description: typeof image.description === 'string' ? image.description : '', ...(typeof image.post_to === 'string' ? { post_to: image.post_to } : {}) }
+      : undefined,
+    ...(typeof parsed.subject === 'string' && parsed.subject.trim() ? { subject: parsed.subject.trim() } : {}),
+  };
+}
+
+/**
+ * Parse a Claude text reply as a JSON advice envelope (the first, if it
+ * holds several). Returns null when nothing usable is left (caller should
+ * fall back to wrapFreeTextAsEnvelope).
  */
 export function parseAdviceEnvelope(text: string): AdviceEnvelope | null {
+  return parseAdviceEnvelopes(text)[0] ?? null;
+}
+
+/**
+ * Parse a Claude text reply as one envelope or a JSON array of them, in
+ * order. Malformed JSON goes through repairEnvelopeJson first; invalid
+ * entries are dropped. Empty when nothing usable is left.
+ */
+export function parseAdviceEnvelopes(text: string): AdviceEnvelope[] {
   // Strip markdown code fences if present
   let cleaned = text.trim();
   if (cleaned.startsWith('```')) {
     cleaned = cleaned.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '');
   }
 
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(cleaned);
+    parsed = JSON.parse(cleaned);
+  } catch {
+    parsed = repairEnvelopeJson(cleaned);
+    if (!parsed) return [];
+    logger.warn('EnvelopeParser: repaired malformed envelope JSON');
+  }
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  return items.map(toAdviceEnvelope).filter((e): e is AdviceEnvelope => e !== null);
+}
 
-    // Validate required fields
-    if (typeof parsed.category !== 'string' || !VALID_CATEGORIES.has(parsed.category)) {
-      logger.warn(`EnvelopeParser: invalid category "${parsed.category}"`);
-      return null;
-    }
-    if (typeof parsed.tag !== 'string' || parsed.tag.length === 0) {
-      logger.warn('EnvelopeParser: missing or empty tag');
-      return null;
-    }
-    if (typeof parsed.summary !== 'string') {
-      logger.warn('EnvelopeParser: missing summary');
-      return null;
+/**
+ * Best-effort repair of an envelope (or array of envelopes) that is not
+ * valid JSON: prose around it, trailing commas, or output cut off mid-way
+ * (max tokens). Open strings and brackets are closed; if that still fails,
+ * the string fields of the first envelope that did arrive are salvaged.
+ * Null when there is nothing to repair.
+ */
+export function repairEnvelopeJson(text: string): Record<string, unknown> | unknown[] | null {
+  const object = text.indexOf('{');
+  const array = text.indexOf('[');
+  if (object < 0) return null;
+  const start = array >= 0 && array < object ? array : object;
+  const end = text.lastIndexOf(text[start] === '[' ? ']' : '}');
+  const candidates = [end > start ? text.slice(start, end + 1) : '', closeJson(text.slice(start))];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      const parsed = JSON.parse(candidate.replace(/,\s*([}\]])/g, '$1'));
+      if (parsed && typeof parsed === 'object') return parsed as Record<string, unknown> | unknown[];
+    } catch {
+      // try the next candidate
     }
+  }
 
-    return {
-      category: parsed.category as AdviceCategory,
-      tag: parsed.tag,
-      priority: typeof parsed.priority === 'number' ? parsed.priority as TriggerPriority : 4,
-      summary: parsed.summary,
-      body: parsed.body ?? null,
-      confidence: typeof parsed.confidence === 'number' ? parsed.confidence : 0.5,
-      source_cards: Array.isArray(parsed.source_cards) ? parsed.source_cards : [],
-      image: parsed.image && typeof parsed.image.path === 'string' ? parsed.image : undefined,
-    };
-  } catch {
-    return null;
+  const partial = parsePartialEnvelope(text);
+  if (!partial.category || !partial.tag || partial.summary === undefined) return null;
+  return { category: partial.category, tag: partial.tag, summary: partial.summary, body: partial.body ?? null };
+}
+
+/** Close an unterminated string and any open brackets, dropping a dangling key or comma. */
+function closeJson(text: string): string {
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']');
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+    }
   }
+
+  let repaired = inString ? text.replace(/\\$/, '') + '"' : text;
+  // A value that never started ("key":) or a trailing comma can't be closed
+  repaired = repaired.replace(/,?\s*"[^"]*"\s*:\s*$/, '').replace(/,\s*$/, '');
+  return repaired + stack.reverse().join('');
 }
 
 /**
@@ -75,3 +204,105 @@ export function wrapFreeTextAsEnvelope(text: string, priority: TriggerPriority):
 export function isNoAdvice(envelope: AdviceEnvelope): boolean {
   return envelope.category === 'none' && envelope.tag === 'NO_ADVICE';
 }
+
+// ── Partial envelopes (streaming) ───────────────────────────────────────────
+
+/** String fields of an envelope that is still being generated. */
+export interface PartialEnvelope {
+  category?: string;
+  tag?: string;
+  summary?: string;
+  body?: string;
+  /** Fields whose closing quote has arrived. */
+  complete: Set<'category' | 'tag' | 'summary' | 'body'>;
+}
+
+const STREAMED_FIELDS = new Set(['category', 'tag', 'summary', 'body']);
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * Read the top-level string fields from the start of a JSON envelope
+ * (a code fence or preamble before the first `{` is skipped). A string cut
+ * off mid-way is returned as far as it goes; non-string values are skipped.
+ */
+export function parsePartialEnvelope(text: string): PartialEnvelope {
+  const result: PartialEnvelope = { complete: new Set() };
+  let i = text.indexOf('{');
+  if (i < 0) return result;
+  i++;
+
+  const skipSpace = () => { while (i < text.length && /\s/.test(text[i])) i++; };
+
+  while (i < text.length) {
+    skipSpace();
+    if (text[i] === ',') { i++; continue; }
+    if (text[i] !== '"') break;
+    const key = readString();
+    if (!key.closed) break;
+    skipSpace();
+    if (text[i] !== ':') break;
+    i++;
+    skipSpace();
+    if (i >= text.length) break;
+
+    if (text[i] === '"') {
+      const value = readString();
+      if (STREAMED_FIELDS.has(key.value)) {
+        const field = key.value as keyof Omit<PartialEnvelope, 'complete'>;
+        result[field] = value.value;
+        if (value.closed) result.complete.add(field);
+      }
+      if (!value.closed) break;
+    } else {
+      skipValue();
+    }
+  }
+  return result;
+
+  function readString(): { value: string; closed: boolean } {
+    let value = '';
+    i++; // opening quote
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === '"') {
+        i++;
+        return { value, closed: true };
+      }
+      if (ch !== '\\') {
+        value += ch;
+        i++;
+        continue;
+      }
+      const esc = text[i + 1];
+      if (esc === undefined) break;
+      if (esc === 'u') {
+        const hex = text.slice(i + 2, i + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+      value += ESCAPES[esc] ?? esc;
+      i += 2;
+    }
+    i = text.length;
+    return { value, closed: false };
+  }
+
+  /** Skip a number, literal, array or object up to the next top-level `,` or `}`. */
+  function skipValue(): void {
+    let depth = 0;
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === '"') { readString(); continue; }
+      if (ch === '{' || ch === '[') depth++;
+      else if (ch === '}' || ch === ']') {
+        if (depth === 0) return;
+        depth--;
+      } else if (ch === ',' && depth === 0) {
+        return;
+      }
+      i++;
+    }
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * Fact-check stage — validates a parsed advice envelope before delivery.
+ *
+ * The system prompt says "never guess names"; this enforces it. Proper nouns
+ * are pulled from the summary and body and looked up, in order:
+ *   1. NPC cache (display names, keys, aliases)   → known
+ *   2. fuzzy table garbles ("belton" → veltin)     → conflict: the STT garble, not the name
+ *   3. scene index, fuzzy canonicals, and the text the model was given this
+ *      turn (context + tool results)               → known
+ *   4. phonetic near-miss of a cached NPC          → conflict ("did you mean …")
+ *   5. wiki name search (a few per envelope, cached) → known, or invented
+ * A pronunciation written after a cached NPC's name must match the cache;
+ * a mismatch is corrected in place. A GM question answered with names but no
+ * source cards and no wiki lookup is a wiki-first gap.
+ *
+ * FACT_CHECK_MODE decides what happens to problems: "flag" appends a warning
+ * to the body, "suppress" drops the envelope, "off" skips the stage.
+ * Non-throwing: a failed wiki lookup leaves the name unverified, not invented.
+ */
+
+import { logger } from '../logger.js';
+import { extractMcpText } from './context.js';
+import { PhoneticMatcher } from '../matching/phonetic.js';
+import { FATE_LADDER } from './fate-rolls.js';
+import type { GmConfig } from '../config.js';
+import type { McpAggregator } from '../mcp/client.js';
+import type { FuzzyMatchTable } from './triggers.js';
+import type { AdviceEnvelope, FactCheckIssue, NpcCacheEntry, SceneIndexEntry } from '../types/index.js';
+
+/** Wiki lookups per envelope, run in parallel — the rest stay unverified rather than delaying delivery. */
+const MAX_WIKI_LOOKUPS = 3;
+/** Jaro-Winkler similarity above which an unknown name reads as a misspelled NPC. */
+const NEAR_MISS_THRESHOLD = 0.85;
+
+/** Capitalized words that are not names (rules vocabulary, skills, the ladder, calendar). */
+const COMMON_WORDS = new Set([
+  'i', 'gm', 'npc', 'npcs', 'pc', 'pcs', 'ok', 'okay',
+  'act', 'scene', 'scenes', 'fate', 'point', 'points', 'aspect', 'aspects', 'compel', 'compels', 'stunt', 'stunts',
+  'stress', 'consequence', 'consequences', 'overcome', 'create', 'advantage', 'attack', 'defend', 'invoke', 'invokes',
+  'high', 'concept', 'trouble', 'mild', 'moderate', 'severe', 'extreme', 'physical', 'mental',
+  'boost', 'boosts', 'refresh', 'milestone', 'milestones', 'skill', 'skills', 'approach', 'approaches',
+  'zone', 'zones', 'conflict', 'contest', 'challenge', 'concede', 'concession', 'taken', 'shift', 'shifts',
+  'roll', 'rolls', 'dice', 'success', 'style', 'tie', 'fail', 'failure', 'opposition', 'difficulty',
+  // Fate Core skills and Fate Accelerated approaches
+  'athletics', 'burglary', 'contacts', 'crafts', 'deceive', 'drive', 'empathy', 'fight', 'investigate',
+  'lore', 'notice', 'physique', 'provoke', 'rapport', 'resources', 'shoot', 'stealth', 'will',
+  'careful', 'clever', 'flashy', 'forceful', 'quick', 'sneaky',
+  ...[...FATE_LADDER.values()].map(word => word.toLowerCase()),
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+]);
+
+/** Titles that may precede a name without being part of what is checked. */
+const TITLES = new Set([
+  'captain', 'lord', 'lady', 'sir', 'dame', 'doctor', 'dr', 'master', 'mistress', 'mr', 'mrs', 'ms',
+  'king', 'queen', 'prince', 'princess', 'duke', 'duchess', 'baron', 'baroness', 'count', 'countess',
+  'commander', 'admiral', 'general', 'sergeant', 'lieutenant', 'saint', 'father', 'mother', 'brother', 'sister',
+  'old', 'young', 'the', 'of',
+]);
+
+/**
+ * Words that open a sentence in advice without being a name. A one-word
+ * mention at a sentence start is still checked ("Zorvath offers a deal")
+ * unless it is one of these or an -ly adverb.
+ */
+const SENTENCE_OPENERS = new Set([
+  // Imperatives the model opens advice with
+  'have', 'let', 'remind', 'ask', 'tell', 'give', 'offer', 'describe', 'consider', 'try', 'use', 'call', 'keep',
+  'make', 'bring', 'introduce', 'show', 'reveal', 'mention', 'note', 'skip', 'cut', 'move', 'wrap', 'end', 'start',
+  'open', 'close', 'frame', 'hint', 'foreshadow', 'spotlight', 'check', 'pause', 'slow', 'speed', 'raise', 'lower',
+  'push', 'pull', 'drop', 'hold', 'save', 'remember', 'prompt', 'invite', 'reward', 'escalate', 'resolve', 'shift',
+  'read', 'plant', 'play', 'set', 'run', 'place', 'seed', 'add', 'fade', 'switch', 'return', 'remove', 'repeat',
+  // Adverbs, conjunctions and connectors
+  'then', 'now', 'next', 'meanwhile', 'also', 'instead', 'otherwise', 'later', 'soon', 'once', 'still', 'even',
+  'again', 'perhaps', 'maybe', 'just', 'yet', 'but', 'and', 'because', 'since', 'though', 'although',
+  'while', 'when', 'whenever', 'where', 'unless', 'until', 'after', 'before', 'during',
+  'here', 'there', 'tonight', 'today', 'tomorrow', 'yes', 'not', 'both', 'either', 'neither',
+  // Pronouns, determiners and question words
+  'this', 'that', 'these', 'those', 'they', 'them', 'their', 'she', 'her', 'his', 'him', 'its',
+  'you', 'your', 'our', 'one', 'each', 'every', 'some', 'any', 'all', 'most', 'many', 'few', 'another',
+  'what', 'who', 'whom', 'whose', 'which', 'why', 'how', 'someone', 'something', 'everyone', 'nobody', 'nothing',
+]);
+
+function isSentenceOpener(word: string): boolean {
+  const lower = word.toLowerCase();
+  return SENTENCE_OPENERS.has(lower) || TITLES.has(lower) || lower.endsWith('ly');
+}
+
+/** A name and where it starts in the text. */
+interface NameMention {
+  name: string;
+  index: number;
+  /** Opens a sentence — the first word may only be capitalized, not part of the name. */
+  sentenceStart: boolean;
+}
+
+const WORD = /[A-Za-z][A-Za-z'’-]*/g;
+/** A parenthetical with hyphenated or stressed (ALL-CAPS) syllables. */
+const PRONUNCIATION_GUIDE = /\([^)]*(?:-|\b[A-Z]{2,}\b)[^)]*\)/g;
+
+function isNameWord(word: string): boolean {
+  return /^[A-Z]/.test(word) && /[a-z]/.test(word) && word.length >= 3 && !COMMON_WORDS.has(word.toLowerCase());
+}
+
+function stripPossessive(word: string): string {
+  return word.replace(/['’]s$/, '');
+}
+
+/** Runs of capitalized words ("Kalyra Taris", "Captain Vex"). ALL-CAPS tags and rules terms are skipped. */
+export function extractNames(text: string): NameMention[] {
+  const mentions: NameMention[] = [];
+  let run: { words: string[]; index: number; sentenceStart: boolean } | null = null;
+  let lastEnd = 0;
+  let atSentenceStart = true;
+
+  const flush = () => {
+    if (run) mentions.push({ name: run.words.join(' '), index: run.index, sentenceStart: run.sentenceStart });
+    run = null;
+  };
+
+  // Pronunciation guides ("Kalyra (kuh-LEER-uh)") are checked separately, not as names
+  const source = text.replace(PRONUNCIATION_GUIDE, guide => ';'.padEnd(guide.length));
+
+  for (const match of source.matchAll(WORD)) {
+    const gap = source.slice(lastEnd, match.index);
+    const sentenceBreak = lastEnd === 0 || /[.!?:\n"“]/.test(gap);
+    if (/[^\s]|\n/.test(gap)) flush(); // punctuation or a line break ends a run
+    const word = stripPossessive(match[0]);
+    const startsSentence = atSentenceStart || sentenceBreak;
+
+    if (isNameWord(word) || (run && TITLES.has(word.toLowerCase()) && /^[a-z]/.test(word))) {
+      if (!run) run = { words: [], index: match.index!, sentenceStart: startsSentence };
+      run.words.push(word);
+    } else {
+      flush();
+    }
+    atSentenceStart = false;
+    lastEnd = match.index! + match[0].length;
+    if (match[0] !== word) flush(); // "Vex's crew" — the possessive ends the name
+  }
+  flush();
+
+  // Trailing lowercase connectors ("Lord of") are not part of the name
+  return mentions
+    .map(m => ({ ...m, name: m.name.replace(/(?:\s+(?:of|the))+$/, '') }))
+    .filter(m => m.name.length > 0);
+}
+
+/** Lowercase letters only — "VAIL-kor" and "vail kor" compare equal. */
+function normalizePronunciation(text: string): string {
+  return text.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export interface FactCheckResult {
+  /** The envelope to deliver (pronunciations corrected, warnings appended in flag mode). */
+  envelope: AdviceEnvelope;
+  issues: FactCheckIssue[];
+  /** True when FACT_CHECK_MODE=suppress and a problem was found. */
+  suppress: boolean;
+}
+
+export interface FactCheckTurn {
+  /** Everything the model read this turn: assembled context and tool results. */
+  evidence: string;
+  /** The batch included a GM question (wiki-first applies). */
+  question: boolean;
+  /** The model looked something up in the wiki this turn. */
+  usedWiki: boolean;
+}
+
+export class FactChecker {
+  private npcNames = new Map<string, NpcCacheEntry>();
+  private knownWords = new Set<string>();
+  private sceneNames = new Set<string>();
+  private fuzzyTable: FuzzyMatchTable = {};
+  private fuzzyCanonicals = new Set<string>();
+  private npcMatcher = new PhoneticMatcher([]);
+  /** Wiki lookups this session: lowercase name → found. */
+  private wikiLookups = new Map<string, boolean>();
+
+  constructor(
+    private mcp: Pick<McpAggregator, 'callTool' | 'isConnected'>,
+    private config: GmConfig,
+  ) {}
+
+  setNpcCache(cache: NpcCacheEntry[]): void {
+    this.npcNames.clear();
+    for (const npc of cache) {
+      for (const name of [npc.display_name, npc.key, ...npc.aliases]) {
+        if (name) this.npcNames.set(name.toLowerCase(), npc);
+      }
+    }
+    this.npcMatcher = new PhoneticMatcher([...this.npcNames.keys()].flatMap(n => [n, ...n.split(/\s+/)]));
+    this.rebuildKnownWords();
+  }
+
+  setSceneIndex(index: SceneIndexEntry[]): void {
+    this.sceneNames = new Set(index.flatMap(s => [s.title, ...s.npcs]).map(n => n.toLowerCase()));
+    this.rebuildKnownWords();
+  }
+
+  setFuzzyTable(table: FuzzyMatchTable): void {
+    this.fuzzyTable = table;
+    this.fuzzyCanonicals = new Set(Object.values(table));
+    this.rebuildKnownWords();
+  }
+
+  async check(envelope: AdviceEnvelope, turn: FactCheckTurn): Promise<FactCheckResult> {
+    const mode = this.config.factCheckMode;
+    if (mode === 'off') return { envelope, issues: [], suppress: false };
+
+    const issues: FactCheckIssue[] = [];
+    let body = envelope.body ?? '';
+    const text = `${envelope.summary}\n${body}`;
+    const evidence = turn.evidence.toLowerCase();
+    const mentions = extractNames(text);
+    const checked = new Set<string>();
+    const wikiNames: string[] = [];
+
+    let namesMentioned = false;
+
+    for (const mention of mentions) {
+      let name = mention.name;
+      if (mention.sentenceStart && this.resolveLocally(name, evidence) === null) {
+        const [first, ...rest] = name.split(' ');
+        if (rest.length > 0) {
+          // "Have Captain Vex …" — the opening word is only capitalized, not part of the name
+          name = rest.join(' ').replace(/^(?:(?:of|the)\s+)+/, '');
+          if (!name) continue;
+        } else if (isSentenceOpener(first)) {
+          continue; // "Suddenly …" — but "Zorvath offers …" is still checked
+        }
+      }
+      const key = name.toLowerCase();
+      if (checked.has(key)) continue;
+      checked.add(key);
+      namesMentioned = true;
+
+      const local = this.resolveLocally(name, evidence);
+      if (local?.npc) {
+        body = this.checkPronunciation(body, name, local.npc, issues);
+        continue;
+      }
+      if (local?.issue) {
+        issues.push(local.issue);
+        continue;
+      }
+      if (local) continue;
+
+      const words = this.withoutTitles(key).split(' ').filter(Boolean);
+      const nearMiss = words.map(w => this.npcMatcher.match(w, NEAR_MISS_THRESHOLD)).find(m => m && m.canonical !== m.input);
+      if (nearMiss) {
+        issues.push({ kind: 'name_conflict', name, detail: `did you mean "${nearMiss.canonical}"?` });
+        continue;
+      }
+
+      if (wikiNames.length < MAX_WIKI_LOOKUPS && this.mcp.isConnected('wiki')) wikiNames.push(name);
+    }
+
+    // Side by side: this stage sits in front of P1 delivery
+    const found = await Promise.all(wikiNames.map(name => this.lookupWiki(name)));
+    wikiNames.forEach((name, i) => {
+      if (found[i] !== false) return; // found, or unverifiable
+      issues.push({ kind: 'unknown_name', name, detail: 'not in the wiki, NPC cache or context' });
+    });
+
+    if (turn.question && namesMentioned && envelope.source_cards.length === 0 && !turn.usedWiki) {
+      issues.push({ kind: 'wiki_gap', name: '', detail: 'question answered with names but without wiki references' });
+    }
+
+    const problems = issues.filter(i => i.kind !== 'pronunciation_mismatch');
+    let checkedEnvelope: AdviceEnvelope = body !== (envelope.body ?? '') ? { ...envelope, body } : envelope;
+    if (issues.length > 0) {
+      logger.info(`FactChecker: [${envelope.tag}] ${issues.map(i => `${i.kind}${i.name ? ` "${i.name}"` : ''}`).join(', ')}`);
+      checkedEnvelope = { ...checkedEnvelope, fact_check: issues };
+    }
+
+    if (problems.length > 0 && mode === 'flag') {
+      const warning = problems.map(i => (i.name ? `"${i.name}" — ${i.detail}` : i.detail)).join('; ');
+      checkedEnvelope.body = `${checkedEnvelope.body ?? ''}\n\n⚠ Unverified: ${warning}`.trim();
+    }
+
+    return { envelope: checkedEnvelope, issues, suppress: mode === 'suppress' && problems.length > 0 };
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────────────────
+
+  private rebuildKnownWords(): void {
+    this.knownWords = new Set(
+      [...this.npcNames.keys(), ...this.sceneNames, ...this.fuzzyCanonicals]
+        .flatMap(n => n.split(/[\s,]+/))
+        .filter(w => w.length >= 3),
+    );
+  }
+
+  private withoutTitles(name: string): string {
+    return name.split(' ').filter(w => !TITLES.has(w)).join(' ');
+  }
+
+  /**
+   * Resolve a name without the wiki: the cached NPC, a garble conflict, or
+   * `{}` when the scene index, fuzzy canonicals or evidence know it. Null if none do.
+   */
+  private resolveLocally(name: string, evidence: string): { npc?: NpcCacheEntry; issue?: FactCheckIssue } | null {
+    const key = name.toLowerCase();
+    const npc = this.npcNames.get(key) ?? this.npcNames.get(this.withoutTitles(key));
+    if (npc) return { npc };
+
+    const words = this.withoutTitles(key).split(' ').filter(Boolean);
+    const garble = [key, ...words].find(w => Object.hasOwn(this.fuzzyTable, w) && this.fuzzyTable[w] !== w);
+    if (garble) return { issue: { kind: 'name_conflict', name, detail: `STT garble of "${this.fuzzyTable[garble]}"` } };
+
+    return this.isKnown(key, words, evidence) ? {} : null;
+  }
+
+  private isKnown(key: string, words: string[], evidence: string): boolean {
+    if (this.sceneNames.has(key) || this.fuzzyCanonicals.has(key)) return true;
+    if (new RegExp(`\\b${escapeRegExp(key)}\\b`).test(evidence)) return true;
+    if (this.wikiLookups.get(key) === true) return true;
+    // A bare title ("the Captain") names no one in particular
+    return words.length === 0 || words.every(w => this.knownWords.has(w) || new RegExp(`\\b${escapeRegExp(w)}\\b`).test(evidence));
+  }
+
+  /** Replace a pronunciation that contradicts the cached one. Returns the (possibly corrected) body. */
+  private checkPronunciation(body: string, name: string, npc: NpcCacheEntry, issues: FactCheckIssue[]): string {
+    if (!npc.pronunciation) return body;
+    const pattern = new RegExp(`(${escapeRegExp(name)}(?:['’]s)?\\s*\\()([^)]{2,30})(\\))`, 'g');
+    return body.replace(pattern, (whole, open: string, given: string, close: string) => {
+      if (!/[-A-Z]/.test(given.slice(1)) || normalizePronunciation(given) === normalizePronunciation(npc.pronunciation)) return whole;
+      issues.push({ kind: 'pronunciation_mismatch', name, detail: `"${given}" corrected to "${npc.pronunciation}"` });
+      return `${open}${npc.pronunciation}${close}`;
+    });
+  }
+
+  /** True if a wiki card carries the name, false if none does, null if the wiki couldn't be asked. */
+  private async lookupWiki(name: string): Promise<boolean | null> {
+    const key = name.toLowerCase();
+    const cached = this.wikiLookups.get(key);
+    if (cached !== undefined) return cached;
+    try {
+      const result = await this.mcp.callTool('wiki__search_cards', { query: name, search_in: 'name', limit: 5 });
+      const text = typeof result === 'string' ? result : extractMcpText(result) ?? JSON.stringify(result);
+      const found = text.toLowerCase().includes(key);
+      this.wikiLookups.set(key, found);
+      return found;
+    } catch (err) {
+      logger.warn(`FactChecker: wiki lookup for "${name}" failed:`, err);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Fate dice rolls read from Foundry chat — the roll outcomes worth a word
+ * from the assistant while the table is still reacting to them.
+ *
+ * A roll message carries structured `rolls` (Foundry's Roll JSON: formula,
+ * total, dice terms) or, failing that, a "4dF+3 = 5" line in its content.
+ * The flavor text names the skill ("Athletics", "Fight vs Good (+3)"); an
+ * opposition given there as a ladder word or number ("vs Great", "difficulty
+ * +2", "against Fair (+2)") turns the total into shifts:
+ * - success with style: 3+ shifts → `epic_success`
+ * - spectacular failure: 3+ shifts short → `spectacular_failure`
+ * - tie: 0 shifts → `roll_tie`
+ * Without a stated opposition only the dice extremes count (+4 / −4 on the
+ * four dice), since the margin is unknown.
+ */
+
+import type { TriggerType } from '../types/index.js';
+
+/** Shifts at which a success is "with style" (Fate Core) — mirrored for failures. */
+export const STYLE_SHIFTS = 3;
+
+/** The Fate ladder, Legendary (+8) down to Terrible (−2). */
+export const FATE_LADDER: ReadonlyMap<number, string> = new Map([
+  [8, 'Legendary'], [7, 'Epic'], [6, 'Fantastic'], [5, 'Superb'], [4, 'Great'], [3, 'Good'],
+  [2, 'Fair'], [1, 'Average'], [0, 'Mediocre'], [-1, 'Poor'], [-2, 'Terrible'],
+]);
+
+const LADDER_VALUES = new Map([...FATE_LADDER].map(([value, name]) => [name.toLowerCase(), value]));
+
+export type FateRollOutcome = 'success_with_style' | 'spectacular_failure' | 'tie';
+
+/** Trigger fired for each outcome. */
+export const ROLL_OUTCOME_TRIGGERS: Readonly<Record<FateRollOutcome, TriggerType>> = {
+  success_with_style: 'epic_success',
+  spectacular_failure: 'spectacular_failure',
+  tie: 'roll_tie',
+};
+
+/** The fields of a Foundry chat message a roll is read from. */
+export interface FoundryChatRollMessage {
+  content?: string;
+  flavor?: string;
+  speakerAlias?: string;
+  isGm?: boolean;
+  rolls?: Array<{
+    formula?: string;
+    total?: number;
+    terms?: Array<{ class?: string; faces?: number; results?: Array<{ result?: number; active?: boolean }> }>;
+  }>;
+}
+
+export interface FateRoll {
+  actor: string;
+  skill: string | null;
+  /** Sum of the Fate dice (−4..+4), when the dice are visible. */
+  dice: number | null;
+  total: number;
+  /** Difficulty or opposition stated with the roll. */
+  opposition: number | null;
+  /** Rolled by the GM (an NPC or opposition roll). */
+  byGm: boolean;
+}
+
+export interface FateRollResult extends FateRoll {
+  outcome: FateRollOutcome;
+  /** Shifts (total − opposition); null when no opposition was stated. */
+  margin: number | null;
+}
+
+const FATE_FORMULA = /\d*d[fF]\b/;
+const TEXT_ROLL = /\b\d*d[fF]\b[^=\n]*=\s*([+\-−]?\d+)/;
+const OPPOSITION = /\b(?:vs\.?|versus|against|difficulty|opposition|opposed by)\s*:?\s*((?:[A-Za-z]+\s*)?\(?\s*[+\-−]?\d+\s*\)?|[A-Za-z]+)/i;
+
+/** Strip HTML tags and entities from chat content. */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(?:p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ');
+}
+
+function toNumber(text: string): number {
+  return parseInt(text.replace(/\s+/g, '').replace('−', '-'), 10);
+}
+
+/** "Good (+3)"; values off the ladder are shown as numbers only. */
+export function formatLadder(value: number): string {
+  const signed = value >= 0 ? `+${value}` : `${value}`;
+  const name = FATE_LADDER.get(value);
+  return name ? `${name} (${signed})` : signed;
+}
+
+/** Read a ladder rating: "Great", "+4", "Great (+4)". The number wins when both are given. */
+export function parseLadder(text: string): number | null {
+  const number = /([+\-−]?\s*\d+)/.exec(text);
+  if (number) return toNumber(number[1]);
+  const word = /[A-Za-z]+/.exec(text)?.[0].toLowerCase();
+  return word !== undefined ? LADDER_VALUES.get(word) ?? null : null;
+}
+
+/** Sum of the Fate dice in a Foundry Roll's terms, or null if it has none. */
+function fateDice(terms: NonNullable<FoundryChatRollMessage['rolls']>[number]['terms']): number | null {
+  let sum: number | null = null;
+  for (const term of terms ?? []) {
+    if (term.class !== 'FateDie' && term.faces !== 3) continue;
+    for (const r of term.results ?? []) {
+      if (r.active === false || typeof r.result !== 'number') continue;
+      sum = (sum ?? 0) + r.result;
+    }
+  }
+  return sum;
+}
+
+/** A Fate roll from a chat message, or null if the message isn't one. */
+export function parseFateRoll(msg: FoundryChatRollMessage): FateRoll | null {
+  const flavor = stripHtml(msg.flavor ?? '').trim();
+  const content = stripHtml(msg.content ?? '').trim();
+
+  let total: number | null = null;
+  let dice: number | null = null;
+  const roll = msg.rolls?.find(r => typeof r.total === 'number' && (FATE_FORMULA.test(r.formula ?? '') || fateDice(r.terms) !== null));
+  if (roll) {
+    total = roll.total!;
+    dice = fateDice(roll.terms);
+  } else {
+    const text = TEXT_ROLL.exec(content) ?? TEXT_ROLL.exec(flavor);
+    if (text) total = toNumber(text[1]);
+  }
+  if (total === null || !Number.isFinite(total)) return null;
+
+  const oppositionMatch = OPPOSITION.exec(flavor) ?? OPPOSITION.exec(content);
+  const opposition = oppositionMatch ? parseLadder(oppositionMatch[1]) : null;
+
+  // Skill: the flavor's first line, without the opposition clause or a trailing rating
+  const skill = (flavor.split('\n')[0] ?? '')
+    .replace(OPPOSITION, '')
+    .replace(/\(\s*[+\-−]?\d+\s*\)/g, '')
+    .replace(/^(?:skill|approach)\s*:\s*/i, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s:,-]+$/, '')
+    .trim();
+
+  return {
+    actor: msg.speakerAlias?.trim() || 'Unknown',
+    skill: skill && !FATE_FORMULA.test(skill) ? skill : null,
+    dice,
+    total,
+    opposition,
+    byGm: msg.isGm === true,
+  };
+}
+
+/** True when game-event data has a FateRoll's fields (as parseFateRoll builds them). */
+export function isFateRoll(data: unknown): data is FateRoll {
+  if (typeof data !== 'object' || data === null) return false;
+  const roll = data as Record<string, unknown>;
+  const numberOrNull = (value: unknown) => value === null || (typeof value === 'number' && Number.isFinite(value));
+  return typeof roll.actor === 'string'
+    && (roll.skill === null || typeof roll.skill === 'string')
+    && numberOrNull(roll.dice)
+    && typeof roll.total === 'number' && Number.isFinite(roll.total)
+    && numberOrNull(roll.opposition)
+    && typeof roll.byGm === 'boolean';
+}
+
+/** The outcome worth a trigger, or null for an ordinary roll. */
+export function classifyFateRoll(roll: FateRoll): FateRollResult | null {
+  if (roll.opposition !== null) {
+    const margin = roll.total - roll.opposition;
+    const outcome: FateRollOutcome | null = margin >= STYLE_SHIFTS ? 'success_with_style'
+      : margin <= -STYLE_SHIFTS ? 'spectacular_failure'
+      : margin === 0 ? 'tie'
+      : null;
+    return outcome && { ...roll, outcome, margin };
+  }
+  if (roll.dice === 4) return { ...roll, outcome: 'success_with_style', margin: null };
+  if (roll.dice === -4) return { ...roll, outcome: 'spectacular_failure', margin: null };
+  return null;
+}
+
+/** One line for the model: who rolled what, against what, by how much. */
+export function describeFateRoll(data: Record<string, unknown>): string {
+  const skill = data.skill ? ` ${data.skill}` : '';
+  const total = typeof data.total === 'number' ? formatLadder(data.total) : '?';
+  const dice = typeof data.dice === 'number' ? `, ${data.dice >= 0 ? '+' : ''}${data.dice} on the dice` : '';
+  const margin = typeof data.margin === 'number' ? data.margin : 0;
+  const shifts = `${Math.abs(margin)} shift${Math.abs(margin) === 1 ? '' : 's'}${margin < 0 ? ' short' : ''}`;
+  const against = typeof data.opposition === 'number' ? ` vs ${formatLadder(data.opposition)}, ${shifts}` : ' (no opposition stated)';
+  return `${data.actor}${data.byGm ? ' (GM)' : ''} rolled${skill} at ${total}${against}${dice}`;
+}
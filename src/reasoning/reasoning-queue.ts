@@ -0,0 +1,96 @@
+/**
+ * Reasoning queue — trigger batches waiting while the engine is busy.
+ *
+ * One slot per priority level, keyed by a batch's highest-priority event.
+ * A batch arriving for an occupied slot is merged into it (compatible work:
+ * one LLM call answers both), so nothing is ever evicted: a P4 silence
+ * prompt cannot displace a waiting P2 scene transition. Batches come out
+ * highest priority first.
+ *
+ * Merging keeps one event per subject: a newer event of the same type (and,
+ * for questions, NPCs, detected scenes, roll outcomes and spotlight, the same subject) replaces the
+ * older one — freshest data wins.
+ */
+
+import type { TriggerBatch, TriggerEvent, TriggerPriority, TriggerType } from '../types/index.js';
+
+/** Data field that tells two events of one type apart (absent → one per type). */
+const SUBJECT_FIELDS: Partial<Record<TriggerType, string>> = {
+  gm_question: 'transcript',
+  gm_hesitation: 'transcript',
+  npc_first_appearance: 'npc_name',
+  scene_transition_detected: 'scene_title',
+  epic_success: 'actor',
+  spectacular_failure: 'actor',
+  roll_tie: 'actor',
+  spotlight_debt: 'player',
+};
+
+export function topPriority(batch: TriggerBatch): TriggerPriority {
+  return Math.min(...batch.events.map(e => e.priority)) as TriggerPriority;
+}
+
+function eventKey(event: TriggerEvent): string {
+  const field = SUBJECT_FIELDS[event.type];
+  return field ? `${event.type}:${String(event.data[field] ?? '')}` : event.type;
+}
+
+/** Combine two batches; `newer` events replace `older` ones with the same key. */
+export function mergeBatches(older: TriggerBatch, newer: TriggerBatch): TriggerBatch {
+  const newerKeys = new Set(newer.events.map(eventKey));
+  return {
+    events: [...older.events.filter(e => !newerKeys.has(eventKey(e))), ...newer.events],
+    flushedAt: newer.flushedAt > older.flushedAt ? newer.flushedAt : older.flushedAt,
+  };
+}
+
+export class ReasoningQueue {
+  private slots = new Map<TriggerPriority, TriggerBatch>();
+
+  get size(): number {
+    return this.slots.size;
+  }
+
+  /** Priority of the batch that would come out next (null when empty). */
+  get nextPriority(): TriggerPriority | null {
+    return this.slots.size > 0 ? Math.min(...this.slots.keys()) as TriggerPriority : null;
+  }
+
+  /**
+   * Queue a batch. Returns true if it was merged into a waiting one.
+   * `requeue` puts back a batch that was taken out earlier (preempted), so
+   * anything that arrived meanwhile counts as newer.
+   */
+  push(batch: TriggerBatch, requeue = false): boolean {
+    if (batch.events.length === 0) return false;
+    const priority = topPriority(batch);
+    const waiting = this.slots.get(priority);
+    if (!waiting) {
+      this.slots.set(priority, batch);
+      return false;
+    }
+    this.slots.set(priority, requeue ? mergeBatches(batch, waiting) : mergeBatches(waiting, batch));
+    return true;
+  }
+
+  /** Take the highest-priority batch. */
+  shift(): TriggerBatch | null {
+    const priority = this.nextPriority;
+    if (priority === null) return null;
+    const batch = this.slots.get(priority)!;
+    this.slots.delete(priority);
+    return batch;
+  }
+
+  /** Drop batches below `keep` priority. Returns how many were dropped. */
+  discardBelow(keep: TriggerPriority): number {
+    let dropped = 0;
+    for (const priority of [...this.slots.keys()]) {
+      if (priority > keep) {
+        this.slots.delete(priority);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Seed and open-thread extraction + reveal matching.
+ *
+ * Reads the session plan card and beat cards for "Seeds" / "Foreshadowing"
+ * and "Threads" / "Hooks" / "Loose Ends" sections. Each list item becomes a
+ * planted seed (scene = the card it came from) or an open thread. A seed item
+ * may say how it pays off ("— revealed when …", "→ …"); those words become
+ * its reveal keywords, otherwise the item's own words are used.
+ *
+ * The trigger detector matches transcript lines against the keywords and
+ * marks a seed as probably revealed; the GM confirms with /reveal.
+ */
+
+import { logger } from '../logger.js';
+import type { McpAggregator } from '../mcp/client.js';
+
+// ── MCP extraction helpers (inline, following existing duplication pattern) ──
+
+function extractMcpText(result: unknown): string | null {
+  if (!result || typeof result !== 'object') return null;
+  const r = result as Record<string, unknown>;
+  if (Array.isArray(r.content)) {
+    for (const item of r.content) {
+      if (item && typeof item === 'object' && (item as Record<string, unknown>).type === 'text') {
+        const text = (item as Record<string, unknown>).text;
+        if (typeof text === 'string') return text;
+      }
+    }
+  }
+  return null;
+}
+
+function extractCardHtml(result: unknown): string | null {
+  const text = extractMcpText(result);
+  if (!text) return null;
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed === 'object' && parsed !== null && typeof parsed.text === 'string') {
+      return parsed.text;
+    }
+  } catch { /* not JSON — raw HTML */ }
+  return text;
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(?:p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .trim();
+}
+
+// ── Section detection ──
+
+const SEED_HEADING_RE = /<(h[1-6]|strong|b)[^>]*>([^<]*\b(?:Seeds?|Foreshadowing)\b[^<]*)<\/\1>/gi;
+const THREAD_HEADING_RE = /<(h[1-6]|strong|b)[^>]*>([^<]*\b(?:Threads?|Hooks?|Loose\s+Ends?)\b[^<]*)<\/\1>/gi;
+
+/** Where a seed item says how it pays off. */
+const REVEAL_CLAUSE_RE = /(?:\b(?:revealed?|reveals|pays?\s+off|payoff)\b\s*(?:when|if|in|at|by)?\s*[:—–-]?|→)\s*(.+)$/i;
+
+const MAX_NAME_LENGTH = 80;
+const MAX_KEYWORDS = 6;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'but', 'for', 'with', 'from', 'that', 'this', 'these', 'those',
+  'they', 'them', 'their', 'there', 'then', 'than', 'when', 'what', 'where',
+  'which', 'while', 'will', 'would', 'could', 'should', 'have', 'has', 'been',
+  'were', 'into', 'onto', 'over', 'about', 'after', 'before', 'only', 'also',
+  'just', 'more', 'most', 'some', 'each', 'every', 'your', 'ours', 'itself',
+  'reveal', 'revealed', 'reveals', 'payoff', 'pays', 'seed', 'seeds', 'thread',
+  'threads', 'player', 'players', 'party', 'scene', 'session', 'later',
+]);
+
+export interface ExtractedSeed {
+  name: string;
+  scene: string;
+  revealKeywords: string[];
+}
+
+export interface ExtractedStoryThreads {
+  seeds: ExtractedSeed[];
+  threads: string[];
+}
+
+/** List items (or lines) under every heading matching `headingRe`. */
+function sectionItems(html: string, headingRe: RegExp): string[] {
+  const items: string[] = [];
+  const re = new RegExp(headingRe.source, headingRe.flags);
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(html)) !== null) {
+    const remaining = html.slice(match.index + match[0].length);
+    const next = remaining.search(/<(?:h[1-6]|hr)[^>]*>/i);
+    const sectionHtml = next >= 0 ? remaining.slice(0, next) : remaining;
+    const listItems = [...sectionHtml.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gi)].map(m => m[1]);
+    const lines = listItems.length > 0
+      ? listItems.map(stripHtml)
+      : stripHtml(sectionHtml).split('\n');
+    for (const line of lines) {
+      const text = line.replace(/^[-*•]\s*/, '').replace(/\s+/g, ' ').trim();
+      if (text) items.push(text);
+    }
+  }
+  return items;
+}
+
+/** Item name: the text before the first dash/colon, trimmed of trailing punctuation. */
+function itemName(text: string): string {
+  const head = text.split(/\s+[—–-]\s+|:\s+|\s+→\s*/)[0];
+  return head.replace(/[.,;:]+$/, '').trim().slice(0, MAX_NAME_LENGTH);
+}
+
+/** Significant lowercase words of a text (for matching a reveal in the transcript). */
+export function revealKeywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z][a-z'-]{3,}/g) ?? [];
+  return [...new Set(words.map(w => w.replace(/'s$/, '')).filter(w => !STOP_WORDS.has(w)))].slice(0, MAX_KEYWORDS);
+}
+
+/** Seeds and open threads listed on one card (`scene` = the card's display title). */
+export function extractStoryThreads(html: string, scene: string): ExtractedStoryThreads {
+  const seeds = sectionItems(html, SEED_HEADING_RE).map(text => {
+    const reveal = text.match(REVEAL_CLAUSE_RE)?.[1];
+    return { name: itemName(text), scene, revealKeywords: revealKeywords(reveal ?? text) };
+  }).filter(seed => seed.name);
+  const threads = sectionItems(html, THREAD_HEADING_RE).map(itemName).filter(Boolean);
+  return { seeds, threads };
+}
+
+/**
+ * The keywords a transcript line hits. A seed counts as probably revealed
+ * when two keywords (or all of them, for one-keyword seeds) are said together.
+ */
+export function revealHits(text: string, keywords: string[]): string[] {
+  const lower = text.toLowerCase();
+  const hits = keywords.filter(kw => new RegExp(`\\b${kw.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`).test(lower));
+  return hits.length > 0 && hits.length >= Math.min(2, keywords.length) ? hits : [];
+}
+
+/** Extract display title from card path (last segment, cleaned). */
+function cardPathToTitle(cardPath: string): string {
+  const segments = cardPath.split('+');
+  return segments[segments.length - 1].replace(/_/g, ' ');
+}
+
+// ── Builder ──
+
+export class StoryThreadExtractor {
+  constructor(private mcp: McpAggregator) {}
+
+  /**
+   * Scan the plan card and beat cards for seeds and open threads.
+   * Duplicates (by name, case-insensitive) keep the first card's entry. Non-throwing.
+   */
+  async build(planCard: string, beatCardPaths: string[]): Promise<ExtractedStoryThreads> {
+    const cards = [planCard, ...beatCardPaths.filter(p => p !== planCard)];
+    const results = await Promise.allSettled(cards.map(path => this.processCard(path)));
+
+    const seeds = new Map<string, ExtractedSeed>();
+    const threads = new Map<string, string>();
+    for (const result of results) {
+      if (result.status !== 'fulfilled') continue;
+      for (const seed of result.value.seeds) {
+        if (!seeds.has(seed.name.toLowerCase())) seeds.set(seed.name.toLowerCase(), seed);
+      }
+      for (const thread of result.value.threads) {
+        if (!threads.has(thread.toLowerCase())) threads.set(thread.toLowerCase(), thread);
+      }
+    }
+
+    logger.info(`StoryThreadExtractor: complete — ${seeds.size} seeds, ${threads.size} threads from ${cards.length} cards`);
+    return { seeds: [...seeds.values()], threads: [...threads.values()] };
+  }
+
+  private async processCard(cardPath: string): Promise<ExtractedStoryThreads> {
+    try {
+      const result = await this.mcp.callTool('wiki__get_card', {
+        name: cardPath,
+        max_content_length: 8000,
+      });
+      const html = extractCardHtml(result);
+      if (!html) return { seeds: [], threads: [] };
+      return extractStoryThreads(html, cardPathToTitle(cardPath));
+    } catch (err) {
+      logger.debug(`StoryThreadExtractor: failed to process "${cardPath}":`, err);
+      return { seeds: [], threads: [] };
+    }
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Declarative custom trigger rules — campaign-specific cues ("roll
+ * initiative", "the Veil opens") without a code change.
+ *
+ * Rules come from a JSON file (TRIGGER_RULES_PATH) and/or a wiki card
+ * (TRIGGER_RULES_CARD) whose body holds the same JSON; both can be set per
+ * SESSION_CAMPAIGNS binding. A card rule replaces a file rule of the same type.
+ *
+ * Each rule matches one transcript segment by exactly one of:
+ * - regex: a case-insensitive regular expression. It runs on every final
+ *   segment on the event loop, so a catastrophically backtracking pattern
+ *   ("(a+)+" against a long near miss) would stall the whole assistant;
+ *   patterns over MAX_REGEX_LENGTH or with a quantified group that itself
+ *   repeats without bound are rejected
+ * - keywords: at least minKeywords (default 1) of the words/phrases
+ * - phonetic: one term, matched exactly or phonetically (STT garbles)
+ * and fires a `custom:<type>` trigger at its priority, subject to its
+ * speaker filter, assistant states and per-rule cooldown. The TriggerDetector
+ * evaluates rules next to the built-in detectors; summarizeTriggers hands the
+ * rule's description to the model.
+ *
+ * File shape: an array of rules, or `{ "rules": [...] }`.
+ */
+
+import { readFileSync } from 'node:fs';
+import { logger } from '../logger.js';
+import type { GmConfig } from '../config.js';
+import type { McpAggregator } from '../mcp/client.js';
+import { PhoneticMatcher } from '../matching/phonetic.js';
+import { extractMcpText } from './context.js';
+import { AssistantState, TriggerPriority, type CustomTriggerType } from '../types/index.js';
+
+export type TriggerRuleSpeaker = 'gm' | 'players' | 'any';
+
+export interface TriggerRule {
+  /** Trigger type name (snake_case); events carry `custom:<type>`. */
+  type: string;
+  /** What the cue means and what the GM may need — shown to the model. */
+  description: string;
+  regex?: string;
+  keywords?: string[];
+  /** Distinct keywords a segment needs to match (default 1). */
+  minKeywords?: number;
+  phonetic?: string;
+  /** Jaro-Winkler similarity for phonetic matches (default 0.8, as for NPC names). */
+  phoneticThreshold?: number;
+  speaker: TriggerRuleSpeaker;
+  states: AssistantState[];
+  priority: TriggerPriority;
+  cooldownSeconds: number;
+}
+
+/** A rule ready to test transcript text. */
+export interface CompiledTriggerRule {
+  rule: TriggerRule;
+  eventType: CustomTriggerType;
+  /** The matched text, or null when the segment doesn't match. */
+  match(text: string): string | null;
+}
+
+const DEFAULT_PRIORITY = TriggerPriority.P3;
+const DEFAULT_COOLDOWN_SECONDS = 120;
+const DEFAULT_PHONETIC_THRESHOLD = 0.8;
+const RULE_TYPE = /^[a-z][a-z0-9_]*$/;
+/** Cues are short phrases; a longer pattern is more likely a mistake than a need. */
+const MAX_REGEX_LENGTH = 200;
+const SPEAKERS: readonly TriggerRuleSpeaker[] = ['gm', 'players', 'any'];
+
+/** Event type for a rule's trigger. */
+export function customTriggerType(type: string): CustomTriggerType {
+  return `custom:${type}`;
+}
+
+export function isCustomTrigger(type: string): type is CustomTriggerType {
+  return type.startsWith('custom:');
+}
+
+/** Strip HTML tags and entities from a wiki card body. */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(?:p|div|li|pre|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+function escapeRegex(term: string): string {
+  return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * True when a repeated group contains an unbounded quantifier ("(a+)+",
+ * "(\w+\s?)*") — the star-height check of safe-regex. Such patterns
+ * backtrack exponentially on text that almost matches. Alternation overlap
+ * ("(a|aa)+") is not caught; the length cap bounds what remains.
+ */
+export function hasNestedQuantifier(source: string): boolean {
+  // Per open group: whether the enclosing content already holds an unbounded quantifier
+  const enclosing: boolean[] = [];
+  let unbounded = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '[') {
+      // Quantifier characters inside a class are literals
+      i += source[i + 1] === '^' ? 2 : 1;
+      if (source[i] === ']') i++;
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1;
+    } else if (ch === '(') {
+      enclosing.push(unbounded);
+      unbounded = false;
+    } else if (ch === ')') {
+      if (unbounded && /^(?:[+*]|\{\d+,\d*\})/.test(source.slice(i + 1))) return true;
+      unbounded = (enclosing.pop() ?? false) || unbounded;
+    } else if (ch === '+' || ch === '*' || /^\{\d+,\}/.test(source.slice(i))) {
+      unbounded = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Validate raw rules (parsed JSON). Invalid rules are skipped with a warning
+ * naming `source`; a later rule with the same type replaces an earlier one.
+ */
+export function parseTriggerRules(raw: unknown, source: string): TriggerRule[] {
+  const body = (Array.isArray(raw) ? { rules: raw } : raw) as { rules?: unknown } | null;
+  if (!body || typeof body !== 'object' || !Array.isArray(body.rules)) {
+    logger.error(`TriggerRules: ${source} must be an array of rules or { "rules": [...] }`);
+    return [];
+  }
+
+  const rules = new Map<string, TriggerRule>();
+  for (const [i, item] of body.rules.entries()) {
+    const entry = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    const skip = (why: string) => logger.warn(`TriggerRules: ${source} rule #${i + 1} ${why} — skipped`);
+
+    if (typeof entry.type !== 'string' || !RULE_TYPE.test(entry.type)) {
+      skip('needs a snake_case "type"');
+      continue;
+    }
+    const patterns = ['regex', 'keywords', 'phonetic'].filter(k => entry[k] !== undefined);
+    if (patterns.length !== 1) {
+      skip(`("${entry.type}") needs exactly one of regex, keywords, phonetic`);
+      continue;
+    }
+
+    const rule: TriggerRule = {
+      type: entry.type,
+      description: typeof entry.description === 'string' ? entry.description : '',
+      speaker: 'any',
+      states: [AssistantState.ACTIVE],
+      priority: DEFAULT_PRIORITY,
+      cooldownSeconds: DEFAULT_COOLDOWN_SECONDS,
+    };
+
+    if (entry.regex !== undefined) {
+      if (typeof entry.regex !== 'string' || !entry.regex) {
+        skip(`("${entry.type}") has an empty regex`);
+        continue;
+      }
+      try {
+        new RegExp(entry.regex, 'i');
+      } catch {
+        skip(`("${entry.type}") has an invalid regex`);
+        continue;
+      }
+      if (entry.regex.length > MAX_REGEX_LENGTH) {
+        skip(`("${entry.type}") regex is longer than ${MAX_REGEX_LENGTH} characters`);
+        continue;
+      }
+      if (hasNestedQuantifier(entry.regex)) {
+        skip(`("${entry.type}") regex nests unbounded quantifiers (e.g. "(a+)+"), which can hang on a near miss`);
+        continue;
+      }
+      rule.regex = entry.regex;
+    } else if (entry.keywords !== undefined) {
+      const keywords = Array.isArray(entry.keywords)
+        ? entry.keywords.filter((k): k is string => typeof k === 'string' && k.trim() !== '').map(k => k.trim().toLowerCase())
+        : [];
+      if (keywords.length === 0) {
+        skip(`("${entry.type}") has no keywords`);
+        continue;
+      }
+      rule.keywords = keywords;
+      if (typeof entry.minKeywords === 'number') {
+        rule.minKeywords = Math.min(keywords.length, Math.max(1, Math.round(entry.minKeywords)));
+      }
+    } else {
+      if (typeof entry.phonetic !== 'string' || !/^[\p{L}'-]{4,}$/u.test(entry.phonetic.trim())) {
+        skip(`("${entry.type}") needs a single phonetic term of 4+ letters`);
+        continue;
+      }
+      rule.phonetic = entry.phonetic.trim().toLowerCase();
+      if (typeof entry.phoneticThreshold === 'number') {
+        rule.phoneticThreshold = Math.min(1, Math.max(0, entry.phoneticThreshold));
+      }
+    }
+
+    if (entry.speaker !== undefined) {
+      if (!SPEAKERS.includes(entry.speaker as TriggerRuleSpeaker)) {
+        skip(`("${entry.type}") speaker must be gm, players or any`);
+        continue;
+      }
+      rule.speaker = entry.speaker as TriggerRuleSpeaker;
+    }
+    if (entry.states !== undefined) {
+      const states = Array.isArray(entry.states) ? entry.states.map(s => String(s).toUpperCase()) : [];
+      const valid = Object.values(AssistantState) as string[];
+      if (states.length === 0 || !states.every(s => valid.includes(s))) {
+        skip(`("${entry.type}") states must list ${valid.join(', ')}`);
+        continue;
+      }
+      rule.states = states as AssistantState[];
+    }
+    if (entry.priority !== undefined) {
+      if (typeof entry.priority !== 'number' || ![1, 2, 3, 4].includes(entry.priority)) {
+        skip(`("${entry.type}") priority must be 1-4`);
+        continue;
+      }
+      rule.priority = entry.priority as TriggerPriority;
+    }
+    if (typeof entry.cooldownSeconds === 'number' && entry.cooldownSeconds >= 0) {
+      rule.cooldownSeconds = entry.cooldownSeconds;
+    }
+
+    if (rules.has(rule.type)) logger.info(`TriggerRules: ${source} redefines "${rule.type}"`);
+    rules.set(rule.type, rule);
+  }
+  return [...rules.values()];
+}
+
+/** Load rules from a JSON file. Unreadable or malformed → no rules. */
+export function loadTriggerRulesFile(filePath: string): TriggerRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    logger.error(`TriggerRules: cannot read ${filePath}:`, err);
+    return [];
+  }
+  return parseTriggerRules(parsed, filePath);
+}
+
+/** Parse rules from a wiki card body: JSON, optionally wrapped in HTML (e.g. a <pre> block). */
+export function parseTriggerRulesCard(text: string, cardName: string): TriggerRule[] {
+  const plain = stripHtml(text);
+  const start = plain.search(/[[{]/);
+  const end = Math.max(plain.lastIndexOf(']'), plain.lastIndexOf('}'));
+  if (start === -1 || end < start) {
+    logger.warn(`TriggerRules: card "${cardName}" holds no JSON rules`);
+    return [];
+  }
+  try {
+    return parseTriggerRules(JSON.parse(plain.slice(start, end + 1)), `card "${cardName}"`);
+  } catch {
+    logger.error(`TriggerRules: card "${cardName}" is not valid JSON`);
+    return [];
+  }
+}
+
+/**
+ * Load this pipeline's rules: TRIGGER_RULES_PATH, then TRIGGER_RULES_CARD
+ * (card rules replace file rules of the same type). Runs at pipeline
+ * creation and again on /rediscover, which picks up a card skipped because
+ * the wiki was down at startup. Non-throwing.
+ */
+export async function loadTriggerRules(
+  mcp: Pick<McpAggregator, 'callTool' | 'isConnected'>,
+  config: GmConfig,
+): Promise<TriggerRule[]> {
+  const rules = new Map<string, TriggerRule>();
+  if (config.triggerRulesPath) {
+    for (const rule of loadTriggerRulesFile(config.triggerRulesPath)) rules.set(rule.type, rule);
+  }
+  if (config.triggerRulesCard && !mcp.isConnected('wiki')) {
+    logger.warn(`TriggerRules: wiki not connected — card "${config.triggerRulesCard}" rules skipped; /rediscover loads them once it is up`);
+  } else if (config.triggerRulesCard) {
+    try {
+      const raw = await mcp.callTool('wiki__get_card', { name: config.triggerRulesCard, max_content_length: 0 });
+      const text = extractMcpText(raw);
+      if (text) {
+        for (const rule of parseTriggerRulesCard(text, config.triggerRulesCard)) rules.set(rule.type, rule);
+      } else {
+        logger.warn(`TriggerRules: card "${config.triggerRulesCard}" is empty`);
+      }
+    } catch (err) {
+      logger.error(`TriggerRules: failed to load card "${config.triggerRulesCard}":`, err);
+    }
+  }
+  return [...rules.values()];
+}
+
+/** Compile a rule's pattern once, up front. */
+export function compileTriggerRule(rule: TriggerRule): CompiledTriggerRule {
+  let match: (text: string) => string | null;
+
+  if (rule.regex !== undefined) {
+    const pattern = new RegExp(rule.regex, 'i');
+    match = text => pattern.exec(text)?.[0] ?? null;
+  } else if (rule.keywords !== undefined) {
+    const keywords = rule.keywords.map(k => ({ keyword: k, pattern: new RegExp(`\\b${escapeRegex(k)}\\b`, 'i') }));
+    const needed = rule.minKeywords ?? 1;
+    match = text => {
+      const hits = keywords.filter(k => k.pattern.test(text)).map(k => k.keyword);
+      return hits.length >= needed ? hits.join(', ') : null;
+    };
+  } else {
+    const term = rule.phonetic!;
+    const exact = new RegExp(`\\b${escapeRegex(term)}\\b`, 'i');
+    const matcher = new PhoneticMatcher([term]);
+    const threshold = rule.phoneticThreshold ?? DEFAULT_PHONETIC_THRESHOLD;
+    match = text => exact.exec(text)?.[0] ?? matcher.matchSegment(text, threshold)[0]?.input ?? null;
+  }
+
+  return { rule, eventType: customTriggerType(rule.type), match };
+}
+
+/** One line per rule for logs and the readiness report. */
+export function describeTriggerRule(rule: TriggerRule): string {
+  const pattern = rule.regex !== undefined ? `regex /${rule.regex}/`
+    : rule.keywords !== undefined ? `${rule.minKeywords ?? 1} of [${rule.keywords.join(', ')}]`
+    : `sounds like "${rule.phonetic}"`;
+  return `${rule.type}: ${pattern}, P${rule.priority}, ${rule.speaker}, ${rule.states.join('/')}, ${rule.cooldownSeconds}s cooldown`;
+}
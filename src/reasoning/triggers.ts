@@ -21,15 +21,37 @@
  * - Hesitation downgraded P1→P3 (now subject to 180s cooldown + flowing-RP suppression)
  * - Per-session GAP cap (default 5) prevents hesitation flood
  * - Hesitation silence threshold raised 5s→15s, 'um'/'uh' removed from keywords
+ *
+ * Custom rules (trigger-rules.ts): campaign-defined cues evaluated per
+ * transcript segment next to the built-in detectors.
+ *
+ * Roll outcomes (fate-rolls.ts): Foundry dice rolls that succeed with style,
+ * fail spectacularly or tie fire P3 triggers carrying actor, skill and margin.
+ *
+ * Spotlight (state/spotlight.ts): player talk time keeps spotlight_debt
+ * current; a player quiet for SPOTLIGHT_QUIET_MINUTES of play fires P3.
+ *
+ * Engagement (state/engagement.ts): per-player HIGH/MEDIUM/LOW estimates keep
+ * engagement_signals current (no trigger); logged per scene for the QA report.
+ *
+ * Seeds (story-threads.ts): a line that hits a planted seed's reveal keywords
+ * (beyond its name, after the planting scene) marks it probably revealed and
+ * fires P3 seed_reveal (GM confirms with /reveal).
  */
 
 import { readFileSync } from 'node:fs';
 import { EventEmitter } from 'events';
 import { logger } from '../logger.js';
-import { getConfig } from '../config.js';
+import { getConfig, type GmConfig } from '../config.js';
 import { PhoneticMatcher } from '../matching/phonetic.js';
+import { systemClock, type Clock, type TimerHandle } from '../session/clock.js';
 import type { PacingStateManager } from '../state/pacing.js';
-import type { NpcCacheEntry, SceneIndexEntry, BeatReminderEntry, WhisperStageEntry, ActivationSource } from '../types/index.js';
+import { SpotlightTracker } from '../state/spotlight.js';
+import { EngagementEstimator, type EngagementSceneReport } from '../state/engagement.js';
+import { compileTriggerRule, type CompiledTriggerRule, type TriggerRule } from './trigger-rules.js';
+import { classifyFateRoll, describeFateRoll, isFateRoll, ROLL_OUTCOME_TRIGGERS } from './fate-rolls.js';
+import { revealHits, revealKeywords } from './story-threads.js';
+import type { NpcCacheEntry, SceneIndexEntry, BeatReminderEntry, WhisperStageEntry, ActivationSource, EngagementLevel } from '../types/index.js';
 import {
   AssistantState,
   TriggerPriority,
@@ -74,17 +96,28 @@ const ACT_TRANSITION_KEYWORDS = [
 const MAX_PENDING_EVENTS = 100;
 const MAX_PHONETIC_DISCOVERIES = 500;
 
-const FLOWING_RP_MIN_SPEAKERS = 2;
-const FLOWING_RP_MIN_SEGMENTS = 4;
-const FLOWING_RP_WINDOW_MS = 60_000; // 60s
-
 /** v3: Minimum delay between scene index match triggers for the same scene. */
 const SCENE_MATCH_WINDOW_MS = 3 * 60_000; // 3 minutes
 
+/** Why a detected trigger never reached the batch queue. */
+export type SuppressionReason = 'pregame' | 'sleep' | 'flowing_rp' | 'gap_cap' | 'queue_full' | 'foundry_scene_change';
+
+/** A trigger that was detected but dropped (replay timelines, threshold tuning). */
+export interface SuppressedTrigger {
+  type: string;
+  priority: TriggerPriority;
+  reason: SuppressionReason;
+  timestamp: string;
+}
+
 export interface TriggerDetectorEvents {
   trigger: [batch: TriggerBatch];
   /** v3: Emitted when PREGAME→ACTIVE should occur. Orchestrator handles transition + cache build. */
   activated: [source: ActivationSource];
+  /** Emitted alongside the debug log whenever a detected trigger is dropped. */
+  suppressed: [info: SuppressedTrigger];
+  /** Emitted when the advice cooldown holds a flush back (events stay queued). */
+  deferred: [pendingEvents: number, delayMs: number];
 }
 
 /**
@@ -158,13 +191,13 @@ function buildActivationDictionary(
 
 export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
   private pendingEvents: TriggerEvent[] = [];
-  private batchTimer: ReturnType<typeof setTimeout> | null = null;
+  private batchTimer: TimerHandle | null = null;
   private lastFlushTime = 0;
-  private deferredFlushTimer: ReturnType<typeof setTimeout> | null = null;
+  private deferredFlushTimer: TimerHandle | null = null;
 
   /** Track last GM speech timestamp for silence detection. */
   private lastGmSpeechTime = 0;
-  private silenceTimer: ReturnType<typeof setInterval> | null = null;
+  private silenceTimer: TimerHandle | null = null;
   /** P4 fires once per silence period. */
   private silenceAlertFired = false;
 
@@ -188,7 +221,12 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
   private readonly batchWindowMs: number;
   private readonly minIntervalMs: number;
   private readonly silenceThresholdMs: number;
+  private readonly flowingRpMinSpeakers: number;
+  private readonly flowingRpMinSegments: number;
+  private readonly flowingRpWindowMs: number;
   private readonly pacing: PacingStateManager;
+  private readonly clock: Clock;
+  private readonly config: GmConfig;
 
   // ── v3: Auto-ACTIVE state ──────────────────────────────────────────────
 
@@ -228,13 +266,40 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
   private convergenceEscalationFired = false;
   private denouementGateFired = false;
 
-  constructor(pacing: PacingStateManager, fuzzyTable?: FuzzyMatchTable) {
+  // ── Custom trigger rules (set by the pipeline) ─────────────────────────
+
+  private customRules: CompiledTriggerRule[] = [];
+  /** Last time each rule fired (ms), for its cooldown. */
+  private customRuleFiredAt = new Map<string, number>();
+
+  // ── Spotlight tracking (null when SPOTLIGHT_TRACKING_ENABLED=false) ─────
+
+  private readonly spotlight: SpotlightTracker | null;
+  /** Scene the spotlight tracker last saw, to notice /scene and keyword changes. */
+  private spotlightScene = '';
+
+  // ── Engagement estimation (null when ENGAGEMENT_TRACKING_ENABLED=false) ─
+
+  private readonly engagement: EngagementEstimator | null;
+  /** Scene the estimator last saw; a new scene ends GM /engagement overrides. */
+  private engagementScene = '';
+
+  constructor(
+    pacing: PacingStateManager,
+    fuzzyTable?: FuzzyMatchTable,
+    clock: Clock = systemClock,
+    config: GmConfig = getConfig(),
+  ) {
     super();
-    const config = getConfig();
+    this.config = config;
     this.batchWindowMs = config.eventBatchWindowSeconds * 1000;
     this.minIntervalMs = config.minAdviceIntervalSeconds * 1000;
     this.silenceThresholdMs = config.activeSilenceSeconds * 1000;
+    this.flowingRpMinSpeakers = config.flowingRpMinSpeakers;
+    this.flowingRpMinSegments = config.flowingRpMinSegments;
+    this.flowingRpWindowMs = config.flowingRpWindowSeconds * 1000;
     this.pacing = pacing;
+    this.clock = clock;
 
     // v3: auto-ACTIVE config
     this.autoActiveEnabled = config.autoActiveEnabled;
@@ -268,16 +333,38 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
       canonicalTerms.add(entry.canonical);
     }
     this.phoneticMatcher = new PhoneticMatcher(canonicalTerms);
+
+    // Without GM_IDENTIFIER every line reads as GM speech — nobody would ever be credited
+    this.spotlight = config.spotlightTrackingEnabled && config.gmIdentifier
+      ? new SpotlightTracker({
+        windowMinutes: config.spotlightWindowMinutes,
+        quietMinutes: config.spotlightQuietMinutes,
+        minWords: config.spotlightMinWords,
+        userMappings: config.userMappings,
+      })
+      : null;
+
+    // GM questions open the response-latency clock, so the GM must be identifiable
+    this.engagement = config.engagementTrackingEnabled && config.gmIdentifier && Object.keys(config.userMappings).length > 0
+      ? new EngagementEstimator({
+        windowMinutes: config.engagementWindowMinutes,
+        dropoutMinutes: config.engagementDropoutMinutes,
+        holdMinutes: config.engagementHoldMinutes,
+        userMappings: config.userMappings,
+      })
+      : null;
   }
 
   start(): void {
-    const config = getConfig();
+    const config = this.config;
 
     // Silence + hesitation detection: check every 10s
-    this.silenceTimer = setInterval(() => {
+    this.silenceTimer = this.clock.setInterval(() => {
       this.checkHesitation();
       this.checkSilence();
       this.checkPacingGates();
+      this.checkSpotlight();
+      this.checkEngagement();
     }, 10_000);
 
     logger.info(
@@ -290,15 +377,15 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
 
   stop(): void {
     if (this.batchTimer) {
-      clearTimeout(this.batchTimer);
+      this.clock.clearTimeout(this.batchTimer);
       this.batchTimer = null;
     }
     if (this.deferredFlushTimer) {
-      clearTimeout(this.deferredFlushTimer);
+      this.clock.clearTimeout(this.deferredFlushTimer);
       this.deferredFlushTimer = null;
     }
     if (this.silenceTimer) {
-      clearInterval(this.silenceTimer);
+      this.clock.clearInterval(this.silenceTimer);
       this.silenceTimer = null;
     }
   }
@@ -336,6 +423,40 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
     logger.info(`TriggerDetector: whisper stage loaded (${stage.length} entries)`);
   }
 
+  /** Replace the campaign's custom trigger rules. */
+  setCustomRules(rules: TriggerRule[]): void {
+    this.customRules = rules.map(compileTriggerRule);
+    this.customRuleFiredAt.clear();
+    logger.info(`TriggerDetector: ${rules.length} custom trigger rules loaded`);
+  }
+
+  /** The active custom rules (for the control API and replay reports). */
+  getCustomRules(): TriggerRule[] {
+    return this.customRules.map(c => c.rule);
+  }
+
+  /** GM /engagement override for a Discord user or character (holds for the scene). */
+  setEngagementOverride(player: string, level: EngagementLevel): void {
+    const character = this.engagement?.characterFor({ displayName: player }) ?? player;
+    // The override belongs to the scene it was given in
+    this.engagementScene = this.pacing.state.current_scene;
+    this.pacing.setEngagement(character, level);
+  }
+
+  /** Engagement per scene this session (for post-session QA). */
+  getEngagementReport(): EngagementSceneReport[] {
+    return this.engagement?.sceneReport() ?? [];
+  }
+
+  /**
+   * GM /spotlight override. The name may be a Discord user or a character;
+   * the debt holds (and no quiet trigger fires) until that player speaks again.
+   */
+  setSpotlightOverride(player: string, debt: number): void {
+    const character = this.spotlight?.characterFor({ displayName: player }) ?? player;
+    this.pacing.setSpotlight(character, debt);
+  }
+
   getFuzzyTable(): FuzzyMatchTable {
     return this.fuzzyTable;
   }
@@ -346,7 +467,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
    */
   reloadFuzzyTable(newTable: FuzzyMatchTable): void {
     this.fuzzyTable = newTable;
-    const config = getConfig();
+    const config = this.config;
     this.activationDict = buildActivationDictionary(
       this.fuzzyTable,
       config.autoActiveMinTermLength,
@@ -367,6 +488,11 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
     logger.info(`TriggerDetector: fuzzy table reloaded (${this.activationDict.size} activation terms, ${canonicalTerms.size} phonetic terms)`);
   }
 
+  /** Events buffered for the next batch flush (for the control API status view). */
+  getPendingEvents(): TriggerEvent[] {
+    return [...this.pendingEvents];
+  }
+
   /** v4: Get phonetic matches discovered during this session (for post-session QA). */
   getPhoneticDiscoveries(): Array<{ input: string; canonical: string; similarity: number }> {
     return [...this._phoneticDiscoveries];
@@ -387,6 +513,11 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
     this.gapTriggerCount = 0;
     this.recentSegments = [];
     this.sceneMatchState.clear();
+    this.customRuleFiredAt.clear();
+    this.spotlight?.reset();
+    this.spotlightScene = '';
+    this.engagement?.reset();
+    this.engagementScene = '';
   }
 
   /**
@@ -414,10 +545,12 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
    * Called by the orchestrator after polling Discord transcript.
    */
   onTranscriptUpdate(segments: Array<{ text: string; userId?: string; displayName?: string; speakerLabel?: string; timestamp: string }>): void {
-    const now = Date.now();
+    const now = this.clock.now().getTime();
 
-    const config = getConfig();
+    const config = this.config;
     const gmId = config.gmIdentifier.toLowerCase();
+    this.spotlight?.tick(now, this.pacing.assistantState === AssistantState.ACTIVE);
+    this.engagement?.tick(now, this.pacing.assistantState === AssistantState.ACTIVE);
 
     for (const seg of segments) {
       // Re-read state each iteration — auto-ACTIVE or other handlers may
@@ -448,6 +581,15 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
         }
       }
 
+      // Spotlight: player talk during active play
+      if (!isGmSpeech && this.spotlight && state === AssistantState.ACTIVE) {
+        const character = this.spotlight.record({ text: seg.text, userId: seg.userId, displayName: seg.displayName ?? seg.speakerLabel });
+        if (character) this.pacing.clearSpotlightOverride(character);
+      }
+      if (this.engagement && state === AssistantState.ACTIVE) {
+        this.engagement.record({ text: seg.text, userId: seg.userId, displayName: seg.displayName ?? seg.speakerLabel }, isGmSpeech);
+      }
+
       // Track for flowing-RP detection
       const speakerId = seg.speakerLabel ?? seg.userId;
       if (speakerId) {
@@ -479,9 +621,10 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
 
       // P3: Scene transition keywords (ACTIVE only, v7: downgraded from P2, suppressed near Foundry scene change)
       if (this.pacing.assistantState === AssistantState.ACTIVE && this.isSceneTransitionKeyword(seg.text)) {
-        const recentFoundryChange = Math.abs(Date.now() - this.lastFoundrySceneChangeTime) < 30_000;
+        const recentFoundryChange = Math.abs(this.clock.now().getTime() - this.lastFoundrySceneChangeTime) < 30_000;
         if (recentFoundryChange) {
           logger.debug('TriggerDetector: suppressing transcript scene transition (Foundry scene change within 30s)');
+          this.noteSuppressed('scene_transition', TriggerPriority.P3, 'foundry_scene_change');
         } else {
           logger.info(`TriggerDetector: P3 scene transition keyword — "${seg.text.trim().slice(0, 80)}"`);
           this.addEvent({
@@ -515,10 +658,19 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
       if (this.pacing.assistantState === AssistantState.ACTIVE && this.sceneIndex.length > 0) {
         this.checkSceneKeywordMatch(seg.text, seg.timestamp, now);
       }
+
+      // P3: Seed payoff (ACTIVE only)
+      if (this.pacing.assistantState === AssistantState.ACTIVE && this.pacing.state.planted_seeds.length > 0) {
+        this.checkSeedReveals(seg.text, seg.timestamp);
+      }
+
+      if (this.customRules.length > 0) {
+        this.checkCustomRules(seg, isGmSpeech, now);
+      }
     }
 
     // Prune old flowing-RP tracking data
-    const cutoff = now - FLOWING_RP_WINDOW_MS;
+    const cutoff = now - this.flowingRpWindowMs;
     this.recentSegments = this.recentSegments.filter(s => s.timestamp > cutoff);
   }
 
@@ -534,7 +686,8 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
     // Scene change from Foundry → P2
     if (eventType === 'sceneChange') {
       // v7: Record Foundry scene change time for transcript transition suppression
-      this.lastFoundrySceneChangeTime = Date.now();
+      this.lastFoundrySceneChangeTime = this.clock.now().getTime();
+      this.spotlight?.sceneChanged();
 
       // v3: PREGAME → ACTIVE via Foundry scene change — notify orchestrator.
       // The orchestrator's handleActivation() runs synchronously (no awaits),
@@ -550,11 +703,29 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
           priority: TriggerPriority.P2,
           source: 'foundry',
           data,
-          timestamp: new Date().toISOString(),
+          timestamp: this.clock.now().toISOString(),
         });
       }
       return;
     }
+
+    // Fate roll from Foundry chat → P3 when the outcome is worth a word
+    if (eventType === 'fateRoll') {
+      if (!isFateRoll(data)) {
+        logger.warn('TriggerDetector: fateRoll event without roll fields — ignored');
+        return;
+      }
+      const result = classifyFateRoll(data);
+      if (!result) return;
+      logger.info(`TriggerDetector: roll ${result.outcome} — ${describeFateRoll({ ...result })}`);
+      this.addEvent({
+        type: ROLL_OUTCOME_TRIGGERS[result.outcome],
+        priority: TriggerPriority.P3,
+        source: 'foundry',
+        data: { ...result },
+        timestamp: this.clock.now().toISOString(),
+      });
+    }
   }
 
   // ── v3: Auto-ACTIVE Detection ──────────────────────────────────────────
@@ -664,7 +835,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
       if (!matched) continue;
 
       npc.served = true;
-      npc.last_served_at = new Date().toISOString();
+      npc.last_served_at = this.clock.now().toISOString();
       logger.info(`TriggerDetector: P2 NPC first appearance — ${npc.display_name}`);
       this.addEvent({
         type: 'npc_first_appearance',
@@ -715,7 +886,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
       // Need ≥2 distinct keywords to trigger
       if (matchState.keywords.size >= 2) {
         scene.served = true;
-        scene.served_at = new Date().toISOString();
+        scene.served_at = this.clock.now().toISOString();
         const allMatched = [...matchState.keywords];
         this.sceneMatchState.delete(scene.id);
         logger.info(`TriggerDetector: P2 scene detected — "${scene.title}" (keywords: ${allMatched.join(', ')})`);
@@ -750,7 +921,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
       const overlap = beat.keywords.some(kw => matchedKeywords.includes(kw));
       if (overlap) {
         beat.served = true;
-        beat.servedAt = new Date().toISOString();
+        beat.servedAt = this.clock.now().toISOString();
         logger.info(`TriggerDetector: P2 beat reminder — "${beat.sceneTitle}"`);
         this.addEvent({
           type: 'beat_reminder',
@@ -790,6 +961,144 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
     }
   }
 
+  // ── Seeds ─────────────────────────────────────────────────────────────
+
+  /**
+   * Flag unrevealed seeds whose reveal keywords this line hits. Each seed is
+   * flagged once; it stays pending until the GM confirms with /reveal.
+   * Skipped: seeds planted in the current scene (the GM is still setting them
+   * up) and lines whose hits are all words of the seed's own name (a mention,
+   * not a payoff) — so a bare /seed, keyed on its name alone, is left to /reveal.
+   */
+  private checkSeedReveals(text: string, timestamp: string): void {
+    const scene = this.pacing.state.current_scene.toLowerCase();
+    for (const seed of this.pacing.unrevealedSeeds()) {
+      if (seed.reveal_pending) continue;
+      if (scene && !seed.carried_over && seed.planted_in_scene.toLowerCase() === scene) continue;
+      const keywords = seed.reveal_keywords?.length ? seed.reveal_keywords : revealKeywords(seed.name);
+      const hits = revealHits(text, keywords);
+      if (hits.length === 0) continue;
+      const nameWords = new Set(revealKeywords(seed.name));
+      if (hits.every(hit => nameWords.has(hit))) continue;
+
+      this.pacing.markRevealPending(seed.name);
+      logger.info(`TriggerDetector: P3 seed reveal — "${seed.name}" (${hits.join(', ')})`);
+      this.addEvent({
+        type: 'seed_reveal',
+        priority: TriggerPriority.P3,
+        source: 'transcript',
+        data: {
+          seed: seed.name,
+          planted_in_scene: seed.planted_in_scene,
+          carried_over: seed.carried_over ?? false,
+          matched: hits,
+          transcript: text,
+        },
+        timestamp,
+      });
+    }
+  }
+
+  // ── Custom Trigger Rules ──────────────────────────────────────────────
+
+  /**
+   * Evaluate the campaign's rules against one segment. A rule fires when its
+   * speaker filter and states allow it, its pattern matches and its cooldown
+   * has passed; outside ACTIVE, addEvent still lets only P1 through.
+   */
+  private checkCustomRules(seg: { text: string; userId?: string; timestamp: string }, isGmSpeech: boolean, now: number): void {
+    const state = this.pacing.assistantState;
+    for (const compiled of this.customRules) {
+      const { rule } = compiled;
+      if (!rule.states.includes(state)) continue;
+      if (rule.speaker === 'gm' && !isGmSpeech) continue;
+      if (rule.speaker === 'players' && isGmSpeech) continue;
+
+      const firedAt = this.customRuleFiredAt.get(rule.type);
+      if (firedAt !== undefined && now - firedAt < rule.cooldownSeconds * 1000) continue;
+
+      const matched = compiled.match(seg.text);
+      if (matched === null) continue;
+
+      this.customRuleFiredAt.set(rule.type, now);
+      logger.info(`TriggerDetector: P${rule.priority} custom trigger ${rule.type} (matched "${matched}") — "${seg.text.trim().slice(0, 80)}"`);
+      this.addEvent({
+        type: compiled.eventType,
+        priority: rule.priority,
+        source: seg.userId ?? 'transcript',
+        data: { rule: rule.type, description: rule.description, matched, transcript: seg.text },
+        timestamp: seg.timestamp,
+      });
+    }
+  }
+
+  // ── Spotlight ───────────────────────────────────────────────────────────
+
+  /**
+   * Refresh spotlight shares/debt in the pacing state and fire P3 for players
+   * quiet for SPOTLIGHT_QUIET_MINUTES of active play (once per quiet stretch,
+   * skipped while the GM's /spotlight override holds). Called from the 10s timer.
+   */
+  private checkSpotlight(): void {
+    if (!this.spotlight) return;
+    const active = this.pacing.assistantState === AssistantState.ACTIVE;
+    this.spotlight.tick(this.clock.now().getTime(), active);
+    if (!active) return;
+
+    const scene = this.pacing.state.current_scene;
+    if (scene !== this.spotlightScene) {
+      if (this.spotlightScene) this.spotlight.sceneChanged();
+      this.spotlightScene = scene;
+    }
+    this.pacing.updateSpotlight(this.spotlight.standings());
+
+    for (const standing of this.spotlight.dueForSpotlight()) {
+      if (this.pacing.isSpotlightOverridden(standing.character)) continue;
+      logger.info(`TriggerDetector: P3 spotlight — ${standing.character} quiet for ${standing.quietMinutes}min`);
+      this.addEvent({
+        type: 'spotlight_debt',
+        priority: TriggerPriority.P3,
+        source: 'transcript',
+        data: {
+          player: standing.character,
+          quiet_minutes: standing.quietMinutes,
+          share_percent: Math.round(standing.share * 100),
+          debt: standing.debt,
+          in_scene: standing.inScene,
+          scene,
+        },
+        timestamp: this.clock.now().toISOString(),
+      });
+    }
+  }
+
+  // ── Engagement ──────────────────────────────────────────────────────────
+
+  /**
+   * Re-estimate engagement and apply committed level changes to the pacing
+   * state. A new scene ends any GM /engagement override. Called from the 10s timer.
+   */
+  private checkEngagement(): void {
+    if (!this.engagement) return;
+    const active = this.pacing.assistantState === AssistantState.ACTIVE;
+    this.engagement.tick(this.clock.now().getTime(), active);
+    if (!active) return;
+
+    const scene = this.pacing.state.current_scene;
+    if (scene !== this.engagementScene) {
+      // Overridden players go back to their committed estimate
+      this.pacing.clearEngagementOverrides();
+      this.engagementScene = scene;
+      for (const [character, level] of Object.entries(this.engagement.levels())) {
+        this.pacing.updateEngagement(character, level);
+      }
+    }
+    for (const { character, level } of this.engagement.evaluate(scene)) {
+      logger.info(`TriggerDetector: engagement ${character} → ${level}`);
+      this.pacing.updateEngagement(character, level);
+    }
+  }
+
   // ── v3: Pacing Gates ───────────────────────────────────────────────────
 
   /**
@@ -802,8 +1111,8 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
     const sessionEndTime = this.pacing.state.session_end_time;
     if (!sessionEndTime) return;
 
-    const config = getConfig();
-    const now = Date.now();
+    const config = this.config;
+    const now = this.clock.now().getTime();
     const endMs = new Date(sessionEndTime).getTime();
     if (!Number.isFinite(endMs)) return;
 
@@ -823,8 +1132,14 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
           remaining_minutes: remainingMin,
           session_end_time: sessionEndTime,
           open_threads: this.pacing.state.open_threads,
+          unrevealed_seeds: this.pacing.unrevealedSeeds().map(s => ({
+            name: s.name,
+            planted_in_scene: s.planted_in_scene,
+            ...(s.reveal_pending ? { reveal_pending: true } : {}),
+            ...(s.carried_over ? { carried_over: true } : {}),
+          })),
         },
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.now().toISOString(),
       });
     }
 
@@ -844,7 +1159,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
             escalation: true,
             current_act: this.pacing.state.current_act,
           },
-          timestamp: new Date().toISOString(),
+          timestamp: this.clock.now().toISOString(),
         });
       }
     }
@@ -862,7 +1177,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
           remaining_minutes: remainingMin,
           session_end_time: sessionEndTime,
         },
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.now().toISOString(),
       });
     }
   }
@@ -892,7 +1207,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
     // Only fire if the last GM speech was the hesitation (GM hasn't spoken since)
     if (this.lastHesitationTime !== this.lastGmSpeechTime) return;
 
-    const now = Date.now();
+    const now = this.clock.now().getTime();
     const silenceMs = now - this.lastHesitationTime;
     if (silenceMs >= this.hesitationSilenceMs) {
       this.hesitationFired = true;
@@ -900,12 +1215,14 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
       // v6: Per-session GAP cap
       if (this.maxGapTriggersPerSession > 0 && this.gapTriggerCount >= this.maxGapTriggersPerSession) {
         logger.debug(`TriggerDetector: hesitation suppressed (GAP cap ${this.maxGapTriggersPerSession} reached)`);
+        this.noteSuppressed('gm_hesitation', TriggerPriority.P3, 'gap_cap');
         return;
       }
 
       // v6: Suppress during flowing RP (same as P3/P4)
       if (this.isFlowingRP()) {
         logger.debug('TriggerDetector: hesitation suppressed (flowing RP)');
+        this.noteSuppressed('gm_hesitation', TriggerPriority.P3, 'flowing_rp');
         return;
       }
 
@@ -919,7 +1236,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
           transcript: this.lastHesitationText,
           silenceSeconds: Math.round(silenceMs / 1000),
         },
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.now().toISOString(),
       });
     }
   }
@@ -932,11 +1249,11 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
     if (this.silenceAlertFired) return;
     if (this.lastGmSpeechTime === 0) return;
 
-    const now = Date.now();
+    const now = this.clock.now().getTime();
     const silenceMs = now - this.lastGmSpeechTime;
 
     // Check for ACTIVE → SLEEP transition (15 min silence)
-    const config = getConfig();
+    const config = this.config;
     const sleepThresholdMs = config.sleepSilenceMinutes * 60_000;
     if (silenceMs >= sleepThresholdMs) {
       this.pacing.transitionTo(AssistantState.SLEEP);
@@ -949,6 +1266,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
       // Suppress if flowing RP is happening
       if (this.isFlowingRP()) {
         logger.debug('TriggerDetector: P4 suppressed (flowing RP)');
+        this.noteSuppressed('silence_detection', TriggerPriority.P4, 'flowing_rp');
         return;
       }
 
@@ -959,7 +1277,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
         priority: TriggerPriority.P4,
         source: 'silence',
         data: { silenceSeconds: Math.round(silenceMs / 1000) },
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.now().toISOString(),
       });
     }
   }
@@ -979,6 +1297,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
       // Suppress if flowing RP is happening
       if (this.isFlowingRP()) {
         logger.debug('TriggerDetector: P3 suppressed (flowing RP)');
+        this.noteSuppressed('pacing_alert', TriggerPriority.P3, 'flowing_rp');
         return;
       }
 
@@ -993,7 +1312,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
           elapsed: this.pacing.state.scene_timing.elapsed_minutes,
           planned: this.pacing.state.scene_timing.planned_max_minutes,
         },
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.now().toISOString(),
       });
     }
   }
@@ -1009,6 +1328,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
       event.priority !== TriggerPriority.P1
     ) {
       logger.debug(`TriggerDetector: suppressing ${event.type} in ${state}`);
+      this.noteSuppressed(event.type, event.priority, state === AssistantState.PREGAME ? 'pregame' : 'sleep', event.timestamp);
       return;
     }
 
@@ -1024,6 +1344,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
         this.pendingEvents.splice(lowestIdx, 1);
       } else {
         logger.debug('TriggerDetector: dropping event (queue full)');
+        this.noteSuppressed(event.type, event.priority, 'queue_full', event.timestamp);
         return;
       }
     }
@@ -1038,7 +1359,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
 
     // Start batch window if not already running
     if (!this.batchTimer) {
-      this.batchTimer = setTimeout(() => {
+      this.batchTimer = this.clock.setTimeout(() => {
         this.batchTimer = null;
         this.flush();
       }, this.batchWindowMs);
@@ -1048,7 +1369,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
   private flush(): void {
     if (this.pendingEvents.length === 0) return;
 
-    const now = Date.now();
+    const now = this.clock.now().getTime();
     const timeSinceLastFlush = now - this.lastFlushTime;
 
     // P1 and P2 exempt from 180s cooldown
@@ -1060,16 +1381,17 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
       if (!this.deferredFlushTimer) {
         const delay = this.minIntervalMs - timeSinceLastFlush;
         logger.debug(`TriggerDetector: deferring flush by ${delay}ms (rate limit)`);
-        this.deferredFlushTimer = setTimeout(() => {
+        this.deferredFlushTimer = this.clock.setTimeout(() => {
           this.deferredFlushTimer = null;
           this.flush();
         }, delay);
+        this.emit('deferred', this.pendingEvents.length, delay);
       }
       return;
     }
 
     if (this.batchTimer) {
-      clearTimeout(this.batchTimer);
+      this.clock.clearTimeout(this.batchTimer);
       this.batchTimer = null;
     }
 
@@ -1081,7 +1403,7 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
 
     const batch: TriggerBatch = {
       events: this.pendingEvents.splice(0),
-      flushedAt: new Date().toISOString(),
+      flushedAt: this.clock.now().toISOString(),
     };
 
     this.lastFlushTime = now;
@@ -1091,6 +1413,10 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
     this.emit('trigger', batch);
   }
 
+  private noteSuppressed(type: string, priority: TriggerPriority, reason: SuppressionReason, timestamp?: string): void {
+    this.emit('suppressed', { type, priority, reason, timestamp: timestamp ?? this.clock.now().toISOString() });
+  }
+
   // ── Detection Helpers ───────────────────────────────────────────────────
 
   private isP1Question(text: string): boolean {
@@ -1111,10 +1437,10 @@ export class TriggerDetector extends EventEmitter<TriggerDetectorEvents> {
    * Suppresses P3/P4 to avoid interrupting engaged play.
    */
   private isFlowingRP(): boolean {
-    const cutoff = Date.now() - FLOWING_RP_WINDOW_MS;
+    const cutoff = this.clock.now().getTime() - this.flowingRpWindowMs;
     const recent = this.recentSegments.filter(s => s.timestamp > cutoff);
-    if (recent.length < FLOWING_RP_MIN_SEGMENTS) return false;
+    if (recent.length < this.flowingRpMinSegments) return false;
     const uniqueSpeakers = new Set(recent.map(s => s.userId));
-    return uniqueSpeakers.size >= FLOWING_RP_MIN_SPEAKERS;
+    return uniqueSpeakers.size >= this.flowingRpMinSpeakers;
   }
 }
@@ -0,0 +1,86 @@
+/**
+ * Replay CLI — replays a session recording or transcript fixture offline.
+ *
+ * Usage:
+ *   npm run replay -- <recording.jsonl | fixture.json> [--llm stub|live] [--active] [--json] [--out <file>]
+ *
+ * Thresholds come from the usual env vars, so tunings can be compared
+ * side by side:
+ *   HESITATION_SILENCE_SECONDS=20 MIN_ADVICE_INTERVAL_SECONDS=120 npm run replay -- session.jsonl
+ */
+
+import * as fs from 'fs';
+import { getConfig } from '../config.js';
+import { loadFuzzyMatchTable } from '../reasoning/triggers.js';
+import { loadTriggerRulesFile } from '../reasoning/trigger-rules.js';
+import { loadReplayInput } from './input.js';
+import { runReplay, formatTimeline, type ReplayLlmMode } from './harness.js';
+
+const USAGE = 'Usage: replay <recording.jsonl | fixture.json> [--llm stub|live] [--active] [--json] [--out <file>]';
+
+interface CliArgs {
+  file: string;
+  llm: ReplayLlmMode;
+  active: boolean;
+  json: boolean;
+  out: string | null;
+}
+
+function parseArgs(argv: string[]): CliArgs | null {
+  const args: CliArgs = { file: '', llm: 'stub', active: false, json: false, out: null };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--llm') {
+      const mode = argv[++i];
+      if (mode !== 'stub' && mode !== 'live') return null;
+      args.llm = mode;
+    } else if (arg === '--active') {
+      args.active = true;
+    } else if (arg === '--json') {
+      args.json = true;
+    } else if (arg === '--out') {
+      args.out = argv[++i] ?? null;
+      if (!args.out) return null;
+    } else if (arg.startsWith('--') || args.file) {
+      return null;
+    } else {
+      args.file = arg;
+    }
+  }
+  return args.file ? args : null;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  const config = getConfig();
+  if (args.llm === 'live' && config.llmProvider === 'anthropic' && !config.anthropicApiKey) {
+    console.error('[replay] --llm live needs ANTHROPIC_API_KEY');
+    process.exit(2);
+  }
+
+  const input = loadReplayInput(args.file, config.finalSegmentsOnly);
+  const result = await runReplay(input, {
+    llm: args.llm,
+    startActive: args.active,
+    fuzzyTable: loadFuzzyMatchTable(config.sttFuzzyMatchPath),
+    triggerRules: config.triggerRulesPath ? loadTriggerRulesFile(config.triggerRulesPath) : undefined,
+  });
+
+  const output = args.json ? JSON.stringify(result, null, 2) : formatTimeline(result);
+  if (args.out) {
+    fs.writeFileSync(args.out, output + '\n', 'utf-8');
+    console.log(`[replay] timeline written to ${args.out}`);
+  } else {
+    console.log('\n' + output);
+  }
+}
+
+main().catch(err => {
+  console.error('[replay] failed:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
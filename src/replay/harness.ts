@@ -0,0 +1,362 @@
+/**
+ * Offline session replay — feeds a recorded (or hand-written) session
+ * through TriggerDetector → ContextAssembler → ReasoningEngine on a virtual
+ * clock, so a 4-hour session replays in seconds.
+ *
+ * The output is a timeline of triggers fired (batch flushes), triggers
+ * suppressed (and why), state changes, and the envelopes produced. Run it
+ * with different HESITATION_SILENCE_SECONDS / MIN_ADVICE_INTERVAL_SECONDS /
+ * FLOWING_RP_* values to compare tunings against a real session.
+ *
+ * LLM modes:
+ * - stub (default): no API calls — every batch that reaches the model yields
+ *   a placeholder envelope, so the timeline shows where advice would land
+ * - live: real calls to the configured LLM_PROVIDER against the replayed context (costs tokens)
+ *
+ * Out of scope: activation cache builds (NPC/scene/beat caches), GM commands
+ * and delivery. Tool calls are answered from the recording when the same
+ * call was made live; tool schemas are not recorded, so live mode runs
+ * without tools.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { getConfig } from '../config.js';
+import { logger } from '../logger.js';
+import { PacingStateManager } from '../state/pacing.js';
+import { AdviceMemoryBuffer } from '../state/advice-memory.js';
+import { AdviceHistory } from '../state/advice-history.js';
+import { TriggerDetector, type FuzzyMatchTable, type SuppressionReason } from '../reasoning/triggers.js';
+import type { TriggerRule } from '../reasoning/trigger-rules.js';
+import { ReasoningEngine, type ReasoningMcp } from '../reasoning/engine.js';
+import { MockProvider } from '../llm/index.js';
+import { VirtualClock } from './virtual-clock.js';
+import { toolCallKey, type ReplayInput, type ReplaySegment } from './input.js';
+import { AssistantState, type AdviceEnvelope, type TriggerBatch, type TriggerPriority, type ActivationSource } from '../types/index.js';
+
+const PACING_UPDATE_INTERVAL_MS = 30_000;
+
+export type ReplayLlmMode = 'stub' | 'live';
+
+export interface ReplayOptions {
+  llm: ReplayLlmMode;
+  /** Start in ACTIVE instead of PREGAME (fixtures that skip the table talk). */
+  startActive?: boolean;
+  fuzzyTable?: FuzzyMatchTable;
+  /** Custom trigger rules to evaluate alongside the built-in detectors. */
+  triggerRules?: TriggerRule[];
+  /** Keep running timers this long past the last input so trailing batches flush. */
+  tailMs?: number;
+}
+
+export type TimelineEntry =
+  | { at: string; kind: 'state'; from: AssistantState; to: AssistantState; source?: ActivationSource }
+  | { at: string; kind: 'trigger'; events: Array<{ type: string; priority: TriggerPriority; timestamp: string }> }
+  | { at: string; kind: 'suppressed'; type: string; priority: TriggerPriority; reason: SuppressionReason; count: number }
+  | { at: string; kind: 'envelope'; envelope: AdviceEnvelope }
+  | { at: string; kind: 'no_advice'; triggers: string[] }
+  | { at: string; kind: 'queued'; triggers: string[] };
+
+export interface ReplayResult {
+  sessionId: string;
+  startedAt: string;
+  endedAt: string;
+  timeline: TimelineEntry[];
+  totals: {
+    segments: number;
+    batches: number;
+    suppressed: number;
+    envelopes: number;
+    noAdvice: number;
+  };
+}
+
+// ── Replay MCP ──────────────────────────────────────────────────────────────
+
+/** Serves the game state current at virtual time and recorded tool results. */
+class ReplayMcp implements ReasoningMcp {
+  constructor(
+    private readonly input: ReplayInput,
+    private readonly clock: VirtualClock,
+  ) {}
+
+  isConnected(serverName: string): boolean {
+    return serverName === 'discord' || (serverName === 'foundry' && this.input.gameStates.length > 0);
+  }
+
+  async readResource(serverName: string, uri: string): Promise<string> {
+    if (serverName === 'foundry' && uri === 'game://state') {
+      const now = this.clock.now().getTime();
+      let current: string | null = null;
+      for (const gs of this.input.gameStates) {
+        if (gs.at > now) break;
+        current = gs.raw;
+      }
+      if (current !== null) return current;
+    }
+    throw new Error(`Replay: no recorded ${serverName} ${uri} at ${this.clock.now().toISOString()}`);
+  }
+
+  async callTool(prefixedName: string, args: Record<string, unknown>): Promise<unknown> {
+    const recorded = this.input.toolResults.get(toolCallKey(prefixedName, args));
+    if (!recorded) throw new Error(`Replay: ${prefixedName} was not called with these arguments in the recording`);
+    if (recorded.error !== undefined) throw new Error(recorded.error);
+    return recorded.result;
+  }
+
+  getAllTools(): Anthropic.Messages.Tool[] {
+    return [];
+  }
+
+  recordLlmExchange(): void {
+    // Replays are never recorded
+  }
+}
+
+// ── Stub LLM ────────────────────────────────────────────────────────────────
+
+/** Spell a counter as letters so stub summaries survive dedup's digit folding. */
+function letters(n: number): string {
+  let out = '';
+  for (let i = n; i >= 0; i = Math.floor(i / 26) - 1) {
+    out = String.fromCharCode(97 + (i % 26)) + out;
+  }
+  return out;
+}
+
+function createStubProvider(currentBatch: () => TriggerBatch | null): MockProvider {
+  return new MockProvider((_request, call) => {
+    const batch = currentBatch();
+    const types = batch ? batch.events.map(e => e.type) : ['unknown'];
+    const priority = batch ? Math.min(...batch.events.map(e => e.priority)) : 4;
+    return {
+      envelope: {
+        category: 'technical',
+        tag: `REPLAY_${types[0].toUpperCase()}`,
+        priority,
+        summary: `Replay stub ${letters(call)}: ${[...new Set(types)].join(' + ')}`,
+        body: 'Placeholder advice — replay ran without an LLM.',
+        confidence: 0,
+        source_cards: [],
+      },
+    };
+  }, { model: 'replay-stub' });
+}
+
+// ── Harness ─────────────────────────────────────────────────────────────────
+
+export async function runReplay(input: ReplayInput, options: ReplayOptions): Promise<ReplayResult> {
+  const config = getConfig();
+  const clock = new VirtualClock(new Date(input.startedAt));
+  const timeline: TimelineEntry[] = [];
+  const transcript: ReplaySegment[] = [];
+  const inFlight = new Set<Promise<void>>();
+  let currentBatch: TriggerBatch | null = null;
+
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  if (options.startActive) pacing.transitionTo(AssistantState.ACTIVE);
+  // Stub advice is placeholder text, alike by design — only subject keys dedup it
+  const similarity = options.llm === 'stub' ? 0 : config.adviceDedupSimilarity;
+  const memory = new AdviceMemoryBuffer(config.adviceMemorySize, new AdviceHistory({ similarity, clock }));
+  const mcp = new ReplayMcp(input, clock);
+  const engine = new ReasoningEngine(mcp, pacing, memory, () => transcript, {
+    clock,
+    provider: options.llm === 'stub' ? createStubProvider(() => currentBatch) : undefined,
+  });
+  const triggers = new TriggerDetector(pacing, options.fuzzyTable ?? {}, clock);
+  if (options.triggerRules) triggers.setCustomRules(options.triggerRules);
+  engine.setFuzzyTable(options.fuzzyTable ?? {});
+
+  const at = () => clock.now().toISOString();
+  let lastState = pacing.assistantState;
+  const noteStateChange = (source?: ActivationSource) => {
+    const state = pacing.assistantState;
+    if (state === lastState) return;
+    timeline.push({ at: at(), kind: 'state', from: lastState, to: state, ...(source ? { source } : {}) });
+    lastState = state;
+  };
+
+  triggers.on('activated', (source) => {
+    if (pacing.assistantState !== AssistantState.ACTIVE) {
+      pacing.transitionTo(AssistantState.ACTIVE);
+      pacing.setActivationSource(source);
+    }
+    noteStateChange(source);
+  });
+
+  triggers.on('suppressed', (info) => {
+    // Repeated checks (P4 every 10s during flowing RP) collapse into one entry
+    const last = timeline[timeline.length - 1];
+    if (last?.kind === 'suppressed' && last.type === info.type && last.reason === info.reason) {
+      last.count++;
+      return;
+    }
+    timeline.push({ at: at(), kind: 'suppressed', type: info.type, priority: info.priority, reason: info.reason, count: 1 });
+  });
+
+  triggers.on('trigger', (batch) => {
+    noteStateChange();
+    const types = batch.events.map(e => e.type);
+    timeline.push({
+      at: at(),
+      kind: 'trigger',
+      events: batch.events.map(e => ({ type: e.type, priority: e.priority, timestamp: e.timestamp })),
+    });
+    if (engine.isProcessing) {
+      timeline.push({ at: at(), kind: 'queued', triggers: types });
+    }
+    const run = (async () => {
+      currentBatch = batch;
+      const envelopes = await engine.process(batch);
+      for (const envelope of envelopes) {
+        timeline.push({ at: at(), kind: 'envelope', envelope });
+      }
+      if (envelopes.length === 0 && !engine.isProcessing) {
+        timeline.push({ at: at(), kind: 'no_advice', triggers: types });
+      }
+    })();
+    inFlight.add(run);
+    run.finally(() => inFlight.delete(run)).catch(() => {});
+  });
+
+  // Queued batches are processed after the engine's inter-call delay
+  engine.on('advice', (envelopes) => {
+    for (const envelope of envelopes) timeline.push({ at: at(), kind: 'envelope', envelope });
+  });
+
+  /** Wait for in-flight reasoning (stub: microtasks; live: real API latency). */
+  const settle = async () => {
+    while (inFlight.size > 0 || engine.isProcessing) {
+      await Promise.all([...inFlight]);
+      // Queued batches run outside inFlight (engine drain timer) — poll until idle
+      if (engine.isProcessing) await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  const runUntil = async (ms: number) => {
+    while (clock.runNext(ms)) {
+      noteStateChange();
+      await settle();
+    }
+    clock.advanceTo(ms);
+  };
+
+  // ── Input steps: segment arrivals (grouped per read) + game state snapshots ──
+
+  type Step =
+    | { at: number; kind: 'segments'; segments: ReplaySegment[] }
+    | { at: number; kind: 'gameState'; raw: string };
+  const steps: Step[] = [];
+  for (const seg of input.segments) {
+    const last = steps[steps.length - 1];
+    if (last?.kind === 'segments' && last.at === seg.arrivedAt && !!last.segments[0].seeded === !!seg.seeded) {
+      last.segments.push(seg);
+    } else {
+      steps.push({ at: seg.arrivedAt, kind: 'segments', segments: [seg] });
+    }
+  }
+  for (const gs of input.gameStates) steps.push({ at: gs.at, kind: 'gameState', raw: gs.raw });
+  steps.sort((a, b) => a.at - b.at);
+
+  triggers.resetSession();
+  triggers.start();
+  const pacingTimer = clock.setInterval(() => {
+    pacing.updateElapsed(clock.now());
+    triggers.checkPacingOverrun(config.sceneOverrunThresholdMinutes);
+  }, PACING_UPDATE_INTERVAL_MS);
+
+  logger.info(
+    `Replay: ${input.kind} ${input.sessionId} — ${input.segments.length} segments, ` +
+    `${input.gameStates.length} game states, ${Math.round((input.endedAt - input.startedAt) / 60_000)} min (llm=${options.llm})`
+  );
+
+  let lastSceneId: string | null = null;
+  for (const step of steps) {
+    await runUntil(step.at);
+
+    if (step.kind === 'segments') {
+      transcript.push(...step.segments);
+      if (!step.segments[0].seeded) {
+        triggers.onTranscriptUpdate(step.segments);
+      }
+    } else {
+      // Same scene-change detection as SessionController.pollGameState()
+      try {
+        const state = JSON.parse(step.raw);
+        const sceneId = state.connectedAt === null ? null : (state.scene?.id ?? null);
+        if (sceneId !== lastSceneId && lastSceneId !== null && sceneId !== null) {
+          triggers.onGameEvent('sceneChange', { sceneId, sceneName: state.scene?.name ?? '' });
+        }
+        lastSceneId = sceneId;
+      } catch {
+        logger.debug('Replay: skipping unparseable game state');
+      }
+    }
+    noteStateChange();
+    await settle();
+  }
+
+  await runUntil(input.endedAt + (options.tailMs ?? config.minAdviceIntervalSeconds * 1000));
+  triggers.stop();
+  clock.clearInterval(pacingTimer);
+  await settle();
+
+  return {
+    sessionId: input.sessionId,
+    startedAt: new Date(input.startedAt).toISOString(),
+    endedAt: new Date(input.endedAt).toISOString(),
+    timeline,
+    totals: {
+      segments: input.segments.filter(s => !s.seeded).length,
+      batches: timeline.filter(e => e.kind === 'trigger').length,
+      suppressed: timeline.reduce((n, e) => n + (e.kind === 'suppressed' ? e.count : 0), 0),
+      envelopes: timeline.filter(e => e.kind === 'envelope').length,
+      noAdvice: timeline.filter(e => e.kind === 'no_advice').length,
+    },
+  };
+}
+
+// ── Formatting ──────────────────────────────────────────────────────────────
+
+function offset(startedAt: string, at: string): string {
+  const total = Math.max(0, Math.round((Date.parse(at) - Date.parse(startedAt)) / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return `+${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+/** Render a replay result as a plain-text timeline. */
+export function formatTimeline(result: ReplayResult): string {
+  const lines = [`Replay of ${result.sessionId} (${result.startedAt} → ${result.endedAt})`, ''];
+  for (const entry of result.timeline) {
+    const t = offset(result.startedAt, entry.at).padEnd(10);
+    switch (entry.kind) {
+      case 'state':
+        lines.push(`${t}STATE      ${entry.from} → ${entry.to}${entry.source ? ` (${entry.source})` : ''}`);
+        break;
+      case 'trigger':
+        lines.push(`${t}TRIGGER    ${entry.events.map(e => `P${e.priority} ${e.type}`).join(', ')}`);
+        break;
+      case 'suppressed':
+        lines.push(`${t}SUPPRESSED P${entry.priority} ${entry.type} (${entry.reason})${entry.count > 1 ? ` ×${entry.count}` : ''}`);
+        break;
+      case 'envelope':
+        lines.push(`${t}ADVICE     [${entry.envelope.tag}] ${entry.envelope.summary} (${entry.envelope.category}, P${entry.envelope.priority})`);
+        break;
+      case 'no_advice':
+        lines.push(`${t}NO ADVICE  ${entry.triggers.join(', ')}`);
+        break;
+      case 'queued':
+        lines.push(`${t}QUEUED     ${entry.triggers.join(', ')} (engine busy)`);
+        break;
+    }
+  }
+  const { totals } = result;
+  lines.push(
+    '',
+    `${totals.segments} segments → ${totals.batches} trigger batches, ${totals.suppressed} suppressed, ` +
+    `${totals.envelopes} envelopes, ${totals.noAdvice} without advice`,
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,216 @@
+/**
+ * Replay inputs — turns a session recording (see mcp/recorder.ts) or a
+ * hand-written transcript fixture into a time-ordered list of what the
+ * assistant saw: transcript segments, Foundry state snapshots, and recorded
+ * tool results for the replay MCP to serve back.
+ *
+ * Recording: `delta` transcript entries are first merged into the previous
+ * read by row id. Reads are then diffed the same way the controller does it
+ * (new rows by id; with FINAL_SEGMENTS_ONLY, interim rows are fed once they
+ * turn final). Segments from the first read are seeded without
+ * triggers, as on a live session change. A segment "arrives" at the time of
+ * the read that first returned it.
+ *
+ * Fixture (JSON):
+ *   {
+ *     "sessionId": "optional",
+ *     "segments": [{ "timestamp": "...", "text": "...", "userId": "gm" }],
+ *     "gameStates": [{ "timestamp": "...", "state": { ...game://state... } }]
+ *   }
+ * Fixture segments arrive at their own timestamp.
+ */
+
+import * as fs from 'fs';
+import { applyRowDelta, readRecording } from '../mcp/recorder.js';
+
+const TRANSCRIPT_URI = /^session:\/\/(.+)\/transcript$/;
+const GAME_STATE_URI = 'game://state';
+
+export interface ReplaySegment {
+  text: string;
+  userId?: string;
+  displayName?: string;
+  speakerLabel?: string;
+  /** Segment start as reported by the STT pipeline. */
+  timestamp: string;
+  /** Epoch ms when the assistant first saw the segment. */
+  arrivedAt: number;
+  /** Cached for context but not fed to triggers (history at session start). */
+  seeded?: boolean;
+}
+
+export interface ReplayGameState {
+  at: number;
+  /** Raw game://state JSON, as readResource() returns it. */
+  raw: string;
+}
+
+export interface RecordedToolResult {
+  result?: unknown;
+  error?: string;
+}
+
+export interface ReplayInput {
+  sessionId: string;
+  kind: 'recording' | 'fixture';
+  startedAt: number;
+  endedAt: number;
+  segments: ReplaySegment[];
+  gameStates: ReplayGameState[];
+  /** Keyed by toolCallKey(tool, args). Last recorded result wins. */
+  toolResults: Map<string, RecordedToolResult>;
+}
+
+export function toolCallKey(tool: string, args: Record<string, unknown>): string {
+  return `${tool}:${JSON.stringify(args)}`;
+}
+
+/** Load a replay input, detecting a recording archive by its session_start line. */
+export function loadReplayInput(filePath: string, finalSegmentsOnly: boolean): ReplayInput {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  const firstLine = raw.slice(0, raw.indexOf('\n') >= 0 ? raw.indexOf('\n') : raw.length);
+  if (firstLine.includes('"kind":"session_start"')) {
+    return loadRecording(filePath, finalSegmentsOnly);
+  }
+  return parseFixture(JSON.parse(raw) as TranscriptFixture);
+}
+
+// ── Recording archives ──────────────────────────────────────────────────────
+
+interface RawSegment {
+  id: number;
+  transcript: string;
+  segmentStart: string;
+  userId?: string;
+  displayName?: string;
+  speakerLabel?: string;
+  isFinal?: boolean;
+}
+
+export function loadRecording(filePath: string, finalSegmentsOnly: boolean): ReplayInput {
+  const entries = readRecording(filePath);
+  const start = entries.find(e => e.kind === 'session_start');
+  if (!start || start.kind !== 'session_start') {
+    throw new Error(`${filePath} is not a session recording (no session_start entry)`);
+  }
+
+  const input: ReplayInput = {
+    sessionId: start.sessionId,
+    kind: 'recording',
+    startedAt: Date.parse(start.ts),
+    endedAt: Date.parse(entries[entries.length - 1].ts),
+    segments: [],
+    gameStates: [],
+    toolResults: new Map(),
+  };
+
+  // Last full payload per server + uri, to resolve `unchanged` entries
+  const lastPayload = new Map<string, string>();
+  const fed = new Set<number>();
+  let lastRowId = 0;
+  let firstRead = true;
+
+  for (const entry of entries) {
+    const at = Date.parse(entry.ts);
+
+    if (entry.kind === 'tool_call') {
+      input.toolResults.set(toolCallKey(entry.tool, entry.args), entry.error !== undefined
+        ? { error: entry.error }
+        : { result: entry.result });
+      continue;
+    }
+    if (entry.kind !== 'resource' || entry.error !== undefined) continue;
+
+    const key = `${entry.server}|${entry.uri}`;
+    const payload = entry.unchanged ? lastPayload.get(key)
+      : entry.delta && entry.result !== undefined ? applyRowDelta(lastPayload.get(key), entry.result)
+      : entry.result;
+    if (payload === undefined) continue;
+    lastPayload.set(key, payload);
+
+    if (entry.uri === GAME_STATE_URI) {
+      if (!entry.unchanged) input.gameStates.push({ at, raw: payload });
+      continue;
+    }
+
+    if (entry.unchanged || !TRANSCRIPT_URI.test(entry.uri)) continue;
+    let rows: RawSegment[];
+    try {
+      rows = JSON.parse(payload) as RawSegment[];
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(rows) || rows.length === 0) continue;
+
+    const seeded = firstRead;
+    firstRead = false;
+    for (const row of rows) {
+      const isNew = row.id > lastRowId;
+      if (isNew) lastRowId = row.id;
+      if (fed.has(row.id)) continue;
+      // Mirrors the controller: new rows are fed when final (or always without
+      // FINAL_SEGMENTS_ONLY); interim rows are fed on the read that finalizes them.
+      if (!isNew && !row.isFinal) continue;
+      if (isNew && finalSegmentsOnly && !row.isFinal && !seeded) continue;
+      fed.add(row.id);
+      input.segments.push({
+        text: row.transcript,
+        userId: row.userId,
+        displayName: row.displayName,
+        speakerLabel: row.speakerLabel,
+        timestamp: row.segmentStart,
+        arrivedAt: at,
+        ...(seeded ? { seeded: true } : {}),
+      });
+    }
+  }
+
+  return input;
+}
+
+// ── Hand-written fixtures ───────────────────────────────────────────────────
+
+export interface TranscriptFixture {
+  sessionId?: string;
+  segments: Array<{
+    timestamp: string;
+    text: string;
+    userId?: string;
+    displayName?: string;
+    speakerLabel?: string;
+  }>;
+  gameStates?: Array<{ timestamp: string; state: unknown }>;
+}
+
+export function parseFixture(fixture: TranscriptFixture): ReplayInput {
+  if (!Array.isArray(fixture.segments)) {
+    throw new Error('Fixture must have a "segments" array');
+  }
+
+  const segments: ReplaySegment[] = fixture.segments.map((seg, i) => {
+    const at = Date.parse(seg.timestamp);
+    if (!Number.isFinite(at) || typeof seg.text !== 'string') {
+      throw new Error(`Fixture segment ${i} needs an ISO "timestamp" and a "text"`);
+    }
+    return { ...seg, arrivedAt: at };
+  }).sort((a, b) => a.arrivedAt - b.arrivedAt);
+
+  const gameStates: ReplayGameState[] = (fixture.gameStates ?? []).map((gs, i) => {
+    const at = Date.parse(gs.timestamp);
+    if (!Number.isFinite(at)) throw new Error(`Fixture gameStates[${i}] needs an ISO "timestamp"`);
+    return { at, raw: JSON.stringify(gs.state) };
+  }).sort((a, b) => a.at - b.at);
+
+  const times = [...segments.map(s => s.arrivedAt), ...gameStates.map(g => g.at)];
+  if (times.length === 0) throw new Error('Fixture has no segments or game states');
+
+  return {
+    sessionId: fixture.sessionId ?? 'fixture',
+    kind: 'fixture',
+    startedAt: Math.min(...times),
+    endedAt: Math.max(...times),
+    segments,
+    gameStates,
+    toolResults: new Map(),
+  };
+}
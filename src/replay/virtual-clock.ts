@@ -0,0 +1,92 @@
+/**
+ * Virtual clock for offline replays.
+ *
+ * Time only moves when the replay driver says so. Timers are kept in a
+ * queue ordered by due time and fired one at a time by runNext(), which
+ * first moves the clock to the timer's due time — so a 10s interval fires
+ * 1,440 times over a 4-hour session without any real waiting.
+ */
+
+import type { Clock, TimerHandle } from '../session/clock.js';
+
+interface VirtualTimer {
+  dueAt: number;
+  /** Tie-breaker: timers due at the same instant fire in creation order. */
+  seq: number;
+  /** Repeat interval, or null for a one-shot timeout. */
+  intervalMs: number | null;
+  callback: () => void;
+}
+
+export class VirtualClock implements Clock {
+  private current: number;
+  private nextId = 1;
+  private seq = 0;
+  private readonly timers = new Map<number, VirtualTimer>();
+
+  constructor(start: Date) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setInterval(callback: () => void, ms: number): TimerHandle {
+    return this.schedule(callback, ms, ms);
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle as unknown as number);
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    return this.schedule(callback, ms, null);
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as unknown as number);
+  }
+
+  /** Number of pending timers (intervals count until cleared). */
+  get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Fire the earliest timer due at or before `until`, moving the clock to its
+   * due time first. Returns false (and leaves the clock alone) if none is due.
+   */
+  runNext(until: number): boolean {
+    let nextId: number | null = null;
+    let next: VirtualTimer | null = null;
+    for (const [id, timer] of this.timers) {
+      if (!next || timer.dueAt < next.dueAt || (timer.dueAt === next.dueAt && timer.seq < next.seq)) {
+        nextId = id;
+        next = timer;
+      }
+    }
+    if (nextId === null || !next || next.dueAt > until) return false;
+
+    this.current = Math.max(this.current, next.dueAt);
+    if (next.intervalMs === null) {
+      this.timers.delete(nextId);
+    } else {
+      next.dueAt += Math.max(1, next.intervalMs);
+      next.seq = this.seq++;
+    }
+    next.callback();
+    return true;
+  }
+
+  /** Move the clock forward without firing timers (call runNext() up to `ms` first). */
+  advanceTo(ms: number): void {
+    if (ms > this.current) this.current = ms;
+  }
+
+  private schedule(callback: () => void, ms: number, intervalMs: number | null): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { dueAt: this.current + Math.max(0, ms), seq: this.seq++, intervalMs, callback });
+    return id as unknown as TimerHandle;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Injectable clock for the session controller, trigger detector and
+ * reasoning engine.
+ *
+ * Production uses the system clock; tests and offline replays can supply a
+ * fake that advances time manually and fires timers on demand.
+ */
+
+export type TimerHandle = ReturnType<typeof setInterval>;
+
+export interface Clock {
+  /** Current wall-clock time. */
+  now(): Date;
+  setInterval(callback: () => void, ms: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/** Real-time clock backed by Date and the Node timer functions. */
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) => clearInterval(handle),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle),
+};
@@ -0,0 +1,1876 @@
+/**
+ * Session controller — owns the lifecycle of one tracked Discord session.
+ *
+ * Extracted from the index.ts orchestrator so a whole session can be driven
+ * against fakes. Owns the session-scoped state (caches, cursors, transcript
+ * cache, GM notes, stats, timers) and the work loops:
+ *
+ * - Session watch: polls session://active during standby (30s)
+ * - Transcript poll: incremental transcript + text-event ingestion (10s)
+ * - Game state poll: Foundry scene changes + GM chat commands (10s)
+ * - Pacing update: elapsed timers + scene overrun check (30s)
+ * - State persistence: crash-recovery snapshots (30s, opt-in)
+ *
+ * Seeds and open threads come from the plan and beat cards (plus /seed and
+ * /thread); whatever is unresolved when a session ends carries into the next.
+ *
+ * Where the Discord/Foundry servers support MCP resource subscriptions, the
+ * transcript, text-event, session and game-state reads run as handlers for
+ * the aggregator's `resourceUpdated` event instead; the timers then only
+ * fire a safety-net poll every MCP_SUBSCRIPTION_POLL_SECONDS. Resources
+ * without a live subscription keep the fixed poll intervals above.
+ *
+ * The MCP aggregator, trigger detector, reasoning engine, delivery and clock
+ * are injected; session/pipeline.ts wires the production instances.
+ */
+
+import { getConfig, type GmConfig } from '../config.js';
+import { logger } from '../logger.js';
+import { extractMcpText } from '../reasoning/context.js';
+import { runWikiDiscovery, formatReadinessReport, type DiscoveryReport } from '../discovery/wiki-bootstrap.js';
+import { NpcCacheBuilder } from '../reasoning/npc-cache.js';
+import { SceneIndexBuilder } from '../reasoning/scene-index.js';
+import { BeatCacheBuilder } from '../reasoning/beat-cache.js';
+import { WhisperStager } from '../reasoning/whisper-stage.js';
+import { StoryThreadExtractor } from '../reasoning/story-threads.js';
+import { parseFateRoll, type FoundryChatRollMessage } from '../reasoning/fate-rolls.js';
+import { loadTriggerRules } from '../reasoning/trigger-rules.js';
+import { ImageQueue } from '../output/image-queue.js';
+import { parseGmCommand } from '../state/gm-commands.js';
+import { createSessionStats, type SessionStats } from '../qa/session-stats.js';
+import { addLlmUsage, formatUsd, type LlmUsage } from '../qa/llm-cost.js';
+import {
+  createFeedbackTally,
+  tallyRating,
+  parseFeedbackArgs,
+  type AdviceFeedbackStore,
+  type CategoryPolicy,
+  type FeedbackReason,
+  type FeedbackVerdict,
+} from '../state/feedback.js';
+import { runPostSessionQa, formatQaReport } from '../qa/post-session.js';
+import { collectCacheFlags, applyCacheFlags, type StatePersistence, type PersistedCacheFlags } from '../state/persistence.js';
+import { StoryCarryoverStore } from '../state/carryover.js';
+import { systemClock, type Clock, type TimerHandle } from './clock.js';
+import { AssistantState, TriggerPriority } from '../types/index.js';
+import type { McpAggregator } from '../mcp/client.js';
+import type { PacingStateManager } from '../state/pacing.js';
+import type { AdviceMemoryBuffer } from '../state/advice-memory.js';
+import type { TriggerDetector, FuzzyMatchTable } from '../reasoning/triggers.js';
+import type { ReasoningEngine } from '../reasoning/engine.js';
+import type { AdviceDelivery } from '../output/index.js';
+import type { PipelineMetrics, CacheName } from '../metrics/index.js';
+import type {
+  ActivationSource,
+  AdviceEnvelope,
+  AdviceMemoryEntry,
+  FreshnessMetadata,
+  PacingState,
+  TriggerEvent,
+  GmCommand,
+  TriggerBatch,
+  NpcCacheEntry,
+  SceneIndexEntry,
+  BeatReminderEntry,
+  WhisperStageEntry,
+  ContextBudgetReport,
+} from '../types/index.js';
+
+// v4: GM notes buffer (injected into reasoning context)
+const MAX_GM_NOTES = 10;
+
+// Local transcript cache — ring buffer of recent segments
+const TRANSCRIPT_CACHE_SIZE = 500;
+
+const SESSION_WATCH_INTERVAL_MS = 30_000;
+const TRANSCRIPT_POLL_INTERVAL_MS = 10_000;
+const GAME_STATE_POLL_INTERVAL_MS = 10_000;
+const PACING_UPDATE_INTERVAL_MS = 30_000;
+// Crash recovery: snapshot cadence
+const STATE_PERSIST_INTERVAL_MS = 30_000;
+
+/** GM reactions on Discord-delivered advice that count as feedback. */
+const REACTION_FEEDBACK: Record<string, { verdict: FeedbackVerdict; reason: FeedbackReason | null }> = {
+  '👍': { verdict: 'good', reason: null },
+  '👎': { verdict: 'bad', reason: null },
+  '⏰': { verdict: 'bad', reason: 'too-late' },
+  '❌': { verdict: 'bad', reason: 'wrong' },
+};
+
+interface GmNoteEntry { text: string; timestamp: string }
+
+export interface CachedSegment {
+  rowId: number;
+  text: string;
+  userId?: string;
+  displayName?: string;
+  speakerLabel?: string;
+  timestamp: string;
+}
+
+type DeliveryChannel = 'foundry' | 'discord' | 'none';
+
+export interface RecentEnvelope {
+  envelope: AdviceEnvelope;
+  channel: DeliveryChannel;
+  deliveredAt: string;
+  /** Webhook message id when delivered via Discord (matches GM reactions). */
+  discordMessageId?: string;
+  rating?: { verdict: FeedbackVerdict; reason: FeedbackReason | null; ratedAt: string };
+}
+
+/** Point-in-time view of the assistant's session state (served by the control API). */
+export interface SessionStatus {
+  sessionActive: boolean;
+  sessionId: string | null;
+  assistantState: AssistantState;
+  pacing: PacingState;
+  freshness: FreshnessMetadata;
+  adviceMemory: AdviceMemoryEntry[];
+  gmNotes: Array<{ text: string; timestamp: string }>;
+  planCard: string | null;
+  caches: {
+    npcs: NpcCacheEntry[];
+    scenes: SceneIndexEntry[];
+    beats: BeatReminderEntry[];
+    whispers: WhisperStageEntry[];
+    buildInProgress: boolean;
+  };
+  pendingTriggers: TriggerEvent[];
+  recentEnvelopes: RecentEnvelope[];
+  /** Learned per-category delivery policy from GM ratings (empty without a feedback store). */
+  feedbackPolicies: CategoryPolicy[];
+  /** Token breakdown by section of the last assembled context (null before the first call). */
+  contextBudget: ContextBudgetReport | null;
+  sessionStats: SessionStats;
+}
+
+export interface SessionControllerDeps {
+  mcp: McpAggregator;
+  pacing: PacingStateManager;
+  memory: AdviceMemoryBuffer;
+  triggers: TriggerDetector;
+  engine: ReasoningEngine;
+  delivery: AdviceDelivery;
+  imageQueue?: ImageQueue;
+  persistence?: StatePersistence | null;
+  feedback?: AdviceFeedbackStore | null;
+  /** Unresolved seeds/threads between sessions (default: kept in memory). */
+  carryover?: StoryCarryoverStore;
+  metrics?: PipelineMetrics | null;
+  clock?: Clock;
+  config?: GmConfig;
+}
+
+/**
+ * Parse a session end time string into ISO 8601.
+ * Accepts ISO 8601, "HH:MM", or "H:MM" (interpreted as today or tomorrow).
+ */
+export function parseSessionEndTime(raw: string, now: Date = new Date()): string | null {
+  // Try ISO 8601 first
+  const isoDate = new Date(raw);
+  if (!isNaN(isoDate.getTime()) && raw.includes('-')) {
+    return isoDate.toISOString();
+  }
+
+  // Try HH:MM format
+  const timeMatch = raw.match(/^(\d{1,2}):(\d{2})$/);
+  if (timeMatch) {
+    const hours = parseInt(timeMatch[1], 10);
+    const minutes = parseInt(timeMatch[2], 10);
+    const target = new Date(now);
+    target.setHours(hours, minutes, 0, 0);
+    // If the target time is in the past, assume tomorrow
+    if (target.getTime() <= now.getTime()) {
+      target.setDate(target.getDate() + 1);
+    }
+    return target.toISOString();
+  }
+
+  logger.warn(`Orchestrator: could not parse SESSION_END_TIME "${raw}"`);
+  return null;
+}
+
+/** Pre-composed NPC reminder from the cached brief (used when the LLM is off-limits). */
+function composeNpcBrief(event: TriggerEvent): AdviceEnvelope {
+  const name = event.data.npc_name as string;
+  return {
+    category: 'script',
+    tag: 'NPC_BRIEF',
+    priority: TriggerPriority.P2,
+    summary: `NPC: ${name}`,
+    body: event.data.npc_brief as string,
+    confidence: 1.0,
+    source_cards: [event.data.npc_card as string],
+    subject: `npc:${event.data.npc_key as string}`,
+  };
+}
+
+/** Tool arguments for a GM-facing message, cut short so card bodies don't flood the channel. */
+function truncateArgs(input: Record<string, unknown>, maxChars = 300): string {
+  const json = JSON.stringify(input);
+  return json.length > maxChars ? json.slice(0, maxChars) + '…' : json;
+}
+
+export class SessionController {
+  private readonly mcp: McpAggregator;
+  private readonly pacing: PacingStateManager;
+  private readonly memory: AdviceMemoryBuffer;
+  private readonly triggers: TriggerDetector;
+  private readonly engine: ReasoningEngine;
+  private readonly delivery: AdviceDelivery;
+  private readonly imageQueue: ImageQueue;
+  private readonly persistence: StatePersistence | null;
+  private readonly feedback: AdviceFeedbackStore | null;
+  private readonly carryover: StoryCarryoverStore;
+  /** Lowercase names of seeds revealed / threads closed (this and earlier sessions). */
+  private resolvedStory = new Set<string>();
+  private readonly metrics: PipelineMetrics | null;
+  private readonly clock: Clock;
+  private readonly config: GmConfig;
+
+  // v3: Cache state
+  private npcCache: NpcCacheEntry[] = [];
+  private sceneIndex: SceneIndexEntry[] = [];
+  private beatCache: BeatReminderEntry[] = [];
+  private whisperStage: WhisperStageEntry[] = [];
+  private activationBuildInProgress = false;
+
+  // v4: Wiki discovery state
+  private discoveredPlanCard: string | null = null;
+  private discoveredBeatCards: string[] = [];
+  private lastDiscoveryReport: DiscoveryReport | null = null;
+  private currentFuzzyTable: FuzzyMatchTable = {};
+
+  // v4: Session stats (for post-session QA)
+  private _sessionStats: SessionStats = createSessionStats();
+
+  private gmNotes: GmNoteEntry[] = [];
+
+  // ── Polling state ────────────────────────────────────────────────────────
+
+  private sessionWatchTimer: TimerHandle | null = null;
+  private transcriptPollTimer: TimerHandle | null = null;
+  private gameStatePollTimer: TimerHandle | null = null;
+  private pacingUpdateTimer: TimerHandle | null = null;
+  private persistTimer: TimerHandle | null = null;
+  private _sessionActive = false;
+  private lastTranscriptRowId = 0;
+  private lastSessionId: string | null = null;
+  private lastSceneId: string | null = null;
+  private lastSeenChatMsgId: string | null = null;
+  private transcriptPollInFlight = false;
+  private gameStatePollInFlight = false;
+  // Updates that arrived mid-poll — re-run once the current poll finishes
+  private transcriptPollQueued = false;
+  private gameStatePollQueued = false;
+  // Last actual resource reads (epoch ms) — drives safety-net polling under subscriptions
+  private lastSessionCheckAt = 0;
+  private lastTranscriptPollAt = 0;
+  private lastGameStatePollAt = 0;
+  private lastTextEventId = 0;
+  private sessionJustChanged = false;
+
+  private readonly transcriptCache: CachedSegment[] = [];
+
+  /** Recently delivered envelopes, oldest first (control API status view). */
+  private readonly recentEnvelopes: RecentEnvelope[] = [];
+
+  /** Crash recovery: cache flags awaiting the post-restore cache rebuild. */
+  private restoredCacheFlags: PersistedCacheFlags | null = null;
+
+  constructor(deps: SessionControllerDeps) {
+    this.mcp = deps.mcp;
+    this.pacing = deps.pacing;
+    this.memory = deps.memory;
+    this.triggers = deps.triggers;
+    this.engine = deps.engine;
+    this.delivery = deps.delivery;
+    this.imageQueue = deps.imageQueue ?? new ImageQueue();
+    this.persistence = deps.persistence ?? null;
+    this.feedback = deps.feedback ?? null;
+    this.carryover = deps.carryover ?? new StoryCarryoverStore(null);
+    this.metrics = deps.metrics ?? null;
+    this.clock = deps.clock ?? systemClock;
+    this.config = deps.config ?? getConfig();
+
+    // v3: Listen for activation events from trigger detector
+    this.triggers.on('activated', (source: ActivationSource) => {
+      this.handleActivation(source);
+    });
+
+    this.triggers.on('trigger', (batch) => {
+      for (const event of batch.events) this.metrics?.trigger(event.type, event.priority);
+      this.handleTriggerBatch(batch).catch(err => {
+        logger.error('Orchestrator: trigger batch handling failed:', err);
+      });
+    });
+
+    if (this.metrics) {
+      const metrics = this.metrics;
+      this.triggers.on('suppressed', info => metrics.suppressed(info.reason));
+      this.triggers.on('deferred', pendingEvents => metrics.suppressed('cooldown', pendingEvents));
+    }
+
+    // Session cost accounting + spending cap
+    this.engine.on('usage', (usage) => this.recordLlmUsage(usage));
+
+    // Show streamed advice while it is generated (the finished envelope replaces it)
+    this.engine.on('stream', (update) => this.delivery.stream(update));
+
+    // Side-effecting tool calls wait for the GM (TOOL_POLICY "confirm")
+    this.engine.on('toolStaged', (call) => {
+      this.delivery.postSystemMessage(
+        `Magi wants to run ${call.name} ${truncateArgs(call.input)} — /approve ${call.id} to run it, /reject ${call.id} to drop it.`,
+      ).catch(err => logger.warn('Orchestrator: failed to announce staged tool call:', err));
+    });
+
+    // Deliver advice from queued batches
+    this.engine.on('advice', (envelopes) => {
+      this.deliverAdvice(...envelopes).catch(err => {
+        logger.error('Orchestrator: queued advice delivery failed:', err);
+      });
+    });
+
+    // Push updates from subscribed MCP resources
+    this.mcp.on('resourceUpdated', (server, uri) => {
+      this.handleResourceUpdated(server, uri);
+    });
+  }
+
+  // ── Accessors ────────────────────────────────────────────────────────────
+
+  get sessionActive(): boolean { return this._sessionActive; }
+  get sessionId(): string | null { return this.lastSessionId; }
+  get sessionStats(): Readonly<SessionStats> { return this._sessionStats; }
+
+  /** Snapshot of the local transcript cache (used as the engine's transcript provider). */
+  getTranscript(): CachedSegment[] {
+    return [...this.transcriptCache];
+  }
+
+  /** Snapshot of everything the assistant currently knows about the session. */
+  getStatus(): SessionStatus {
+    return {
+      sessionActive: this._sessionActive,
+      sessionId: this.lastSessionId,
+      assistantState: this.pacing.assistantState,
+      pacing: this.pacing.state,
+      freshness: this.pacing.freshness,
+      adviceMemory: [...this.memory.entries],
+      gmNotes: [...this.gmNotes],
+      planCard: this.discoveredPlanCard ?? (this.config.campaignWikiCard || null),
+      caches: {
+        npcs: this.npcCache,
+        scenes: this.sceneIndex,
+        beats: this.beatCache,
+        whispers: this.whisperStage,
+        buildInProgress: this.activationBuildInProgress,
+      },
+      pendingTriggers: this.triggers.getPendingEvents(),
+      recentEnvelopes: [...this.recentEnvelopes],
+      feedbackPolicies: this.feedback
+        ? Object.keys(this.feedback.tallies('category')).sort().map(c => this.feedback!.policy(c))
+        : [],
+      contextBudget: this.engine.lastContextBudget ?? null,
+      sessionStats: this._sessionStats,
+    };
+  }
+
+  // ── Discovery wiring (called by startup and /rediscover) ─────────────────
+
+  /** Apply a wiki discovery report: plan card, beat cards, and fuzzy table. */
+  applyDiscovery(discovery: DiscoveryReport): void {
+    this.lastDiscoveryReport = discovery;
+    this.discoveredPlanCard = discovery.planCardName;
+    this.discoveredBeatCards = discovery.beatCardPaths;
+    this.currentFuzzyTable = discovery.fuzzyTable;
+    this.engine.setFuzzyTable(discovery.fuzzyTable);
+  }
+
+  /** Set the session plan card directly (legacy CAMPAIGN_WIKI_CARD path). */
+  setPlanCard(cardName: string | null): void {
+    this.discoveredPlanCard = cardName;
+  }
+
+  /** Set the fuzzy table used for post-session QA delta computation and advice fact-checking. */
+  setFuzzyTable(table: FuzzyMatchTable): void {
+    this.currentFuzzyTable = table;
+    this.engine.setFuzzyTable(table);
+  }
+
+  // ── Standby ──────────────────────────────────────────────────────────────
+
+  /** Begin watching for an active Discord session (checks immediately, then every 30s). */
+  startWatching(): void {
+    this.subscribe('discord', 'session://active');
+    this.scheduleSessionWatch();
+    // Check immediately on startup (don't wait 30s)
+    this.pollForSession().catch(err => logger.debug('Session watch error:', err));
+  }
+
+  /**
+   * Stop all timers and write a final snapshot. Called on process shutdown —
+   * does not run post-session QA (the session may resume after restart).
+   */
+  shutdown(): void {
+    this.clearTimer('sessionWatchTimer');
+    this.clearTimer('transcriptPollTimer');
+    this.clearTimer('gameStatePollTimer');
+    this.clearTimer('pacingUpdateTimer');
+    this.clearTimer('persistTimer');
+
+    // Final snapshot so a restart can resume this session
+    this.persistState();
+    this.mcp.stopRecording();
+
+    this.triggers.stop();
+  }
+
+  private scheduleSessionWatch(): void {
+    this.sessionWatchTimer = this.clock.setInterval(() => {
+      if (!this.isPollDue(this.lastSessionCheckAt, 'discord', ['session://active'])) return;
+      this.pollForSession().catch(err => logger.debug('Session watch error:', err));
+    }, SESSION_WATCH_INTERVAL_MS);
+  }
+
+  private clearTimer(name: 'sessionWatchTimer' | 'transcriptPollTimer' | 'gameStatePollTimer' | 'pacingUpdateTimer' | 'persistTimer'): void {
+    const handle = this[name];
+    if (handle) {
+      this.clock.clearInterval(handle);
+      this[name] = null;
+    }
+  }
+
+  // ── Session lifecycle ────────────────────────────────────────────────────
+
+  /**
+   * Start all work loops when a Discord session is detected.
+   * Called from pollForSession() when session://active returns an active session.
+   */
+  startSessionLoops(): void {
+    if (this._sessionActive) return;
+    this._sessionActive = true;
+
+    // Stop the session-watch poll
+    this.clearTimer('sessionWatchTimer');
+
+    // Reset state for the new session
+    this.pacing.startSession();
+    const carried = this.carryover.load();
+    this.pacing.carryOver(carried.seeds, carried.threads);
+    this.resolvedStory = new Set(carried.resolved);
+    if (carried.seeds.length > 0 || carried.threads.length > 0) {
+      logger.info(`Orchestrator: carried over ${carried.seeds.length} unrevealed seeds, ${carried.threads.length} open threads`);
+    }
+    this.memory.clear();
+    this.transcriptCache.length = 0;
+    this.lastTranscriptRowId = 0;
+    this.lastSessionId = null;
+    this.lastSceneId = null;
+    this.lastSeenChatMsgId = null;
+    this.lastTextEventId = 0;
+    this.sessionJustChanged = false;
+    this.npcCache = [];
+    this.sceneIndex = [];
+    this.gmNotes = [];
+    this.restoredCacheFlags = null;
+    this._sessionStats = createSessionStats();
+    this._sessionStats.sessionStartedAt = this.clock.now().toISOString();
+
+    this.engine.setGmNotes([]);
+    this.triggers.resetSession();
+    this.triggers.start();
+
+    // Start work timers (safety-net only for resources with a live subscription)
+    this.subscribe('foundry', 'game://state');
+
+    this.transcriptPollTimer = this.clock.setInterval(() => {
+      if (!this.isPollDue(this.lastTranscriptPollAt, 'discord', ['session://active', ...this.sessionResourceUris()])) return;
+      this.pollTranscript().catch(err => logger.debug('Transcript poll error:', err));
+    }, TRANSCRIPT_POLL_INTERVAL_MS);
+
+    this.gameStatePollTimer = this.clock.setInterval(() => {
+      if (!this.isPollDue(this.lastGameStatePollAt, 'foundry', ['game://state'])) return;
+      this.pollGameState().catch(err => logger.debug('Game state poll error:', err));
+    }, GAME_STATE_POLL_INTERVAL_MS);
+
+    this.pacingUpdateTimer = this.clock.setInterval(() => {
+      this.pacing.updateElapsed(this.clock.now());
+      this.triggers.checkPacingOverrun(this.config.sceneOverrunThresholdMinutes);
+    }, PACING_UPDATE_INTERVAL_MS);
+
+    if (this.persistence) {
+      this.persistTimer = this.clock.setInterval(() => this.persistState(), STATE_PERSIST_INTERVAL_MS);
+    }
+
+    // Immediate first poll — don't wait 10s
+    this.pollTranscript().catch(err => logger.debug('Transcript poll error:', err));
+    this.pollGameState().catch(err => logger.debug('Game state poll error:', err));
+
+    logger.info(`Session detected — monitoring for triggers (${this.pacing.assistantState})`);
+  }
+
+  /**
+   * Stop all work loops when the Discord session ends.
+   * Called from pollTranscript() when no active session is found.
+   * v4: Runs post-session QA before resetting state.
+   */
+  async stopSessionLoops(): Promise<void> {
+    if (!this._sessionActive) return;
+    this._sessionActive = false;
+
+    // Stop work timers
+    this.clearTimer('transcriptPollTimer');
+    this.clearTimer('gameStatePollTimer');
+    this.clearTimer('pacingUpdateTimer');
+    this.clearTimer('persistTimer');
+
+    this.triggers.stop();
+
+    // Session resources are no longer interesting (session://active stays subscribed for standby)
+    for (const uri of this.sessionResourceUris()) this.unsubscribe('discord', uri);
+    this.unsubscribe('foundry', 'game://state');
+
+    // Session ended cleanly — nothing to recover
+    if (this.persistence) this.persistence.clear();
+
+    // Unrevealed seeds and open threads carry into the next session
+    this.carryover.save(this.pacing.unrevealedSeeds(), this.pacing.state.open_threads, [...this.resolvedStory], this.clock.now());
+
+    // v4: Run post-session QA before resetting state
+    try {
+      const phoneticDiscoveries = this.triggers.getPhoneticDiscoveries();
+      const qaReport = await runPostSessionQa(
+        this.mcp,
+        this.transcriptCache.map(s => ({
+          text: s.text,
+          userId: s.userId,
+          displayName: s.displayName,
+          speakerLabel: s.speakerLabel,
+          timestamp: s.timestamp,
+        })),
+        this._sessionStats,
+        this.currentFuzzyTable,
+        phoneticDiscoveries,
+        this.triggers.getEngagementReport(),
+      );
+
+      // Merge persisted delta into in-memory fuzzy table so next session won't re-persist
+      if (qaReport.fuzzyTablePersisted && Object.keys(qaReport.fuzzyTableDelta).length > 0) {
+        for (const [key, value] of Object.entries(qaReport.fuzzyTableDelta)) {
+          this.currentFuzzyTable[key] = value;
+        }
+        logger.info(`PostSessionQA: merged ${Object.keys(qaReport.fuzzyTableDelta).length} new entries into in-memory fuzzy table`);
+      }
+
+      // Post QA summary to Discord + Foundry
+      const summary = formatQaReport(qaReport);
+      await this.delivery.postSystemMessage(summary);
+    } catch (err) {
+      logger.error('Post-session QA failed:', err);
+    }
+
+    // Reset state
+    this.transcriptCache.length = 0;
+    this.lastTranscriptRowId = 0;
+    this.lastSessionId = null;
+    this.lastSceneId = null;
+    this.lastSeenChatMsgId = null;
+    this.lastTextEventId = 0;
+    this.npcCache = [];
+    this.sceneIndex = [];
+    this.engine.toolApprovals.clear();
+    this.pacing.startSession(); // resets to PREGAME
+
+    // Close the session archive (after QA so its wiki calls are included)
+    await this.mcp.stopRecording();
+
+    // Resume session-watch
+    this.scheduleSessionWatch();
+
+    logger.info('Session ended — returning to standby');
+  }
+
+  /**
+   * Lightweight poll: check Discord for an active session.
+   * Runs every 30s during standby. Triggers startSessionLoops() on detection.
+   */
+  async pollForSession(): Promise<void> {
+    if (!this.mcp.isConnected('discord')) return;
+    this.lastSessionCheckAt = this.clock.now().getTime();
+    try {
+      const sessionRaw = await this.mcp.readResource('discord', 'session://active');
+      if (!sessionRaw) return;
+      const session = JSON.parse(sessionRaw);
+      if (!session.active || !session.sessions?.length) return;
+
+      // Session found — check guild match if configured
+      const sessions = session.sessions as Array<{ id: string; guildId?: string }>;
+      const targetGuild = this.config.targetGuildId;
+      if (targetGuild) {
+        const match = sessions.find((s: { id: string; guildId?: string }) => s.guildId === targetGuild);
+        if (!match) return;
+      }
+
+      this.startSessionLoops();
+    } catch {
+      // Discord may be temporarily unavailable — silently retry next cycle
+    }
+  }
+
+  // ── Crash recovery ───────────────────────────────────────────────────────
+
+  /** Snapshot session state to disk (no-op unless persistence is enabled and a session is tracked). */
+  persistState(): void {
+    if (!this.persistence || !this._sessionActive || !this.lastSessionId) return;
+    this.persistence.save({
+      sessionId: this.lastSessionId,
+      pacing: this.pacing.snapshot(),
+      adviceMemory: this.memory.toJSON(),
+      gmNotes: [...this.gmNotes],
+      cacheFlags: collectCacheFlags(this.npcCache, this.sceneIndex, this.beatCache, this.whisperStage),
+      cursors: {
+        transcriptRowId: this.lastTranscriptRowId,
+        textEventId: this.lastTextEventId,
+        sceneId: this.lastSceneId,
+        chatMsgId: this.lastSeenChatMsgId,
+      },
+      transcriptCache: [...this.transcriptCache],
+      sessionStats: this._sessionStats,
+    }, this.clock.now());
+  }
+
+  /**
+   * Restore a persisted snapshot for this Discord session, if one exists and is fresh.
+   * Returns true if state was restored. Cache flags are held until the caches are
+   * rebuilt from the wiki (kicked off here when the restored state is past PREGAME).
+   */
+  private tryRestoreState(sessionId: string): boolean {
+    if (!this.persistence) return false;
+    const snapshot = this.persistence.load(sessionId, this.clock.now());
+    if (!snapshot) return false;
+
+    this.pacing.restore(snapshot.pacing);
+    this.memory.restore(snapshot.adviceMemory);
+    this.gmNotes = snapshot.gmNotes.slice(-MAX_GM_NOTES);
+    this.engine.setGmNotes([...this.gmNotes]);
+    // Snapshots from before a stats field existed still restore
+    this._sessionStats = { ...createSessionStats(), ...snapshot.sessionStats };
+
+    this.transcriptCache.length = 0;
+    this.transcriptCache.push(...snapshot.transcriptCache.slice(-TRANSCRIPT_CACHE_SIZE));
+    this.lastTranscriptRowId = snapshot.cursors.transcriptRowId;
+    this.lastTextEventId = snapshot.cursors.textEventId;
+    this.lastSceneId = snapshot.cursors.sceneId;
+    this.lastSeenChatMsgId = snapshot.cursors.chatMsgId;
+    this.restoredCacheFlags = snapshot.cacheFlags;
+
+    logger.info(
+      `Orchestrator: restored session ${sessionId} from snapshot (saved ${snapshot.savedAt}) — ` +
+      `${this.pacing.assistantState}, act ${this.pacing.state.current_act}, ${this.memory.size} advice entries, ` +
+      `${this.gmNotes.length} GM notes, transcript cursor ${this.lastTranscriptRowId}`
+    );
+
+    // The restored pacing state may report caches as ready, but the in-memory caches
+    // are empty after a restart — rebuild them (flags are re-applied on completion).
+    if (this.pacing.assistantState !== AssistantState.PREGAME) {
+      const planCard = this.discoveredPlanCard ?? this.config.campaignWikiCard;
+      if (planCard) this.startCacheBuild(planCard, 'Orchestrator: post-restore cache rebuild');
+    }
+    return true;
+  }
+
+  // ── v4: Delivery stats tracking ─────────────────────────────────────────
+
+  private trackDelivery(envelope: AdviceEnvelope, channel: DeliveryChannel): void {
+    this.recordEnvelope(envelope, channel);
+    if (channel === 'none') return;
+    this._sessionStats.adviceDelivered++;
+    if (channel === 'foundry') this._sessionStats.adviceViaFoundry++;
+    else if (channel === 'discord') this._sessionStats.adviceViaDiscord++;
+  }
+
+  /** Keep the last N delivered envelopes for the control API and GM feedback. */
+  private recordEnvelope(envelope: AdviceEnvelope, channel: DeliveryChannel): void {
+    const discordMessageId = channel === 'discord' ? this.delivery.discordMessageId(envelope) : null;
+    this.recentEnvelopes.push({
+      envelope,
+      channel,
+      deliveredAt: this.clock.now().toISOString(),
+      ...(discordMessageId ? { discordMessageId } : {}),
+    });
+    const max = this.config.controlApiRecentEnvelopes;
+    if (this.recentEnvelopes.length > max) {
+      this.recentEnvelopes.splice(0, this.recentEnvelopes.length - max);
+    }
+  }
+
+  /** Queue every image suggestion, deliver the envelopes in order, and record delivery stats. */
+  private async deliverAdvice(...envelopes: AdviceEnvelope[]): Promise<void> {
+    for (const envelope of envelopes) {
+      if (envelope.image) {
+        this.imageQueue.enqueue(envelope.image);
+      }
+    }
+    const channels = await this.delivery.deliverAll(envelopes);
+    envelopes.forEach((envelope, i) => this.trackDelivery(envelope, channels[i]));
+  }
+
+  // ── v4: GM notes ────────────────────────────────────────────────────────
+
+  private addGmNote(text: string, timestamp: string): void {
+    this.gmNotes.push({ text, timestamp });
+    if (this.gmNotes.length > MAX_GM_NOTES) {
+      this.gmNotes.splice(0, this.gmNotes.length - MAX_GM_NOTES);
+    }
+    this.engine.setGmNotes([...this.gmNotes]);
+    logger.info(`GM note added: "${text.slice(0, 100)}${text.length > 100 ? '...' : ''}"`);
+  }
+
+  // ── Trigger handling ────────────────────────────────────────────────────
+
+  /**
+   * Route a flushed trigger batch: beat reminders, whisper notifications and
+   * seed reveals are delivered pre-composed; everything else goes through the LLM.
+   */
+  async handleTriggerBatch(batch: TriggerBatch): Promise<void> {
+    // v7: Beat reminders and whisper notifications bypass LLM — pre-composed content
+    const beatEvents = batch.events.filter(e => e.type === 'beat_reminder');
+    const whisperEvents = batch.events.filter(e => e.type === 'whisper_ready');
+    const seedEvents = batch.events.filter(e => e.type === 'seed_reveal');
+    const otherEvents = batch.events.filter(e => e.type !== 'beat_reminder' && e.type !== 'whisper_ready' && e.type !== 'seed_reveal');
+
+    for (const evt of beatEvents) {
+      const bullets = evt.data.bullets as string[];
+      const title = evt.data.scene_title as string;
+      const sourceCard = evt.data.source_card as string;
+      const envelope: AdviceEnvelope = {
+        category: 'beat',
+        tag: 'BEAT_REMINDER',
+        priority: TriggerPriority.P2,
+        summary: `Beat: ${title}`,
+        body: bullets.map(b => `- ${b}`).join('\n'),
+        confidence: 1.0,
+        source_cards: [sourceCard],
+      };
+      if (!this.memory.isDuplicate(envelope) && !this.heldByFeedback(envelope)) {
+        this.memory.push(envelope);
+        const channel = await this.delivery.deliver(envelope);
+        this.trackDelivery(envelope, channel);
+        this._sessionStats.beatRemindersDelivered++;
+      }
+    }
+
+    for (const evt of whisperEvents) {
+      const target = evt.data.target as string;
+      const description = evt.data.description as string;
+      const sourceCard = evt.data.source_card as string;
+      const envelope: AdviceEnvelope = {
+        category: 'whisper',
+        tag: 'WHISPER_READY',
+        priority: TriggerPriority.P2,
+        summary: `Whisper ready: ${description} → ${target}`,
+        body: `Private content staged for ${target}. Type /send ${target} to deliver.\nSource: ${sourceCard}`,
+        confidence: 1.0,
+        source_cards: [sourceCard],
+      };
+      if (!this.memory.isDuplicate(envelope) && !this.heldByFeedback(envelope)) {
+        this.memory.push(envelope);
+        const channel = await this.delivery.deliver(envelope);
+        this.trackDelivery(envelope, channel);
+        this._sessionStats.whisperNotificationsDelivered++;
+      }
+    }
+
+    for (const evt of seedEvents) {
+      const seed = evt.data.seed as string;
+      const scene = evt.data.planted_in_scene as string;
+      const heard = String(evt.data.transcript ?? '').trim().slice(0, 200);
+      const envelope: AdviceEnvelope = {
+        category: 'continuity',
+        tag: 'SEED',
+        priority: TriggerPriority.P3,
+        summary: `Seed paid off? ${seed}`,
+        body: `Heard: "${heard}" — sounds like the payoff of "${seed}"` +
+          `${scene ? ` (planted in ${scene}${evt.data.carried_over ? ', an earlier session' : ''})` : ''}. ` +
+          `Type /reveal ${seed} to mark it revealed.`,
+        confidence: 0.7,
+        source_cards: [],
+      };
+      if (!this.memory.isDuplicate(envelope) && !this.heldByFeedback(envelope)) {
+        this.memory.push(envelope);
+        await this.deliverAdvice(envelope);
+      }
+    }
+
+    // Spending cap reached: NPC briefs go out pre-composed, only P1 reaches the LLM
+    let llmEvents = otherEvents;
+    if (this.budgetExhausted) {
+      for (const evt of otherEvents.filter(e => e.type === 'npc_first_appearance')) {
+        const envelope = composeNpcBrief(evt);
+        if (!this.memory.isDuplicate(envelope) && !this.heldByFeedback(envelope)) {
+          this.memory.push(envelope);
+          await this.deliverAdvice(envelope);
+        }
+      }
+      llmEvents = otherEvents.filter(e => e.priority === TriggerPriority.P1);
+      const held = otherEvents.filter(e => e.priority !== TriggerPriority.P1 && e.type !== 'npc_first_appearance').length;
+      if (held > 0) {
+        logger.info(`Orchestrator: spending cap — skipping ${held} non-P1 trigger(s)`);
+        this.metrics?.suppressed('budget', held);
+        if (llmEvents.length === 0) this._sessionStats.adviceSuppressed++;
+      }
+    }
+
+    // Process remaining events through LLM as normal
+    if (llmEvents.length > 0) {
+      const remainingBatch: TriggerBatch = {
+        events: llmEvents,
+        flushedAt: batch.flushedAt,
+      };
+      const envelopes = await this.engine.process(remainingBatch);
+      if (envelopes.length > 0) {
+        await this.deliverAdvice(...envelopes);
+      } else {
+        this._sessionStats.adviceSuppressed++;
+      }
+    } else if (otherEvents.length === 0 && beatEvents.length === 0 && whisperEvents.length === 0 && seedEvents.length === 0) {
+      // Empty batch after filtering — should not happen, but handle gracefully
+      this._sessionStats.adviceSuppressed++;
+    }
+  }
+
+  // ── LLM spend ───────────────────────────────────────────────────────────
+
+  /** True once this session's LLM spend reached SESSION_BUDGET_USD. */
+  get budgetExhausted(): boolean {
+    return this._sessionStats.budgetCapReachedAt !== null;
+  }
+
+  private recordLlmUsage(usage: LlmUsage): void {
+    const totals = this._sessionStats.llmUsage;
+    const wasUnpriced = totals.unpricedCalls;
+    const cost = addLlmUsage(totals, usage, this.config.llmPricing);
+    this.metrics?.llmCost(usage.model, cost);
+    if (wasUnpriced === 0 && totals.unpricedCalls > 0) {
+      logger.warn(`Orchestrator: no price for model "${usage.model}" — add it to LLM_PRICING for cost accounting`);
+    }
+
+    const cap = this.config.sessionBudgetUsd;
+    if (cap <= 0 || this.budgetExhausted || totals.costUsd < cap) return;
+
+    this._sessionStats.budgetCapReachedAt = this.clock.now().toISOString();
+    this.engine.discardQueuedBatch(TriggerPriority.P1);
+    const message =
+      `Session spending cap of ${formatUsd(cap)} reached (${formatUsd(totals.costUsd)} spent). ` +
+      'Advice is now limited to direct GM questions, plus beat, whisper and NPC reminders.';
+    logger.warn(`Orchestrator: ${message}`);
+    this.delivery.postSystemMessage(message).catch(err => {
+      logger.warn('Orchestrator: failed to post spending cap notice:', err);
+    });
+  }
+
+  // ── GM feedback ─────────────────────────────────────────────────────────
+
+  /** Pre-composed envelopes skip the engine, so the feedback gate is applied here. */
+  private heldByFeedback(envelope: AdviceEnvelope): boolean {
+    const held = this.feedback?.gate(envelope);
+    if (!held) return false;
+    logger.info(`Orchestrator: feedback — suppressing [${envelope.tag}] (${held})`);
+    this._sessionStats.adviceSuppressed++;
+    return true;
+  }
+
+  /** /good [n], /bad [too-late|wrong] [n] — rate the n-th most recent delivered envelope. */
+  private rateFromCommand(cmd: GmCommand): void {
+    const parsed = parseFeedbackArgs(cmd.args);
+    if (!parsed || (cmd.type === 'good' && parsed.reason)) {
+      logger.warn(`GM command: /${cmd.type} — unrecognized arguments "${cmd.args.join(' ')}"`);
+      return;
+    }
+    const delivered = this.recentEnvelopes.filter(r => r.channel !== 'none');
+    const target = delivered[delivered.length - parsed.back];
+    if (!target) {
+      logger.warn(`GM command: /${cmd.type} — no delivered advice #${parsed.back} to rate`);
+      return;
+    }
+    this.rateEnvelope(target, cmd.type as FeedbackVerdict, parsed.reason, 'command');
+  }
+
+  /** /feedback reset <category> — lift a learned suppression or confidence floor. */
+  private resetFeedback(cmd: GmCommand): void {
+    const [subCmd, category] = cmd.args.map(a => a.toLowerCase());
+    if (subCmd !== 'reset' || !category) {
+      logger.warn(`GM command: /feedback — usage: /feedback reset <category>`);
+      this.delivery.postSystemMessage('Usage: /feedback reset <category>').catch(() => {});
+      return;
+    }
+    if (!this.feedback?.reset(category, this.clock.now().toISOString())) {
+      logger.warn(`GM command: /feedback reset — no ratings for "${category}"`);
+      this.delivery.postSystemMessage(`No feedback recorded for "${category}".`).catch(() => {});
+      return;
+    }
+    logger.info(`GM command: feedback policy for ${category} reset`);
+    this.delivery.postSystemMessage(`Feedback for ${category} reset — it will be delivered again.`).catch(() => {});
+  }
+
+  /** GM reaction on a Discord-delivered envelope. Returns false if it isn't feedback on our advice. */
+  private rateFromReaction(messageId: string | undefined, emoji: string | undefined): boolean {
+    const feedback = emoji ? REACTION_FEEDBACK[emoji] : undefined;
+    if (!feedback || !messageId) return false;
+    const target = this.recentEnvelopes.find(r => r.discordMessageId === messageId);
+    if (!target) return false;
+    this.rateEnvelope(target, feedback.verdict, feedback.reason, 'reaction');
+    return true;
+  }
+
+  private rateEnvelope(
+    recent: RecentEnvelope,
+    verdict: FeedbackVerdict,
+    reason: FeedbackReason | null,
+    source: 'command' | 'reaction',
+  ): void {
+    const { envelope } = recent;
+    const stats = this._sessionStats.feedback;
+    const byCategory = (stats.byCategory[envelope.category] ??= createFeedbackTally());
+    const byTag = (stats.byTag[envelope.tag] ??= createFeedbackTally());
+    // A re-rating replaces the earlier one
+    if (recent.rating) {
+      tallyRating(byCategory, recent.rating.verdict, recent.rating.reason, -1);
+      tallyRating(byTag, recent.rating.verdict, recent.rating.reason, -1);
+    }
+    tallyRating(byCategory, verdict, reason);
+    tallyRating(byTag, verdict, reason);
+
+    const ratedAt = this.clock.now().toISOString();
+    recent.rating = { verdict, reason, ratedAt };
+    const label = reason ? `${verdict} (${reason})` : verdict;
+    this.memory.rate(envelope, label);
+    this.feedback?.record({
+      ratedAt,
+      sessionId: this.lastSessionId,
+      deliveredAt: recent.deliveredAt,
+      verdict,
+      reason,
+      category: envelope.category,
+      tag: envelope.tag,
+      summary: envelope.summary,
+    });
+    logger.info(`GM feedback (${source}): [${envelope.tag}] ${label}`);
+  }
+
+  // ── v3: ACTIVE Initialization ───────────────────────────────────────────
+
+  /**
+   * Handle transition to ACTIVE state from any source.
+   * Centralizes state transition + async cache build so all activation paths
+   * (Foundry scene change, /scene command, /act command, auto-ACTIVE)
+   * go through one function.
+   */
+  handleActivation(source: ActivationSource): void {
+    const prevState = this.pacing.assistantState;
+    if (prevState !== AssistantState.PREGAME) {
+      if (prevState === AssistantState.SLEEP) {
+        this.pacing.transitionTo(AssistantState.ACTIVE);
+        this.pacing.setActivationSource(source);
+        logger.info(`Orchestrator: SLEEP → ACTIVE (${source})`);
+      }
+      // If caches failed or were never built, rebuild them
+      const cacheMissing = this.npcCache.length === 0 && this.sceneIndex.length === 0;
+      const cacheError = this.pacing.state.npc_cache_status === 'error' || this.pacing.state.scene_index_status === 'error';
+      const planCard = this.discoveredPlanCard ?? this.config.campaignWikiCard;
+      if ((cacheMissing || cacheError) && planCard && !this.activationBuildInProgress) {
+        logger.info('Orchestrator: rebuilding caches (missing or errored)');
+        this.startCacheBuild(planCard, 'Orchestrator: activation cache rebuild');
+      }
+      return;
+    }
+
+    // PREGAME → ACTIVE
+    this.pacing.transitionTo(AssistantState.ACTIVE);
+    this.pacing.setActivationSource(source);
+    this._sessionStats.activatedAt = this.clock.now().toISOString();
+    this._sessionStats.activationSource = source;
+    logger.info(`Orchestrator: PREGAME → ACTIVE (${source})`);
+
+    // Set session end time from config if available
+    if (this.config.sessionEndTime) {
+      const endTime = parseSessionEndTime(this.config.sessionEndTime, this.clock.now());
+      if (endTime) {
+        this.pacing.setSessionEndTime(endTime);
+        logger.info(`Orchestrator: session end time set to ${endTime}`);
+      }
+    }
+
+    // Kick off async cache build (non-blocking — P1 triggers still work during build)
+    const episodePlan = this.discoveredPlanCard ?? this.config.campaignWikiCard;
+    if (episodePlan) this.startCacheBuild(episodePlan, 'Orchestrator: activation cache build');
+  }
+
+  /** Start an async cache build unless one is already running. Returns false if skipped. */
+  private startCacheBuild(planCard: string, label: string): boolean {
+    if (this.activationBuildInProgress) return false;
+    this.activationBuildInProgress = true;
+    this.buildActivationCaches(planCard).catch(err => {
+      logger.error(`${label} failed:`, err);
+    }).finally(() => {
+      this.activationBuildInProgress = false;
+    });
+    return true;
+  }
+
+  /** Report a cache build's wall time to the metrics, passing its result through. */
+  private async timeCacheBuild<T>(cache: CacheName, build: Promise<T>): Promise<T> {
+    const started = Date.now();
+    try {
+      const result = await build;
+      this.metrics?.cacheBuild(cache, (Date.now() - started) / 1000, true);
+      return result;
+    } catch (err) {
+      this.metrics?.cacheBuild(cache, (Date.now() - started) / 1000, false);
+      throw err;
+    }
+  }
+
+  /**
+   * Build NPC pre-cache, scene index, beat cache, and whisper stage from the episode plan.
+   * Called asynchronously on ACTIVE transition.
+   */
+  private async buildActivationCaches(episodePlanCard: string): Promise<void> {
+    logger.info('Orchestrator: building NPC cache, scene index, beat cache, whisper stage...');
+
+    this.pacing.setNpcCacheStatus('building');
+    this.pacing.setSceneIndexStatus('building');
+
+    // Build all in parallel
+    const [npcResult, sceneResult, beatResult, whisperResult, storyResult] = await Promise.allSettled([
+      this.timeCacheBuild('npc', new NpcCacheBuilder(this.mcp, this.config.npcCacheMaxBriefWords).build(episodePlanCard)),
+      this.timeCacheBuild('scene', new SceneIndexBuilder(this.mcp, this.config.autoActiveMinTermLength).build(episodePlanCard)),
+      this.timeCacheBuild('beat', new BeatCacheBuilder(this.mcp).build(this.discoveredBeatCards)),
+      this.timeCacheBuild('whisper', new WhisperStager(this.mcp).build(this.discoveredBeatCards)),
+      this.timeCacheBuild('story', new StoryThreadExtractor(this.mcp).build(episodePlanCard, this.discoveredBeatCards)),
+    ]);
+
+    // Crash recovery: re-apply served/sent flags before the caches go live
+    // (must precede NPC backfill, which would otherwise re-serve restored NPCs)
+    if (this.restoredCacheFlags) {
+      const applied = applyCacheFlags(this.restoredCacheFlags, {
+        npcCache: npcResult.status === 'fulfilled' ? npcResult.value : undefined,
+        sceneIndex: sceneResult.status === 'fulfilled' ? sceneResult.value : undefined,
+        beatCache: beatResult.status === 'fulfilled' ? beatResult.value : undefined,
+        whisperStage: whisperResult.status === 'fulfilled' ? whisperResult.value : undefined,
+      });
+      this.restoredCacheFlags = null;
+      logger.info(`Orchestrator: re-applied ${applied} persisted cache flags`);
+    }
+
+    // Apply NPC cache
+    if (npcResult.status === 'fulfilled') {
+      this.npcCache = npcResult.value;
+      this.pacing.setNpcCacheStatus('ready');
+      this.pacing.markNpcCacheBuilt();
+      this.triggers.setNpcCache(this.npcCache);
+      // Backfill: scan recent transcript for NPC mentions that arrived
+      // during the async cache build window.
+      const recentSegments = this.transcriptCache.map(s => ({
+        text: s.text,
+        timestamp: s.timestamp,
+      }));
+      this.triggers.backfillNpcMentions(recentSegments);
+      this.engine.setNpcCache(this.npcCache);
+      logger.info(`Orchestrator: NPC cache ready (${this.npcCache.length} entries)`);
+    } else {
+      this.pacing.setNpcCacheStatus('error');
+      logger.error('Orchestrator: NPC cache build failed:', npcResult.reason);
+    }
+
+    // Apply scene index
+    if (sceneResult.status === 'fulfilled') {
+      this.sceneIndex = sceneResult.value;
+      this.pacing.setSceneIndexStatus('ready');
+      this.pacing.markSceneIndexBuilt();
+      this.triggers.setSceneIndex(this.sceneIndex);
+      this.engine.setSceneIndex(this.sceneIndex);
+      logger.info(`Orchestrator: scene index ready (${this.sceneIndex.length} entries)`);
+    } else {
+      this.pacing.setSceneIndexStatus('error');
+      logger.error('Orchestrator: scene index build failed:', sceneResult.reason);
+    }
+
+    // v7: Apply beat cache
+    if (beatResult.status === 'fulfilled') {
+      this.beatCache = beatResult.value;
+      this.triggers.setBeatCache(this.beatCache);
+      const withNotes = this.beatCache.filter(b => b.bullets.length > 0).length;
+      logger.info(`Orchestrator: beat cache ready (${this.beatCache.length} entries, ${withNotes} with GM Notes)`);
+    } else {
+      logger.error('Orchestrator: beat cache build failed:', beatResult.reason);
+    }
+
+    // v7: Apply whisper stage
+    if (whisperResult.status === 'fulfilled') {
+      this.whisperStage = whisperResult.value;
+      this.triggers.setWhisperStage(this.whisperStage);
+      logger.info(`Orchestrator: whisper stage ready (${this.whisperStage.length} entries)`);
+    } else {
+      logger.error('Orchestrator: whisper stage build failed:', whisperResult.reason);
+    }
+
+    // Seeds and threads from the plan (already tracked or resolved ones are skipped)
+    if (storyResult.status === 'fulfilled') {
+      let seeds = 0;
+      for (const seed of storyResult.value.seeds) {
+        if (this.resolvedStory.has(seed.name.toLowerCase())) continue;
+        if (this.pacing.addSeed(seed.name, seed.scene, seed.revealKeywords)) seeds++;
+      }
+      const threads = storyResult.value.threads.filter(t => !this.resolvedStory.has(t.toLowerCase()));
+      for (const thread of threads) this.pacing.addThread(thread);
+      logger.info(`Orchestrator: story threads ready (${seeds} new seeds, ${this.pacing.state.open_threads.length} open threads)`);
+    } else {
+      logger.error('Orchestrator: story thread extraction failed:', storyResult.reason);
+    }
+  }
+
+  // ── Push updates (MCP resource subscriptions) ───────────────────────────
+
+  /**
+   * Route a `resourceUpdated` notification to the read it invalidates.
+   * session://active doubles as session start (standby) and session end (active).
+   */
+  handleResourceUpdated(server: string, uri: string): void {
+    if (server === 'discord') {
+      if (uri === 'session://active') {
+        if (this._sessionActive) {
+          this.pollTranscript().catch(err => logger.debug('Transcript poll error:', err));
+        } else {
+          this.pollForSession().catch(err => logger.debug('Session watch error:', err));
+        }
+      } else if (this._sessionActive && this.sessionResourceUris().includes(uri)) {
+        this.pollTranscript().catch(err => logger.debug('Transcript poll error:', err));
+      }
+    } else if (server === 'foundry' && uri === 'game://state' && this._sessionActive) {
+      this.pollGameState().catch(err => logger.debug('Game state poll error:', err));
+    }
+  }
+
+  /** Per-session Discord resources read by pollTranscript() (empty until a session id is known). */
+  private sessionResourceUris(): string[] {
+    if (!this.lastSessionId) return [];
+    return [`session://${this.lastSessionId}/transcript`, `session://${this.lastSessionId}/text-events`];
+  }
+
+  /**
+   * Whether a timer tick should read its resources. Always true unless every
+   * resource has a live subscription, in which case only the safety-net
+   * interval (MCP_SUBSCRIPTION_POLL_SECONDS) applies.
+   */
+  private isPollDue(lastPollAt: number, server: string, uris: string[]): boolean {
+    const pushed = this.config.mcpSubscriptionsEnabled
+      && uris.length > 0
+      && uris.every(uri => this.mcp.isSubscribed(server, uri));
+    if (!pushed) return true;
+    return this.clock.now().getTime() - lastPollAt >= this.config.mcpSubscriptionPollSeconds * 1000;
+  }
+
+  private subscribe(server: string, uri: string): void {
+    if (!this.config.mcpSubscriptionsEnabled) return;
+    this.mcp.subscribeResource(server, uri).catch(() => {});
+  }
+
+  private unsubscribe(server: string, uri: string): void {
+    if (!this.config.mcpSubscriptionsEnabled) return;
+    this.mcp.unsubscribeResource(server, uri).catch(() => {});
+  }
+
+  // ── Transcript polling ──────────────────────────────────────────────────
+
+  async pollTranscript(): Promise<void> {
+    if (!this.mcp.isConnected('discord')) return;
+    if (this.transcriptPollInFlight) {
+      this.transcriptPollQueued = true;
+      return;
+    }
+    this.transcriptPollInFlight = true;
+    this.lastTranscriptPollAt = this.clock.now().getTime();
+
+    try {
+      // Read active session
+      let sessionId: string | null = null;
+      try {
+        const sessionRaw = await this.mcp.readResource('discord', 'session://active');
+        if (sessionRaw) {
+          const session = JSON.parse(sessionRaw);
+          if (!session.active || !session.sessions?.length) {
+            if (this._sessionActive) {
+              await this.stopSessionLoops();
+            }
+            return;
+          }
+
+          const sessions = session.sessions as Array<{ id: string; guildId?: string }>;
+          const targetGuild = this.config.targetGuildId;
+          if (targetGuild) {
+            const match = sessions.find(s => s.guildId === targetGuild);
+            sessionId = match?.id ?? null;
+          } else {
+            if (sessions.length > 1) {
+              logger.warn(`Transcript poll: ${sessions.length} active sessions — set TARGET_GUILD_ID`);
+            }
+            sessionId = sessions[0].id ?? null;
+          }
+        }
+      } catch {
+        return;
+      }
+
+      if (!sessionId) {
+        if (this._sessionActive) {
+          await this.stopSessionLoops();
+        }
+        return;
+      }
+
+      // Reset on session change — skip trigger feeding on first poll to avoid replaying history
+      if (sessionId !== this.lastSessionId) {
+        logger.info(`Transcript poll: session changed (${this.lastSessionId} → ${sessionId})`);
+        // Crash recovery: resume from snapshot on the first poll after startup.
+        // Segments that arrived while we were down are still seeded without triggers.
+        const restored = this.lastSessionId === null && this.tryRestoreState(sessionId);
+        if (!restored) {
+          this.lastTranscriptRowId = 0;
+          this.transcriptCache.length = 0;
+        }
+        for (const uri of this.sessionResourceUris()) this.unsubscribe('discord', uri);
+        this.lastSessionId = sessionId;
+        this.sessionJustChanged = true;
+        this.mcp.startRecording(sessionId);
+        for (const uri of this.sessionResourceUris()) this.subscribe('discord', uri);
+      }
+
+      const raw = await this.mcp.readResource('discord', `session://${sessionId}/transcript`);
+      if (!raw) return;
+
+      const rawSegments = JSON.parse(raw) as Array<{
+        id: number;
+        transcript: string;
+        segmentStart: string;
+        userId?: string;
+        displayName?: string;
+        speakerLabel?: string;
+        isFinal?: boolean;
+      }>;
+      if (rawSegments.length === 0) return;
+
+      // Client-side incremental: new vs updated
+      const newSegments: typeof rawSegments = [];
+      const updatedSegments: typeof rawSegments = [];
+      for (const seg of rawSegments) {
+        if (seg.id > this.lastTranscriptRowId) {
+          newSegments.push(seg);
+        } else {
+          const cached = this.transcriptCache.find(c => c.rowId === seg.id);
+          if (cached && cached.text !== seg.transcript) {
+            updatedSegments.push(seg);
+          }
+        }
+      }
+
+      // Apply in-place updates and re-feed newly-finalized segments to triggers
+      const newlyFinalized: typeof rawSegments = [];
+      for (const updated of updatedSegments) {
+        const idx = this.transcriptCache.findIndex(c => c.rowId === updated.id);
+        if (idx >= 0) {
+          this.transcriptCache[idx].text = updated.transcript;
+          if (updated.displayName) {
+            this.transcriptCache[idx].displayName = updated.displayName;
+          }
+          if (updated.isFinal) {
+            newlyFinalized.push(updated);
+          }
+        }
+      }
+      if (newlyFinalized.length > 0) {
+        const forTrigger = newlyFinalized.map(s => ({
+          text: s.transcript,
+          userId: s.userId,
+          displayName: s.displayName,
+          speakerLabel: s.speakerLabel,
+          timestamp: s.segmentStart,
+        }));
+        this.triggers.onTranscriptUpdate(forTrigger);
+      }
+
+      // Update cursor
+      if (newSegments.length > 0) {
+        const maxId = Math.max(...newSegments.map(s => s.id));
+        if (maxId > this.lastTranscriptRowId) {
+          this.lastTranscriptRowId = maxId;
+        }
+      }
+
+      // Cache new segments
+      const mapped: CachedSegment[] = newSegments.map(s => ({
+        rowId: s.id,
+        text: s.transcript,
+        userId: s.userId,
+        displayName: s.displayName,
+        speakerLabel: s.speakerLabel,
+        timestamp: s.segmentStart,
+      }));
+
+      if (mapped.length > 0) {
+        this.transcriptCache.push(...mapped);
+        if (this.transcriptCache.length > TRANSCRIPT_CACHE_SIZE) {
+          this.transcriptCache.splice(0, this.transcriptCache.length - TRANSCRIPT_CACHE_SIZE);
+        }
+
+        // v4: Accumulate real-time transcript stats (survives ring buffer eviction)
+        for (const seg of mapped) {
+          this._sessionStats.totalSegmentCount++;
+          const speaker = seg.displayName ?? seg.speakerLabel ?? seg.userId ?? 'unknown';
+          this._sessionStats.speakerDistribution[speaker] = (this._sessionStats.speakerDistribution[speaker] ?? 0) + 1;
+        }
+
+        if (this.sessionJustChanged) {
+          this.sessionJustChanged = false;
+          logger.info(`Transcript poll: seeded ${mapped.length} historical segments (triggers skipped)`);
+        } else {
+          const finalOnly = this.config.finalSegmentsOnly;
+          const toDetect = finalOnly
+            ? newSegments.filter(s => s.isFinal)
+            : newSegments;
+
+          if (toDetect.length > 0) {
+            const forTrigger = toDetect.map(s => ({
+              text: s.transcript,
+              userId: s.userId,
+              displayName: s.displayName,
+              speakerLabel: s.speakerLabel,
+              timestamp: s.segmentStart,
+            }));
+            this.triggers.onTranscriptUpdate(forTrigger);
+          }
+        }
+      }
+      // Text events polling (image queue, GM commands, @magi notes)
+      if (this.lastSessionId) {
+        try {
+          await this.pollTextEvents(this.lastSessionId);
+        } catch (textErr) {
+          logger.warn('Text event poll error (non-fatal):', textErr);
+        }
+      }
+    } catch (err) {
+      logger.warn('Transcript poll error:', err);
+    } finally {
+      this.transcriptPollInFlight = false;
+      if (this.transcriptPollQueued) {
+        this.transcriptPollQueued = false;
+        if (this._sessionActive) {
+          this.pollTranscript().catch(err => logger.debug('Transcript poll error:', err));
+        }
+      }
+    }
+  }
+
+  /** Ingest new Discord text events: image confirmations, GM commands, @magi notes, advice reactions. */
+  private async pollTextEvents(sessionId: string): Promise<void> {
+    const textRaw = await this.mcp.readResource('discord', `session://${sessionId}/text-events`);
+    if (!textRaw) return;
+
+    const textEvents = JSON.parse(textRaw) as Array<{
+      id?: number;
+      content?: string;
+      eventType?: string;
+      authorId?: string;
+      authorName?: string;
+      /** reaction_add events: the reacted-to message and the emoji. */
+      messageId?: string;
+      emoji?: string;
+    }>;
+    const gmId = this.config.gmIdentifier?.toLowerCase();
+    for (const evt of textEvents) {
+      const evtId = evt.id ?? 0;
+      if (evtId <= this.lastTextEventId) continue;
+      this.lastTextEventId = evtId;
+
+      // GM reactions on Discord-delivered advice count as /good and /bad
+      if (evt.eventType === 'reaction_add') {
+        if (this.isGmAuthor(evt, gmId)) this.rateFromReaction(evt.messageId, evt.emoji);
+        continue;
+      }
+
+      if (evt.eventType !== 'create') continue;
+      const rawContent = evt.content?.trim() ?? '';
+      const contentLower = rawContent.toLowerCase();
+
+      // Image queue confirmation (GM-only not enforced — low risk)
+      if (contentLower === '/yes' && this.imageQueue.hasPending()) {
+        const suggestion = this.imageQueue.confirm();
+        if (suggestion && this.mcp.isConnected('discord')) {
+          try {
+            await this.mcp.callTool('discord__post_image', {
+              imageUrl: `http://localhost:30000/${suggestion.path}`,
+              caption: suggestion.description,
+              channelId: suggestion.post_to || undefined,
+            });
+            logger.info(`Image posted: ${suggestion.path}`);
+          } catch (err) {
+            logger.warn('Failed to post image:', err);
+          }
+        }
+      } else if (contentLower === '/no' && this.imageQueue.hasPending()) {
+        this.imageQueue.reject();
+      }
+
+      // GM commands from Discord text (/plan, /note, @magi, etc.)
+      // Filter: only accept from GM if gmIdentifier is configured and author info is available
+      const cmd = parseGmCommand(rawContent, this.clock.now().toISOString());
+      if (cmd) {
+        const author = evt.authorName ?? evt.authorId ?? 'unknown';
+        if (!this.isGmAuthor(evt, gmId)) {
+          logger.debug(`Discord text: ignoring command from non-GM "${author}"`);
+        } else {
+          logger.info(`GM command received: ${cmd.type} from ${author}`);
+          this.applyGmCommand(cmd);
+        }
+      }
+    }
+  }
+
+  /** v6: Fixed identity check — missing author info now rejects (not accepts). */
+  private isGmAuthor(evt: { authorId?: string; authorName?: string }, gmId: string | undefined): boolean {
+    return !gmId
+      || evt.authorId?.toLowerCase() === gmId
+      || evt.authorName?.toLowerCase() === gmId;
+  }
+
+  // ── Game state polling ──────────────────────────────────────────────────
+
+  async pollGameState(): Promise<void> {
+    if (!this.mcp.isConnected('foundry')) return;
+    if (this.gameStatePollInFlight) {
+      this.gameStatePollQueued = true;
+      return;
+    }
+    this.gameStatePollInFlight = true;
+    this.lastGameStatePollAt = this.clock.now().getTime();
+
+    try {
+      const raw = await this.mcp.readResource('foundry', 'game://state');
+      if (!raw) return;
+
+      const state = JSON.parse(raw);
+
+      if (state.connectedAt === null) {
+        this.lastSceneId = null;
+        this.lastSeenChatMsgId = null;
+        return;
+      }
+
+      // Detect scene changes → trigger P2
+      const sceneId = state.scene?.id ?? null;
+      if (sceneId !== this.lastSceneId && this.lastSceneId !== null) {
+        this.triggers.onGameEvent('sceneChange', {
+          sceneId,
+          sceneName: state.scene?.name ?? '',
+        });
+      }
+      this.lastSceneId = sceneId;
+
+      // Parse GM commands (GM-only) and Fate rolls from new Foundry chat messages
+      const chat = state.recentChat as Array<FoundryChatRollMessage & {
+        id?: string;
+        timestamp?: string;
+      }>;
+      if (chat.length > 0) {
+        if (!this.lastSeenChatMsgId) {
+          this.lastSeenChatMsgId = chat[chat.length - 1].id ?? null;
+        } else {
+          const lastIdx = chat.findIndex(m => m.id === this.lastSeenChatMsgId);
+          if (lastIdx >= 0) {
+            const newMessages = chat.slice(lastIdx + 1);
+            for (const msg of newMessages) {
+              const roll = parseFateRoll(msg);
+              if (roll) {
+                this.triggers.onGameEvent('fateRoll', { ...roll });
+                continue;
+              }
+              if (msg.content && msg.isGm === true) {
+                const cmd = parseGmCommand(msg.content, msg.timestamp ?? this.clock.now().toISOString());
+                if (cmd) {
+                  this.applyGmCommand(cmd);
+                }
+              }
+            }
+          }
+          this.lastSeenChatMsgId = chat[chat.length - 1].id ?? this.lastSeenChatMsgId;
+        }
+      }
+    } catch (err) {
+      logger.debug('Foundry game state poll error (non-fatal):', err);
+    } finally {
+      this.gameStatePollInFlight = false;
+      if (this.gameStatePollQueued) {
+        this.gameStatePollQueued = false;
+        if (this._sessionActive) {
+          this.pollGameState().catch(err => logger.debug('Game state poll error:', err));
+        }
+      }
+    }
+  }
+
+  // ── GM Command Application ──────────────────────────────────────────────
+
+  applyGmCommand(cmd: GmCommand): void {
+    logger.info(`GM command: ${cmd.raw}`);
+
+    switch (cmd.type) {
+      case 'act': {
+        const actNum = parseInt(cmd.args[0], 10);
+        const planned = parseInt(cmd.args[1], 10) || 0;
+        if (Number.isFinite(actNum)) {
+          this.pacing.advanceAct(actNum, planned);
+          if (this.pacing.assistantState === AssistantState.PREGAME) {
+            this.handleActivation('command');
+          }
+        }
+        break;
+      }
+      case 'scene': {
+        let sceneName: string;
+        let planned = 0;
+        const lastArg = cmd.args[cmd.args.length - 1];
+        if (cmd.args.length > 1 && /^\d+$/.test(lastArg)) {
+          planned = parseInt(lastArg, 10);
+          sceneName = cmd.args.slice(0, -1).join(' ');
+        } else {
+          sceneName = cmd.args.join(' ');
+        }
+        this.pacing.advanceScene(sceneName, planned);
+        if (this.pacing.assistantState === AssistantState.PREGAME) {
+          this.handleActivation('command');
+        }
+        break;
+      }
+      case 'spotlight': {
+        const player = cmd.args[0];
+        const debt = parseInt(cmd.args[1], 10) || 0;
+        if (player) this.triggers.setSpotlightOverride(player, debt);
+        break;
+      }
+      case 'engagement': {
+        const player = cmd.args[0];
+        const level = cmd.args[1]?.toUpperCase() as 'HIGH' | 'MEDIUM' | 'LOW';
+        if (player && level) this.triggers.setEngagementOverride(player, level);
+        break;
+      }
+      case 'separation': {
+        const status = cmd.args[0]?.toUpperCase() as 'NORMAL' | 'SPLIT' | 'CRITICAL';
+        if (status) this.pacing.setSeparation(status);
+        break;
+      }
+      case 'climax': {
+        const proximity = cmd.args[0]?.toUpperCase() as 'NORMAL' | 'APPROACHING' | 'ESCALATING' | 'CLIMAX';
+        if (proximity) this.pacing.setClimaxProximity(proximity);
+        break;
+      }
+      case 'seed': {
+        const seedName = cmd.args.join(' ');
+        if (seedName) this.pacing.addSeed(seedName, this.pacing.state.current_scene);
+        break;
+      }
+      case 'reveal': {
+        // No name: confirm the seed the transcript flagged (if exactly one is pending)
+        const pending = this.pacing.unrevealedSeeds().filter(s => s.reveal_pending);
+        const seedName = cmd.args[0] ?? (pending.length === 1 ? pending[0].name : '');
+        const seed = seedName ? this.pacing.revealSeed(seedName) : null;
+        if (seed) {
+          this.resolvedStory.add(seed.name.toLowerCase());
+          logger.info(`GM command: seed "${seed.name}" revealed`);
+        } else {
+          logger.warn(`GM command: /reveal — ${seedName ? `no single seed matches "${seedName}"` : `${pending.length} seeds awaiting confirmation, name one`}`);
+        }
+        break;
+      }
+      case 'thread': {
+        const thread = cmd.args[0];
+        if (thread) this.pacing.addThread(thread);
+        break;
+      }
+      case 'close': {
+        const thread = cmd.args[0];
+        const closed = thread ? this.pacing.closeThread(thread) : null;
+        if (closed) {
+          this.resolvedStory.add(closed.toLowerCase());
+          logger.info(`GM command: thread "${closed}" closed`);
+        } else {
+          logger.warn(`GM command: /close — no single open thread matches "${thread ?? ''}"`);
+        }
+        break;
+      }
+      case 'sleep':
+        this.pacing.transitionTo(AssistantState.SLEEP);
+        logger.info('GM command: ACTIVE → SLEEP');
+        break;
+      case 'wake':
+        this.handleActivation('command');
+        logger.info('GM command: → ACTIVE');
+        break;
+
+      // v3 commands
+      case 'endtime': {
+        const timeStr = cmd.args.join(' ');
+        if (timeStr) {
+          const endTime = parseSessionEndTime(timeStr, this.clock.now());
+          if (endTime) {
+            this.pacing.setSessionEndTime(endTime);
+            logger.info(`GM command: session end time set to ${endTime}`);
+          }
+        }
+        break;
+      }
+      case 'npc': {
+        const subcommand = cmd.args[0]?.toLowerCase();
+        const npcPlanCard = this.discoveredPlanCard ?? this.config.campaignWikiCard;
+        if (subcommand === 'refresh' && npcPlanCard) {
+          if (this.activationBuildInProgress) {
+            logger.warn('GM command: NPC cache rebuild already in progress, skipping');
+          } else {
+            logger.info('GM command: forcing NPC cache rebuild');
+            this.startCacheBuild(npcPlanCard, 'GM command: NPC cache rebuild');
+          }
+        } else if (subcommand === 'serve') {
+          const npcName = cmd.args.slice(1).join(' ').toLowerCase();
+          const npc = this.npcCache.find(n => n.key === npcName || n.aliases.includes(npcName));
+          if (npc) {
+            npc.served = false; // Reset served flag so trigger detector will serve it
+            logger.info(`GM command: marking ${npc.display_name} for re-serve`);
+          } else {
+            logger.warn(`GM command: NPC "${npcName}" not found in cache`);
+          }
+        }
+        break;
+      }
+
+      // v4 commands
+      case 'status': {
+        if (this.lastDiscoveryReport) {
+          const report = formatReadinessReport(this.lastDiscoveryReport, this.config);
+          this.delivery.postSystemMessage(report).catch(err => {
+            logger.warn('GM command: failed to post status:', err);
+          });
+        } else {
+          this.delivery.postSystemMessage('No discovery report available. Set CAMPAIGN_NAME to enable wiki discovery.').catch(() => {});
+        }
+        break;
+      }
+      case 'rediscover': {
+        if (!this.config.campaignName) {
+          logger.warn('GM command: /rediscover requires CAMPAIGN_NAME to be set');
+          break;
+        }
+        logger.info('GM command: re-running wiki discovery...');
+        runWikiDiscovery(this.mcp, this.config).then(async (discovery) => {
+          this.applyDiscovery(discovery);
+
+          // Hot-reload fuzzy table into trigger detector
+          this.triggers.reloadFuzzyTable(discovery.fuzzyTable);
+          // Custom rules too: the card may have been skipped or edited since startup
+          if (this.config.triggerRulesPath || this.config.triggerRulesCard) {
+            this.triggers.setCustomRules(await loadTriggerRules(this.mcp, this.config));
+          }
+          logger.info('GM command: wiki discovery complete. Fuzzy table, trigger rules and plan card hot-reloaded.');
+
+          const report = formatReadinessReport(discovery, this.config);
+          await this.delivery.postSystemMessage(`Rediscovery complete:\n${report}`);
+        }).catch(err => {
+          logger.error('GM command: /rediscover failed:', err);
+        });
+        break;
+      }
+      case 'plan': {
+        const cardName = cmd.args[0];
+        if (!cardName) {
+          logger.warn('GM command: /plan requires a card name');
+          break;
+        }
+        logger.info(`GM command: /plan "${cardName}" — validating...`);
+        this.mcp.callTool('wiki__get_card', { name: cardName, max_content_length: 100 })
+          .then(async (result) => {
+            // Unwrap MCP envelope → JSON card envelope → check actual HTML content
+            const mcpText = extractMcpText(result);
+            if (!mcpText) {
+              logger.warn(`GM command: /plan card "${cardName}" returned empty MCP result`);
+              await this.delivery.postSystemMessage(`Plan card "${cardName}" not found or empty.`);
+              return;
+            }
+            let cardContent = mcpText;
+            try {
+              const parsed = JSON.parse(mcpText);
+              if (typeof parsed === 'object' && parsed !== null && typeof parsed.text === 'string') {
+                cardContent = parsed.text;
+              }
+            } catch { /* not JSON — use raw */ }
+            if (!cardContent || cardContent.trim().length === 0) {
+              logger.warn(`GM command: /plan card "${cardName}" exists but is empty`);
+              await this.delivery.postSystemMessage(`Plan card "${cardName}" exists but has no content.`);
+              return;
+            }
+            this.discoveredPlanCard = cardName;
+            logger.info(`GM command: session plan set to "${cardName}"`);
+            await this.delivery.postSystemMessage(`Session plan set to: ${cardName}`);
+            // Rebuild caches with new plan card
+            if (this.pacing.assistantState === AssistantState.ACTIVE) {
+              this.startCacheBuild(cardName, 'GM command: /plan cache rebuild');
+            }
+          })
+          .catch(async (err) => {
+            logger.warn(`GM command: /plan card "${cardName}" not found:`, err);
+            await this.delivery.postSystemMessage(`Plan card not found: "${cardName}". Check the card name.`);
+          });
+        break;
+      }
+      case 'note': {
+        const noteText = cmd.args[0];
+        if (!noteText) {
+          logger.warn('GM command: /note requires text');
+          break;
+        }
+        this.addGmNote(noteText, cmd.timestamp);
+        this.delivery.postSystemMessage(`Note received (${this.gmNotes.length}/${MAX_GM_NOTES}): ${noteText.slice(0, 80)}${noteText.length > 80 ? '...' : ''}`).catch(() => {});
+        break;
+      }
+
+      // v7: Whisper delivery confirmation
+      case 'send': {
+        const targetArg = cmd.args[0]?.toLowerCase().trim();
+        if (!targetArg) {
+          // Send most recent un-sent whisper
+          const pending = this.whisperStage.find(w => w.notified && !w.sent);
+          if (pending) {
+            this.sendWhisper(pending);
+          } else {
+            logger.warn('GM command: /send — no pending whispers');
+            this.delivery.postSystemMessage('No pending whispers to send.').catch(() => {});
+          }
+          break;
+        }
+        // Find by target name
+        const match = this.whisperStage.find(w => !w.sent && w.target.toLowerCase().includes(targetArg));
+        if (match) {
+          this.sendWhisper(match);
+        } else {
+          logger.warn(`GM command: /send — no whisper found for "${targetArg}"`);
+          this.delivery.postSystemMessage(`No whisper found for "${targetArg}".`).catch(() => {});
+        }
+        break;
+      }
+
+      // v7: Beat reminder management
+      case 'beats': {
+        const subCmd = cmd.args[0]?.toLowerCase();
+        if (subCmd === 'serve' && cmd.args[1]) {
+          const beatId = cmd.args[1].toLowerCase();
+          const beat = this.beatCache.find(b => b.sceneId.includes(beatId) || b.sceneTitle.toLowerCase().includes(beatId));
+          if (beat) {
+            beat.served = true;
+            beat.servedAt = this.clock.now().toISOString();
+            const beatEnvelope: AdviceEnvelope = {
+              category: 'beat',
+              tag: 'BEAT_REMINDER',
+              priority: TriggerPriority.P2,
+              summary: `Beat: ${beat.sceneTitle}`,
+              body: beat.bullets.map(b => `- ${b}`).join('\n'),
+              confidence: 1.0,
+              source_cards: [beat.sourceCard],
+            };
+            this.delivery.deliver(beatEnvelope).then((channel) => {
+              this.recordEnvelope(beatEnvelope, channel);
+              this._sessionStats.beatRemindersDelivered++;
+            }).catch(err => logger.error('Failed to deliver beat reminder:', err));
+          } else {
+            logger.warn(`GM command: /beats serve — beat not found for "${cmd.args[1]}"`);
+          }
+        } else {
+          // List all beats
+          const lines = this.beatCache.map(b =>
+            `${b.served ? '✓' : '○'} ${b.sceneTitle} (${b.bullets.length} notes)`
+          );
+          const msg = lines.length > 0
+            ? `Beat reminders (${this.beatCache.length}):\n${lines.join('\n')}`
+            : 'No beat reminders cached.';
+          this.delivery.postSystemMessage(msg).catch(() => {});
+        }
+        break;
+      }
+
+      case 'good':
+      case 'bad': {
+        this.rateFromCommand(cmd);
+        break;
+      }
+
+      case 'feedback': {
+        this.resetFeedback(cmd);
+        break;
+      }
+
+      case 'approve':
+      case 'reject': {
+        this.resolveStagedTool(cmd).catch(err => logger.error('GM command: staged tool call failed:', err));
+        break;
+      }
+    }
+  }
+
+  /** /approve [n] runs a staged tool call, /reject [n] drops it (no n = the latest). */
+  private async resolveStagedTool(cmd: GmCommand): Promise<void> {
+    const id = cmd.args[0] ? parseInt(cmd.args[0].replace(/^#/, ''), 10) : undefined;
+    if (id !== undefined && !Number.isFinite(id)) {
+      logger.warn(`GM command: /${cmd.type} — unrecognized arguments "${cmd.args.join(' ')}"`);
+      return;
+    }
+    const call = this.engine.toolApprovals.take(id);
+    if (!call) {
+      logger.warn(`GM command: /${cmd.type} — no staged tool call${id !== undefined ? ` #${id}` : ''}`);
+      this.delivery.postSystemMessage(`No staged tool call to ${cmd.type}.`).catch(() => {});
+      return;
+    }
+
+    if (cmd.type === 'reject') {
+      logger.info(`GM command: rejected staged tool call #${call.id} (${call.name})`);
+      return;
+    }
+    if (this.config.dryRun) {
+      logger.info(`GM command: [DRY-RUN] would run staged tool call #${call.id} (${call.name})`);
+      return;
+    }
+    try {
+      await this.mcp.callTool(call.name, call.input);
+      logger.info(`GM command: ran staged tool call #${call.id} (${call.name})`);
+      this.delivery.postSystemMessage(`Ran ${call.name} (#${call.id}).`).catch(() => {});
+    } catch (err) {
+      logger.error(`GM command: staged tool call #${call.id} (${call.name}) failed:`, err);
+      this.delivery.postSystemMessage(`${call.name} (#${call.id}) failed: ${err instanceof Error ? err.message : String(err)}`).catch(() => {});
+    }
+  }
+
+  /** v7: Send a pre-staged whisper via Foundry. */
+  private async sendWhisper(entry: WhisperStageEntry): Promise<void> {
+    try {
+      await this.mcp.callTool('foundry__send_whisper', {
+        target: entry.target,
+        content: entry.text,
+      });
+      entry.sent = true;
+      this._sessionStats.whispersSent++;
+      logger.info(`Orchestrator: whisper sent to ${entry.target} (${entry.id})`);
+      this.delivery.postSystemMessage(`Whisper sent to ${entry.target}.`).catch(() => {});
+    } catch (err) {
+      logger.error(`Orchestrator: failed to send whisper to ${entry.target}:`, err);
+      this.delivery.postSystemMessage(`Failed to send whisper to ${entry.target}.`).catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Session pipeline — everything one table needs, built from one config:
+ * wiki discovery (or the legacy plan card + static fuzzy table), pacing,
+ * advice memory, crash-recovery persistence, GM feedback, story carry-over, triggers,
+ * reasoning, delivery, and the SessionController that drives them.
+ *
+ * A process runs one pipeline from the top-level config, or one per
+ * SESSION_CAMPAIGNS binding (see configForBinding). Pipelines share only the
+ * MCP aggregator; each controller filters session://active by its own
+ * TARGET_GUILD_ID, so they never see each other's transcripts.
+ */
+
+import { logger } from '../logger.js';
+import type { GmConfig } from '../config.js';
+import type { McpAggregator } from '../mcp/client.js';
+import { PacingStateManager } from '../state/pacing.js';
+import { AdviceMemoryBuffer } from '../state/advice-memory.js';
+import { AdviceHistory } from '../state/advice-history.js';
+import { StatePersistence } from '../state/persistence.js';
+import { AdviceFeedbackStore } from '../state/feedback.js';
+import { StoryCarryoverStore } from '../state/carryover.js';
+import { TriggerDetector, loadFuzzyMatchTable, type FuzzyMatchTable } from '../reasoning/triggers.js';
+import { loadTriggerRules, describeTriggerRule } from '../reasoning/trigger-rules.js';
+import { ReasoningEngine } from '../reasoning/engine.js';
+import { extractMcpText } from '../reasoning/context.js';
+import { runWikiDiscovery, formatReadinessReport } from '../discovery/wiki-bootstrap.js';
+import { AdviceDelivery } from '../output/index.js';
+import type { AssistantMetrics } from '../metrics/index.js';
+import { SessionController, parseSessionEndTime } from './controller.js';
+
+/** Pipeline id used when SESSION_CAMPAIGNS is empty. */
+export const DEFAULT_PIPELINE_ID = 'default';
+
+export interface SessionPipeline {
+  id: string;
+  config: GmConfig;
+  controller: SessionController;
+  delivery: AdviceDelivery;
+}
+
+/**
+ * Run discovery and build one pipeline's components. The controller is
+ * returned idle — call controller.startWatching() to begin.
+ */
+export async function createSessionPipeline(
+  mcp: McpAggregator,
+  config: GmConfig,
+  id: string = DEFAULT_PIPELINE_ID,
+  metrics: AssistantMetrics | null = null,
+): Promise<SessionPipeline> {
+  // Log lines from a named pipeline carry its id; the single default one stays unprefixed
+  const label = id === DEFAULT_PIPELINE_ID ? '' : `[${id}] `;
+  if (label) {
+    logger.info(`Pipeline ${id}: guild ${config.targetGuildId}, campaign "${config.campaignName || config.campaignWikiCard || '(none)'}"`);
+  }
+
+  const pacing = new PacingStateManager();
+  const memory = new AdviceMemoryBuffer(config.adviceMemorySize, new AdviceHistory({ similarity: config.adviceDedupSimilarity }));
+  const persistence = config.statePersistenceEnabled
+    ? new StatePersistence(config.statePersistencePath, config.statePersistenceMaxAgeMinutes)
+    : null;
+  const feedback = new AdviceFeedbackStore(config.feedbackPath || null, {
+    adapt: config.feedbackAdaptEnabled,
+    window: config.feedbackWindow,
+    minRatings: config.feedbackMinRatings,
+    suppressPercent: config.feedbackSuppressPercent,
+    raisePercent: config.feedbackRaisePercent,
+    minConfidencePercent: config.feedbackMinConfidencePercent,
+  });
+  feedback.load();
+  const carryover = new StoryCarryoverStore(config.storyCarryoverPath || null);
+  const pipelineMetrics = metrics?.pipeline(id) ?? null;
+
+  // ── Wiki discovery (session plan, fuzzy table, NPC links) ──
+  let fuzzyTable: FuzzyMatchTable = {};
+  let readinessReport: string | null = null;
+  let discovery: Awaited<ReturnType<typeof runWikiDiscovery>> | null = null;
+  let legacyPlanCard: string | null = null;
+
+  if (config.campaignName) {
+    discovery = await runWikiDiscovery(mcp, config);
+    fuzzyTable = discovery.fuzzyTable;
+
+    // Apply session end time from plan card (config override takes precedence)
+    if (!config.sessionEndTime && discovery.sessionEndTime) {
+      const endTime = parseSessionEndTime(discovery.sessionEndTime);
+      if (endTime) {
+        pacing.setSessionEndTime(endTime);
+      }
+    }
+
+    // Log readiness report (also posted to Discord after delivery is initialized)
+    readinessReport = formatReadinessReport(discovery, config);
+    for (const line of readinessReport.split('\n')) {
+      logger.info(`  ${label}${line}`);
+    }
+  } else {
+    logger.warn(`  ${label}CAMPAIGN_NAME not set — wiki discovery skipped. Set CAMPAIGN_NAME and tag your session plan cards.`);
+
+    // Fallback: validate legacy CAMPAIGN_WIKI_CARD if set
+    if (config.campaignWikiCard) {
+      try {
+        const planResult = await mcp.callTool('wiki__get_card', {
+          name: config.campaignWikiCard,
+          max_content_length: 100,
+        });
+        const planText = extractMcpText(planResult);
+        if (planText && planText.length > 0) {
+          legacyPlanCard = config.campaignWikiCard;
+          logger.info(`  ${label}Using legacy CAMPAIGN_WIKI_CARD: "${config.campaignWikiCard}"`);
+        } else {
+          logger.warn(`  ${label}Legacy CAMPAIGN_WIKI_CARD "${config.campaignWikiCard}" exists but is empty.`);
+        }
+      } catch {
+        logger.error(`  ${label}Legacy CAMPAIGN_WIKI_CARD "${config.campaignWikiCard}" not found — check card name spelling.`);
+      }
+    }
+
+    // Load static fuzzy table (legacy behavior when wiki discovery is skipped)
+    fuzzyTable = loadFuzzyMatchTable(config.sttFuzzyMatchPath);
+    if (Object.keys(fuzzyTable).length > 0) {
+      logger.info(`  ${label}Static fuzzy table loaded: ${Object.keys(fuzzyTable).length} terms from ${config.sttFuzzyMatchPath}`);
+    }
+  }
+
+  // ── Custom trigger rules (file and/or wiki card) ──
+  const triggerRules = await loadTriggerRules(mcp, config);
+  for (const rule of triggerRules) {
+    logger.info(`  ${label}Custom trigger ${describeTriggerRule(rule)}`);
+  }
+
+  // ── Configuration warnings ──
+  if (!config.gmIdentifier) {
+    logger.warn(`  ${label}GM_IDENTIFIER not set — silence detection and hesitation detection will track all speakers.`);
+    if (config.spotlightTrackingEnabled || config.engagementTrackingEnabled) {
+      logger.warn(`  ${label}GM_IDENTIFIER not set — spotlight and engagement tracking are off (GM and player talk can't be told apart).`);
+    }
+  }
+  if (!config.sessionEndTime && !pacing.state.session_end_time) {
+    logger.warn(`  ${label}SESSION_END_TIME not set — pacing gates (convergence/denouement) are disabled. Set via /endtime HH:MM during session.`);
+  }
+  if (config.autoActiveEnabled && Object.keys(fuzzyTable).length === 0) {
+    logger.warn(`  ${label}Auto-ACTIVE enabled but fuzzy match table is empty — transcript-based activation may not work.`);
+  }
+
+  // ── Initialize state ──
+  pacing.startSession();
+  memory.clear();
+  logger.info(`  ${label}State: ${pacing.assistantState} | Memory cleared | Advice interval: ${config.minAdviceIntervalSeconds}s`);
+
+  // ── Components ──
+  let controller: SessionController | null = null;
+  const engine = new ReasoningEngine(mcp, pacing, memory, () => controller?.getTranscript() ?? [], {
+    config, feedback, metrics: pipelineMetrics,
+  });
+  const delivery = new AdviceDelivery(mcp, config, pipelineMetrics);
+  const triggers = new TriggerDetector(pacing, fuzzyTable, undefined, config);
+  if (triggerRules.length > 0) triggers.setCustomRules(triggerRules);
+
+  controller = new SessionController({
+    mcp, pacing, memory, triggers, engine, delivery, persistence, feedback, carryover, metrics: pipelineMetrics, config,
+  });
+  if (discovery) {
+    controller.applyDiscovery(discovery);
+  } else {
+    controller.setPlanCard(legacyPlanCard);
+    controller.setFuzzyTable(fuzzyTable);
+  }
+
+  // v4: Post readiness report to this table's Discord + Foundry
+  if (readinessReport) {
+    delivery.postSystemMessage(readinessReport).then(ok => {
+      if (!ok) logger.warn(`${label}Readiness report could not be posted to any channel (webhook may not be configured).`);
+    }).catch(err => {
+      logger.warn(`${label}Failed to post readiness report:`, err);
+    });
+  }
+
+  return { id, config, controller, delivery };
+}
@@ -0,0 +1,183 @@
+/**
+ * Session-long advice history for semantic dedup.
+ *
+ * The rolling AdviceMemoryBuffer only remembers the last few messages and
+ * only catches identical summaries; this history keeps everything delivered
+ * this session and catches:
+ * - subject repeats: envelopes carrying the same `subject` key (e.g.
+ *   "npc:daokresh", "scene:s3") — a subject is briefed once per session
+ * - rewordings: TF-IDF cosine similarity of summary + body at or above the
+ *   ADVICE_DEDUP_SIMILARITY threshold (0 turns this check off), between
+ *   envelopes of the same category that share a name — two briefs about
+ *   different NPCs read alike but are not repeats, and advice naming no one
+ *   (pacing nudges) is left to the rolling buffer's exact-summary check
+ *
+ * Vectors are rebuilt from the stored text on every check (a session holds
+ * a few hundred envelopes at most), so restoring from JSON needs no extra state.
+ */
+
+import { logger } from '../logger.js';
+import { systemClock, type Clock } from '../session/clock.js';
+import { extractNames } from '../reasoning/fact-check.js';
+import type { AdviceEnvelope, AdviceHistoryEntry } from '../types/index.js';
+
+/** Default cosine similarity at which two envelopes count as the same advice. */
+export const DEFAULT_DEDUP_SIMILARITY = 0.6;
+
+/** Words too common in advice to say anything about what it is about. */
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'they', 'them', 'their',
+  'from', 'have', 'has', 'had', 'was', 'were', 'will', 'would', 'could', 'should', 'can', 'into', 'onto',
+  'about', 'there', 'here', 'what', 'when', 'where', 'who', 'why', 'how', 'then', 'than', 'now', 'just',
+  'also', 'some', 'any', 'all', 'out', 'its', 'his', 'her', 'she', 'him', 'one', 'our', 'let', 'may',
+  'might', 'been', 'being', 'over', 'very', 'still', 'each', 'more', 'most', 'such', 'only', 'own',
+]);
+
+export interface AdviceHistoryMatch {
+  entry: AdviceHistoryEntry;
+  reason: 'subject' | 'similar';
+  /** Cosine similarity (1 for subject matches). */
+  similarity: number;
+}
+
+/** Lowercase, collapse whitespace — "NPC: Daokresh " and "npc:daokresh" are one subject. */
+export function normalizeSubject(subject: string): string {
+  return subject.toLowerCase().replace(/\s+/g, '');
+}
+
+/** Content words of a text (numbers dropped), plurals / -ing / -ed trimmed. */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  const terms: string[] = [];
+  for (let word of words) {
+    word = word.replace(/'s$|'/g, '');
+    if (word.length < 3 || STOPWORDS.has(word)) continue;
+    if (word.length > 5 && word.endsWith('ing')) word = word.slice(0, -3);
+    else if (word.length > 4 && word.endsWith('ed')) word = word.slice(0, -2);
+    else if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) word = word.slice(0, -1);
+    terms.push(word);
+  }
+  return terms;
+}
+
+/** Term counts for one envelope; the summary counts double (it states the point). */
+function termCounts(summary: string, text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of [...tokenize(summary), ...tokenize(summary), ...tokenize(text)]) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Lowercase words of the names in a text; a sentence's capitalized opener is not one. */
+function namedWords(summary: string, text: string): Set<string> {
+  const words = new Set<string>();
+  for (const mention of extractNames(`${summary}\n${text}`)) {
+    const parts = mention.name.toLowerCase().split(' ');
+    for (const word of mention.sentenceStart ? parts.slice(1) : parts) words.add(word);
+  }
+  return words;
+}
+
+function sharesName(a: Set<string>, b: Set<string>): boolean {
+  for (const word of a) if (b.has(word)) return true;
+  return false;
+}
+
+export class AdviceHistory {
+  private _entries: AdviceHistoryEntry[] = [];
+  private readonly similarity: number;
+  private readonly clock: Clock;
+
+  constructor(options: { similarity?: number; clock?: Clock } = {}) {
+    this.similarity = options.similarity ?? DEFAULT_DEDUP_SIMILARITY;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  get entries(): readonly AdviceHistoryEntry[] { return this._entries; }
+
+  /** Remember a delivered envelope for the rest of the session. */
+  record(envelope: AdviceEnvelope): void {
+    this._entries.push({
+      timestamp: this.clock.now().toISOString(),
+      tag: envelope.tag,
+      category: envelope.category,
+      ...(envelope.subject ? { subject: normalizeSubject(envelope.subject) } : {}),
+      summary: envelope.summary,
+      text: envelope.body ?? '',
+    });
+  }
+
+  /** The earlier advice this envelope repeats, or null if it says something new. */
+  findDuplicate(envelope: AdviceEnvelope): AdviceHistoryMatch | null {
+    if (envelope.subject) {
+      const subject = normalizeSubject(envelope.subject);
+      const entry = this._entries.find(e => e.subject === subject);
+      if (entry) return this.matched(envelope, { entry, reason: 'subject', similarity: 1 });
+    }
+    if (this.similarity <= 0 || this._entries.length === 0) return null;
+    // Alike wording only repeats advice about the same someone or something
+    const names = namedWords(envelope.summary, envelope.body ?? '');
+    if (names.size === 0) return null;
+
+    const docs = this._entries.map(e => termCounts(e.summary, e.text));
+    const candidate = termCounts(envelope.summary, envelope.body ?? '');
+    if (candidate.size === 0) return null;
+
+    // Smoothed IDF over the history plus the candidate
+    const df = new Map<string, number>();
+    for (const doc of [...docs, candidate]) {
+      for (const term of doc.keys()) df.set(term, (df.get(term) ?? 0) + 1);
+    }
+    const n = docs.length + 1;
+    const weigh = (doc: Map<string, number>) => {
+      const vector = new Map<string, number>();
+      let norm = 0;
+      for (const [term, count] of doc) {
+        const weight = count * (Math.log((n + 1) / ((df.get(term) ?? 0) + 1)) + 1);
+        vector.set(term, weight);
+        norm += weight * weight;
+      }
+      return { vector, norm: Math.sqrt(norm) };
+    };
+
+    const target = weigh(candidate);
+    let best: AdviceHistoryMatch | null = null;
+    for (const [i, doc] of docs.entries()) {
+      const entry = this._entries[i];
+      // Entries restored from snapshots older than the category field match any category
+      if (entry.category && entry.category !== envelope.category) continue;
+      if (!sharesName(names, namedWords(entry.summary, entry.text))) continue;
+      const other = weigh(doc);
+      if (other.norm === 0) continue;
+      let dot = 0;
+      for (const [term, weight] of target.vector) dot += weight * (other.vector.get(term) ?? 0);
+      const similarity = dot / (target.norm * other.norm);
+      if (similarity >= this.similarity && (!best || similarity > best.similarity)) {
+        best = { entry, reason: 'similar', similarity };
+      }
+    }
+    return best && this.matched(envelope, best);
+  }
+
+  /** Export for crash recovery. */
+  toJSON(): AdviceHistoryEntry[] {
+    return [...this._entries];
+  }
+
+  /** Restore entries from a snapshot. */
+  restore(entries: AdviceHistoryEntry[]): void {
+    this._entries = [...entries];
+  }
+
+  /** Forget everything (new session). */
+  clear(): void {
+    this._entries = [];
+  }
+
+  private matched(envelope: AdviceEnvelope, match: AdviceHistoryMatch): AdviceHistoryMatch {
+    const why = match.reason === 'subject' ? `subject ${match.entry.subject}` : `similarity ${match.similarity.toFixed(2)}`;
+    logger.debug(`AdviceHistory: [${envelope.tag}] repeats [${match.entry.tag}] from ${match.entry.timestamp} (${why})`);
+    return match;
+  }
+}
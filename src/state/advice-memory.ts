@@ -1,4 +1,5 @@
 import { AdviceMemoryEntry, AdviceCategory, AdviceEnvelope, AdviceMemory } from '../types/index.js';
+import { AdviceHistory } from './advice-history.js';
 
 /** Normalize summary for dedup: lowercase, trim, strip numbers (e.g. "12 min" vs "13 min"). */
 function normalizeSummary(summary: string): string {
@@ -8,12 +9,13 @@ function normalizeSummary(summary: string): string {
 /**
  * Rolling buffer of the last N advice messages.
  * Used for dedup checking and injecting [ALREADY ADVISED] into context.
+ * Dedup also consults the session-long AdviceHistory, which outlives the buffer.
  */
 export class AdviceMemoryBuffer {
   private _entries: AdviceMemoryEntry[] = [];
   private _maxSize: number;
 
-  constructor(maxSize = 5) {
+  constructor(maxSize = 5, readonly history: AdviceHistory = new AdviceHistory()) {
     this._maxSize = maxSize;
   }
 
@@ -31,6 +33,7 @@ export class AdviceMemoryBuffer {
     };
 
     this._entries.push(entry);
+    this.history.record(envelope);
 
     // Evict oldest if over capacity
     while (this._entries.length > this._maxSize) {
@@ -44,12 +47,14 @@ export class AdviceMemoryBuffer {
    * OR an exact summary match regardless of tag.
    * Fix #8: tag-only match was too aggressive — the same tag (e.g. PACING)
    * can legitimately carry different advice across scenes.
+   * Anything the session history recognizes (same subject, or reworded) is
+   * a duplicate too, however long ago it was delivered.
    */
   isDuplicate(envelope: AdviceEnvelope): boolean {
     const candidateTag = envelope.tag.toUpperCase();
     const candidateSummary = normalizeSummary(envelope.summary);
 
-    return this._entries.some(entry => {
+    const recent = this._entries.some(entry => {
       const entryTag = entry.tag.toUpperCase();
       const entrySummary = normalizeSummary(entry.summary);
       // Same tag AND similar summary = duplicate
@@ -58,13 +63,25 @@ export class AdviceMemoryBuffer {
       if (entrySummary === candidateSummary) return true;
       return false;
     });
+    return recent || this.history.findDuplicate(envelope) !== null;
+  }
+
+  /**
+   * Attach the GM's rating to the matching entry (same tag + summary).
+   * Returns false if the envelope has already been evicted.
+   */
+  rate(envelope: AdviceEnvelope, feedback: string): boolean {
+    const entry = [...this._entries].reverse().find(e => e.tag === envelope.tag && e.summary === envelope.summary);
+    if (!entry) return false;
+    entry.gm_feedback = feedback;
+    return true;
   }
 
   /** Format entries for injection into context as [ALREADY ADVISED] block. */
   formatForContext(): string {
     if (this._entries.length === 0) return '';
     const lines = this._entries.map(e =>
-      `- [${e.tag}] ${e.summary} (${e.category}, ${e.timestamp})`
+      `- [${e.tag}] ${e.summary} (${e.category}, ${e.timestamp})${e.gm_feedback ? ` — GM rated: ${e.gm_feedback}` : ''}`
     );
     return `[ALREADY ADVISED]\n${lines.join('\n')}`;
   }
@@ -74,11 +91,19 @@ export class AdviceMemoryBuffer {
     return {
       entries: [...this._entries],
       max_size: this._maxSize,
+      history: this.history.toJSON(),
     };
   }
 
-  /** Clear all entries (e.g. on session reset). */
+  /** Restore entries from a serialized AdviceMemory (crash recovery). Keeps the configured max size. */
+  restore(memory: AdviceMemory): void {
+    this._entries = [...memory.entries].slice(-this._maxSize);
+    this.history.restore(memory.history ?? []);
+  }
+
+  /** Clear all entries and the session history (e.g. on session reset). */
   clear(): void {
     this._entries = [];
+    this.history.clear();
   }
 }
@@ -0,0 +1,101 @@
+/**
+ * Unresolved story state carried between sessions.
+ *
+ * When a session ends, seeds that were never revealed and threads that were
+ * never closed are written to a JSON file (STORY_CARRYOVER_PATH); the next
+ * session starts with them in the pacing state, marked as carried over.
+ * Names of seeds and threads already resolved are kept too, so a plan card
+ * spanning several sessions doesn't plant them again.
+ *
+ * Non-throwing: I/O errors are logged, and the carry-over still reaches the
+ * next session of the running process when the file can't be written.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../logger.js';
+import type { PlantedSeed } from '../types/index.js';
+
+/** Bump when the file shape changes incompatibly — older files are ignored. */
+const CARRYOVER_FILE_VERSION = 1;
+/** Oldest resolved names are dropped beyond this many. */
+const MAX_RESOLVED = 500;
+
+export interface StoryCarryover {
+  /** When the session that left these behind ended (null: nothing saved yet). */
+  savedAt: string | null;
+  seeds: PlantedSeed[];
+  threads: string[];
+  /** Lowercase names of seeds revealed and threads closed in earlier sessions. */
+  resolved: string[];
+}
+
+interface CarryoverFile extends StoryCarryover {
+  version: number;
+}
+
+function emptyCarryover(): StoryCarryover {
+  return { savedAt: null, seeds: [], threads: [], resolved: [] };
+}
+
+export class StoryCarryoverStore {
+  private carryover: StoryCarryover = emptyCarryover();
+  private loaded = false;
+
+  /** @param filePath JSON file for the carry-over; null keeps it in memory only. */
+  constructor(private readonly filePath: string | null) {}
+
+  /** Seeds and threads left open by the previous session (missing or unreadable file → none). */
+  load(): StoryCarryover {
+    if (this.loaded || !this.filePath) return this.carryover;
+    this.loaded = true;
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf-8');
+    } catch {
+      return this.carryover; // Nothing carried yet — normal first session
+    }
+    try {
+      const parsed = JSON.parse(raw) as CarryoverFile;
+      if (parsed.version !== CARRYOVER_FILE_VERSION || !Array.isArray(parsed.seeds) || !Array.isArray(parsed.threads)) {
+        logger.warn(`StoryCarryover: ${this.filePath} has an unsupported format — starting fresh`);
+        return this.carryover;
+      }
+      this.carryover = {
+        savedAt: parsed.savedAt ?? null,
+        seeds: parsed.seeds,
+        threads: parsed.threads,
+        resolved: Array.isArray(parsed.resolved) ? parsed.resolved : [],
+      };
+      logger.info(`StoryCarryover: loaded ${parsed.seeds.length} seeds, ${parsed.threads.length} threads from ${this.filePath}`);
+    } catch (err) {
+      logger.warn(`StoryCarryover: ${this.filePath} is not valid JSON — starting fresh:`, err);
+    }
+    return this.carryover;
+  }
+
+  /**
+   * Replace the carry-over with what this session left unresolved, and
+   * persist. `resolved` names are added to the ones already known.
+   */
+  save(seeds: PlantedSeed[], threads: string[], resolved: string[], now: Date = new Date()): void {
+    this.load();
+    const allResolved = [...new Set([...this.carryover.resolved, ...resolved.map(name => name.toLowerCase())])];
+    this.carryover = {
+      savedAt: now.toISOString(),
+      seeds: seeds.map(s => ({ ...s })),
+      threads: [...threads],
+      resolved: allResolved.slice(-MAX_RESOLVED),
+    };
+    if (!this.filePath) return;
+    const payload: CarryoverFile = { version: CARRYOVER_FILE_VERSION, ...this.carryover };
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(payload), 'utf-8');
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      logger.warn(`StoryCarryover: failed to save carry-over to ${this.filePath}:`, err);
+    }
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Automatic engagement estimation per mapped player (USER_MAPPINGS).
+ *
+ * Over a rolling ENGAGEMENT_WINDOW_MINUTES of active play, each character
+ * gets a 0-1 score from transcript features:
+ * - speaking rate: words per minute against the table's average (half the weight)
+ * - response latency: how fast they answer GM questions aimed at them (by
+ *   name) or at the table — unanswered after a minute counts as a miss
+ * - questions: lines they ask themselves (curiosity is engagement)
+ * A player with no line for ENGAGEMENT_DROPOUT_MINUTES has dropped out of the
+ * voice transcript and scores 0.
+ *
+ * Scores map to HIGH (≥0.6) / MEDIUM / LOW (<0.3) with hysteresis so levels
+ * don't flap: leaving a level takes a margin past its threshold, and the new
+ * level must hold for ENGAGEMENT_HOLD_MINUTES before it is committed. The
+ * committed level's time is logged per scene for the post-session QA.
+ */
+
+import { ActivePlayClock, CharacterMap, type Speaker } from './speakers.js';
+import type { EngagementLevel } from '../types/index.js';
+
+const HIGH_THRESHOLD = 0.6;
+const LOW_THRESHOLD = 0.3;
+/** Score margin past a threshold needed to leave the current level. */
+const DEADBAND = 0.05;
+/** A GM question unanswered this long counts as a miss. */
+const RESPONSE_TIMEOUT_MS = 60_000;
+/** Questions in the window that earn the full question score. */
+const QUESTIONS_FOR_FULL_SCORE = 3;
+const QUESTION = /\?\s*$|^(?:who|what|where|when|why|how|can|could|do|does|did|is|are|should|would)\b/i;
+
+export interface EngagementOptions {
+  windowMinutes: number;
+  dropoutMinutes: number;
+  holdMinutes: number;
+  /** Discord userId / display name → character name. */
+  userMappings?: Record<string, string>;
+}
+
+export interface EngagementEstimate {
+  character: string;
+  /** 0-1 engagement score (0 when dropped out). */
+  score: number;
+  /** Committed level, or null before the first estimate. */
+  level: EngagementLevel | null;
+  wordsPerMinute: number;
+  /** Mean seconds to answer GM questions in the window (null: none asked). */
+  responseSeconds: number | null;
+  questions: number;
+  droppedOut: boolean;
+}
+
+/** Dominant committed level per character in one scene. */
+export interface EngagementSceneReport {
+  scene: string;
+  levels: Record<string, EngagementLevel>;
+}
+
+interface CharacterFeatures {
+  words: Array<{ at: number; count: number }>;
+  questions: number[];
+  /** Answered (or timed-out) GM prompts: when asked → latency ms. */
+  responses: Array<{ at: number; latencyMs: number }>;
+  /** Open GM prompt awaiting this character's answer. */
+  promptAt: number | null;
+  lastSpokeAt: number;
+  level: EngagementLevel | null;
+  /** Level the score currently points at, and since when (active ms). */
+  pending: { level: EngagementLevel; since: number } | null;
+}
+
+export class EngagementEstimator {
+  private readonly windowMs: number;
+  private readonly dropoutMs: number;
+  private readonly holdMs: number;
+  private readonly mappings: CharacterMap;
+  private players = new Map<string, CharacterFeatures>();
+  /** Scene → character → ms spent at each committed level. */
+  private sceneLog = new Map<string, Map<string, Record<EngagementLevel, number>>>();
+  private readonly play = new ActivePlayClock();
+  private lastEvaluatedAt = 0;
+
+  constructor(options: EngagementOptions) {
+    this.windowMs = options.windowMinutes * 60_000;
+    this.dropoutMs = options.dropoutMinutes * 60_000;
+    this.holdMs = options.holdMinutes * 60_000;
+    this.mappings = new CharacterMap(options.userMappings);
+    this.reset();
+  }
+
+  /** The mapped character a speaker (or a name the GM typed) refers to, or null. */
+  characterFor(speaker: Speaker): string | null {
+    return this.mappings.characterFor(speaker);
+  }
+
+  /** Advance the active-play clock to `now` (ms); time only counts while `active`. */
+  tick(now: number, active: boolean): void {
+    this.play.tick(now, active);
+  }
+
+  /** Feed one transcript segment (GM segments open prompts, player segments answer them). */
+  record(segment: Speaker & { text: string }, isGm: boolean): void {
+    const text = segment.text.trim();
+    if (!text) return;
+
+    if (isGm) {
+      if (!QUESTION.test(text)) return;
+      const named = [...this.players.keys()].filter(c => new RegExp(`\\b${c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text));
+      for (const character of named.length > 0 ? named : this.players.keys()) {
+        const player = this.players.get(character)!;
+        if (player.promptAt === null) player.promptAt = this.play.activeMs;
+      }
+      return;
+    }
+
+    const character = this.characterFor(segment);
+    const player = character ? this.players.get(character) : undefined;
+    if (!player) return;
+    player.words.push({ at: this.play.activeMs, count: text.split(/\s+/).length });
+    if (QUESTION.test(text)) player.questions.push(this.play.activeMs);
+    if (player.promptAt !== null) {
+      player.responses.push({ at: player.promptAt, latencyMs: this.play.activeMs - player.promptAt });
+      player.promptAt = null;
+    }
+    player.lastSpokeAt = this.play.activeMs;
+  }
+
+  /** Current scores and committed levels. */
+  estimates(): EngagementEstimate[] {
+    const cutoff = this.play.activeMs - this.windowMs;
+    const minutes = Math.max(1, Math.min(this.play.activeMs, this.windowMs) / 60_000);
+
+    const rates = new Map<string, number>();
+    for (const [character, p] of this.players) {
+      // Unanswered prompts past the timeout become misses
+      if (p.promptAt !== null && this.play.activeMs - p.promptAt >= RESPONSE_TIMEOUT_MS) {
+        p.responses.push({ at: p.promptAt, latencyMs: RESPONSE_TIMEOUT_MS });
+        p.promptAt = null;
+      }
+      p.words = p.words.filter(w => w.at > cutoff);
+      p.questions = p.questions.filter(at => at > cutoff);
+      p.responses = p.responses.filter(r => r.at > cutoff);
+      rates.set(character, p.words.reduce((sum, w) => sum + w.count, 0) / minutes);
+    }
+    const meanRate = [...rates.values()].reduce((a, b) => a + b, 0) / Math.max(1, rates.size);
+
+    return [...this.players].map(([character, p]) => {
+      const rate = rates.get(character) ?? 0;
+      const droppedOut = this.play.activeMs - p.lastSpokeAt >= this.dropoutMs;
+      const latency = p.responses.length > 0
+        ? p.responses.reduce((sum, r) => sum + Math.min(r.latencyMs, RESPONSE_TIMEOUT_MS), 0) / p.responses.length
+        : null;
+
+      const rateScore = meanRate > 0 ? Math.min(1, rate / meanRate / 2) : 0.5;
+      const latencyScore = latency === null ? 0.5 : 1 - latency / RESPONSE_TIMEOUT_MS;
+      const questionScore = Math.min(1, p.questions.length / QUESTIONS_FOR_FULL_SCORE);
+      const score = droppedOut ? 0 : 0.5 * rateScore + 0.3 * latencyScore + 0.2 * questionScore;
+
+      return {
+        character,
+        score,
+        level: p.level,
+        wordsPerMinute: Math.round(rate),
+        responseSeconds: latency === null ? null : Math.round(latency / 1000),
+        questions: p.questions.length,
+        droppedOut,
+      };
+    });
+  }
+
+  /**
+   * Re-score everyone and commit levels that held long enough. Logs time at
+   * the committed levels against `scene`. Returns the levels that changed.
+   * No estimate is made before half a window of active play.
+   */
+  evaluate(scene: string): Array<{ character: string; level: EngagementLevel }> {
+    const elapsed = this.play.activeMs - this.lastEvaluatedAt;
+    this.lastEvaluatedAt = this.play.activeMs;
+    const changes: Array<{ character: string; level: EngagementLevel }> = [];
+    if (this.play.activeMs < this.windowMs / 2) return changes;
+
+    let log = this.sceneLog.get(scene);
+    if (!log) {
+      log = new Map();
+      this.sceneLog.set(scene, log);
+    }
+
+    for (const estimate of this.estimates()) {
+      const p = this.players.get(estimate.character)!;
+      if (p.level) {
+        const time = log.get(estimate.character) ?? { HIGH: 0, MEDIUM: 0, LOW: 0 };
+        time[p.level] += elapsed;
+        log.set(estimate.character, time);
+      }
+
+      const target = classify(estimate.score, p.level);
+      if (target === p.level) {
+        p.pending = null;
+        continue;
+      }
+      if (p.pending?.level !== target) p.pending = { level: target, since: this.play.activeMs };
+      // The first estimate commits at once; later changes must hold
+      if (p.level === null || this.play.activeMs - p.pending.since >= this.holdMs) {
+        p.level = target;
+        p.pending = null;
+        changes.push({ character: estimate.character, level: target });
+      }
+    }
+    return changes;
+  }
+
+  /** Committed levels (characters without an estimate yet are omitted). */
+  levels(): Record<string, EngagementLevel> {
+    const levels: Record<string, EngagementLevel> = {};
+    for (const [character, p] of this.players) if (p.level) levels[character] = p.level;
+    return levels;
+  }
+
+  /** Dominant committed level per character, per scene, in scene order. */
+  sceneReport(): EngagementSceneReport[] {
+    const report: EngagementSceneReport[] = [];
+    for (const [scene, log] of this.sceneLog) {
+      const levels: Record<string, EngagementLevel> = {};
+      for (const [character, time] of log) {
+        const [level, ms] = (Object.entries(time) as Array<[EngagementLevel, number]>).sort((a, b) => b[1] - a[1])[0];
+        if (ms > 0) levels[character] = level;
+      }
+      if (Object.keys(levels).length > 0) report.push({ scene: scene || '(no scene)', levels });
+    }
+    return report;
+  }
+
+  /** Forget everything (new session). */
+  reset(): void {
+    this.play.reset();
+    this.lastEvaluatedAt = 0;
+    this.sceneLog = new Map();
+    this.players = new Map();
+    for (const character of this.mappings.characters) {
+      this.players.set(character, {
+        words: [], questions: [], responses: [], promptAt: null, lastSpokeAt: 0, level: null, pending: null,
+      });
+    }
+  }
+}
+
+/** Level for a score, leaning toward `current` by the deadband. */
+function classify(score: number, current: EngagementLevel | null): EngagementLevel {
+  const high = HIGH_THRESHOLD + (current === 'HIGH' ? -DEADBAND : current ? DEADBAND : 0);
+  const low = LOW_THRESHOLD + (current === 'LOW' ? DEADBAND : current ? -DEADBAND : 0);
+  if (score >= high) return 'HIGH';
+  if (score < low) return 'LOW';
+  return 'MEDIUM';
+}
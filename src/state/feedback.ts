@@ -0,0 +1,248 @@
+/**
+ * GM feedback on delivered advice (/good, /bad, Discord reactions).
+ *
+ * Ratings are kept across sessions in a JSON file (FEEDBACK_PATH) so the
+ * assistant keeps learning what this GM finds useful. Each category's
+ * policy is derived from its most recent FEEDBACK_WINDOW ratings:
+ * - mostly rejected (≥ FEEDBACK_SUPPRESS_PERCENT bad) → category suppressed
+ * - often rejected (≥ FEEDBACK_RAISE_PERCENT bad)     → confidence floor raised
+ * Nothing adapts until a category has FEEDBACK_MIN_RATINGS ratings, and P1
+ * answers to direct GM questions are never held back.
+ *
+ * A suppressed category delivers nothing, so it gets no new ratings to lift
+ * it; `/feedback reset <category>` starts its policy window over. Earlier
+ * ratings still count in the all-time tallies.
+ *
+ * Non-throwing: I/O errors are logged, and ratings still count for the
+ * running process when the file can't be written.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../logger.js';
+import { TriggerPriority } from '../types/index.js';
+import type { AdviceEnvelope } from '../types/index.js';
+
+/** Bump when the file shape changes incompatibly — older files are ignored. */
+const FEEDBACK_FILE_VERSION = 1;
+/** Oldest ratings are dropped beyond this many. */
+const MAX_STORED_RATINGS = 1000;
+
+export type FeedbackVerdict = 'good' | 'bad';
+export type FeedbackReason = 'too-late' | 'wrong';
+
+export interface FeedbackRating {
+  ratedAt: string;
+  sessionId: string | null;
+  /** When the rated envelope was delivered; with sessionId + tag, identifies it for re-ratings. */
+  deliveredAt: string;
+  verdict: FeedbackVerdict;
+  reason: FeedbackReason | null;
+  category: string;
+  tag: string;
+  summary: string;
+}
+
+export interface FeedbackTally {
+  good: number;
+  bad: number;
+  tooLate: number;
+  wrong: number;
+}
+
+export type FeedbackAction = 'none' | 'raise_confidence' | 'suppress';
+
+export interface CategoryPolicy {
+  category: string;
+  /** Ratings in the policy window. */
+  ratings: number;
+  badRatio: number;
+  action: FeedbackAction;
+  /** Envelopes below this confidence are held back (0 = no floor). */
+  minConfidence: number;
+}
+
+export interface FeedbackPolicyOptions {
+  /** Adapt delivery to ratings; when false, ratings are only recorded. */
+  adapt: boolean;
+  window: number;
+  minRatings: number;
+  suppressPercent: number;
+  raisePercent: number;
+  minConfidencePercent: number;
+}
+
+interface FeedbackFile {
+  version: number;
+  ratings: FeedbackRating[];
+  /** Category → when the GM last reset its policy (ISO); older ratings don't count toward it. */
+  resets?: Record<string, string>;
+}
+
+export function createFeedbackTally(): FeedbackTally {
+  return { good: 0, bad: 0, tooLate: 0, wrong: 0 };
+}
+
+/** Add (delta 1) or remove (delta -1) one rating from a tally. */
+export function tallyRating(tally: FeedbackTally, verdict: FeedbackVerdict, reason: FeedbackReason | null, delta = 1): void {
+  tally[verdict] += delta;
+  if (reason === 'too-late') tally.tooLate += delta;
+  if (reason === 'wrong') tally.wrong += delta;
+}
+
+/** Parse `/good [n]` / `/bad [too-late|wrong] [n]` arguments (either order). Null on an unknown argument. */
+export function parseFeedbackArgs(args: string[]): { reason: FeedbackReason | null; back: number } | null {
+  let reason: FeedbackReason | null = null;
+  let back = 1;
+  for (const arg of args) {
+    const lower = arg.toLowerCase();
+    if (/^\d+$/.test(lower)) {
+      back = Math.max(1, parseInt(lower, 10));
+    } else if (lower === 'too-late' || lower === 'late') {
+      reason = 'too-late';
+    } else if (lower === 'wrong') {
+      reason = 'wrong';
+    } else {
+      return null;
+    }
+  }
+  return { reason, back };
+}
+
+export class AdviceFeedbackStore {
+  private ratings: FeedbackRating[] = [];
+  private resets: Record<string, string> = {};
+
+  /** @param filePath JSON file for cross-session ratings; null keeps them in memory only. */
+  constructor(
+    private readonly filePath: string | null,
+    private readonly options: FeedbackPolicyOptions,
+  ) {}
+
+  /** Load persisted ratings (missing or unreadable file → start empty). */
+  load(): void {
+    if (!this.filePath) return;
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf-8');
+    } catch {
+      return; // No feedback yet — normal first start
+    }
+    try {
+      const parsed = JSON.parse(raw) as FeedbackFile;
+      if (parsed.version !== FEEDBACK_FILE_VERSION || !Array.isArray(parsed.ratings)) {
+        logger.warn(`AdviceFeedback: ${this.filePath} has an unsupported format — starting fresh`);
+        return;
+      }
+      this.ratings = parsed.ratings.slice(-MAX_STORED_RATINGS);
+      this.resets = parsed.resets && typeof parsed.resets === 'object' ? parsed.resets : {};
+      logger.info(`AdviceFeedback: loaded ${this.ratings.length} ratings from ${this.filePath}`);
+    } catch (err) {
+      logger.warn(`AdviceFeedback: ${this.filePath} is not valid JSON — starting fresh:`, err);
+    }
+  }
+
+  get size(): number { return this.ratings.length; }
+
+  /** Record a rating (replacing an earlier rating of the same envelope) and persist. */
+  record(rating: FeedbackRating): void {
+    this.ratings = this.ratings.filter(r =>
+      !(r.sessionId === rating.sessionId && r.deliveredAt === rating.deliveredAt && r.tag === rating.tag));
+    this.ratings.push(rating);
+    if (this.ratings.length > MAX_STORED_RATINGS) {
+      this.ratings.splice(0, this.ratings.length - MAX_STORED_RATINGS);
+    }
+    this.save();
+  }
+
+  /**
+   * Start a category's policy window over (`/feedback reset <category>`) and
+   * persist. Returns false if the category has no ratings to reset.
+   */
+  reset(category: string, resetAt: string): boolean {
+    if (!this.ratings.some(r => r.category === category)) return false;
+    this.resets[category] = resetAt;
+    this.save();
+    return true;
+  }
+
+  /** Current policy for a category, from its most recent ratings since the last reset. */
+  policy(category: string): CategoryPolicy {
+    const since = this.resets[category];
+    const recent = this.ratings
+      .filter(r => r.category === category && (!since || Date.parse(r.ratedAt) > Date.parse(since)))
+      .slice(-this.options.window);
+    const bad = recent.filter(r => r.verdict === 'bad').length;
+    const badRatio = recent.length > 0 ? bad / recent.length : 0;
+
+    let action: FeedbackAction = 'none';
+    if (this.options.adapt && recent.length >= this.options.minRatings) {
+      if (badRatio * 100 >= this.options.suppressPercent) action = 'suppress';
+      else if (badRatio * 100 >= this.options.raisePercent) action = 'raise_confidence';
+    }
+    return {
+      category,
+      ratings: recent.length,
+      badRatio,
+      action,
+      minConfidence: action === 'raise_confidence' ? this.options.minConfidencePercent / 100 : 0,
+    };
+  }
+
+  /**
+   * Whether the GM's past ratings hold this envelope back.
+   * Returns a human-readable reason, or null to deliver.
+   */
+  gate(envelope: AdviceEnvelope): string | null {
+    if (envelope.priority === TriggerPriority.P1) return null;
+    const policy = this.policy(envelope.category);
+    if (policy.action === 'suppress') {
+      return `GM rejected ${Math.round(policy.badRatio * 100)}% of recent ${envelope.category} advice`;
+    }
+    if (envelope.confidence < policy.minConfidence) {
+      return `confidence ${envelope.confidence} below the ${policy.minConfidence} floor for ${envelope.category}`;
+    }
+    return null;
+  }
+
+  /** All-time tallies keyed by category or tag. */
+  tallies(by: 'category' | 'tag'): Record<string, FeedbackTally> {
+    const result: Record<string, FeedbackTally> = {};
+    for (const r of this.ratings) {
+      const key = r[by];
+      result[key] ??= createFeedbackTally();
+      tallyRating(result[key], r.verdict, r.reason);
+    }
+    return result;
+  }
+
+  /** Per-category feedback summary for the reasoning context ([GM FEEDBACK] block). */
+  formatForContext(): string {
+    const categories = [...new Set(this.ratings.map(r => r.category))].sort();
+    if (categories.length === 0) return '';
+    const tallies = this.tallies('category');
+    const lines = categories.map(category => {
+      const t = tallies[category];
+      const policy = this.policy(category);
+      const reasons = [t.tooLate && `${t.tooLate} too late`, t.wrong && `${t.wrong} wrong`].filter(Boolean).join(', ');
+      const effect = policy.action === 'suppress' ? ' — suppressed'
+        : policy.action === 'raise_confidence' ? ` — only with confidence ≥ ${policy.minConfidence}`
+        : '';
+      return `- ${category}: ${t.good} good / ${t.bad} bad${reasons ? ` (${reasons})` : ''}${effect}`;
+    });
+    return `[GM FEEDBACK]\n${lines.join('\n')}`;
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    const payload: FeedbackFile = { version: FEEDBACK_FILE_VERSION, ratings: this.ratings, resets: this.resets };
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(payload), 'utf-8');
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      logger.warn(`AdviceFeedback: failed to save ratings to ${this.filePath}:`, err);
+    }
+  }
+}
@@ -8,20 +8,33 @@ import type { GmCommand, GmCommandType } from '../types/index.js';
  * - /plan <card name> — override session plan card
  * - /note <text> — inject GM note into reasoning context
  * - @magi <text> — shorthand for /note
+ *
+ * Feedback:
+ * - /good [n], /bad [too-late|wrong] [n] — rate the last (or n-th most recent) advice
+ * - /feedback reset <category> — forget the learned policy for a category
+ *
+ * Tool approval (TOOL_POLICY "confirm"):
+ * - /approve [n], /reject [n] — run or drop staged tool call #n (default: the latest)
+ *
+ * Seeds / threads:
+ * - /reveal [seed] — confirm a seed paid off (default: the one flagged from the transcript)
+ * - /thread <text>, /close <text> — open or close a story thread
  */
 
 const COMMAND_PATTERN = /^\/(\w+)\s*(.*)/;
 
 const VALID_COMMANDS: ReadonlySet<string> = new Set<GmCommandType>([
   'act', 'scene', 'spotlight', 'engagement',
-  'separation', 'climax', 'seed', 'sleep', 'wake',
+  'separation', 'climax', 'seed', 'reveal', 'thread', 'close', 'sleep', 'wake',
   'endtime', 'npc', 'status', 'rediscover',
   'plan', 'note',
   'send', 'beats', // v7: whisper delivery + beat reminder management
+  'good', 'bad', 'feedback',
+  'approve', 'reject',
 ]);
 
 /** Commands where the full remaining text is a single argument (not split by whitespace). */
-const FULL_TEXT_COMMANDS: ReadonlySet<string> = new Set(['plan', 'note', 'send']);
+const FULL_TEXT_COMMANDS: ReadonlySet<string> = new Set(['plan', 'note', 'send', 'reveal', 'thread', 'close']);
 
 /**
  * Parse a chat message for a GM command or @magi mention.
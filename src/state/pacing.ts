@@ -1,3 +1,4 @@
+import type { SpotlightStanding } from './spotlight.js';
 import {
   AssistantState,
   PacingState,
@@ -7,6 +8,7 @@ import {
   ClimaxProximity,
   ActivationSource,
   CacheBuildStatus,
+  PlantedSeed,
 } from '../types/index.js';
 
 /** Creates a fresh pacing state with defaults. */
@@ -21,6 +23,8 @@ export function createInitialPacingState(): PacingState {
     next_planned_beat: '',
     spotlight_debt: {},
     players_without_recent_spotlight: [],
+    spotlight_share: {},
+    players_not_in_scene: [],
     engagement_signals: {},
     separation_status: 'NORMAL',
     climax_proximity: 'NORMAL',
@@ -48,7 +52,7 @@ export function createInitialFreshness(staleThresholdSeconds = 30): FreshnessMet
   };
 }
 
-interface PacingSnapshot {
+export interface PacingSnapshot {
   state: PacingState;
   freshness: FreshnessMetadata;
 }
@@ -66,6 +70,10 @@ export class PacingStateManager {
   private _freshness: FreshnessMetadata;
   /** Set of scenes that have already fired an overrun alert (P3 fires once per scene). */
   private _sceneOverrunFired = new Set<string>();
+  /** Players whose spotlight debt the GM set by hand (held until they speak again). */
+  private _spotlightOverrides = new Set<string>();
+  /** Players whose engagement the GM set by hand (held until the scene changes). */
+  private _engagementOverrides = new Set<string>();
 
   constructor(staleThresholdSeconds = 30) {
     this._state = createInitialPacingState();
@@ -174,15 +182,52 @@ export class PacingStateManager {
 
   // Spotlight / engagement
 
+  /** GM override (/spotlight): holds this debt until the player next speaks. */
   setSpotlight(player: string, debt: number): void {
     this._state.spotlight_debt[player] = debt;
+    this._spotlightOverrides.add(player);
+    this.updatePlayersWithoutSpotlight();
+  }
+
+  isSpotlightOverridden(player: string): boolean {
+    return this._spotlightOverrides.has(player);
+  }
+
+  /** The player spoke — automatic tracking takes over again. */
+  clearSpotlightOverride(player: string): void {
+    this._spotlightOverrides.delete(player);
+  }
+
+  /** Automatic tracking: shares, scene involvement and (unless overridden) debt. */
+  updateSpotlight(standings: SpotlightStanding[]): void {
+    for (const s of standings) {
+      this._state.spotlight_share[s.character] = Math.round(s.share * 100);
+      if (!this._spotlightOverrides.has(s.character)) this._state.spotlight_debt[s.character] = s.debt;
+    }
+    this._state.players_not_in_scene = standings.filter(s => !s.inScene).map(s => s.character);
+    this.updatePlayersWithoutSpotlight();
+  }
+
+  private updatePlayersWithoutSpotlight(): void {
     this._state.players_without_recent_spotlight = Object.entries(this._state.spotlight_debt)
       .filter(([, d]) => d > 0)
       .map(([name]) => name);
   }
 
+  /** GM override (/engagement): holds until clearEngagementOverrides (next scene). */
   setEngagement(player: string, level: EngagementLevel): void {
     this._state.engagement_signals[player] = level;
+    this._engagementOverrides.add(player);
+  }
+
+  /** Automatic estimate; ignored for players the GM set by hand. */
+  updateEngagement(player: string, level: EngagementLevel): void {
+    if (this._engagementOverrides.has(player)) return;
+    this._state.engagement_signals[player] = level;
+  }
+
+  clearEngagementOverrides(): void {
+    this._engagementOverrides.clear();
   }
 
   setSeparation(status: SeparationStatus): void {
@@ -195,23 +240,75 @@ export class PacingStateManager {
 
   // Seeds / threads
 
-  addSeed(name: string, scene: string): void {
-    this._state.planted_seeds.push({ name, planted_in_scene: scene, revealed: false });
+  /** Plant a seed (no-op if one with this name is already tracked). Returns false for duplicates. */
+  addSeed(name: string, scene: string, revealKeywords: string[] = []): boolean {
+    if (this.findSeed(name, true)) return false;
+    this._state.planted_seeds.push({ name, planted_in_scene: scene, revealed: false, reveal_keywords: revealKeywords });
+    return true;
   }
 
-  revealSeed(name: string): void {
-    const seed = this._state.planted_seeds.find((entry) => entry.name === name);
-    if (seed) seed.revealed = true;
+  /**
+   * A seed by name: case-insensitive exact match, else the only seed whose
+   * name contains it (unless `exact`).
+   */
+  findSeed(name: string, exact = false): PlantedSeed | undefined {
+    const wanted = name.trim().toLowerCase();
+    if (!wanted) return undefined;
+    const seeds = this._state.planted_seeds;
+    const match = seeds.find((entry) => entry.name.toLowerCase() === wanted);
+    if (match || exact) return match;
+    const partial = seeds.filter((entry) => entry.name.toLowerCase().includes(wanted));
+    return partial.length === 1 ? partial[0] : undefined;
+  }
+
+  /** GM confirmed the seed paid off (/reveal). Returns the seed, or null if not found. */
+  revealSeed(name: string): PlantedSeed | null {
+    const seed = this.findSeed(name);
+    if (!seed) return null;
+    seed.revealed = true;
+    seed.reveal_pending = false;
+    return seed;
+  }
+
+  /** The transcript sounded like the seed's payoff — awaiting GM confirmation. */
+  markRevealPending(name: string): void {
+    const seed = this.findSeed(name, true);
+    if (seed && !seed.revealed) seed.reveal_pending = true;
+  }
+
+  unrevealedSeeds(): PlantedSeed[] {
+    return this._state.planted_seeds.filter((entry) => !entry.revealed);
   }
 
   addThread(thread: string): void {
-    if (!this._state.open_threads.includes(thread)) {
-      this._state.open_threads.push(thread);
+    const wanted = thread.trim().toLowerCase();
+    if (wanted && !this._state.open_threads.some((entry) => entry.toLowerCase() === wanted)) {
+      this._state.open_threads.push(thread.trim());
     }
   }
 
-  closeThread(thread: string): void {
-    this._state.open_threads = this._state.open_threads.filter((entry) => entry !== thread);
+  /**
+   * Close a thread by name: case-insensitive exact match, else the only
+   * thread containing it. Returns the closed thread, or null if not found.
+   */
+  closeThread(thread: string): string | null {
+    const wanted = thread.trim().toLowerCase();
+    if (!wanted) return null;
+    const threads = this._state.open_threads;
+    const partial = threads.filter((entry) => entry.toLowerCase().includes(wanted));
+    const match = threads.find((entry) => entry.toLowerCase() === wanted)
+      ?? (partial.length === 1 ? partial[0] : undefined);
+    if (!match) return null;
+    this._state.open_threads = threads.filter((entry) => entry !== match);
+    return match;
+  }
+
+  /** Start the session's seeds and threads from what the last session left unresolved. */
+  carryOver(seeds: PlantedSeed[], threads: string[]): void {
+    this._state.planted_seeds = seeds
+      .filter((entry) => !entry.revealed)
+      .map((entry) => ({ ...entry, reveal_pending: false, carried_over: true }));
+    this._state.open_threads = [...threads];
   }
 
   // Freshness
@@ -266,7 +363,7 @@ export class PacingStateManager {
   }
 
   restore(snapshot: PacingSnapshot): void {
-    this._state = deepClone(snapshot.state);
+    this._state = { ...createInitialPacingState(), ...deepClone(snapshot.state) };
     this._freshness = deepClone(snapshot.freshness);
   }
 
@@ -276,5 +373,7 @@ export class PacingStateManager {
     this._state = createInitialPacingState();
     this._freshness = createInitialFreshness(this._freshness.stale_threshold_seconds);
     this._sceneOverrunFired.clear();
+    this._spotlightOverrides.clear();
+    this._engagementOverrides.clear();
   }
 }
@@ -0,0 +1,222 @@
+/**
+ * Crash-recovery state persistence (opt-in via STATE_PERSISTENCE_ENABLED).
+ *
+ * Periodically writes a snapshot of session-scoped state to a JSON file so a
+ * restarted process can resume mid-session: pacing clocks, advice memory,
+ * GM notes, served/sent flags for the pre-built caches, poll cursors, the
+ * recent transcript cache and session stats.
+ *
+ * Snapshots are keyed by Discord session id and discarded when they belong to
+ * a different session or are older than STATE_PERSISTENCE_MAX_AGE_MINUTES.
+ * Writes are atomic (temp file + rename) so a crash mid-write never leaves a
+ * truncated snapshot behind.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../logger.js';
+import type { PacingSnapshot } from './pacing.js';
+import type { SessionStats } from '../qa/session-stats.js';
+import type {
+  AdviceMemory,
+  NpcCacheEntry,
+  SceneIndexEntry,
+  BeatReminderEntry,
+  WhisperStageEntry,
+} from '../types/index.js';
+
+/** Bump when the snapshot shape changes incompatibly — older files are ignored. */
+const SNAPSHOT_VERSION = 1;
+
+export interface PersistedGmNote {
+  text: string;
+  timestamp: string;
+}
+
+export interface PersistedSegment {
+  rowId: number;
+  text: string;
+  userId?: string;
+  displayName?: string;
+  speakerLabel?: string;
+  timestamp: string;
+}
+
+/**
+ * Served/sent flags for the activation caches.
+ * The caches themselves are rebuilt from the wiki on restore; only the flags
+ * are persisted and re-applied once the rebuild completes.
+ */
+export interface PersistedCacheFlags {
+  npcs: Record<string, { served: boolean; last_served_at: string | null }>;
+  scenes: Record<string, { served: boolean; served_at: string | null }>;
+  beats: Record<string, { served: boolean; servedAt: string | null }>;
+  whispers: Record<string, { notified: boolean; sent: boolean }>;
+}
+
+export interface PersistedCursors {
+  transcriptRowId: number;
+  textEventId: number;
+  sceneId: string | null;
+  chatMsgId: string | null;
+}
+
+export interface PersistedSessionState {
+  version: number;
+  savedAt: string;
+  sessionId: string;
+  pacing: PacingSnapshot;
+  adviceMemory: AdviceMemory;
+  gmNotes: PersistedGmNote[];
+  cacheFlags: PersistedCacheFlags;
+  cursors: PersistedCursors;
+  transcriptCache: PersistedSegment[];
+  sessionStats: SessionStats;
+}
+
+/** Collect served/sent flags from the current caches. */
+export function collectCacheFlags(
+  npcCache: NpcCacheEntry[],
+  sceneIndex: SceneIndexEntry[],
+  beatCache: BeatReminderEntry[],
+  whisperStage: WhisperStageEntry[],
+): PersistedCacheFlags {
+  const flags: PersistedCacheFlags = { npcs: {}, scenes: {}, beats: {}, whispers: {} };
+  for (const npc of npcCache) {
+    flags.npcs[npc.key] = { served: npc.served, last_served_at: npc.last_served_at };
+  }
+  for (const scene of sceneIndex) {
+    flags.scenes[scene.id] = { served: scene.served, served_at: scene.served_at };
+  }
+  for (const beat of beatCache) {
+    flags.beats[beat.sceneId] = { served: beat.served, servedAt: beat.servedAt };
+  }
+  for (const whisper of whisperStage) {
+    flags.whispers[whisper.id] = { notified: whisper.notified, sent: whisper.sent };
+  }
+  return flags;
+}
+
+/**
+ * Re-apply persisted flags onto freshly built caches (mutates entries in place).
+ * Entries that no longer exist in the rebuilt cache are ignored.
+ * Returns the number of entries updated.
+ */
+export function applyCacheFlags(
+  flags: PersistedCacheFlags,
+  caches: {
+    npcCache?: NpcCacheEntry[];
+    sceneIndex?: SceneIndexEntry[];
+    beatCache?: BeatReminderEntry[];
+    whisperStage?: WhisperStageEntry[];
+  },
+): number {
+  let applied = 0;
+  for (const npc of caches.npcCache ?? []) {
+    const f = flags.npcs[npc.key];
+    if (!f) continue;
+    npc.served = f.served;
+    npc.last_served_at = f.last_served_at;
+    applied++;
+  }
+  for (const scene of caches.sceneIndex ?? []) {
+    const f = flags.scenes[scene.id];
+    if (!f) continue;
+    scene.served = f.served;
+    scene.served_at = f.served_at;
+    applied++;
+  }
+  for (const beat of caches.beatCache ?? []) {
+    const f = flags.beats[beat.sceneId];
+    if (!f) continue;
+    beat.served = f.served;
+    beat.servedAt = f.servedAt;
+    applied++;
+  }
+  for (const whisper of caches.whisperStage ?? []) {
+    const f = flags.whispers[whisper.id];
+    if (!f) continue;
+    whisper.notified = f.notified;
+    whisper.sent = f.sent;
+    applied++;
+  }
+  return applied;
+}
+
+/**
+ * File-backed snapshot store. Non-throwing: I/O errors are logged and
+ * reported via return values so persistence can never take down a session.
+ */
+export class StatePersistence {
+  constructor(
+    private readonly filePath: string,
+    private readonly maxAgeMinutes: number,
+  ) {}
+
+  /** Write a snapshot atomically. Returns true on success. */
+  save(state: Omit<PersistedSessionState, 'version' | 'savedAt'>, now: Date = new Date()): boolean {
+    const payload: PersistedSessionState = {
+      version: SNAPSHOT_VERSION,
+      savedAt: now.toISOString(),
+      ...state,
+    };
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(payload), 'utf-8');
+      fs.renameSync(tmpPath, this.filePath);
+      logger.debug(`StatePersistence: saved snapshot for session ${state.sessionId}`);
+      return true;
+    } catch (err) {
+      logger.warn(`StatePersistence: failed to save snapshot to ${this.filePath}:`, err);
+      return false;
+    }
+  }
+
+  /**
+   * Load the snapshot for a session. Returns null if there is no snapshot,
+   * it is unreadable, it belongs to another session, or it is too old.
+   */
+  load(sessionId: string, now: Date = new Date()): PersistedSessionState | null {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf-8');
+    } catch {
+      return null; // No snapshot on disk — normal first start
+    }
+
+    let parsed: PersistedSessionState;
+    try {
+      parsed = JSON.parse(raw) as PersistedSessionState;
+    } catch (err) {
+      logger.warn(`StatePersistence: snapshot at ${this.filePath} is not valid JSON — ignoring:`, err);
+      return null;
+    }
+
+    if (parsed.version !== SNAPSHOT_VERSION) {
+      logger.info(`StatePersistence: snapshot version ${parsed.version} != ${SNAPSHOT_VERSION} — ignoring`);
+      return null;
+    }
+    if (parsed.sessionId !== sessionId) {
+      logger.info(`StatePersistence: snapshot is for session ${parsed.sessionId}, not ${sessionId} — ignoring`);
+      return null;
+    }
+
+    const ageMinutes = (now.getTime() - new Date(parsed.savedAt).getTime()) / 60_000;
+    if (!Number.isFinite(ageMinutes) || ageMinutes > this.maxAgeMinutes) {
+      logger.info(`StatePersistence: snapshot is ${Math.round(ageMinutes)} min old (max ${this.maxAgeMinutes}) — ignoring`);
+      return null;
+    }
+
+    return parsed;
+  }
+
+  /** Delete the snapshot (e.g. after a session ends cleanly). */
+  clear(): void {
+    try {
+      fs.rmSync(this.filePath, { force: true });
+    } catch (err) {
+      logger.warn(`StatePersistence: failed to remove snapshot ${this.filePath}:`, err);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Speaker bookkeeping shared by the spotlight tracker and the engagement
+ * estimator: USER_MAPPINGS resolution (Discord userId or display name →
+ * character) and the active-play clock their windows run on.
+ */
+
+export interface Speaker {
+  userId?: string;
+  displayName?: string;
+}
+
+/** USER_MAPPINGS, matched case-insensitively on both the Discord name and the character name. */
+export class CharacterMap {
+  /** Lowercased mapping keys and character names → character. */
+  private readonly lookup = new Map<string, string>();
+
+  constructor(userMappings: Record<string, string> = {}) {
+    for (const [key, character] of Object.entries(userMappings)) {
+      this.lookup.set(key.toLowerCase(), character);
+      this.lookup.set(character.toLowerCase(), character);
+    }
+  }
+
+  /** Distinct mapped characters, in mapping order. */
+  get characters(): string[] {
+    return [...new Set(this.lookup.values())];
+  }
+
+  get isEmpty(): boolean {
+    return this.lookup.size === 0;
+  }
+
+  /** The mapped character a speaker (or a name the GM typed) refers to, or null. */
+  characterFor(speaker: Speaker): string | null {
+    for (const key of [speaker.userId, speaker.displayName]) {
+      const character = key ? this.lookup.get(key.toLowerCase()) : undefined;
+      if (character) return character;
+    }
+    return null;
+  }
+}
+
+/** Play time that only advances while ticked `active` — SLEEP and breaks don't count. */
+export class ActivePlayClock {
+  private ms = 0;
+  private lastTickAt: number | null = null;
+
+  /** Accumulated active-play time (ms). */
+  get activeMs(): number {
+    return this.ms;
+  }
+
+  /**
+   * Advance to `now` (ms). Time only counts while `active`; call at least
+   * every few seconds and on every state change.
+   */
+  tick(now: number, active: boolean): void {
+    if (this.lastTickAt !== null && active) {
+      this.ms += Math.max(0, now - this.lastTickAt);
+    }
+    this.lastTickAt = now;
+  }
+
+  reset(): void {
+    this.ms = 0;
+    this.lastTickAt = null;
+  }
+}
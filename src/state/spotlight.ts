@@ -0,0 +1,169 @@
+/**
+ * Automatic spotlight tracking from transcript talk time.
+ *
+ * Each player segment (GM speech excluded, so GM_IDENTIFIER is required) is
+ * credited to a character via USER_MAPPINGS (Discord userId or display name →
+ * character). With mappings set, unmapped speakers — guests, bots — are not
+ * tracked; without any, speakers count under their display name. Talk time
+ * is estimated from word count. From that the tracker keeps, per character:
+ * - share: fraction of player talk in the rolling SPOTLIGHT_WINDOW_MINUTES
+ * - debt: minutes of talk owed against an even split of that window
+ * - in scene: spoken meaningfully (SPOTLIGHT_MIN_WORDS+) since the scene began
+ * - quiet: minutes of active play since their last meaningful line
+ *
+ * Quiet time only runs while the caller ticks with `active` — SLEEP and
+ * breaks don't count against anyone. A character quiet for
+ * SPOTLIGHT_QUIET_MINUTES is reported once by `dueForSpotlight` until they
+ * speak again.
+ */
+
+import { ActivePlayClock, CharacterMap, type Speaker } from './speakers.js';
+
+/** Estimated speaking rate for converting words to talk time (150 wpm). */
+const WORDS_PER_SECOND = 2.5;
+
+export interface SpotlightOptions {
+  windowMinutes: number;
+  quietMinutes: number;
+  minWords: number;
+  /** Discord userId / display name → character name. */
+  userMappings?: Record<string, string>;
+}
+
+export interface SpotlightStanding {
+  character: string;
+  /** Fraction (0-1) of player talk in the window. */
+  share: number;
+  /** Minutes of talk owed against an even split of the window (0 = at or above a fair share). */
+  debt: number;
+  /** Spoke meaningfully since the current scene began. */
+  inScene: boolean;
+  /** Minutes of active play since the last meaningful line (or since tracking began). */
+  quietMinutes: number;
+}
+
+interface CharacterTrack {
+  /** Talk in the window: active-play time (ms) → seconds spoken. */
+  talk: Array<{ at: number; seconds: number }>;
+  /** Active-play time (ms) of the last meaningful line, or when tracking began. */
+  lastSpokeAt: number;
+  spokeInScene: boolean;
+  /** Already reported by dueForSpotlight for this quiet stretch. */
+  reported: boolean;
+}
+
+export class SpotlightTracker {
+  private readonly windowMs: number;
+  private readonly quietMs: number;
+  private readonly minWords: number;
+  private readonly mappings: CharacterMap;
+  private tracks = new Map<string, CharacterTrack>();
+  /** The tracker's clock. */
+  private readonly play = new ActivePlayClock();
+
+  constructor(options: SpotlightOptions) {
+    this.windowMs = options.windowMinutes * 60_000;
+    this.quietMs = options.quietMinutes * 60_000;
+    this.minWords = options.minWords;
+    this.mappings = new CharacterMap(options.userMappings);
+    for (const character of this.mappings.characters) this.track(character);
+  }
+
+  /** Characters being tracked (mapped players plus anyone who has spoken). */
+  get characters(): string[] {
+    return [...this.tracks.keys()];
+  }
+
+  /** The character a speaker (or a name the GM typed) refers to, or null if unidentified or unmapped. */
+  characterFor(speaker: Speaker): string | null {
+    if (!this.mappings.isEmpty) return this.mappings.characterFor(speaker);
+    return speaker.displayName?.trim() || speaker.userId?.trim() || null;
+  }
+
+  /**
+   * Advance the active-play clock to `now` (ms). Time only counts while
+   * `active`; call at least every few seconds and on every state change.
+   */
+  tick(now: number, active: boolean): void {
+    this.play.tick(now, active);
+  }
+
+  /**
+   * Credit one player segment. Returns the character when the line was
+   * meaningful (it resets their quiet time), else null.
+   */
+  record(segment: Speaker & { text: string }): string | null {
+    const character = this.characterFor(segment);
+    if (!character) return null;
+    const words = segment.text.trim().split(/\s+/).filter(Boolean).length;
+    if (words === 0) return null;
+
+    const track = this.track(character);
+    track.talk.push({ at: this.play.activeMs, seconds: words / WORDS_PER_SECOND });
+    if (words < this.minWords) return null;
+    track.lastSpokeAt = this.play.activeMs;
+    track.spokeInScene = true;
+    track.reported = false;
+    return character;
+  }
+
+  /** A new scene began: nobody has been involved in it yet. */
+  sceneChanged(): void {
+    for (const track of this.tracks.values()) track.spokeInScene = false;
+  }
+
+  /** Current standing of every tracked character. */
+  standings(): SpotlightStanding[] {
+    const cutoff = this.play.activeMs - this.windowMs;
+    const seconds = new Map<string, number>();
+    let total = 0;
+    for (const [character, track] of this.tracks) {
+      track.talk = track.talk.filter(t => t.at > cutoff);
+      const own = track.talk.reduce((sum, t) => sum + t.seconds, 0);
+      seconds.set(character, own);
+      total += own;
+    }
+
+    const fair = this.tracks.size > 0 ? total / this.tracks.size : 0;
+    return [...this.tracks].map(([character, track]) => {
+      const own = seconds.get(character) ?? 0;
+      return {
+        character,
+        share: total > 0 ? own / total : 0,
+        debt: Math.max(0, Math.round((fair - own) / 60)),
+        inScene: track.spokeInScene,
+        quietMinutes: Math.floor((this.play.activeMs - track.lastSpokeAt) / 60_000),
+      };
+    });
+  }
+
+  /**
+   * Characters quiet for the threshold who haven't been reported this quiet
+   * stretch (marked reported). Needs at least two players to compare.
+   */
+  dueForSpotlight(): SpotlightStanding[] {
+    if (this.tracks.size < 2 || this.quietMs <= 0) return [];
+    const due = this.standings().filter(s => {
+      const track = this.tracks.get(s.character)!;
+      return !track.reported && this.play.activeMs - track.lastSpokeAt >= this.quietMs;
+    });
+    for (const s of due) this.tracks.get(s.character)!.reported = true;
+    return due;
+  }
+
+  /** Forget all talk (new session); mapped players stay tracked. */
+  reset(): void {
+    this.play.reset();
+    this.tracks = new Map();
+    for (const character of this.mappings.characters) this.track(character);
+  }
+
+  private track(character: string): CharacterTrack {
+    let track = this.tracks.get(character);
+    if (!track) {
+      track = { talk: [], lastSpokeAt: this.play.activeMs, spokeInScene: false, reported: false };
+      this.tracks.set(character, track);
+    }
+    return track;
+  }
+}
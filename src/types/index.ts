@@ -32,10 +32,18 @@ export type TriggerType =
   | 'pacing_gate_convergence' // P2 (v3)
   | 'pacing_gate_denouement' // P2 (v3)
   | 'pacing_alert' // P3 scene overrun
-  | 'epic_success' // P3 (v3)
+  | 'epic_success' // P3 (v3): Foundry roll succeeded with style
+  | 'spectacular_failure' // P3: Foundry roll failed by 3+ shifts
+  | 'roll_tie' // P3: Foundry roll tied its opposition
+  | 'spotlight_debt' // P3: a player has been quiet for SPOTLIGHT_QUIET_MINUTES of play
+  | 'seed_reveal' // P3: transcript sounds like a planted seed paid off (GM confirms with /reveal)
   | 'beat_reminder' // P2 (v7): beat card GM Notes matched to scene
   | 'whisper_ready' // P2 (v7): pre-staged whisper content available
-  | 'silence_detection'; // P4
+  | 'silence_detection' // P4
+  | CustomTriggerType; // any priority: a campaign's trigger rule fired
+
+/** Trigger type of a declarative rule (TRIGGER_RULES_PATH / TRIGGER_RULES_CARD). */
+export type CustomTriggerType = `custom:${string}`;
 
 export interface TriggerEvent {
   type: TriggerType;
@@ -87,6 +95,42 @@ export interface AdviceEnvelope {
   source_cards: string[];
   /** Optional image suggestion (requires GM confirmation). */
   image?: ImageSuggestion;
+  /** Set when the advice was streamed to the GM while generating (AdviceStreamUpdate.id). */
+  stream_id?: string;
+  /** Problems the fact-check stage found (absent when it found none). */
+  fact_check?: FactCheckIssue[];
+  /** What this advice briefs the GM on, once per session (e.g. "npc:daokresh", "scene:s3"). */
+  subject?: string;
+}
+
+/** A name or pronunciation in advice that the fact-check stage could not confirm. */
+export interface FactCheckIssue {
+  /**
+   * unknown_name: not in the NPC cache, context or wiki (likely invented).
+   * name_conflict: an STT garble or near-miss of a known NPC.
+   * pronunciation_mismatch: differs from the cached one (corrected in place).
+   * wiki_gap: a GM question answered with names but no wiki reference.
+   */
+  kind: 'unknown_name' | 'name_conflict' | 'pronunciation_mismatch' | 'wiki_gap';
+  /** The name as written in the advice ('' for wiki_gap). */
+  name: string;
+  detail: string;
+}
+
+/** Advice streamed to the GM while the model is still writing it. */
+export interface AdviceStreamUpdate {
+  /** One per reasoning turn; the finished envelope carries it as stream_id. */
+  id: string;
+  category: AdviceCategory;
+  tag: string;
+  priority: TriggerPriority;
+  /** As far as it has arrived. */
+  summary: string;
+  summaryComplete: boolean;
+  /** As far as it has arrived ('' until the body starts). */
+  body: string;
+  /** 'withdrawn' when the turn ended without deliverable advice (dedup, feedback, error). */
+  state: 'open' | 'withdrawn';
 }
 
 // Pacing State
@@ -113,6 +157,12 @@ export interface PlantedSeed {
   name: string;
   planted_in_scene: string;
   revealed: boolean;
+  /** The transcript sounded like its payoff; awaiting the GM's /reveal. */
+  reveal_pending?: boolean;
+  /** Words that, said together, suggest the seed paid off (empty: from its name). */
+  reveal_keywords?: string[];
+  /** Planted in an earlier session and still unrevealed. */
+  carried_over?: boolean;
 }
 
 export interface NpcCacheEntry {
@@ -181,6 +231,10 @@ export interface PacingState {
   next_planned_beat: string;
   spotlight_debt: Record<string, number>;
   players_without_recent_spotlight: string[];
+  /** Percent of player talk in the spotlight window, per character (automatic tracking). */
+  spotlight_share: Record<string, number>;
+  /** Characters who haven't spoken since the current scene began (automatic tracking). */
+  players_not_in_scene: string[];
   engagement_signals: Record<string, EngagementLevel>;
   separation_status: SeparationStatus;
   climax_proximity: ClimaxProximity;
@@ -215,11 +269,28 @@ export interface AdviceMemoryEntry {
   tag: string;
   summary: string;
   full_text: string;
+  /** GM rating, e.g. "good" or "bad (too-late)" — set by /good, /bad or a reaction. */
+  gm_feedback?: string;
+}
+
+/** One delivered envelope in the session-long dedup history. */
+export interface AdviceHistoryEntry {
+  timestamp: string;
+  tag: string;
+  /** Absent in snapshots written before similarity was scoped per category. */
+  category?: AdviceCategory;
+  /** Normalized subject key, when the envelope had one. */
+  subject?: string;
+  summary: string;
+  /** Envelope body ('' when it had none). */
+  text: string;
 }
 
 export interface AdviceMemory {
   entries: AdviceMemoryEntry[];
   max_size: number;
+  /** Session-long dedup history (absent in snapshots written before it existed). */
+  history?: AdviceHistoryEntry[];
 }
 
 // Assembled Context
@@ -228,6 +299,9 @@ export interface AssembledContext {
   systemPrompt: string;
   triggerSummary: string;
   recentTranscript: string;
+  /** Session-stable blocks (episode plan, player mappings) — the cacheable head of the user turn. */
+  stableContext: string;
+  /** Per-call blocks (trigger, pacing, roster, transcript…) — the rest of the user turn. */
   gameState: string;
   pacingState: PacingState;
   freshness: FreshnessMetadata;
@@ -236,6 +310,40 @@ export interface AssembledContext {
   sceneIndex?: SceneIndexEntry[];
   tools: unknown[];
   estimatedTokens: number;
+  /** Where the tokens went (MAX_CONTEXT_TOKENS allocation) — kept for diagnostics. */
+  budget: ContextBudgetReport;
+}
+
+export type ContextSectionName =
+  | 'system-prompt'
+  | 'tools'
+  | 'trigger'
+  | 'gm-notes'
+  | 'freshness'
+  | 'pacing'
+  | 'episode-plan'
+  | 'player-mappings'
+  | 'scene-card'
+  | 'npc-card'
+  | 'look-ahead'
+  | 'roster'
+  | 'npc-reference'
+  | 'already-advised'
+  | 'feedback'
+  | 'transcript';
+
+export interface ContextBudgetReport {
+  /** MAX_CONTEXT_TOKENS. */
+  limit: number;
+  /** Held back for the response; the prompt gets limit - responseReserve. */
+  responseReserve: number;
+  /** Estimated prompt tokens actually sent. */
+  total: number;
+  /** Current token estimate ratio (calibrated from API usage). */
+  charsPerToken: number;
+  /** API calls the ratio was calibrated from (0 = still the default). */
+  calibrationSamples: number;
+  sections: Array<{ name: ContextSectionName; tokens: number; trimmedTokens: number }>;
 }
 
 // GM Command (from Foundry chat)
@@ -248,6 +356,9 @@ export type GmCommandType =
   | 'separation'
   | 'climax'
   | 'seed'
+  | 'reveal'     // confirm a planted seed paid off
+  | 'thread'     // open a story thread
+  | 'close'      // close a story thread
   | 'sleep'
   | 'wake'
   | 'endtime'    // v3: set session end time for pacing gates
@@ -257,7 +368,12 @@ export type GmCommandType =
   | 'plan'       // v4: override session plan card
   | 'note'       // v4: inject GM note into reasoning context
   | 'send'       // v7: confirm whisper pre-stage delivery
-  | 'beats';     // v7: list/serve beat reminders
+  | 'beats'      // v7: list/serve beat reminders
+  | 'good'       // rate delivered advice as helpful
+  | 'bad'        // rate delivered advice as unhelpful (optionally too-late / wrong)
+  | 'feedback'   // /feedback reset <category> — start a category's policy over
+  | 'approve'    // run a tool call staged for GM approval
+  | 'reject';    // drop a tool call staged for GM approval
 
 export interface GmCommand {
   type: GmCommandType;
@@ -0,0 +1,164 @@
+/**
+ * Advice history smoke test — TF-IDF similarity catching reworded advice
+ * (same category, a shared name), subject keys holding for the whole session,
+ * the rolling buffer consulting the history after eviction, crash-recovery
+ * round trip, and the engine dropping a re-briefed NPC.
+ *
+ * Run: npx tsx test/smoke-advice-history.ts
+ */
+
+import { resetConfig, getConfig } from '../src/config.js';
+import { AdviceHistory, normalizeSubject, tokenize } from '../src/state/advice-history.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { ReasoningEngine } from '../src/reasoning/engine.js';
+import { MockProvider } from '../src/llm/index.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import type { Clock } from '../src/session/clock.js';
+import { AssistantState, TriggerPriority, type AdviceEnvelope, type TriggerBatch } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+
+const advice = (tag: string, summary: string, body: string, extra: Partial<AdviceEnvelope> = {}): AdviceEnvelope => ({
+  category: 'script', tag, priority: TriggerPriority.P2, summary, body, confidence: 0.8, source_cards: [], ...extra,
+});
+
+const BRIEF = advice('NPC_BRIEF', 'Daokresh — ancient dragon who speaks in riddles',
+  'Daokresh, the ancient bronze dragon, speaks only in riddles and covets the Sunstone. Voice: slow, amused, rumbling.');
+const REWORDED = advice('NPC', 'Ancient dragon Daokresh, riddling speaker',
+  'The bronze dragon Daokresh answers in riddles; he wants the Sunstone. Play him slow and amused.');
+const OTHERS = [
+  advice('PACING', 'Combat has run long — wrap it up', 'Twenty minutes on this fight; let the bandits flee.', { category: 'pacing' }),
+  advice('GAP', 'The ferry leaves at dawn', 'If asked: the ferry to Saltmere leaves at first light.', { category: 'gap-fill' }),
+  advice('SPOTLIGHT', 'Mira has been quiet for a while', 'Give Mira a moment — her aspect ties to the lighthouse.', { category: 'spotlight' }),
+  advice('SEED', 'Plant the sealed letter', 'A courier hands over a letter sealed with black wax.', { category: 'continuity' }),
+  advice('RULES', 'Create an Advantage fits here', 'The climb is a good Overcome; success with style grants a boost.', { category: 'mechanics' }),
+  advice('SCRIPT', 'Read the lighthouse description', 'Wind howls through the broken lantern room at the top of the tower.'),
+];
+
+const question = (): TriggerBatch => ({
+  events: [{ type: 'gm_question', priority: TriggerPriority.P1, source: 'transcript', data: { transcript: 'who is the dragon?' }, timestamp: new Date().toISOString() }],
+  flushedAt: new Date().toISOString(),
+});
+
+const fakeMcp = {
+  isConnected: () => true,
+  readResource: async () => null,
+  callTool: async () => 'No cards found.',
+  getAllTools: () => [],
+  recordLlmExchange() {},
+};
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Similarity ────────────────────────────────────────────────────
+
+  console.log('\n── Test 1: Similarity ──');
+
+  assert(tokenize("The dragon's riddles, speaking 12 times").join() === 'dragon,riddle,speak,time', 'Tokens: stopwords and numbers dropped, words trimmed');
+  const history = new AdviceHistory();
+  history.record(BRIEF);
+  for (const other of OTHERS) history.record(other);
+  const match = history.findDuplicate(REWORDED);
+  assert(match?.reason === 'similar' && match.entry.tag === 'NPC_BRIEF', 'Reworded brief under another tag caught');
+  const named = OTHERS.filter(o => o.tag === 'GAP' || o.tag === 'SPOTLIGHT');
+  assert(named.every(o => history.findDuplicate({ ...o, summary: o.summary + ' now', tag: 'NEW' })?.entry.tag === o.tag),
+    'Each earlier message naming someone matches itself, not a neighbour');
+  assert(history.findDuplicate({ ...OTHERS[0], summary: OTHERS[0].summary + ' now', tag: 'NEW' }) === null,
+    'Advice naming no one left to the rolling buffer');
+  assert(history.findDuplicate({ ...REWORDED, category: 'creative' }) === null, 'Similarity scoped to the category');
+  const twin = advice('NPC_BRIEF', 'Vorthane — ancient dragon who speaks in riddles',
+    'Vorthane, the ancient bronze dragon, speaks only in riddles and covets the Moonstone. Voice: slow, amused, rumbling.');
+  assert(history.findDuplicate(twin) === null, 'Same wording about another NPC is new');
+  const fresh = advice('NPC_BRIEF', 'Captain Orlen — tired smuggler, owes the guild', 'Orlen runs the night ferry and hides contraband under the nets.');
+  assert(history.findDuplicate(fresh) === null, 'Different NPC brief is new');
+  const clocked = new AdviceHistory({ clock: { now: () => new Date('2026-03-01T20:00:00Z') } as Clock });
+  clocked.record(BRIEF);
+  assert(clocked.entries[0].timestamp === '2026-03-01T20:00:00.000Z' && clocked.entries[0].category === 'script',
+    'Entries stamped by the injected clock and keep their category');
+  const off = new AdviceHistory({ similarity: 0 });
+  off.record(BRIEF);
+  assert(off.findDuplicate(REWORDED) === null, 'Similarity 0 turns the check off');
+
+  // ── Test 2: Subject keys ──────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Subject keys ──');
+
+  const subjects = new AdviceHistory({ similarity: 0 });
+  subjects.record({ ...BRIEF, subject: 'NPC: Daokresh' });
+  assert(normalizeSubject('NPC: Daokresh ') === 'npc:daokresh', 'Subjects normalized');
+  const again = subjects.findDuplicate({ ...fresh, subject: 'npc:daokresh' });
+  assert(again?.reason === 'subject' && again.entry.subject === 'npc:daokresh', 'Same subject is a repeat, whatever the wording');
+  assert(subjects.findDuplicate({ ...BRIEF, subject: 'npc:orlen' }) === null, 'Other subject is new');
+
+  // ── Test 3: Rolling buffer and persistence ────────────────────────────────
+
+  console.log('\n── Test 3: Rolling buffer and persistence ──');
+
+  const memory = new AdviceMemoryBuffer(5);
+  memory.push(BRIEF);
+  for (const other of OTHERS) memory.push(other);
+  assert(memory.size === 5 && !memory.entries.some(e => e.tag === 'NPC_BRIEF'), 'Brief evicted from the rolling buffer');
+  assert(memory.isDuplicate(BRIEF) && memory.isDuplicate(REWORDED), 'History still catches it after six other messages');
+  assert(memory.formatForContext().split('\n').length === 6, '[ALREADY ADVISED] still lists only the last five');
+
+  const restored = new AdviceMemoryBuffer(5);
+  restored.restore(JSON.parse(JSON.stringify(memory.toJSON())));
+  assert(restored.history.entries.length === 7 && restored.isDuplicate(REWORDED), 'History survives a snapshot round trip');
+  restored.restore({ entries: [], max_size: 5 });
+  assert(restored.history.entries.length === 0, 'Older snapshots without history restore cleanly');
+  memory.clear();
+  assert(!memory.isDuplicate(BRIEF), 'Session reset clears the history');
+
+  process.env.ADVICE_DEDUP_SIMILARITY = '1.5';
+  resetConfig();
+  assert(getConfig().adviceDedupSimilarity === 1, 'ADVICE_DEDUP_SIMILARITY clamped to 0–1');
+  delete process.env.ADVICE_DEDUP_SIMILARITY;
+  resetConfig();
+
+  // ── Test 4: Engine ────────────────────────────────────────────────────────
+
+  console.log('\n── Test 4: Engine ──');
+
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+  const session = new AdviceMemoryBuffer(5);
+  const provider = new MockProvider([
+    { envelope: { ...BRIEF, subject: 'npc:daokresh' } },
+    ...OTHERS.map(envelope => ({ envelope: { ...envelope } })),
+    { envelope: { ...fresh, tag: 'NPC_BRIEF', subject: 'npc:daokresh' } },
+  ]);
+  const engine = new ReasoningEngine(fakeMcp as any, pacing, session, () => [], { provider });
+  let delivered = 0;
+  for (let i = 0; i < 7; i++) delivered += (await engine.process(question())).length;
+  assert(delivered === 7, 'Brief and six other messages delivered');
+  assert((await engine.process(question())).length === 0, 'Re-brief of the same NPC dropped a session later');
+  const schema = provider.requests[0].finalTool?.inputSchema as { properties?: Record<string, unknown> } | undefined;
+  assert(schema?.properties !== undefined && 'subject' in schema.properties, 'emit_advice offers the subject field');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,181 @@
+/**
+ * LLM cost smoke test — price table lookup and LLM_PRICING overrides, usage
+ * accounting into SessionStats, the QA report lines, and the per-session
+ * spending cap (P1-only reasoning, pre-composed NPC briefs, one notice).
+ *
+ * Run: npx tsx test/smoke-budget.ts
+ */
+
+import { EventEmitter } from 'node:events';
+import { getConfig, resetConfig, DEFAULT_MODEL_PRICING } from '../src/config.js';
+import { findModelPrice, priceUsage, addLlmUsage, createLlmUsageTotals, usageFromResponse } from '../src/qa/llm-cost.js';
+import { createSessionStats } from '../src/qa/session-stats.js';
+import { formatQaReport } from '../src/qa/post-session.js';
+import { SessionController } from '../src/session/controller.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { TriggerPriority, type AdviceEnvelope, type TriggerBatch, type TriggerEvent } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+const near = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+process.env.SESSION_BUDGET_USD = '0.05';
+process.env.LLM_PRICING = JSON.stringify({
+  'house-model': { input: 2, output: 10 },
+  'claude-sonnet-4': { input: 4, output: 20, cacheRead: 0.4, cacheWrite: 5 },
+  broken: { input: 'cheap' },
+});
+
+const event = (type: string, priority: TriggerPriority, data: Record<string, unknown> = {}): TriggerEvent => ({
+  type: type as TriggerEvent['type'], priority, source: 'transcript', data, timestamp: '2026-03-01T19:00:00Z',
+});
+const batchOf = (...events: TriggerEvent[]): TriggerBatch => ({ events, flushedAt: '2026-03-01T19:00:00Z' });
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Price table ───────────────────────────────────────────────────
+
+  console.log('\n── Test 1: Price table ──');
+
+  const config = getConfig();
+  assert(config.sessionBudgetUsd === 0.05, 'SESSION_BUDGET_USD parsed as a decimal');
+  assert(findModelPrice('claude-sonnet-4-5-20250929', DEFAULT_MODEL_PRICING)?.input === 3, 'Dated snapshot resolves to its family');
+  assert(findModelPrice('claude-opus-4-5-20251101', DEFAULT_MODEL_PRICING)?.input === 5 &&
+    findModelPrice('claude-opus-4-1-20250805', DEFAULT_MODEL_PRICING)?.input === 15, 'Longest matching prefix wins');
+  assert(findModelPrice('gpt-4o', DEFAULT_MODEL_PRICING) === null, 'Unknown model → no price');
+  assert(config.llmPricing['claude-sonnet-4'].input === 4 && config.llmPricing['claude-3-5-haiku'].input === 0.8,
+    'LLM_PRICING overrides entries and keeps the rest');
+  assert(near(config.llmPricing['house-model'].cacheRead, 0.2) && near(config.llmPricing['house-model'].cacheWrite, 2.5),
+    'Cache prices default from the input price');
+  assert(!('broken' in config.llmPricing), 'Invalid entries skipped');
+
+  // ── Test 2: Usage accounting ──────────────────────────────────────────────
+
+  console.log('\n── Test 2: Usage accounting ──');
+
+  const usage = usageFromResponse('claude-sonnet-4-5', {
+    input_tokens: 1000, output_tokens: 200, cache_read_input_tokens: 5000, cache_creation_input_tokens: null,
+  } as any);
+  assert(usage.cacheReadTokens === 5000 && usage.cacheWriteTokens === 0, 'Null cache fields read as 0');
+  assert(near(priceUsage(usage, config.llmPricing['claude-sonnet-4']), (1000 * 4 + 200 * 20 + 5000 * 0.4) / 1e6), 'Cost per million tokens');
+
+  const totals = createLlmUsageTotals();
+  addLlmUsage(totals, usage, config.llmPricing);
+  const unpriced = addLlmUsage(totals, { ...usage, model: 'mystery' }, config.llmPricing);
+  assert(totals.calls === 2 && totals.inputTokens === 2000 && unpriced === 0 && totals.unpricedCalls === 1,
+    'Unpriced calls count tokens but no cost');
+
+  const stats = { ...createSessionStats(), llmUsage: totals, budgetCapReachedAt: '2026-03-01T21:00:00Z' };
+  const report = formatQaReport({
+    durationMinutes: 180, segmentCount: 0, speakerCount: 0, speakerDistribution: {}, stats,
+    phoneticDiscoveries: [], fuzzyTableDelta: {}, fuzzyTablePersisted: false, engagementByScene: [],
+  });
+  assert(report.includes('LLM Usage: 2 calls') && report.includes('(1 unpriced)') && report.includes('Prompt cache: 10000 read'),
+    'QA report lists calls, cost and cache tokens');
+  assert(report.includes('Spending cap reached'), 'QA report notes the cap');
+
+  // ── Test 3: Spending cap ──────────────────────────────────────────────────
+
+  console.log('\n── Test 3: Spending cap ──');
+
+  const fakeMcp = Object.assign(new EventEmitter(), {
+    isConnected: () => true,
+    readResource: async () => null,
+    callTool: async () => ({ content: [] }),
+    subscribeResource: async () => false,
+    unsubscribeResource: async () => {},
+    isSubscribed: () => false,
+    startRecording() {},
+    stopRecording() {},
+  });
+  const processed: TriggerBatch[] = [];
+  let discardedBelow: TriggerPriority | null = null;
+  const engine = Object.assign(new EventEmitter(), {
+    setGmNotes() {}, setNpcCache() {}, setSceneIndex() {}, setFuzzyTable() {},
+    async process(batch: TriggerBatch) { processed.push(batch); return []; },
+    discardQueuedBatch(keep: TriggerPriority) { discardedBelow = keep; },
+  });
+  const delivered: AdviceEnvelope[] = [];
+  const notices: string[] = [];
+  const delivery = {
+    deliver: async (env: AdviceEnvelope) => { delivered.push(env); return 'foundry'; },
+    async deliverAll(envs: AdviceEnvelope[]) { const channels = []; for (const env of envs) channels.push(await this.deliver(env)); return channels; },
+    discordMessageId: () => null,
+    postSystemMessage: async (msg: string) => { notices.push(msg); return true; },
+  };
+  const triggers = Object.assign(new EventEmitter(), {
+    start() {}, stop() {}, resetSession() {},
+    getPendingEvents: () => [],
+  });
+  const controller = new SessionController({
+    mcp: fakeMcp as any,
+    pacing: new PacingStateManager(),
+    memory: new AdviceMemoryBuffer(10),
+    triggers: triggers as any,
+    engine: engine as any,
+    delivery: delivery as any,
+  });
+
+  // Each call: 5k in + 500 out at the overridden sonnet price = $0.03
+  const call = { model: 'claude-sonnet-4-5', inputTokens: 5000, outputTokens: 500, cacheReadTokens: 0, cacheWriteTokens: 0 };
+  engine.emit('usage', call);
+  assert(!controller.budgetExhausted && notices.length === 0, 'Under the cap: nothing changes');
+  await controller.handleTriggerBatch(batchOf(event('pacing_alert', TriggerPriority.P3)));
+  assert(processed.length === 1, 'Non-P1 batches reach the model under the cap');
+
+  engine.emit('usage', call);
+  engine.emit('usage', call);
+  const status = controller.getStatus().sessionStats;
+  assert(controller.budgetExhausted && near(status.llmUsage.costUsd, 0.09) && status.llmUsage.calls === 3, 'Cap reached once spend passes it');
+  assert(notices.length === 1 && notices[0].includes('$0.050'), 'One system notice posted with the cap');
+  assert(discardedBelow === TriggerPriority.P1, 'Queued non-P1 work discarded');
+
+  processed.length = 0;
+  await controller.handleTriggerBatch(batchOf(
+    event('gm_question', TriggerPriority.P1),
+    event('pacing_alert', TriggerPriority.P3),
+    event('npc_first_appearance', TriggerPriority.P2, {
+      npc_name: 'Harbor Guard', npc_brief: 'HARBOR GUARD — bored, wants a bribe', npc_card: 'NPCs+Harbor Guard',
+    }),
+  ));
+  assert(processed.length === 1 && processed[0].events.map(e => e.type).join(',') === 'gm_question', 'Only P1 events reach the model');
+  const npc = delivered.find(e => e.tag === 'NPC_BRIEF');
+  assert(npc?.body === 'HARBOR GUARD — bored, wants a bribe' && npc.source_cards[0] === 'NPCs+Harbor Guard',
+    'NPC first appearance delivered pre-composed from the cache');
+
+  processed.length = 0;
+  const suppressedBefore = controller.getStatus().sessionStats.adviceSuppressed;
+  await controller.handleTriggerBatch(batchOf(event('silence_detection', TriggerPriority.P4)));
+  assert(processed.length === 0 && controller.getStatus().sessionStats.adviceSuppressed === suppressedBefore + 1,
+    'P3/P4-only batch skipped and counted as suppressed');
+
+  engine.emit('usage', call);
+  assert(notices.length === 1, 'Notice is not repeated');
+  controller.shutdown();
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
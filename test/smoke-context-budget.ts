@@ -0,0 +1,168 @@
+/**
+ * Context budget smoke test — the calibrating token counter, the per-section
+ * allocator's trim order and floors, the assembler fitting MAX_CONTEXT_TOKENS
+ * with a per-section report, and the engine calibrating from API usage.
+ *
+ * Run: npx tsx test/smoke-context-budget.ts
+ */
+
+import { resetConfig, getConfig } from '../src/config.js';
+import { TokenCounter, allocateContextBudget, type ContextSection } from '../src/reasoning/context-budget.js';
+import { ContextAssembler } from '../src/reasoning/context.js';
+import { ReasoningEngine } from '../src/reasoning/engine.js';
+import { MockProvider } from '../src/llm/index.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { AssistantState, TriggerPriority, type TriggerBatch } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+
+const question = (): TriggerBatch => ({
+  events: [{ type: 'gm_question', priority: TriggerPriority.P1, source: 'transcript', data: { transcript: 'who guards the vault?' }, timestamp: new Date().toISOString() }],
+  flushedAt: new Date().toISOString(),
+});
+
+const fakeMcp = {
+  isConnected: () => true,
+  readResource: async () => null,
+  callTool: async () => ({ content: [] }),
+  getAllTools: () => [{ name: 'wiki__search', description: 'Search the wiki', input_schema: { type: 'object' } }],
+  recordLlmExchange() {},
+};
+
+function activePacing(): PacingStateManager {
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+  return pacing;
+}
+
+/** 200 lines of chatter, newest last (~3,000 tokens at 4 chars/token). */
+function longTranscript(): Array<{ text: string; displayName: string; timestamp: string }> {
+  const now = Date.now();
+  return Array.from({ length: 200 }, (_, i) => ({
+    text: `line ${i} — we keep arguing about the vault`,
+    displayName: i % 2 ? 'kai' : 'ren',
+    timestamp: new Date(now - (200 - i) * 1000).toISOString(),
+  }));
+}
+
+const filler = (tokens: number) => 'x'.repeat(tokens * 4);
+
+/** Transcript tokens the Test 3 budget leaves room for — about a third of longTranscript(). */
+const TRANSCRIPT_ROOM = 1000;
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Token counter ─────────────────────────────────────────────────
+
+  console.log('\n── Test 1: Token counter ──');
+
+  const counter = new TokenCounter();
+  assert(counter.count('abcdefgh') === 2 && counter.calibrationSamples === 0, 'Starts at 4 chars/token');
+  counter.calibrate(900, 100);
+  assert(counter.charsPerToken === 4 && counter.calibrationSamples === 0, 'Tiny prompts ignored');
+  counter.calibrate(9000, 3000);
+  assert(counter.charsPerToken === 3, 'First sample replaces the default');
+  counter.calibrate(5000, 1000);
+  assert(Math.abs(counter.charsPerToken - 3.4) < 1e-9, 'Later samples blend in');
+  counter.calibrate(100_000, 1000);
+  assert(counter.charsPerToken <= 8 * 0.2 + 3.4 * 0.8 + 1e-9, 'Outliers clamped');
+
+  const even = new TokenCounter();
+  const cut = even.truncate(filler(100), 50);
+  assert(even.count(cut) <= 50 && cut.endsWith('[truncated]'), 'Truncated text fits, marker included');
+  const lines = Array.from({ length: 50 }, (_, i) => `line ${i}`).join('\n');
+  const recent = even.truncateOldestLines(lines, 20);
+  assert(even.count(recent) <= 20 && recent.endsWith('line 49') && !recent.includes('line 0\n'), 'Oldest lines dropped first');
+
+  // ── Test 2: Allocator ─────────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Allocator ──');
+
+  const sections = (): ContextSection[] => [
+    { name: 'system-prompt', header: '', body: filler(1000), trim: 'none' },
+    { name: 'feedback', header: '## Feedback', body: filler(300), trim: 'tail', trimOrder: 1 },
+    { name: 'roster', header: '## Roster', body: filler(800), trim: 'tail', trimOrder: 2, floorTokens: 300 },
+    { name: 'transcript', header: '## Transcript', body: Array.from({ length: 400 }, (_, i) => `t${i} ${'y'.repeat(10)}`).join('\n'), trim: 'oldest-lines', trimOrder: 3, floorTokens: 500 },
+  ];
+  const roomy = allocateContextBudget(sections(), new TokenCounter(), 10_000, 2000);
+  assert(roomy.report.sections.every(s => s.trimmedTokens === 0), 'Nothing trimmed when it fits');
+
+  const tight = allocateContextBudget(sections(), new TokenCounter(), 4200, 2000);
+  const by = (name: string) => tight.report.sections.find(s => s.name === name)!;
+  assert(tight.report.total <= 2200 && tight.report.total >= 2190, 'Prompt trimmed to the budget exactly');
+  assert(by('system-prompt').trimmedTokens === 0, 'Untrimmable sections untouched');
+  assert(by('feedback').tokens === 0 && by('roster').tokens <= 300 && by('roster').tokens > 0, 'Trimmed in order, down to floors first');
+  assert(tight.bodies.get('transcript')!.endsWith(`t399 ${'y'.repeat(10)}`), 'Transcript keeps its newest lines');
+
+  const squeezed = allocateContextBudget(sections(), new TokenCounter(), 3300, 2000);
+  assert(squeezed.report.total <= 1300 && squeezed.rendered.get('roster') === '', 'Second pass trims past the floors');
+
+  // ── Test 3: Assembled context ─────────────────────────────────────────────
+
+  console.log('\n── Test 3: Assembled context ──');
+
+  // Size the limit from the measured prompt so it tracks system-prompt and tool growth
+  const measuring = new ContextAssembler(fakeMcp as any, activePacing(), new AdviceMemoryBuffer(5));
+  measuring.loadTemplate();
+  const bare = (await measuring.assemble(question(), [])).budget;
+  const limit = bare.total + bare.responseReserve + TRANSCRIPT_ROOM;
+
+  const config = { ...getConfig(), maxContextTokens: limit };
+  const assembler = new ContextAssembler(fakeMcp as any, activePacing(), new AdviceMemoryBuffer(5), undefined, config);
+  assembler.loadTemplate();
+  const context = await assembler.assemble(question(), longTranscript());
+  const budget = context.budget;
+  const transcript = budget.sections.find(s => s.name === 'transcript')!;
+  assert(budget.limit === limit && budget.total <= limit - budget.responseReserve, 'Fits MAX_CONTEXT_TOKENS minus the response reserve');
+  assert(context.estimatedTokens === budget.total, 'Estimate is the allocated total');
+  assert(transcript.trimmedTokens > 0 && context.recentTranscript.includes('line 199 ') && !context.recentTranscript.includes('line 0 '),
+    'Transcript trimmed from the oldest end');
+  assert(['system-prompt', 'tools', 'trigger', 'pacing'].every(n => (budget.sections.find(s => s.name === n)?.tokens ?? 0) > 0),
+    'Fixed sections reported');
+  assert(context.gameState.startsWith('## Trigger') && context.stableContext.startsWith('## Episode Plan'), 'Sections rendered in order');
+
+  // ── Test 4: Engine calibration ────────────────────────────────────────────
+
+  console.log('\n── Test 4: Engine calibration ──');
+
+  const provider = new MockProvider([
+    { text: '{"category":"none","tag":"NO_ADVICE"}', usage: { inputTokens: 1000, outputTokens: 10, cacheReadTokens: 2000 } },
+    { text: '{"category":"none","tag":"NO_ADVICE"}' },
+  ], { loop: true });
+  const engine = new ReasoningEngine(fakeMcp as any, activePacing(), new AdviceMemoryBuffer(10), longTranscript, { provider });
+  assert(engine.lastContextBudget === null, 'No report before the first call');
+  await engine.process(question());
+  const first = engine.lastContextBudget!;
+  await engine.process(question());
+  const second = engine.lastContextBudget!;
+  assert(first.calibrationSamples === 0 && first.charsPerToken === 4, 'First turn uses the default ratio');
+  assert(second.calibrationSamples === 1 && second.charsPerToken !== 4, 'Next turn calibrated from billed prompt tokens');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,161 @@
+/**
+ * Control API smoke test — starts ControlServer on an ephemeral port against
+ * a fake controller and exercises the dashboard, status, and command routes
+ * (auth, unknown commands, bad bodies, read-only mode, loopback-only binds
+ * without a token, pipeline selection).
+ *
+ * Run: npx tsx test/smoke-control-api.ts
+ */
+
+import { ControlServer } from '../src/api/control-server.js';
+import type { GmCommand } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+const applied: GmCommand[] = [];
+const fakeController = {
+  getStatus: () => ({ sessionActive: true, sessionId: 's1', assistantState: 'ACTIVE' }),
+  applyGmCommand: (cmd: GmCommand) => { applied.push(cmd); },
+};
+
+async function runTests(): Promise<void> {
+  const server = new ControlServer(new Map([['default', fakeController as any]]), { host: '127.0.0.1', port: 0, token: 'secret' });
+  const port = await server.start();
+  const base = `http://127.0.0.1:${port}`;
+  const post = (path: string, body: string, token = 'secret') => fetch(`${base}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body,
+  });
+  const get = (path: string, token = 'secret') => fetch(`${base}${path}`, { headers: { Authorization: `Bearer ${token}` } });
+
+  try {
+    // ── Test 1: Read endpoints ──────────────────────────────────────────────
+
+    console.log('\n── Test 1: Read endpoints ──');
+
+    const page = await fetch(`${base}/`);
+    assert(page.status === 200 && (page.headers.get('content-type') ?? '').startsWith('text/html'), 'GET / serves the dashboard');
+    assert((await page.text()).includes('/api/status'), 'Dashboard polls /api/status');
+
+    const status = await get('/api/status');
+    const statusBody = await status.json() as { sessionId: string };
+    assert(status.status === 200 && statusBody.sessionId === 's1', 'GET /api/status returns controller status');
+    assert((await fetch(`${base}/api/status`)).status === 401 && (await get('/api/pipelines', 'wrong')).status === 401,
+      'Reads need the bearer token when one is configured');
+
+    assert((await fetch(`${base}/nope`)).status === 404, 'Unknown route → 404');
+
+    // ── Test 2: Commands ────────────────────────────────────────────────────
+
+    console.log('\n── Test 2: Commands ──');
+
+    let res = await post('/api/commands/scene', JSON.stringify({ args: 'The Concourse 20' }));
+    assert(res.status === 202, 'Authorized /scene accepted');
+    assert(applied[0]?.type === 'scene' && applied[0].args.join(' ') === 'The Concourse 20', 'Command parsed like chat input');
+
+    res = await post('/api/commands/note', JSON.stringify({ args: 'the duke is lying' }));
+    assert(res.status === 202 && applied[1]?.args[0] === 'the duke is lying', '/note keeps full text as one argument');
+
+    res = await post('/api/commands/sleep', '');
+    assert(res.status === 202 && applied[2]?.type === 'sleep', 'Empty body allowed for argument-less commands');
+
+    res = await post('/api/commands/scene', JSON.stringify({ args: 'x' }), 'wrong');
+    assert(res.status === 401, 'Wrong token → 401');
+
+    res = await post('/api/commands/frobnicate', JSON.stringify({ args: '' }));
+    assert(res.status === 404, 'Unknown command → 404');
+
+    res = await post('/api/commands/scene', '{not json');
+    assert(res.status === 400, 'Malformed body → 400');
+
+    res = await post('/api/commands/scene', JSON.stringify({ args: ['a'] }));
+    assert(res.status === 400, 'Non-string args → 400');
+
+    res = await get('/api/commands/scene');
+    assert(res.status === 405, 'GET on a command route → 405');
+
+    assert(applied.length === 3, 'Rejected requests never reach applyGmCommand');
+  } finally {
+    await server.stop();
+  }
+
+  // ── Test 3: Read-only mode ────────────────────────────────────────────────
+
+  console.log('\n── Test 3: Read-only mode (no token) ──');
+
+  const readOnly = new ControlServer(new Map([['default', fakeController as any]]), { host: '127.0.0.1', port: 0, token: '' });
+  const roPort = await readOnly.start();
+  try {
+    const res = await fetch(`http://127.0.0.1:${roPort}/api/commands/sleep`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer ' },
+      body: '',
+    });
+    assert(res.status === 403, 'Commands disabled without CONTROL_API_TOKEN');
+    assert((await fetch(`http://127.0.0.1:${roPort}/api/status`)).status === 200, 'Status still readable');
+  } finally {
+    await readOnly.stop();
+  }
+
+  const exposed = new ControlServer(new Map([['default', fakeController as any]]), { host: '0.0.0.0', port: 0, token: '' });
+  const refused = await exposed.start().then(() => false, () => true);
+  await exposed.stop();
+  assert(refused, 'No token → refuses to bind beyond loopback');
+
+  // ── Test 4: Multiple pipelines ────────────────────────────────────────────
+
+  console.log('\n── Test 4: Multiple pipelines ──');
+
+  const tableApplied: string[] = [];
+  const table = (id: string) => ({
+    getStatus: () => ({ sessionActive: false, sessionId: id }),
+    applyGmCommand: (cmd: GmCommand) => { tableApplied.push(`${id}:${cmd.type}`); },
+  });
+  const multi = new ControlServer(new Map([['alpha', table('alpha') as any], ['beta', table('beta') as any]]),
+    { host: '127.0.0.1', port: 0, token: 'secret' });
+  const mPort = await multi.start();
+  const mBase = `http://127.0.0.1:${mPort}`;
+  const mGet = (path: string) => fetch(`${mBase}${path}`, { headers: { Authorization: 'Bearer secret' } });
+  try {
+    const list = await (await mGet('/api/pipelines')).json() as { pipelines: string[] };
+    assert(list.pipelines.join(',') === 'alpha,beta', 'GET /api/pipelines lists ids in order');
+
+    const first = await (await mGet('/api/status')).json() as { sessionId: string };
+    const beta = await (await mGet('/api/status?pipeline=beta')).json() as { sessionId: string };
+    assert(first.sessionId === 'alpha' && beta.sessionId === 'beta', 'Status defaults to the first pipeline; ?pipeline= selects');
+    assert((await mGet('/api/status?pipeline=gamma')).status === 404, 'Unknown pipeline → 404');
+
+    const res = await fetch(`${mBase}/api/commands/sleep?pipeline=beta`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret' },
+      body: '',
+    });
+    assert(res.status === 202 && tableApplied.join(',') === 'beta:sleep', 'Commands reach only the selected pipeline');
+  } finally {
+    await multi.stop();
+  }
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,341 @@
+/**
+ * SessionController smoke test — drives a full session lifecycle against a
+ * fake MCP aggregator, fake engine/delivery, and a manual clock.
+ *
+ * Covers: session detection, transcript seeding + incremental polling,
+ * GM commands (Discord text + Foundry chat), Foundry rolls, activation, pre-composed beat
+ * delivery, session end, and push updates via MCP resource subscriptions.
+ *
+ * Run: npx tsx test/smoke-controller.ts
+ */
+
+import { EventEmitter } from 'node:events';
+import { resetConfig, getConfig } from '../src/config.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { SessionController, parseSessionEndTime } from '../src/session/controller.js';
+import { ToolApprovalQueue } from '../src/output/tool-approval-queue.js';
+import { ImageQueue } from '../src/output/image-queue.js';
+import type { Clock, TimerHandle } from '../src/session/clock.js';
+import { AssistantState, TriggerPriority } from '../src/types/index.js';
+import type { AdviceEnvelope } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+/** Manual clock: timers only fire via fireAll(); time only moves via advance(). */
+class FakeClock implements Clock {
+  private _now = new Date('2026-03-01T19:00:00Z');
+  private nextId = 1;
+  readonly timers = new Map<number, { callback: () => void; ms: number }>();
+
+  now(): Date { return new Date(this._now); }
+  setInterval(callback: () => void, ms: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { callback, ms });
+    return id as unknown as TimerHandle;
+  }
+  clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle as unknown as number);
+  }
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { callback: () => { this.timers.delete(id); callback(); }, ms });
+    return id as unknown as TimerHandle;
+  }
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as unknown as number);
+  }
+  advance(ms: number): void {
+    this._now = new Date(this._now.getTime() + ms);
+  }
+  fireAll(): void {
+    for (const timer of [...this.timers.values()]) timer.callback();
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+process.env.GM_IDENTIFIER = 'gm-user';
+process.env.TARGET_GUILD_ID = '';
+process.env.STATE_PERSISTENCE_ENABLED = 'false';
+const config = getConfig();
+
+// Fake MCP: resources are mutable JSON strings keyed by server + uri.
+// Subscriptions only succeed once `pushSupported` is flipped on.
+const resources: Record<string, string> = {};
+const toolCalls: Array<{ name: string; args: Record<string, unknown> }> = [];
+const subscribed = new Set<string>();
+let pushSupported = false;
+let reads = 0;
+const mcp = Object.assign(new EventEmitter(), {
+  isConnected: () => true,
+  readResource: async (server: string, uri: string) => {
+    reads++;
+    return resources[`${server}|${uri}`] ?? null;
+  },
+  callTool: async (name: string, args: Record<string, unknown>) => {
+    toolCalls.push({ name, args });
+    return { content: [{ type: 'text', text: '' }] };
+  },
+  subscribeResource: async (server: string, uri: string) => {
+    if (pushSupported) subscribed.add(`${server}|${uri}`);
+    return pushSupported;
+  },
+  unsubscribeResource: async (server: string, uri: string) => { subscribed.delete(`${server}|${uri}`); },
+  isSubscribed: (server: string, uri: string) => subscribed.has(`${server}|${uri}`),
+  startRecording() {},
+  stopRecording() {},
+});
+
+const processed: unknown[] = [];
+const engine = Object.assign(new EventEmitter(), {
+  gmNotes: [] as unknown[],
+  setGmNotes(notes: unknown[]) { this.gmNotes = notes; },
+  setNpcCache() {},
+  setSceneIndex() {},
+  setFuzzyTable() {},
+  nextAdvice: [] as AdviceEnvelope[],
+  async process(batch: unknown) { processed.push(batch); return this.nextAdvice.splice(0); },
+  toolApprovals: new ToolApprovalQueue(),
+});
+
+const delivered: AdviceEnvelope[] = [];
+const systemMessages: string[] = [];
+const delivery = {
+  deliver: async (envelope: AdviceEnvelope) => { delivered.push(envelope); return 'foundry' as const; },
+  async deliverAll(envelopes: AdviceEnvelope[]) { const channels = []; for (const e of envelopes) channels.push(await this.deliver(e)); return channels; },
+  postSystemMessage: async (message: string) => { systemMessages.push(message); return true; },
+};
+
+const triggerHandlers = new EventEmitter();
+const triggers = Object.assign(triggerHandlers, {
+  segments: [] as unknown[],
+  gameEvents: [] as string[],
+  start() {},
+  stop() {},
+  resetSession() {},
+  onTranscriptUpdate(segs: unknown[]) { this.segments.push(...segs); },
+  onGameEvent(type: string) { this.gameEvents.push(type); },
+  checkPacingOverrun() {},
+  getPhoneticDiscoveries: () => [],
+  getEngagementReport: () => [],
+  setNpcCache() {}, setSceneIndex() {}, setBeatCache() {}, setWhisperStage() {},
+  backfillNpcMentions() {},
+  reloadFuzzyTable() {},
+  getPendingEvents: () => [],
+});
+
+const clock = new FakeClock();
+const pacing = new PacingStateManager();
+const memory = new AdviceMemoryBuffer(10);
+const imageQueue = new ImageQueue();
+const controller = new SessionController({
+  mcp: mcp as any,
+  pacing,
+  memory,
+  triggers: triggers as any,
+  engine: engine as any,
+  delivery: delivery as any,
+  imageQueue,
+  clock,
+  config,
+});
+
+// CJS mode doesn't support top-level await, so the session is driven inside runTests()
+async function runTests(): Promise<void> {
+  // ── Test 1: Standby → session detected ──────────────────────────────────────
+
+  console.log('\n── Test 1: Session detection ──');
+
+  controller.startWatching();
+  await flush();
+  assert(!controller.sessionActive, 'No session resource → stays in standby');
+  assert(clock.timers.size === 1, 'Session watch timer registered on injected clock');
+
+  resources['discord|session://active'] = JSON.stringify({ active: true, sessions: [{ id: 's1' }] });
+  resources['discord|session://s1/transcript'] = JSON.stringify([
+    { id: 1, transcript: 'Old chatter before we start', segmentStart: '2026-03-01T18:59:00Z', isFinal: true },
+  ]);
+  await controller.pollForSession();
+  await flush();
+  assert(controller.sessionActive, 'Active session starts work loops');
+  assert(clock.timers.size === 3, 'Watch timer replaced by transcript/game-state/pacing timers');
+  assert(controller.sessionId === 's1', 'Session id tracked');
+  assert(controller.getTranscript().length === 1, 'Historical segment seeded into cache');
+  assert(triggers.segments.length === 0, 'Historical segments do not feed triggers');
+
+  // ── Test 2: Incremental transcript ──────────────────────────────────────────
+
+  console.log('\n── Test 2: Incremental transcript ──');
+
+  resources['discord|session://s1/transcript'] = JSON.stringify([
+    { id: 1, transcript: 'Old chatter before we start', segmentStart: '2026-03-01T18:59:00Z', isFinal: true },
+    { id: 2, transcript: 'I open the door', segmentStart: '2026-03-01T19:01:00Z', displayName: 'Kai', isFinal: true },
+  ]);
+  await controller.pollTranscript();
+  assert(triggers.segments.length === 1, 'Only the new segment is fed to triggers');
+  assert(controller.sessionStats.speakerDistribution['Kai'] === 1, 'Speaker distribution tracked');
+
+  // ── Test 3: GM commands ─────────────────────────────────────────────────────
+
+  console.log('\n── Test 3: GM commands ──');
+
+  resources['discord|session://s1/text-events'] = JSON.stringify([
+    { id: 1, eventType: 'create', content: '/note the duke is lying', authorId: 'someone-else' },
+    { id: 2, eventType: 'create', content: '/note the duke is lying', authorId: 'gm-user' },
+  ]);
+  await controller.pollTranscript();
+  await flush();
+  assert(engine.gmNotes.length === 1, 'Only the GM note reaches the engine');
+  assert(systemMessages.some(m => m.startsWith('Note received (1/10)')), 'Note acknowledged');
+
+  controller.applyGmCommand({ type: 'act', args: ['1', '60'], raw: '/act 1 60', timestamp: clock.now().toISOString() });
+  assert(pacing.assistantState === AssistantState.ACTIVE, '/act activates from PREGAME');
+  assert(controller.sessionStats.activatedAt === clock.now().toISOString(), 'Activation time comes from injected clock');
+
+  resources['foundry|game://state'] = JSON.stringify({
+    connectedAt: 'x', scene: { id: 'scene-1', name: 'Gate' },
+    recentChat: [{ id: 'm1', content: 'hello', isGm: false }],
+  });
+  await controller.pollGameState();
+  resources['foundry|game://state'] = JSON.stringify({
+    connectedAt: 'x', scene: { id: 'scene-2', name: 'Hall' },
+    recentChat: [
+      { id: 'm1', content: 'hello', isGm: false },
+      { id: 'm2', content: '/sleep', isGm: true },
+      { id: 'm3', content: '5', flavor: 'Athletics vs Fair', speakerAlias: 'Mira', rolls: [{ formula: '4dF+3', total: 5 }] },
+    ],
+  });
+  await controller.pollGameState();
+  assert(triggers.gameEvents.includes('sceneChange'), 'Scene change forwarded to triggers');
+  assert(triggers.gameEvents.includes('fateRoll'), 'Fate roll in Foundry chat forwarded to triggers');
+  assert(pacing.assistantState === AssistantState.SLEEP, 'Foundry GM chat command applied');
+
+  assert(parseSessionEndTime('22:30', new Date('2026-03-01T23:00:00')) !== null, 'parseSessionEndTime accepts HH:MM');
+  assert(parseSessionEndTime('soon', clock.now()) === null, 'parseSessionEndTime rejects garbage');
+
+  // ── Test 4: Trigger batches ─────────────────────────────────────────────────
+
+  console.log('\n── Test 4: Trigger batches ──');
+
+  triggers.emit('trigger', {
+    events: [{
+      type: 'beat_reminder', priority: TriggerPriority.P2, timestamp: clock.now().toISOString(),
+      data: { bullets: ['Duke arrives'], scene_title: 'Gate', source_card: 'Plan+Gate' },
+    }],
+    flushedAt: clock.now().toISOString(),
+  });
+  await flush();
+  assert(delivered.some(e => e.tag === 'BEAT_REMINDER'), 'Beat reminder delivered without the LLM');
+  assert(processed.length === 0, 'Engine not called for pre-composed content');
+  assert(controller.sessionStats.beatRemindersDelivered === 1, 'Beat reminder counted');
+  assert(controller.getStatus().recentEnvelopes.some(r => r.envelope.tag === 'BEAT_REMINDER' && r.channel === 'foundry'),
+    'Delivered envelope recorded for the status view');
+
+  triggers.emit('trigger', {
+    events: [{ type: 'question', priority: TriggerPriority.P1, timestamp: clock.now().toISOString(), data: {} }],
+    flushedAt: clock.now().toISOString(),
+  });
+  await flush();
+  assert(processed.length === 1, 'Other events routed to the engine');
+  assert(controller.sessionStats.adviceSuppressed === 1, 'Null envelope counted as suppressed');
+
+  const withImage = (tag: string, path: string): AdviceEnvelope => ({
+    category: 'creative', tag, priority: TriggerPriority.P2, summary: tag, body: '', confidence: 0.8, source_cards: [],
+    image: { path, description: tag },
+  });
+  engine.nextAdvice = [withImage('MAP', 'maps/gate.webp'), withImage('PORTRAIT', 'npcs/duke.webp')];
+  triggers.emit('trigger', {
+    events: [{ type: 'question', priority: TriggerPriority.P1, timestamp: clock.now().toISOString(), data: {} }],
+    flushedAt: clock.now().toISOString(),
+  });
+  await flush();
+  assert(delivered.slice(-2).map(e => e.tag).join() === 'MAP,PORTRAIT', 'Envelopes delivered in the model\'s order');
+  assert(imageQueue.confirm()?.path === 'maps/gate.webp' && imageQueue.confirm()?.path === 'npcs/duke.webp' && !imageQueue.hasPending(),
+    'Every image suggestion queued, oldest confirmed first');
+
+  // ── Test 5: Session end ─────────────────────────────────────────────────────
+
+  console.log('\n── Test 5: Session end ──');
+
+  resources['discord|session://active'] = JSON.stringify({ active: false, sessions: [] });
+  await controller.pollTranscript();
+  assert(!controller.sessionActive, 'Inactive session stops work loops');
+  assert(clock.timers.size === 1, 'Work timers cleared and session watch resumed');
+  assert(controller.getTranscript().length === 0, 'Transcript cache reset');
+  assert(pacing.assistantState === AssistantState.PREGAME, 'Pacing reset to PREGAME');
+
+  // ── Test 6: Push updates ────────────────────────────────────────────────────
+
+  console.log('\n── Test 6: Push updates (resource subscriptions) ──');
+
+  pushSupported = true;
+  resources['discord|session://active'] = JSON.stringify({ active: true, sessions: [{ id: 's2' }] });
+  resources['discord|session://s2/transcript'] = JSON.stringify([
+    { id: 10, transcript: 'Welcome back everyone', segmentStart: '2026-03-01T20:00:00Z', isFinal: true },
+  ]);
+  mcp.emit('resourceUpdated', 'discord', 'session://active');
+  await flush();
+  await flush();
+  assert(controller.sessionActive, 'session://active notification starts the session');
+  assert(subscribed.has('discord|session://s2/transcript'), 'Subscribed to the session transcript');
+  assert(subscribed.has('foundry|game://state'), 'Subscribed to Foundry game state');
+
+  const segmentsBefore = triggers.segments.length;
+  resources['discord|session://s2/transcript'] = JSON.stringify([
+    { id: 10, transcript: 'Welcome back everyone', segmentStart: '2026-03-01T20:00:00Z', isFinal: true },
+    { id: 11, transcript: 'Who is the duke again?', segmentStart: '2026-03-01T20:00:05Z', isFinal: true },
+  ]);
+  mcp.emit('resourceUpdated', 'discord', 'session://s2/transcript');
+  await flush();
+  await flush();
+  assert(triggers.segments.length === segmentsBefore + 1, 'Transcript notification feeds the new segment immediately');
+
+  subscribed.add('discord|session://active');
+  const readsBefore = reads;
+  clock.advance(10_000);
+  clock.fireAll();
+  await flush();
+  assert(reads === readsBefore, 'Subscribed resources skip the 10s poll');
+
+  clock.advance(config.mcpSubscriptionPollSeconds * 1000);
+  clock.fireAll();
+  await flush();
+  assert(reads > readsBefore, 'Safety-net poll runs after MCP_SUBSCRIPTION_POLL_SECONDS');
+
+  resources['discord|session://active'] = JSON.stringify({ active: false, sessions: [] });
+  mcp.emit('resourceUpdated', 'discord', 'session://active');
+  await flush();
+  await flush();
+  assert(!controller.sessionActive, 'session://active notification ends the session');
+  assert(!subscribed.has('discord|session://s2/transcript'), 'Session transcript unsubscribed on session end');
+
+  controller.shutdown();
+  assert(clock.timers.size === 0, 'shutdown() clears all timers');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
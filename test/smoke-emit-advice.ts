@@ -0,0 +1,181 @@
+/**
+ * emit_advice smoke test — envelope validation (v7 categories included), the
+ * repair path for malformed JSON replies, the Anthropic provider forcing the
+ * final tool (and streaming its input), and the engine taking tool output.
+ *
+ * Run: npx tsx test/smoke-emit-advice.ts
+ */
+
+import { resetConfig } from '../src/config.js';
+import { EMIT_ADVICE_TOOL, parseAdviceEnvelope, repairEnvelopeJson, toAdviceEnvelope } from '../src/reasoning/envelope-parser.js';
+import { AnthropicProvider, MockProvider, type MockResponse } from '../src/llm/index.js';
+import { ReasoningEngine } from '../src/reasoning/engine.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { AssistantState, TriggerPriority, type TriggerBatch } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+
+const ENVELOPE = {
+  category: 'script', tag: 'SCRIPT', priority: 2, summary: 'Read the harbor description',
+  body: 'Fog rolls over the Gull.', confidence: 0.9, source_cards: ['Scenes+Harbor'],
+};
+
+const question = (): TriggerBatch => ({
+  events: [{ type: 'gm_question', priority: TriggerPriority.P1, source: 'transcript', data: { transcript: 'describe the harbor' }, timestamp: new Date().toISOString() }],
+  flushedAt: new Date().toISOString(),
+});
+
+const fakeMcp = {
+  isConnected: () => true,
+  readResource: async () => null,
+  callTool: async () => 'Harbor: fog, gulls',
+  getAllTools: () => [{ name: 'wiki__search', description: 'Search the wiki', input_schema: { type: 'object' } }],
+  recordLlmExchange() {},
+};
+
+const message = (content: unknown[], stop_reason: string) => ({
+  id: 'msg', type: 'message', role: 'assistant', model: 'claude-test', content, stop_reason, stop_sequence: null,
+  usage: { input_tokens: 100, output_tokens: 10 },
+});
+
+const request = {
+  system: 'sys', stablePrompt: '', prompt: 'ctx',
+  tools: [{ name: 'wiki__search', description: 'Search', inputSchema: { type: 'object' } }],
+  finalTool: EMIT_ADVICE_TOOL, maxTokens: 512, maxToolIterations: 5, promptCache: false,
+};
+
+function activePacing(): PacingStateManager {
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+  return pacing;
+}
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Envelope validation ───────────────────────────────────────────
+
+  console.log('\n── Test 1: Envelope validation ──');
+
+  assert(['beat', 'whisper'].every(category => toAdviceEnvelope({ ...ENVELOPE, category })?.category === category),
+    'v7 beat and whisper categories accepted');
+  const sloppy = toAdviceEnvelope({ ...ENVELOPE, priority: 9, confidence: 1.7, source_cards: ['A', 3], image: { description: 'no path' } });
+  assert(sloppy?.priority === 4 && sloppy.confidence === 1 && sloppy.source_cards.join() === 'A' && sloppy.image === undefined,
+    'Optional fields clamped and filtered');
+  assert(toAdviceEnvelope({ ...ENVELOPE, category: 'gossip' }) === null && toAdviceEnvelope({ ...ENVELOPE, tag: '' }) === null,
+    'Invalid category or tag rejected');
+  const schema = EMIT_ADVICE_TOOL.inputSchema as any;
+  assert(schema.properties.category.enum.includes('whisper') && schema.properties.image.required.includes('path'),
+    'Tool schema matches the envelope, image included');
+
+  // ── Test 2: Repair ────────────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Repair ──');
+
+  const full = JSON.stringify(ENVELOPE);
+  assert(parseAdviceEnvelope('```json\n' + full + '\n```')?.tag === 'SCRIPT', 'Code fences stripped');
+  assert(parseAdviceEnvelope(`Here is my advice:\n${full}\nHope that helps!`)?.tag === 'SCRIPT', 'Prose around the object ignored');
+  assert(parseAdviceEnvelope(full.replace('}', ',}'))?.summary === ENVELOPE.summary, 'Trailing comma removed');
+  const cut = parseAdviceEnvelope('{"category":"script","tag":"SCRIPT","priority":2,"summary":"Harbor","body":"Fog rolls over the');
+  assert(cut?.body === 'Fog rolls over the' && cut.priority === 2, 'Output cut off mid-string closed');
+  assert(repairEnvelopeJson('{"category":"pacing","tag":"PACING","summary":"Wrap up","confidence":0.') !== null,
+    'Output cut off mid-number salvaged');
+  assert(parseAdviceEnvelope('The players seem lost; maybe nudge them.') === null, 'Plain prose is not repaired');
+
+  // ── Test 3: Anthropic forced tool ─────────────────────────────────────────
+
+  console.log('\n── Test 3: Anthropic forced tool ──');
+
+  const sent: any[] = [];
+  const replies = [
+    message([{ type: 'tool_use', id: 'tu_1', name: 'wiki__search', input: { q: 'harbor' } }], 'tool_use'),
+    message([{ type: 'tool_use', id: 'tu_2', name: 'emit_advice', input: ENVELOPE }], 'tool_use'),
+  ];
+  const client = { messages: { create: async (params: any) => { sent.push(structuredClone(params)); return replies[sent.length - 1]; } } };
+  const executed: string[] = [];
+  const completion = await new AnthropicProvider(client as any, 'claude-test')
+    .complete(request, { executeTool: async call => { executed.push(call.name); return { content: 'Harbor: fog' }; } });
+  assert(sent[0].tools.map((t: any) => t.name).join() === 'wiki__search,emit_advice' && sent[0].tool_choice.type === 'any',
+    'emit_advice offered and a tool call required');
+  assert(completion.outputs?.[0]?.tag === 'SCRIPT' && completion.toolIterations === 1 && executed.join() === 'wiki__search',
+    'Final tool input returned, never executed');
+
+  sent.length = 0;
+  replies.reverse();
+  await new AnthropicProvider(client as any, 'claude-test').complete({ ...request, maxToolIterations: 0 }, { executeTool: async () => ({ content: '' }) });
+  assert(sent[0].tool_choice.type === 'tool' && sent[0].tool_choice.name === 'emit_advice', 'Last allowed call names emit_advice outright');
+
+  // ── Test 4: Streaming the tool input ──────────────────────────────────────
+
+  console.log('\n── Test 4: Streaming the tool input ──');
+
+  const json = JSON.stringify(ENVELOPE);
+  const streamingClient = {
+    messages: {
+      stream: () => {
+        const handlers: Record<string, (event: any) => void> = {};
+        return {
+          on(name: string, handler: (event: any) => void) { handlers[name] = handler; return this; },
+          async finalMessage() {
+            handlers.streamEvent?.({ type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'tu', name: 'emit_advice', input: {} } });
+            for (let i = 0; i < json.length; i += 20) {
+              handlers.streamEvent?.({ type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: json.slice(i, i + 20) } });
+            }
+            return message([{ type: 'tool_use', id: 'tu', name: 'emit_advice', input: ENVELOPE }], 'tool_use');
+          },
+        };
+      },
+    },
+  };
+  const snapshots: string[] = [];
+  const streamed = await new AnthropicProvider(streamingClient as any, 'claude-test')
+    .complete(request, { executeTool: async () => ({ content: '' }), onText: text => snapshots.push(text) });
+  assert(snapshots.length > 3 && snapshots[snapshots.length - 1] === json && streamed.outputs?.[0]?.tag === 'SCRIPT',
+    'Input JSON reported as it grows');
+
+  // ── Test 5: Engine ────────────────────────────────────────────────────────
+
+  console.log('\n── Test 5: Engine ──');
+
+  const run = async (...script: MockResponse[]) => {
+    const provider = new MockProvider(script);
+    const engine = new ReasoningEngine(fakeMcp as any, activePacing(), new AdviceMemoryBuffer(5), () => [], { provider });
+    return { envelope: (await engine.process(question()))[0] ?? null, provider };
+  };
+
+  const viaTool = await run({ toolCalls: [{ name: 'wiki__search', input: { q: 'harbor' } }] }, { toolCalls: [{ name: 'emit_advice', input: ENVELOPE }] });
+  assert(viaTool.envelope?.tag === 'SCRIPT' && viaTool.provider.requests[0].finalTool?.name === 'emit_advice', 'Advice taken from emit_advice');
+  const repaired = await run({ text: '{"category":"continuity","tag":"SEED","summary":"Plant the letter","body":"She finds a sealed let' });
+  assert(repaired.envelope?.tag === 'SEED' && repaired.envelope.body === 'She finds a sealed let', 'Truncated text reply repaired, not wrapped');
+  const prose = await run({ text: 'Maybe describe the fog.' });
+  assert(prose.envelope?.tag === 'FREETEXT', 'Plain prose still wrapped as free text');
+  const invalid = await run({ envelope: { ...ENVELOPE, category: 'gossip' } });
+  assert(invalid.envelope === null, 'Invalid tool input dropped');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,192 @@
+/**
+ * Engagement estimation smoke test — speaking rate, response latency to GM
+ * questions, question frequency and transcript dropout feeding HIGH/MEDIUM/LOW
+ * per mapped player; hysteresis (deadband + hold time); engagement_signals
+ * kept current with the GM's /engagement holding for the scene; tracking
+ * off without GM_IDENTIFIER; and the per-scene lines in the post-session QA
+ * report.
+ *
+ * Run: npx tsx test/smoke-engagement.ts
+ */
+
+import { resetConfig, getConfig } from '../src/config.js';
+import { EngagementEstimator } from '../src/state/engagement.js';
+import { SpotlightTracker } from '../src/state/spotlight.js';
+import { TriggerDetector } from '../src/reasoning/triggers.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { VirtualClock } from '../src/replay/virtual-clock.js';
+import { formatQaReport, type QaReport } from '../src/qa/post-session.js';
+import { createSessionStats } from '../src/qa/session-stats.js';
+import { AssistantState } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+process.env.GM_IDENTIFIER = 'gm';
+
+const START = new Date('2026-03-01T19:00:00Z');
+const MINUTE = 60_000;
+const MAPPINGS = { alice: 'Mira', bob: 'Tavi', carol: 'Oren' };
+const LINE = 'I slip past the guards and check the ledger on the desk';
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Features and levels ───────────────────────────────────────────
+
+  console.log('\n── Test 1: Features and levels ──');
+
+  const estimator = new EngagementEstimator({ windowMinutes: 10, dropoutMinutes: 10, holdMinutes: 3, userMappings: MAPPINGS });
+  assert(estimator.characterFor({ displayName: 'Bob' }) === 'Tavi' && estimator.characterFor({ displayName: 'Dana' }) === null,
+    'Only mapped players are estimated');
+  const spotlight = new SpotlightTracker({ windowMinutes: 10, quietMinutes: 10, minWords: 4, userMappings: MAPPINGS });
+  assert(['Bob', 'tavi', 'Dana', 'carol'].every(name => spotlight.characterFor({ displayName: name }) === estimator.characterFor({ displayName: name })),
+    'Same speaker → character mapping as the spotlight tracker');
+
+  let t = 0;
+  estimator.tick(0, true);
+  const minute = (lines: (m: number) => void) => {
+    lines(t);
+    t += MINUTE;
+    estimator.tick(t, true);
+  };
+  for (let m = 0; m < 4; m++) {
+    minute(() => {
+      estimator.record({ text: 'Mira, what do you do?', displayName: 'gm' }, true);
+      estimator.record({ text: LINE, displayName: 'alice' }, false);
+      estimator.record({ text: 'What does the ledger say?', displayName: 'alice' }, false);
+      estimator.record({ text: 'Tavi, anything?', displayName: 'gm' }, true);
+    });
+    minute(() => {
+      estimator.record({ text: 'Sure, I follow her in', displayName: 'bob' }, false);
+      estimator.record({ text: 'ok', displayName: 'carol' }, false);
+    });
+  }
+  assert(estimator.evaluate('Gate').length === 3, 'First estimate commits for every player at once');
+  const first = new Map(estimator.estimates().map(e => [e.character, e]));
+  assert(first.get('Mira')!.questions === 4 && first.get('Mira')!.responseSeconds === 0, 'Questions asked and instant answers counted');
+  assert(first.get('Tavi')!.responseSeconds === 60 && first.get('Oren')!.responseSeconds === null, 'Slow answers measured; no prompts → no latency');
+  assert(estimator.levels().Mira === 'HIGH' && estimator.levels().Tavi === 'LOW' && estimator.levels().Oren === 'LOW',
+    'Talkative, curious and responsive → HIGH; slow and terse → LOW');
+
+  // Oren drops out entirely; Tavi picks up
+  for (let m = 0; m < 12; m++) {
+    minute(() => {
+      estimator.record({ text: LINE, displayName: 'alice' }, false);
+      estimator.record({ text: `${LINE} and then I wait`, displayName: 'bob' }, false);
+      estimator.record({ text: 'Who wrote this?', displayName: 'bob' }, false);
+    });
+    estimator.evaluate('Vault');
+  }
+  const later = new Map(estimator.estimates().map(e => [e.character, e]));
+  assert(later.get('Oren')!.droppedOut && later.get('Oren')!.score === 0, 'No line for the dropout window → dropped out, score 0');
+  assert(estimator.levels().Tavi === 'HIGH', 'Tavi rises once the new level holds');
+
+  // ── Test 2: Hysteresis ────────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Hysteresis ──');
+
+  const steady = new EngagementEstimator({ windowMinutes: 10, dropoutMinutes: 30, holdMinutes: 3, userMappings: { alice: 'Mira', bob: 'Tavi' } });
+  let now = 0;
+  steady.tick(0, true);
+  const step = (aliceLines: number, bobLines: number) => {
+    for (let i = 0; i < aliceLines; i++) steady.record({ text: LINE, displayName: 'alice' }, false);
+    if (aliceLines > bobLines) steady.record({ text: 'What is behind the door?', displayName: 'alice' }, false);
+    for (let i = 0; i < bobLines; i++) steady.record({ text: LINE, displayName: 'bob' }, false);
+    now += MINUTE;
+    steady.tick(now, true);
+    return steady.evaluate('Harbor');
+  };
+  for (let m = 0; m < 5; m++) step(1, 1);
+  assert(steady.levels().Mira === 'MEDIUM' && steady.levels().Tavi === 'MEDIUM', 'Even talk → MEDIUM for both');
+  const flips: string[] = [];
+  for (let m = 0; m < 2; m++) flips.push(...step(3, 0).map(c => `${c.character}:${c.level}`));
+  for (let m = 0; m < 2; m++) flips.push(...step(1, 1).map(c => `${c.character}:${c.level}`));
+  assert(flips.length === 0, 'A brief swing does not change the level');
+  for (let m = 0; m < 8; m++) flips.push(...step(3, 0).map(c => `${c.character}:${c.level}`));
+  assert(flips.includes('Mira:HIGH'), 'A sustained swing commits after the hold time');
+
+  // ── Test 3: Pacing state ──────────────────────────────────────────────────
+
+  console.log('\n── Test 3: Pacing state ──');
+
+  const clock = new VirtualClock(START);
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+  pacing.advanceScene('Gate');
+  const detector = new TriggerDetector(pacing, {}, clock, { ...getConfig(), userMappings: MAPPINGS, spotlightTrackingEnabled: false });
+  detector.start();
+  const at = (minutes: number) => {
+    const until = START.getTime() + minutes * MINUTE;
+    while (clock.runNext(until)) { /* fire the 10s checks */ }
+    clock.advanceTo(until);
+  };
+  const say = (displayName: string, text = LINE) =>
+    detector.onTranscriptUpdate([{ text, userId: displayName, displayName, timestamp: clock.now().toISOString() }]);
+
+  detector.setEngagementOverride('carol', 'HIGH');
+  for (let m = 0; m < 6; m++) {
+    at(m);
+    say('alice');
+    say('alice', 'Can I read the ledger?');
+    say('bob', 'fine');
+  }
+  at(6);
+  assert(pacing.state.engagement_signals.Mira === 'HIGH' && pacing.state.engagement_signals.Tavi === 'LOW', 'engagement_signals estimated from the transcript');
+  assert(pacing.state.engagement_signals.Oren === 'HIGH', 'GM /engagement (by Discord name) holds within the scene');
+  pacing.advanceScene('Vault');
+  at(7);
+  at(8);
+  assert(pacing.state.engagement_signals.Oren === 'LOW', 'A new scene hands the player back to the estimator');
+  detector.stop();
+
+  const report = detector.getEngagementReport();
+  assert(report.map(r => r.scene).join() === 'Gate,Vault' && report[0].levels.Mira === 'HIGH', 'Levels logged per scene');
+
+  const noGmPacing = new PacingStateManager();
+  noGmPacing.startSession();
+  noGmPacing.transitionTo(AssistantState.ACTIVE);
+  const noGm = new TriggerDetector(noGmPacing, {}, clock, { ...getConfig(), gmIdentifier: '', userMappings: MAPPINGS, spotlightTrackingEnabled: false });
+  noGm.start();
+  noGm.onTranscriptUpdate([{ text: LINE, userId: 'alice', displayName: 'alice', timestamp: clock.now().toISOString() }]);
+  at(20);
+  noGm.stop();
+  assert(Object.keys(noGmPacing.state.engagement_signals).length === 0 && noGm.getEngagementReport().length === 0,
+    'No GM_IDENTIFIER → engagement tracking off');
+
+  // ── Test 4: QA report ─────────────────────────────────────────────────────
+
+  console.log('\n── Test 4: QA report ──');
+
+  const qa: QaReport = {
+    durationMinutes: 8, segmentCount: 18, speakerCount: 2, speakerDistribution: {},
+    stats: createSessionStats(), phoneticDiscoveries: [], fuzzyTableDelta: {}, fuzzyTablePersisted: false,
+    engagementByScene: report,
+  };
+  const text = formatQaReport(qa);
+  assert(text.includes('Engagement by Scene:') && text.includes('  Gate: Mira HIGH, Tavi LOW'), 'Per-scene engagement in the QA summary');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,197 @@
+/**
+ * Fact-check smoke test — proper-noun extraction, names resolved against the
+ * NPC cache, scene index, fuzzy table, context and wiki, pronunciation
+ * correction, the enforced wiki-first check, and FACT_CHECK_MODE in the engine.
+ *
+ * Run: npx tsx test/smoke-fact-check.ts
+ */
+
+import { resetConfig, getConfig } from '../src/config.js';
+import { FactChecker, extractNames } from '../src/reasoning/fact-check.js';
+import { ReasoningEngine } from '../src/reasoning/engine.js';
+import { MockProvider } from '../src/llm/index.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import {
+  AssistantState, TriggerPriority,
+  type AdviceEnvelope, type NpcCacheEntry, type SceneIndexEntry, type TriggerBatch,
+} from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+
+const npc = (display_name: string, pronunciation = '', aliases: string[] = []): NpcCacheEntry => ({
+  key: display_name.toLowerCase(), display_name, pronunciation, brief: '', full_card: '', aliases, served: false, last_served_at: null,
+});
+
+const NPCS = [npc('Kalyra Taris', 'kuh-LEER-uh TAR-iss'), npc('Vex', '', ['the Harbormaster'])];
+const SCENES: SceneIndexEntry[] = [
+  { id: 's1', title: 'The Drowned Market', card: 'Scenes+Market', keywords: [], npcs: ['Ossian'], served: false, served_at: null },
+];
+
+const advice = (body: string, source_cards: string[] = []): AdviceEnvelope => ({
+  category: 'script', tag: 'SCRIPT', priority: TriggerPriority.P3, summary: 'Introduce the contact', body, confidence: 0.8, source_cards,
+});
+
+const turn = (evidence = '', question = false, usedWiki = false) => ({ evidence, question, usedWiki });
+
+const question = (): TriggerBatch => ({
+  events: [{ type: 'gm_question', priority: TriggerPriority.P1, source: 'transcript', data: { transcript: 'who runs the docks?' }, timestamp: new Date().toISOString() }],
+  flushedAt: new Date().toISOString(),
+});
+
+/** Wiki with one card per name in `cards`; records every search and the most run at once. */
+function fakeWiki(cards: string[]) {
+  const searches: string[] = [];
+  const load = { inFlight: 0, peak: 0 };
+  return {
+    searches,
+    load,
+    isConnected: () => true,
+    readResource: async () => null,
+    getAllTools: () => [{ name: 'wiki__search_cards', description: 'Search cards', input_schema: { type: 'object' } }],
+    recordLlmExchange() {},
+    callTool: async (_name: string, args: Record<string, unknown>) => {
+      searches.push(String(args.query));
+      load.peak = Math.max(load.peak, ++load.inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      load.inFlight--;
+      const hits = cards.filter(c => c.toLowerCase().includes(String(args.query).toLowerCase()));
+      return { content: [{ type: 'text', text: hits.length > 0 ? hits.join('\n') : 'No cards found.' }] };
+    },
+  };
+}
+
+function checker(cards: string[] = []) {
+  const wiki = fakeWiki(cards);
+  const fc = new FactChecker(wiki as any, getConfig());
+  fc.setNpcCache(NPCS);
+  fc.setSceneIndex(SCENES);
+  fc.setFuzzyTable({ belton: 'veltin', 'carla terris': 'kalyra taris' });
+  return { fc, wiki };
+}
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Name extraction ───────────────────────────────────────────────
+
+  console.log('\n── Test 1: Name extraction ──');
+
+  const names = extractNames('Have Captain Vex meet Kalyra Taris. The GM spends a Fate point; NPC Ossian\'s crew waits.').map(m => m.name);
+  assert(names.includes('Kalyra Taris') && names.includes('Have Captain Vex'), 'Capitalized runs kept together');
+  assert(!names.some(n => /GM|NPC|Fate/.test(n)), 'ALL-CAPS tags and rules terms skipped');
+  assert(names.includes('Ossian'), 'Possessive stripped');
+  assert(extractNames('She asks about the Lord of Ash.').some(m => m.name === 'Lord of Ash'), 'Connectors inside a name kept');
+  const lines = extractNames('Introduce Kalyra\nVex waits at the gate.').map(m => m.name);
+  assert(lines.includes('Vex') && !lines.some(n => n.includes('Kalyra') && n.includes('Vex')), 'A line break ends a run (summary and body stay apart)');
+  assert(extractNames('Roll Athletics against Great opposition; a Boost or Stress box, Fair at best.').length === 0,
+    'Skills, ladder words and Fate terms skipped');
+
+  // ── Test 2: Known names ───────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Known names ──');
+
+  const { fc, wiki } = checker();
+  const known = await fc.check(advice('Have Captain Vex meet Kalyra Taris at The Drowned Market, where Ossian waits with Mira.'), turn('PCs: Mira'));
+  assert(known.issues.length === 0 && known.envelope.fact_check === undefined, 'Cache, scene index and context names pass');
+  assert(wiki.searches.length === 0, 'No wiki lookup for locally known names');
+  const opener = await fc.check(advice('Suddenly the Harbormaster arrives.'), turn());
+  assert(opener.issues.length === 0, 'Sentence-opening words and bare titles ignored');
+
+  // ── Test 3: Invented and conflicting names ────────────────────────────────
+
+  console.log('\n── Test 3: Invented and conflicting names ──');
+
+  const { fc: fc2, wiki: wiki2 } = checker(['Brother Aldric']);
+  const garbled = await fc2.check(advice('Remind them that Belton owes Vex money.'), turn());
+  assert(garbled.issues[0]?.kind === 'name_conflict' && garbled.issues[0].detail.includes('veltin'), 'STT garble flagged with the canonical name');
+  const nearMiss = await fc2.check(advice('Then Kalyra Tariss steps out of the crowd.'), turn());
+  assert(nearMiss.issues[0]?.kind === 'name_conflict' && nearMiss.issues[0].detail.includes('taris'), 'Near-miss of a cached NPC flagged');
+  const invented = await fc2.check(advice('Have Brother Aldric and Lady Serenwyn block the gate.'), turn());
+  assert(invented.issues.length === 1 && invented.issues[0].kind === 'unknown_name' && invented.issues[0].name === 'Lady Serenwyn',
+    'Name on no card flagged, wiki card name accepted');
+  assert(invented.envelope.body!.includes('⚠ Unverified: "Lady Serenwyn"'), 'Flag mode appends a warning');
+  await fc2.check(advice('Lady Serenwyn is still waiting, says Brother Aldric.'), turn());
+  assert(wiki2.searches.filter(q => q === 'Lady Serenwyn').length === 1, 'Wiki lookups cached per session');
+  const opening = await fc2.check(advice('Zorvath offers the party a deal.'), turn());
+  assert(opening.issues.length === 1 && opening.issues[0].kind === 'unknown_name' && opening.issues[0].name === 'Zorvath',
+    'One-word name opening a sentence still looked up and flagged');
+  const openingMiss = await fc2.check(advice('Kalyrra greets them at the gate.'), turn());
+  assert(openingMiss.issues[0]?.kind === 'name_conflict' && openingMiss.issues[0].detail.includes('kalyra'),
+    'One-word name opening a sentence still gets the near-miss check');
+  const { fc: fc3, wiki: wiki3 } = checker();
+  const several = await fc3.check(advice('Have Lord Orren, Lady Tamsin and Sir Hollis confront Lady Brisa.'), turn());
+  assert(wiki3.searches.length === 3 && wiki3.load.peak === 3, 'Wiki lookups run side by side, capped per envelope');
+  assert(several.issues.length === 3 && several.issues.every(i => i.kind === 'unknown_name'), 'Names past the cap stay unverified');
+
+  // ── Test 4: Pronunciation and wiki-first ──────────────────────────────────
+
+  console.log('\n── Test 4: Pronunciation and wiki-first ──');
+
+  const said = await fc.check(advice('Kalyra Taris (KAL-ih-ruh TAR-iss) greets them.'), turn());
+  assert(said.envelope.body === 'Kalyra Taris (kuh-LEER-uh TAR-iss) greets them.', 'Wrong pronunciation replaced with the cached one');
+  assert(said.issues[0]?.kind === 'pronunciation_mismatch' && !said.envelope.body!.includes('⚠'), 'Correction recorded, not flagged');
+  const same = await fc.check(advice('Kalyra Taris (kuh LEER uh TAR iss) greets them.'), turn());
+  assert(same.issues.length === 0, 'Same pronunciation in other spelling accepted');
+
+  const gap = await fc.check(advice('Vex runs the docks.'), turn('', true));
+  assert(gap.issues.some(i => i.kind === 'wiki_gap'), 'Question answered with names but no wiki → wiki_gap');
+  const sourced = await fc.check(advice('Vex runs the docks.', ['NPCs+Vex']), turn('', true));
+  const looked = await fc.check(advice('Vex runs the docks.'), turn('', true, true));
+  assert(!sourced.issues.length && !looked.issues.length, 'Source cards or a wiki lookup satisfy wiki-first');
+
+  // ── Test 5: Engine and FACT_CHECK_MODE ────────────────────────────────────
+
+  console.log('\n── Test 5: Engine and FACT_CHECK_MODE ──');
+
+  const envelope = JSON.stringify({
+    category: 'script', tag: 'SCRIPT', priority: 3, summary: 'Who runs the docks', confidence: 0.8, source_cards: ['NPCs+Vex'],
+    body: 'Vex sends Lady Serenwyn to meet them.',
+  });
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+
+  const run = async (mode: string) => {
+    process.env.FACT_CHECK_MODE = mode;
+    resetConfig();
+    const provider = new MockProvider([{ text: envelope }]);
+    const engine = new ReasoningEngine(fakeWiki([]) as any, pacing, new AdviceMemoryBuffer(5), () => [], { provider });
+    engine.setNpcCache(NPCS);
+    return (await engine.process(question()))[0] ?? null;
+  };
+
+  const flagged = await run('flag');
+  assert(flagged !== null && flagged.fact_check?.[0].name === 'Lady Serenwyn' && flagged.body!.includes('⚠ Unverified'), 'flag: delivered with a warning');
+  assert(await run('suppress') === null, 'suppress: advice dropped');
+  const unchecked = await run('off');
+  assert(unchecked !== null && unchecked.fact_check === undefined, 'off: no check');
+  process.env.FACT_CHECK_MODE = 'sometimes';
+  resetConfig();
+  assert(getConfig().factCheckMode === 'flag', 'Invalid FACT_CHECK_MODE → flag');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
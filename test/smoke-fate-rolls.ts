@@ -0,0 +1,151 @@
+/**
+ * Fate roll outcomes smoke test — reading rolls out of Foundry chat
+ * (structured Roll JSON and plain "4dF+3 = 5" text), the Fate ladder,
+ * opposition from the flavor, success with style / spectacular failure / tie
+ * classification, the P3 triggers they fire, and the summary the model sees.
+ *
+ * Run: npx tsx test/smoke-fate-rolls.ts
+ */
+
+import { resetConfig, getConfig } from '../src/config.js';
+import {
+  parseFateRoll, classifyFateRoll, isFateRoll, parseLadder, formatLadder, type FoundryChatRollMessage,
+} from '../src/reasoning/fate-rolls.js';
+import { TriggerDetector } from '../src/reasoning/triggers.js';
+import { ContextAssembler } from '../src/reasoning/context.js';
+import { mergeBatches } from '../src/reasoning/reasoning-queue.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { VirtualClock } from '../src/replay/virtual-clock.js';
+import { AssistantState, TriggerPriority, type TriggerEvent } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+process.env.GM_IDENTIFIER = 'gm';
+
+const START = new Date('2026-03-01T19:00:00Z');
+
+/** A Foundry roll message: four Fate dice plus a skill rating. */
+function rollMessage(dice: number[], rating: number, flavor: string, speakerAlias = 'Mira'): FoundryChatRollMessage {
+  const total = dice.reduce((a, b) => a + b, 0) + rating;
+  return {
+    content: String(total),
+    flavor,
+    speakerAlias,
+    rolls: [{
+      formula: `4dF + ${rating}`,
+      total,
+      terms: [{ class: 'FateDie', faces: 3, results: dice.map(result => ({ result, active: true })) }],
+    }],
+  };
+}
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Parsing ───────────────────────────────────────────────────────
+
+  console.log('\n── Test 1: Parsing ──');
+
+  assert(parseLadder('Great') === 4 && parseLadder('Good (+3)') === 3 && parseLadder('-1') === -1 && parseLadder('Huge') === null,
+    'Ladder words and numbers read');
+  assert(formatLadder(5) === 'Superb (+5)' && formatLadder(-2) === 'Terrible (-2)' && formatLadder(10) === '+10',
+    'Ladder formatting, numbers off the ladder');
+
+  const roll = parseFateRoll(rollMessage([1, 1, 0, 1], 3, '<h1>Athletics</h1><p>vs Fair (+2)</p>'));
+  assert(roll?.actor === 'Mira' && roll.skill === 'Athletics' && roll.dice === 3 && roll.total === 6 && roll.opposition === 2,
+    'Structured roll: actor, skill, dice, total, opposition');
+  const inline = parseFateRoll(rollMessage([0, 0, 0, 0], 2, 'Fight vs Great'));
+  assert(inline?.skill === 'Fight' && inline.opposition === 4, 'Opposition clause stripped from the skill');
+  const text = parseFateRoll({ content: '4dF+2 = 5', flavor: 'Will: difficulty +3', speakerAlias: 'Tavi' });
+  assert(text?.total === 5 && text.dice === null && text.skill === 'Will' && text.opposition === 3, 'Plain-text roll line');
+  assert(parseFateRoll({ content: 'Nice one!', speakerAlias: 'Tavi' }) === null, 'Ordinary chat is not a roll');
+  assert(parseFateRoll({ content: '14', rolls: [{ formula: '1d20+3', total: 14 }] }) === null, 'Non-Fate dice ignored');
+
+  // ── Test 2: Classification ────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Classification ──');
+
+  const style = classifyFateRoll(roll!);
+  assert(style?.outcome === 'success_with_style' && style.margin === 4, 'Success with style at 3+ shifts');
+  const spectacular = classifyFateRoll(parseFateRoll(rollMessage([-1, -1, -1, 0], 1, 'Notice vs Good'))!);
+  assert(spectacular?.outcome === 'spectacular_failure' && spectacular.margin === -5, 'Spectacular failure at 3+ shifts short');
+  const tie = classifyFateRoll(parseFateRoll(rollMessage([1, -1, 0, 0], 3, 'Rapport vs Good'))!);
+  assert(tie?.outcome === 'tie' && tie.margin === 0, 'Tie at 0 shifts');
+  assert(classifyFateRoll(parseFateRoll(rollMessage([1, 0, 0, 0], 3, 'Rapport vs Good'))!) === null, 'A plain success is not worth a trigger');
+  const blind = classifyFateRoll(parseFateRoll(rollMessage([1, 1, 1, 1], 2, 'Shoot'))!);
+  assert(blind?.outcome === 'success_with_style' && blind.margin === null, 'No opposition: +4 on the dice still counts');
+  assert(classifyFateRoll(parseFateRoll(rollMessage([1, 1, 1, 0], 2, 'Shoot'))!) === null, 'No opposition: anything short of ±4 is ignored');
+
+  // ── Test 3: Triggers ──────────────────────────────────────────────────────
+
+  console.log('\n── Test 3: Triggers ──');
+
+  const clock = new VirtualClock(START);
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  const detector = new TriggerDetector(pacing, {}, clock, getConfig());
+  detector.onGameEvent('fateRoll', { ...roll! });
+  assert(detector.getPendingEvents().length === 0, 'Suppressed before play starts');
+
+  pacing.transitionTo(AssistantState.ACTIVE);
+  detector.onGameEvent('fateRoll', { ...roll! });
+  detector.onGameEvent('fateRoll', { ...parseFateRoll(rollMessage([-1, -1, -1, 0], 1, 'Notice vs Good', 'Tavi'))! });
+  detector.onGameEvent('fateRoll', { ...parseFateRoll(rollMessage([1, 0, 0, 0], 3, 'Rapport vs Good'))! });
+  detector.onGameEvent('fateRoll', { actor: 'Mira', total: '7', dice: 4 });
+  const events = detector.getPendingEvents();
+  assert(events.map(e => e.type).join() === 'epic_success,spectacular_failure', 'One P3 trigger per notable roll');
+  assert(events.every(e => e.priority === TriggerPriority.P3 && e.source === 'foundry'), 'P3 from Foundry');
+  assert(isFateRoll({ ...roll! }) && !isFateRoll({ actor: 'Mira', total: '7', dice: 4 }) && !isFateRoll(null),
+    'Malformed roll data rejected by the type guard, not triggered');
+  assert(events[0].data.actor === 'Mira' && events[0].data.skill === 'Athletics' && events[0].data.margin === 4,
+    'Trigger carries actor, skill and margin');
+
+  const event = (actor: string): TriggerEvent => ({ ...events[0], data: { ...events[0].data, actor } });
+  const merged = mergeBatches(
+    { events: [event('Mira'), event('Tavi')], flushedAt: START.toISOString() },
+    { events: [event('Mira')], flushedAt: START.toISOString() },
+  );
+  assert(merged.events.length === 2, 'Queued rolls merge per actor');
+
+  // ── Test 4: Trigger summary ───────────────────────────────────────────────
+
+  console.log('\n── Test 4: Trigger summary ──');
+
+  const fakeMcp = { isConnected: () => true, readResource: async () => null, getAllTools: () => [] };
+  const assembler = new ContextAssembler(fakeMcp as any, new PacingStateManager(), new AdviceMemoryBuffer(5));
+  const summary: string = (assembler as any).summarizeTriggers({ events, flushedAt: START.toISOString() });
+  assert(summary.includes('P3 — Success with style: Mira rolled Athletics at Fantastic (+6) vs Fair (+2), 4 shifts, +3 on the dice'),
+    'Success with style described on the ladder');
+  assert(summary.includes('P3 — Spectacular failure: Tavi rolled Notice at Terrible (-2) vs Good (+3), 5 shifts short') && summary.includes('success at a cost'),
+    'Spectacular failure described with a cost prompt');
+  const blindSummary: string = (assembler as any).summarizeTriggers({
+    events: [{ type: 'epic_success', priority: TriggerPriority.P3, source: 'foundry', data: { ...blind! }, timestamp: START.toISOString() }],
+    flushedAt: START.toISOString(),
+  });
+  assert(blindSummary.includes('(no opposition stated), +4 on the dice'), 'Missing opposition said plainly');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
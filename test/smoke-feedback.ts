@@ -0,0 +1,304 @@
+/**
+ * GM feedback smoke test — /good and /bad parsing, the cross-session ratings
+ * store and its per-category policy, and the controller path: rating the
+ * last or an indexed envelope, Discord reactions, session stats, advice
+ * memory marks, pre-composed advice held back by the learned policy, and
+ * /feedback reset bringing a suppressed category back.
+ *
+ * Run: npx tsx test/smoke-feedback.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'node:events';
+import { resetConfig, getConfig } from '../src/config.js';
+import { parseGmCommand } from '../src/state/gm-commands.js';
+import { AdviceFeedbackStore, parseFeedbackArgs, type FeedbackPolicyOptions, type FeedbackRating } from '../src/state/feedback.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { SessionController } from '../src/session/controller.js';
+import { TriggerPriority } from '../src/types/index.js';
+import type { AdviceCategory, AdviceEnvelope } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const POLICY: FeedbackPolicyOptions = {
+  adapt: true, window: 10, minRatings: 4, suppressPercent: 80, raisePercent: 50, minConfidencePercent: 70,
+};
+
+function envelope(overrides: Partial<AdviceEnvelope> = {}): AdviceEnvelope {
+  return {
+    category: 'pacing',
+    tag: 'PACING',
+    priority: TriggerPriority.P3,
+    summary: 'Move things along',
+    body: 'The scene has run long.',
+    confidence: 0.6,
+    source_cards: [],
+    ...overrides,
+  };
+}
+
+let seq = 0;
+function rating(category: AdviceCategory, verdict: 'good' | 'bad', reason: FeedbackRating['reason'] = null): FeedbackRating {
+  seq++;
+  return {
+    ratedAt: new Date(Date.UTC(2026, 2, 1, 19, seq)).toISOString(),
+    sessionId: 's0',
+    deliveredAt: new Date(Date.UTC(2026, 2, 1, 18, seq)).toISOString(),
+    verdict,
+    reason,
+    category,
+    tag: category.toUpperCase(),
+    summary: `advice ${seq}`,
+  };
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+process.env.GM_IDENTIFIER = 'gm-user';
+process.env.STATE_PERSISTENCE_ENABLED = 'false';
+const config = getConfig();
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Command parsing ───────────────────────────────────────────────
+
+  console.log('\n── Test 1: Command parsing ──');
+
+  const bad = parseGmCommand('/bad too-late 2', '2026-03-01T19:00:00Z');
+  assert(bad?.type === 'bad' && bad.args.join(' ') === 'too-late 2', '/bad too-late 2 parses as a GM command');
+  assert(parseGmCommand('/good', '2026-03-01T19:00:00Z')?.type === 'good', '/good parses');
+
+  const args = parseFeedbackArgs(['3', 'wrong']);
+  assert(args?.reason === 'wrong' && args.back === 3, 'Reason and index accepted in either order');
+  assert(parseFeedbackArgs([])?.back === 1, 'No index → most recent envelope');
+  assert(parseFeedbackArgs(['meh']) === null, 'Unknown reason rejected');
+
+  // ── Test 2: Store policy ──────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Store policy ──');
+
+  const store = new AdviceFeedbackStore(null, POLICY);
+  for (let i = 0; i < 3; i++) store.record(rating('pacing', 'bad'));
+  assert(store.policy('pacing').action === 'none', 'No adaptation below FEEDBACK_MIN_RATINGS');
+  store.record(rating('pacing', 'good'));
+  const raised = store.policy('pacing');
+  assert(raised.action === 'raise_confidence' && raised.minConfidence === 0.7, '75% bad → confidence floor raised');
+  assert(store.gate(envelope({ confidence: 0.6 }))?.includes('floor') === true, 'Low-confidence envelope held back');
+  assert(store.gate(envelope({ confidence: 0.9 })) === null, 'Confident envelope delivered');
+
+  for (let i = 0; i < 4; i++) store.record(rating('pacing', 'bad', 'too-late'));
+  assert(store.policy('pacing').action === 'suppress', '≥80% bad → category suppressed');
+  assert(store.gate(envelope({ confidence: 1 })) !== null, 'Suppressed category held back regardless of confidence');
+  assert(store.gate(envelope({ priority: TriggerPriority.P1 })) === null, 'P1 answers are never held back');
+  assert(store.gate(envelope({ category: 'continuity' })) === null, 'Other categories unaffected');
+
+  const context = store.formatForContext();
+  assert(context.includes('[GM FEEDBACK]') && context.includes('pacing: 1 good / 7 bad (4 too late) — suppressed'),
+    'Context block summarizes ratings and effect');
+
+  const recordOnly = new AdviceFeedbackStore(null, { ...POLICY, adapt: false });
+  for (let i = 0; i < 5; i++) recordOnly.record(rating('pacing', 'bad'));
+  assert(recordOnly.policy('pacing').action === 'none', 'FEEDBACK_ADAPT_ENABLED=false only records');
+
+  // ── Test 3: Persistence across sessions ───────────────────────────────────
+
+  console.log('\n── Test 3: Persistence across sessions ──');
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'magi-feedback-'));
+  try {
+    const file = path.join(dir, 'nested', 'feedback.json');
+    const first = new AdviceFeedbackStore(file, POLICY);
+    first.load();
+    const r = rating('continuity', 'bad', 'wrong');
+    first.record(r);
+    first.record({ ...r, verdict: 'good', reason: null });
+    assert(first.size === 1, 'Re-rating the same envelope replaces the earlier rating');
+
+    const reloaded = new AdviceFeedbackStore(file, POLICY);
+    reloaded.load();
+    assert(reloaded.size === 1 && reloaded.tallies('tag').CONTINUITY?.good === 1, 'Ratings reload in a new process');
+
+    for (let i = 0; i < 4; i++) reloaded.record(rating('continuity', 'bad'));
+    assert(reloaded.policy('continuity').action === 'suppress', 'Continuity suppressed before the reset');
+    assert(reloaded.reset('continuity', new Date(Date.UTC(2026, 2, 2)).toISOString()), 'Reset accepted for a rated category');
+    assert(!reloaded.reset('unrated', new Date(Date.UTC(2026, 2, 2)).toISOString()), 'Reset refused for a category with no ratings');
+    const afterReset = new AdviceFeedbackStore(file, POLICY);
+    afterReset.load();
+    assert(afterReset.policy('continuity').action === 'none' && afterReset.tallies('category').continuity?.bad === 4,
+      'Reset persists: policy starts over, all-time tallies kept');
+
+    fs.writeFileSync(file, '{broken');
+    const broken = new AdviceFeedbackStore(file, POLICY);
+    broken.load();
+    assert(broken.size === 0, 'Corrupt file → start fresh (non-throwing)');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  // ── Test 4: Controller ────────────────────────────────────────────────────
+
+  console.log('\n── Test 4: Controller ──');
+
+  const resources: Record<string, string> = {
+    'discord|session://active': JSON.stringify({ active: true, sessions: [{ id: 's1' }] }),
+    'discord|session://s1/transcript': JSON.stringify([
+      { id: 1, transcript: 'Welcome back', segmentStart: '2026-03-01T19:00:00Z', userId: 'gm-user', isFinal: true },
+    ]),
+  };
+  const mcp = Object.assign(new EventEmitter(), {
+    isConnected: () => true,
+    readResource: async (server: string, uri: string) => resources[`${server}|${uri}`] ?? null,
+    callTool: async () => ({ content: [] }),
+    subscribeResource: async () => false,
+    unsubscribeResource: async () => {},
+    isSubscribed: () => false,
+    startRecording() {},
+    stopRecording() {},
+  });
+
+  const queue: AdviceEnvelope[] = [];
+  const engine = Object.assign(new EventEmitter(), {
+    setGmNotes() {}, setNpcCache() {}, setSceneIndex() {}, setFuzzyTable() {},
+    async process() { return queue.splice(0, 1); },
+  });
+
+  let nextChannel: 'foundry' | 'discord' = 'foundry';
+  const messageIds = new Map<AdviceEnvelope, string>();
+  const delivered: AdviceEnvelope[] = [];
+  const delivery = {
+    deliver: async (env: AdviceEnvelope) => {
+      delivered.push(env);
+      if (nextChannel === 'discord') messageIds.set(env, `msg-${delivered.length}`);
+      return nextChannel;
+    },
+    async deliverAll(envs: AdviceEnvelope[]) { const channels = []; for (const env of envs) channels.push(await this.deliver(env)); return channels; },
+    discordMessageId: (env: AdviceEnvelope) => messageIds.get(env) ?? null,
+    postSystemMessage: async () => true,
+  };
+
+  const triggers = Object.assign(new EventEmitter(), {
+    start() {}, stop() {}, resetSession() {},
+    onTranscriptUpdate() {}, onGameEvent() {}, checkPacingOverrun() {},
+    getPhoneticDiscoveries: () => [], getEngagementReport: () => [],
+    setNpcCache() {}, setSceneIndex() {}, setBeatCache() {}, setWhisperStage() {},
+    backfillNpcMentions() {}, reloadFuzzyTable() {},
+    getPendingEvents: () => [],
+  });
+
+  const feedback = new AdviceFeedbackStore(null, POLICY);
+  const memory = new AdviceMemoryBuffer(10);
+  const controller = new SessionController({
+    mcp: mcp as any,
+    pacing: new PacingStateManager(),
+    memory,
+    triggers: triggers as any,
+    engine: engine as any,
+    delivery: delivery as any,
+    feedback,
+    config,
+  });
+
+  await controller.pollForSession();
+  await flush();
+  assert(controller.sessionId === 's1', 'Session started');
+
+  const batch = { events: [{ type: 'silence_detection', priority: TriggerPriority.P4, data: {}, timestamp: '' }], flushedAt: '' } as any;
+  const first = envelope({ tag: 'PACING', summary: 'Wrap the scene' });
+  const second = envelope({ category: 'script', tag: 'NPC_BRIEF', summary: 'Voice of the duke' });
+  for (const env of [first, second]) {
+    memory.push(env);
+    queue.push(env);
+    await controller.handleTriggerBatch(batch);
+  }
+
+  controller.applyGmCommand(parseGmCommand('/bad too-late 2', '')!);
+  controller.applyGmCommand(parseGmCommand('/good', '')!);
+  const stats = controller.sessionStats.feedback;
+  assert(stats.byCategory.pacing?.bad === 1 && stats.byCategory.pacing.tooLate === 1, '/bad too-late 2 rates the envelope before last');
+  assert(stats.byTag.NPC_BRIEF?.good === 1, '/good rates the latest envelope, tallied per tag');
+  assert(memory.formatForContext().includes('Wrap the scene (pacing') && memory.formatForContext().includes('GM rated: bad (too-late)'),
+    'Advice memory carries the rating into context');
+  assert(feedback.size === 2, 'Ratings recorded in the cross-session store');
+
+  controller.applyGmCommand(parseGmCommand('/bad 2', '')!);
+  assert(stats.byCategory.pacing.bad === 1 && stats.byCategory.pacing.tooLate === 0 && feedback.size === 2,
+    'Re-rating replaces the earlier verdict');
+  controller.applyGmCommand(parseGmCommand('/good 9', '')!);
+  assert(feedback.size === 2, 'Out-of-range index ignored');
+
+  nextChannel = 'discord';
+  const third = envelope({ category: 'creative', tag: 'LORE', summary: 'The old war' });
+  queue.push(third);
+  await controller.handleTriggerBatch(batch);
+  const status = controller.getStatus();
+  assert(status.recentEnvelopes[2]?.discordMessageId === 'msg-3', 'Discord message id kept with the delivered envelope');
+
+  resources['discord|session://s1/text-events'] = JSON.stringify([
+    { id: 1, eventType: 'reaction_add', messageId: 'msg-3', emoji: '👎', authorId: 'someone-else' },
+    { id: 2, eventType: 'reaction_add', messageId: 'msg-3', emoji: '❌', authorId: 'gm-user' },
+  ]);
+  await controller.pollTranscript();
+  assert(stats.byCategory.creative?.bad === 1 && stats.byCategory.creative.wrong === 1, 'GM ❌ reaction rates the envelope as wrong');
+  assert(controller.getStatus().recentEnvelopes[2].rating?.reason === 'wrong', 'Rating shown on the recent envelope');
+
+  // Teach the store that beats are unwanted, then check pre-composed delivery
+  for (let i = 0; i < 4; i++) feedback.record(rating('beat', 'bad'));
+  const before = delivered.length;
+  await controller.handleTriggerBatch({
+    events: [{
+      type: 'beat_reminder',
+      priority: TriggerPriority.P2,
+      data: { bullets: ['Door creaks'], scene_title: 'Crypt', source_card: 'Crypt' },
+      timestamp: '',
+    }],
+    flushedAt: '',
+  } as any);
+  assert(delivered.length === before, 'Suppressed category also holds back pre-composed beats');
+  assert(controller.getStatus().feedbackPolicies.some(p => p.category === 'beat' && p.action === 'suppress'),
+    'Status exposes the learned per-category policy');
+
+  controller.applyGmCommand(parseGmCommand('/feedback reset beat', '')!);
+  await controller.handleTriggerBatch({
+    events: [{
+      type: 'beat_reminder',
+      priority: TriggerPriority.P2,
+      data: { bullets: ['Bells toll'], scene_title: 'Belfry', source_card: 'Belfry' },
+      timestamp: '',
+    }],
+    flushedAt: '',
+  } as any);
+  assert(delivered.length === before + 1 && delivered[delivered.length - 1].category === 'beat',
+    '/feedback reset brings a suppressed category back');
+  assert(!controller.getStatus().feedbackPolicies.some(p => p.category === 'beat' && p.action === 'suppress'),
+    'Status shows the reset policy');
+
+  controller.shutdown();
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
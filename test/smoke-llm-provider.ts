@@ -0,0 +1,196 @@
+/**
+ * LLM provider smoke test — LLM_PROVIDER parsing, the scripted mock driving
+ * the engine through real tool calls, mock script files, and the
+ * OpenAI-compatible provider's tool loop against a local fake server.
+ *
+ * Run: npx tsx test/smoke-llm-provider.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { getConfig, resetConfig } from '../src/config.js';
+import { createLlmProvider, MockProvider, OpenAiCompatibleProvider, loadMockScript, type LlmCallReport } from '../src/llm/index.js';
+import { ReasoningEngine } from '../src/reasoning/engine.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { AssistantState, TriggerPriority } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.LLM_PROVIDER = 'mock';
+
+const question = () => ({
+  events: [{ type: 'gm_question' as const, priority: TriggerPriority.P1, source: 'transcript' as const, data: {}, timestamp: new Date().toISOString() }],
+  flushedAt: new Date().toISOString(),
+});
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Provider selection ────────────────────────────────────────────
+
+  console.log('\n── Test 1: Provider selection ──');
+
+  const config = getConfig();
+  assert(config.llmProvider === 'mock' && createLlmProvider(config).name === 'mock', 'LLM_PROVIDER=mock builds the mock provider');
+  assert(config.openaiCompatBaseUrl === 'http://127.0.0.1:11434/v1', 'OpenAI-compatible base URL defaults to a local server');
+
+  resetConfig();
+  process.env.LLM_PROVIDER = 'gpt-please';
+  assert(getConfig().llmProvider === 'anthropic', 'Unknown provider falls back to anthropic');
+  resetConfig();
+  process.env.LLM_PROVIDER = 'openai-compatible';
+  process.env.OPENAI_COMPAT_MODEL = 'qwen2.5:14b';
+  const local = createLlmProvider(getConfig());
+  assert(local.name === 'openai-compatible' && local.model === 'qwen2.5:14b', 'openai-compatible uses OPENAI_COMPAT_MODEL');
+  resetConfig();
+  process.env.LLM_PROVIDER = 'mock';
+
+  // ── Test 2: Scripted mock through the engine ──────────────────────────────
+
+  console.log('\n── Test 2: Scripted mock through the engine ──');
+
+  const toolCalls: string[] = [];
+  const fakeMcp = {
+    isConnected: () => true,
+    readResource: async () => null,
+    getAllTools: () => [{ name: 'wiki__search', description: 'Search the wiki', input_schema: { type: 'object' } }],
+    callTool: async (name: string, args: Record<string, unknown>) => {
+      toolCalls.push(`${name}:${args.q}`);
+      return 'x'.repeat(6000);
+    },
+    recordLlmExchange() {},
+  };
+  const mock = new MockProvider([
+    { toolCalls: [{ name: 'wiki__search', input: { q: 'harbor' } }, { name: 'wiki__search', input: { q: 'harbor' } }] },
+    {
+      envelope: {
+        category: 'continuity', tag: 'HARBOR_DEBT', priority: 1, summary: 'Mira still owes the harbormaster',
+        body: 'She borrowed 20 silver in session 3.', confidence: 0.8, source_cards: ['NPCs+Harbormaster'],
+      },
+      usage: { inputTokens: 900, outputTokens: 60 },
+    },
+  ]);
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+  const engine = new ReasoningEngine(fakeMcp as any, pacing, new AdviceMemoryBuffer(10), () => [], { provider: mock });
+  const usage: number[] = [];
+  engine.on('usage', u => usage.push(u.inputTokens));
+
+  const [envelope] = await engine.process(question());
+  assert(envelope?.tag === 'HARBOR_DEBT' && envelope.source_cards[0] === 'NPCs+Harbormaster', 'Scripted envelope becomes advice');
+  // The fact-check stage may look up names too (wiki__search_cards)
+  assert(toolCalls.filter(c => c.startsWith('wiki__search:')).length === 1, 'Tool call reached MCP once');
+  assert(mock.toolExchanges[1]?.outcome.isError === true, 'Identical repeat call refused by the engine');
+  assert(mock.toolExchanges[0]?.outcome.content.includes('[Result truncated.'), 'Oversized tool result truncated');
+  assert(mock.requests[0]?.tools[0]?.name === 'wiki__search' && mock.requests[0].system.length > 0, 'Tools and system prompt passed through');
+  assert(usage.length === 1 && usage[0] === 900, 'Scripted usage reported once');
+  assert(mock.remaining === 0 && (await engine.process(question())).length === 0, 'Exhausted script answers NO_ADVICE');
+
+  // ── Test 3: Mock script files ─────────────────────────────────────────────
+
+  console.log('\n── Test 3: Mock script files ──');
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gm-mock-'));
+  const scriptPath = path.join(dir, 'script.json');
+  fs.writeFileSync(scriptPath, JSON.stringify({
+    loop: true,
+    responses: [{ text: 'plain words' }, { bogus: true }, { toolCalls: [{ name: 'wiki__search' }] }],
+  }));
+  const script = loadMockScript(scriptPath);
+  assert(script.responses.length === 2 && script.loop, 'Valid responses kept, unknown shapes skipped');
+  fs.writeFileSync(scriptPath, '{ not json');
+  assert(loadMockScript(scriptPath).responses.length === 0, 'Malformed file → empty script');
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  const looping = new MockProvider([{ text: 'one' }, { text: 'two' }], { loop: true });
+  const hooks = { executeTool: async () => ({ content: '' }) };
+  const request = { system: '', stablePrompt: '', prompt: '', tools: [], maxTokens: 100, maxToolIterations: 5, promptCache: false };
+  const texts: string[] = [];
+  for (let i = 0; i < 3; i++) texts.push((await looping.complete(request, hooks)).text);
+  assert(texts.join(',') === 'one,two,one', 'Looping script starts over');
+
+  // ── Test 4: OpenAI-compatible provider ────────────────────────────────────
+
+  console.log('\n── Test 4: OpenAI-compatible provider ──');
+
+  const bodies: any[] = [];
+  const auth: Array<string | undefined> = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      bodies.push(body);
+      auth.push(req.headers.authorization);
+      const message = bodies.length === 1
+        ? { content: null, tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'wiki__search', arguments: '{"q":"docks"}' } },
+          { id: 'call_2', type: 'function', function: { name: 'wiki__search', arguments: '{oops' } },
+        ] }
+        : { content: '  {"category":"none","tag":"NO_ADVICE"}  ' };
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ choices: [{ message }], usage: { prompt_tokens: 300, completion_tokens: 20 } }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  try {
+    const provider = new OpenAiCompatibleProvider({ baseUrl: `http://127.0.0.1:${port}/v1/`, model: 'llama3.1:8b', apiKey: 'local-key' });
+    const executed: string[] = [];
+    const reports: LlmCallReport[] = [];
+    const completion = await provider.complete(
+      { ...request, system: 'sys', prompt: 'ctx', tools: [{ name: 'wiki__search', description: 'Search', inputSchema: { type: 'object' } }], maxTokens: 256 },
+      {
+        executeTool: async call => { executed.push(String(call.input.q)); return { content: 'Docks: smugglers' }; },
+        onCall: report => reports.push(report),
+      },
+    );
+    assert(completion.text === '{"category":"none","tag":"NO_ADVICE"}' && completion.toolIterations === 1, 'Tool loop ends with trimmed text');
+    assert(bodies[0].tools[0].function.name === 'wiki__search' && bodies[0].messages[0].role === 'system', 'Function tools and system message sent');
+    assert(executed.join(',') === 'docks', 'Bad tool arguments never reach the executor');
+    const toolMessages = bodies[1].messages.filter((m: any) => m.role === 'tool');
+    assert(toolMessages.length === 2 && toolMessages[1].content.includes('not valid JSON'), 'Both tool results sent back');
+    assert(auth[0] === 'Bearer local-key', 'API key sent as a bearer token');
+    assert(reports.length === 2 && reports[0].usage?.inputTokens === 300 && reports[0].usage.model === 'llama3.1:8b', 'Each call reports usage');
+
+    server.close();
+    let threw = false;
+    try {
+      await provider.complete({ ...request, tools: [] }, { executeTool: hooks.executeTool, onCall: r => reports.push(r) });
+    } catch {
+      threw = true;
+    }
+    assert(threw && reports[reports.length - 1].error !== undefined, 'Unreachable server throws and reports the error');
+  } finally {
+    server.close();
+  }
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
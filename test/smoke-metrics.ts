@@ -0,0 +1,234 @@
+/**
+ * Metrics smoke test — Prometheus text rendering, cooldown deferrals from the
+ * trigger detector, controller/engine/delivery instrumentation, and the
+ * GET /metrics listener, separate from the control server.
+ *
+ * Run: npx tsx test/smoke-metrics.ts
+ */
+
+import { EventEmitter } from 'node:events';
+import { getConfig, resetConfig } from '../src/config.js';
+import { MetricsRegistry } from '../src/metrics/registry.js';
+import { AssistantMetrics } from '../src/metrics/index.js';
+import { MetricsServer } from '../src/metrics/server.js';
+import { ControlServer } from '../src/api/control-server.js';
+import { SessionController } from '../src/session/controller.js';
+import { ReasoningEngine } from '../src/reasoning/engine.js';
+import { AnthropicProvider } from '../src/llm/index.js';
+import { TriggerDetector } from '../src/reasoning/triggers.js';
+import { AdviceDelivery } from '../src/output/index.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { VirtualClock } from '../src/replay/virtual-clock.js';
+import { AssistantState, TriggerPriority, type AdviceEnvelope } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+process.env.MIN_ADVICE_INTERVAL_SECONDS = '180';
+process.env.EVENT_BATCH_WINDOW_SECONDS = '30';
+getConfig();
+
+const envelope: AdviceEnvelope = {
+  category: 'script',
+  tag: 'NPC_LINE',
+  priority: TriggerPriority.P3,
+  summary: 'The harbor guard wants a bribe',
+  body: 'He asks for two silver.',
+  confidence: 0.8,
+  source_cards: ['Harbor Guard'],
+};
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Text exposition ───────────────────────────────────────────────
+
+  console.log('\n── Test 1: Text exposition ──');
+
+  const registry = new MetricsRegistry();
+  const counter = registry.counter('demo_total', 'A demo counter.', ['kind']);
+  const histogram = registry.histogram('demo_seconds', 'A demo histogram.', ['kind'], [1, 5]);
+  counter.inc({ kind: 'a' });
+  counter.inc({ kind: 'a' }, 2);
+  counter.inc({ kind: 'say "hi"\\' });
+  counter.inc({ kind: 'a' }, -1);
+  histogram.observe({ kind: 'a' }, 0.5);
+  histogram.observe({ kind: 'a' }, 3);
+  histogram.observe({ kind: 'a' }, 9);
+  const text = registry.render();
+
+  assert(text.includes('# TYPE demo_total counter') && text.includes('demo_total{kind="a"} 3'), 'Counter series rendered; negative increments ignored');
+  assert(text.includes('demo_total{kind="say \\"hi\\"\\\\"} 1'), 'Label values escaped');
+  assert(text.includes('demo_seconds_bucket{kind="a",le="1"} 1') && text.includes('demo_seconds_bucket{kind="a",le="5"} 2') &&
+    text.includes('demo_seconds_bucket{kind="a",le="+Inf"} 3'), 'Histogram buckets are cumulative with +Inf');
+  assert(text.includes('demo_seconds_sum{kind="a"} 12.5') && text.includes('demo_seconds_count{kind="a"} 3'), 'Histogram sum and count');
+  let duplicate = false;
+  try { registry.counter('demo_total', 'again'); } catch { duplicate = true; }
+  assert(duplicate, 'Registering a name twice throws');
+
+  // ── Test 2: Cooldown deferrals ────────────────────────────────────────────
+
+  console.log('\n── Test 2: Cooldown deferrals ──');
+
+  const clock = new VirtualClock(new Date('2026-03-01T19:00:00Z'));
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+  const detector = new TriggerDetector(pacing, {}, clock);
+  const deferrals: number[] = [];
+  detector.on('deferred', pending => deferrals.push(pending));
+  const addP3 = () => (detector as any).addEvent({
+    type: 'pacing_alert', priority: TriggerPriority.P3, source: 'timer', data: {}, timestamp: clock.now().toISOString(),
+  });
+
+  addP3();
+  clock.advanceTo(clock.now().getTime() + 31_000);
+  while (clock.runNext(clock.now().getTime())) { /* drain */ }
+  addP3();
+  clock.advanceTo(clock.now().getTime() + 31_000);
+  while (clock.runNext(clock.now().getTime())) { /* drain */ }
+  assert(deferrals.length === 1 && deferrals[0] === 1, 'Flush inside the cooldown emits one deferral with the pending count');
+  detector.stop();
+
+  // ── Test 3: Pipeline instrumentation ──────────────────────────────────────
+
+  console.log('\n── Test 3: Pipeline instrumentation ──');
+
+  const metrics = new AssistantMetrics();
+  const tableMetrics = metrics.pipeline('tuesday');
+
+  const fakeMcp = Object.assign(new EventEmitter(), {
+    isConnected: () => false,
+    readResource: async () => { throw new Error('offline'); },
+    callTool: async () => ({ content: [] }),
+    getAllTools: () => [],
+    subscribeResource: async () => false,
+    unsubscribeResource: async () => {},
+    isSubscribed: () => false,
+    recordLlmExchange() {},
+    startRecording() {},
+    stopRecording() {},
+  });
+
+  const fakeClient = {
+    messages: {
+      create: async () => ({
+        id: 'msg_1', type: 'message', role: 'assistant', model: 'claude-test',
+        content: [{ type: 'text', text: JSON.stringify(envelope) }],
+        stop_reason: 'end_turn', stop_sequence: null,
+        usage: { input_tokens: 1200, output_tokens: 80 },
+      }),
+    },
+  };
+  const memory = new AdviceMemoryBuffer(10);
+  const engine = new ReasoningEngine(fakeMcp as any, pacing, memory, () => [], {
+    provider: new AnthropicProvider(fakeClient as any, 'claude-test'), metrics: tableMetrics,
+  });
+
+  const [result] = await engine.process({
+    events: [{ type: 'gm_question', priority: TriggerPriority.P1, source: 'transcript', data: {}, timestamp: new Date().toISOString() }],
+    flushedAt: new Date().toISOString(),
+  });
+  assert(result?.tag === 'NPC_LINE', 'Engine produced advice');
+  const model = 'claude-test';
+  assert(metrics.llmTokens.get({ pipeline: 'tuesday', model, direction: 'input' }) === 1200 &&
+    metrics.llmTokens.get({ pipeline: 'tuesday', model, direction: 'output' }) === 80, 'Token usage counted by direction');
+  assert(metrics.reasoningDuration.count({ pipeline: 'tuesday', outcome: 'advice' }) === 1 &&
+    metrics.toolIterations.count({ pipeline: 'tuesday' }) === 1, 'Reasoning latency and tool iterations observed');
+
+  await engine.process({
+    events: [{ type: 'gm_question', priority: TriggerPriority.P1, source: 'transcript', data: {}, timestamp: new Date().toISOString() }],
+    flushedAt: new Date().toISOString(),
+  });
+  assert(metrics.reasoningDuration.count({ pipeline: 'tuesday', outcome: 'duplicate' }) === 1, 'Dedup outcome labelled');
+
+  resetConfig();
+  process.env.DRY_RUN = 'true';
+  const delivery = new AdviceDelivery(fakeMcp as any, getConfig(), tableMetrics);
+  await delivery.deliver(envelope);
+  assert(metrics.deliveries.get({ pipeline: 'tuesday', channel: 'foundry', outcome: 'dry_run' }) === 1, 'Dry-run deliveries counted');
+  resetConfig();
+  delete process.env.DRY_RUN;
+  getConfig();
+
+  const triggers = Object.assign(new EventEmitter(), {
+    start() {}, stop() {}, resetSession() {},
+    getPendingEvents: () => [],
+  });
+  const controller = new SessionController({
+    mcp: fakeMcp as any,
+    pacing,
+    memory,
+    triggers: triggers as any,
+    engine: Object.assign(new EventEmitter(), { async process() { return []; } }) as any,
+    delivery: { deliver: async () => 'foundry', discordMessageId: () => null } as any,
+    metrics: tableMetrics,
+  });
+  triggers.emit('trigger', {
+    events: [
+      { type: 'npc_mention', priority: TriggerPriority.P2, source: 'transcript', data: {}, timestamp: '' },
+      { type: 'npc_mention', priority: TriggerPriority.P2, source: 'transcript', data: {}, timestamp: '' },
+    ],
+    flushedAt: '',
+  });
+  triggers.emit('suppressed', { type: 'gm_hesitation', priority: TriggerPriority.P3, reason: 'flowing_rp', timestamp: '' });
+  triggers.emit('deferred', 3, 60_000);
+  await flush();
+  assert(metrics.triggers.get({ pipeline: 'tuesday', type: 'npc_mention', priority: 'P2' }) === 2, 'Triggers counted by type and priority');
+  assert(metrics.suppressions.get({ pipeline: 'tuesday', reason: 'flowing_rp' }) === 1 &&
+    metrics.suppressions.get({ pipeline: 'tuesday', reason: 'cooldown' }) === 3, 'Suppressions counted by reason, cooldown per held event');
+  controller.shutdown();
+
+  metrics.mcpReconnect('foundry', true);
+  metrics.pipeline('other').trigger('npc_mention', 2);
+  assert(metrics.triggers.get({ pipeline: 'other', type: 'npc_mention', priority: 'P2' }) === 1 &&
+    metrics.triggers.get({ pipeline: 'tuesday', type: 'npc_mention', priority: 'P2' }) === 2, 'Pipelines keep separate series');
+
+  // ── Test 4: GET /metrics ──────────────────────────────────────────────────
+
+  console.log('\n── Test 4: GET /metrics ──');
+
+  const server = new MetricsServer(metrics, { host: '127.0.0.1', port: 0 });
+  const port = await server.start();
+  const fakeTarget = { getStatus: () => ({}), applyGmCommand: () => {} };
+  const control = new ControlServer(new Map([['default', fakeTarget as any]]), { host: '127.0.0.1', port: 0, token: '' });
+  const controlPort = await control.start();
+  try {
+    const res = await fetch(`http://127.0.0.1:${port}/metrics`);
+    const body = await res.text();
+    assert(res.status === 200 && (res.headers.get('content-type') ?? '').startsWith('text/plain; version=0.0.4'), 'Served as Prometheus text');
+    assert(body.includes('gm_mcp_reconnects_total{server="foundry",outcome="ok"} 1') &&
+      body.includes('gm_llm_tokens_total{pipeline="tuesday"'), 'Scrape includes recorded series');
+    assert((await fetch(`http://127.0.0.1:${port}/api/status`)).status === 404, 'Metrics listener serves nothing else');
+    assert((await fetch(`http://127.0.0.1:${controlPort}/metrics`)).status === 404, 'Control API does not serve metrics');
+  } finally {
+    await server.stop();
+    await control.stop();
+  }
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,156 @@
+/**
+ * Multi-advice smoke test — envelope arrays in text replies (truncated ones
+ * included), several emit_advice calls in one turn, MAX_ADVICE_PER_BATCH,
+ * per-envelope screening and memory, the queued `advice` event, and
+ * AdviceDelivery keeping the model's order.
+ *
+ * Run: npx tsx test/smoke-multi-advice.ts
+ */
+
+import { resetConfig, getConfig } from '../src/config.js';
+import { parseAdviceEnvelope, parseAdviceEnvelopes } from '../src/reasoning/envelope-parser.js';
+import { ReasoningEngine } from '../src/reasoning/engine.js';
+import { MockProvider, type MockResponse } from '../src/llm/index.js';
+import { AdviceDelivery } from '../src/output/index.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { AssistantState, TriggerPriority, type AdviceEnvelope, type TriggerBatch } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+
+const NPC_BRIEF = {
+  category: 'script', tag: 'NPC_BRIEF', priority: 2, summary: 'The harbormaster — gruff, owes the guild',
+  body: 'Scarred, counts coins while talking.', confidence: 0.9, source_cards: ['NPCs+Harbormaster'],
+};
+const SCENE_CUT = {
+  category: 'pacing', tag: 'SCENE_CUT', priority: 3, summary: 'Cut to the warehouse once he leaves',
+  body: 'The docks scene has run long.', confidence: 0.7, source_cards: [],
+};
+const THREAD = {
+  category: 'continuity', tag: 'THREAD', priority: 4, summary: 'The sealed letter is still unopened',
+  confidence: 0.6, source_cards: [],
+};
+
+const question = (): TriggerBatch => ({
+  events: [{ type: 'gm_question', priority: TriggerPriority.P1, source: 'transcript', data: { transcript: 'who is this guy?' }, timestamp: new Date().toISOString() }],
+  flushedAt: new Date().toISOString(),
+});
+
+const fakeMcp = {
+  isConnected: () => true,
+  readResource: async () => null,
+  callTool: async () => 'No cards found.',
+  getAllTools: () => [],
+  recordLlmExchange() {},
+};
+
+function activePacing(): PacingStateManager {
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+  return pacing;
+}
+
+function engineWith(script: MockResponse[], memory = new AdviceMemoryBuffer(10)) {
+  const provider = new MockProvider(script);
+  return { engine: new ReasoningEngine(fakeMcp as any, activePacing(), memory, () => [], { provider }), memory, provider };
+}
+
+const emit = (...inputs: Record<string, unknown>[]): MockResponse => ({ toolCalls: inputs.map(input => ({ name: 'emit_advice', input })) });
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Parsing arrays ────────────────────────────────────────────────
+
+  console.log('\n── Test 1: Parsing arrays ──');
+
+  const pair = JSON.stringify([NPC_BRIEF, SCENE_CUT]);
+  assert(parseAdviceEnvelopes(pair).map(e => e.tag).join() === 'NPC_BRIEF,SCENE_CUT', 'Array reply → envelopes in order');
+  assert(parseAdviceEnvelopes('```json\n' + pair + '\n```').length === 2, 'Fenced array parsed');
+  assert(parseAdviceEnvelopes(JSON.stringify(NPC_BRIEF)).length === 1 && parseAdviceEnvelope(pair)?.tag === 'NPC_BRIEF',
+    'Single object still one envelope; parseAdviceEnvelope takes the first');
+  const cut = parseAdviceEnvelopes('[' + JSON.stringify(NPC_BRIEF) + ',{"category":"pacing","tag":"SCENE_CUT","summary":"Cut to the ware');
+  assert(cut.length === 2 && cut[1].summary === 'Cut to the ware', 'Truncated array repaired');
+  assert(parseAdviceEnvelopes(JSON.stringify([NPC_BRIEF, { ...SCENE_CUT, category: 'gossip' }])).length === 1, 'Invalid members dropped');
+  assert(parseAdviceEnvelopes('Nothing to add.').length === 0, 'Prose → no envelopes');
+
+  // ── Test 2: Several emit_advice calls ─────────────────────────────────────
+
+  console.log('\n── Test 2: Several emit_advice calls ──');
+
+  const { engine, memory } = engineWith([emit(NPC_BRIEF, SCENE_CUT)]);
+  const events: AdviceEnvelope[][] = [];
+  engine.on('advice', envelopes => events.push(envelopes));
+  const both = await engine.process(question());
+  assert(both.map(e => e.tag).join() === 'NPC_BRIEF,SCENE_CUT', 'Both calls delivered, model order kept');
+  assert(memory.size === 2, 'Each envelope pushed to advice memory');
+  assert(events.length === 0, 'Direct results are returned, not emitted');
+
+  process.env.MAX_ADVICE_PER_BATCH = '2';
+  resetConfig();
+  const capped = await engineWith([emit(NPC_BRIEF, SCENE_CUT, THREAD)]).engine.process(question());
+  assert(capped.map(e => e.tag).join() === 'NPC_BRIEF,SCENE_CUT', 'MAX_ADVICE_PER_BATCH keeps the first envelopes');
+  process.env.MAX_ADVICE_PER_BATCH = '0';
+  resetConfig();
+  assert(getConfig().maxAdvicePerBatch === 1, 'MAX_ADVICE_PER_BATCH floored at 1');
+  delete process.env.MAX_ADVICE_PER_BATCH;
+  resetConfig();
+
+  // ── Test 3: Per-envelope screening ────────────────────────────────────────
+
+  console.log('\n── Test 3: Per-envelope screening ──');
+
+  const seen = new AdviceMemoryBuffer(10);
+  const first = await engineWith([emit(NPC_BRIEF)], seen).engine.process(question());
+  const repeat = await engineWith([emit(NPC_BRIEF, SCENE_CUT)], seen).engine.process(question());
+  assert(first.length === 1 && repeat.map(e => e.tag).join() === 'SCENE_CUT', 'Duplicate dropped, the rest still delivered');
+  const twin = await engineWith([emit(THREAD, THREAD)]).engine.process(question());
+  assert(twin.length === 1, 'Repeat within one batch caught by dedup');
+  const quiet = await engineWith([emit({ category: 'none', tag: 'NO_ADVICE', summary: '' }, THREAD)]).engine.process(question());
+  assert(quiet.map(e => e.tag).join() === 'THREAD', 'NO_ADVICE entries skipped');
+
+  // ── Test 4: Delivery order ────────────────────────────────────────────────
+
+  console.log('\n── Test 4: Delivery order ──');
+
+  const whispers: string[] = [];
+  const foundry = {
+    isConnected: () => true,
+    getAllTools: () => [{ name: 'foundry__send_whisper' }],
+    callTool: async (_name: string, args: Record<string, unknown>) => {
+      // Slower first call: order must come from awaiting, not timing
+      if (whispers.length === 0) await new Promise(resolve => setTimeout(resolve, 20));
+      whispers.push(String(args.content));
+      return { content: [{ type: 'text', text: JSON.stringify({ messageId: `msg-${whispers.length}` }) }] };
+    },
+  };
+  const channels = await new AdviceDelivery(foundry as any, getConfig()).deliverAll(both);
+  assert(channels.join() === 'foundry,foundry', 'One channel per envelope');
+  assert(whispers[0].includes('[NPC_BRIEF]') && whispers[1].includes('[SCENE_CUT]'), 'Whispers posted in the model\'s order');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,154 @@
+/**
+ * Multi-session smoke test — SESSION_CAMPAIGNS parsing, per-binding config,
+ * reference-counted MCP subscriptions, and two pipelines on one aggregator
+ * each following its own guild's Discord session.
+ *
+ * Run: npx tsx test/smoke-multi-session.ts
+ */
+
+import { EventEmitter } from 'node:events';
+import { getConfig, resetConfig, configForBinding } from '../src/config.js';
+import { McpAggregator } from '../src/mcp/client.js';
+import { createSessionPipeline } from '../src/session/pipeline.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+process.env.GM_IDENTIFIER = 'base-gm';
+process.env.CAMPAIGN_NAME = '';
+process.env.STATE_PERSISTENCE_ENABLED = 'false';
+process.env.STATE_PERSISTENCE_PATH = './.runtime/gm-state.json';
+process.env.SESSION_CAMPAIGNS = JSON.stringify([
+  { id: 'tuesday', guildId: '111', campaignWikiCard: 'Tuesday Plan', gmIdentifier: 'gm-tue', userMappings: { kai: 'Mira' } },
+  { guildId: '222', sessionEndTime: '22:30' },
+  { id: 'no-guild' },
+  { id: 'tuesday', guildId: '333' },
+]);
+
+async function runTests(): Promise<void> {
+  // ── Test 1: SESSION_CAMPAIGNS parsing ─────────────────────────────────────
+
+  console.log('\n── Test 1: SESSION_CAMPAIGNS parsing ──');
+
+  const config = getConfig();
+  assert(config.sessionCampaigns.length === 2, 'Entries without a guildId or with a duplicate id are skipped');
+  assert(config.sessionCampaigns[1].id === '222', 'id defaults to the guild ID');
+
+  resetConfig();
+  process.env.SESSION_CAMPAIGNS = '{not json';
+  assert(getConfig().sessionCampaigns.length === 0, 'Invalid JSON falls back to a single pipeline');
+  resetConfig();
+  process.env.SESSION_CAMPAIGNS = '';
+  assert(getConfig().sessionCampaigns.length === 0, 'Unset → empty');
+
+  // ── Test 2: configForBinding ──────────────────────────────────────────────
+
+  console.log('\n── Test 2: configForBinding ──');
+
+  const [tuesday, other] = config.sessionCampaigns;
+  const tue = configForBinding(config, tuesday);
+  const oth = configForBinding(config, other);
+  assert(tue.targetGuildId === '111' && oth.targetGuildId === '222', 'Each pipeline filters its own guild');
+  assert(tue.gmIdentifier === 'gm-tue' && oth.gmIdentifier === 'base-gm', 'Binding fields override, unset fields inherit');
+  assert(tue.userMappings.kai === 'Mira' && oth.sessionEndTime === '22:30', 'Mappings and end time are per binding');
+  assert(tue.statePersistencePath === './.runtime/gm-state.tuesday.json' && oth.statePersistencePath === './.runtime/gm-state.222.json',
+    'Persistence files are per binding');
+  assert(config.targetGuildId === '' && config.gmIdentifier === 'base-gm', 'Base config is left untouched');
+
+  // ── Test 3: Subscription reference counting ───────────────────────────────
+
+  console.log('\n── Test 3: Subscription reference counting ──');
+
+  const serverCalls: string[] = [];
+  const aggregator = new McpAggregator();
+  (aggregator as any).servers.set('foundry', {
+    client: {
+      getServerCapabilities: () => ({ resources: { subscribe: true } }),
+      subscribeResource: async ({ uri }: { uri: string }) => { serverCalls.push(`sub ${uri}`); },
+      unsubscribeResource: async ({ uri }: { uri: string }) => { serverCalls.push(`unsub ${uri}`); },
+    },
+    tools: [],
+  });
+
+  await aggregator.subscribeResource('foundry', 'game://state');
+  await aggregator.subscribeResource('foundry', 'game://state');
+  assert(serverCalls.join(',') === 'sub game://state', 'Second subscriber reuses the live subscription');
+  await aggregator.unsubscribeResource('foundry', 'game://state');
+  assert(aggregator.isSubscribed('foundry', 'game://state') && serverCalls.length === 1,
+    'One pipeline unsubscribing keeps it live for the other');
+  await aggregator.unsubscribeResource('foundry', 'game://state');
+  assert(!aggregator.isSubscribed('foundry', 'game://state') && serverCalls[1] === 'unsub game://state',
+    'Last unsubscribe reaches the server');
+
+  // ── Test 4: Independent pipelines ─────────────────────────────────────────
+
+  console.log('\n── Test 4: Independent pipelines ──');
+
+  const resources: Record<string, string> = {
+    'discord|session://active': JSON.stringify({
+      active: true,
+      sessions: [{ id: 's-other', guildId: '222' }, { id: 's-tue', guildId: '111' }],
+    }),
+    'discord|session://s-tue/transcript': JSON.stringify([
+      { id: 1, transcript: 'Tuesday table', segmentStart: '2026-03-01T19:00:00Z', isFinal: true },
+    ]),
+    'discord|session://s-other/transcript': JSON.stringify([
+      { id: 1, transcript: 'Other table', segmentStart: '2026-03-01T19:00:00Z', isFinal: true },
+      { id: 2, transcript: 'Still the other table', segmentStart: '2026-03-01T19:00:05Z', isFinal: true },
+    ]),
+  };
+  const fakeMcp = Object.assign(new EventEmitter(), {
+    isConnected: () => true,
+    readResource: async (server: string, uri: string) => resources[`${server}|${uri}`] ?? null,
+    callTool: async () => ({ content: [{ type: 'text', text: 'plan' }] }),
+    getAllTools: () => [],
+    subscribeResource: async () => false,
+    unsubscribeResource: async () => {},
+    isSubscribed: () => false,
+    recordLlmExchange() {},
+    startRecording() {},
+    stopRecording() {},
+  });
+
+  const a = await createSessionPipeline(fakeMcp as any, tue, tuesday.id);
+  const b = await createSessionPipeline(fakeMcp as any, oth, other.id);
+  try {
+    await a.controller.pollForSession();
+    await b.controller.pollForSession();
+    await flush();
+    assert(a.controller.sessionId === 's-tue' && b.controller.sessionId === 's-other', 'Each pipeline tracks its own guild session');
+    assert(a.controller.getTranscript().map(s => s.text).join('|') === 'Tuesday table', 'Transcript caches are not shared');
+    assert(b.controller.getTranscript().length === 2, 'Second pipeline sees only its own segments');
+    assert(a.controller.getStatus().pacing !== b.controller.getStatus().pacing, 'Pacing state is per pipeline');
+  } finally {
+    a.controller.shutdown();
+    b.controller.shutdown();
+  }
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,146 @@
+/**
+ * Crash-recovery persistence smoke test — covers StatePersistence save/load
+ * (session match, max age, version), cache flag round-trip, and advice memory restore.
+ *
+ * Run: npx tsx test/smoke-persistence.ts
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import path from 'node:path';
+import { StatePersistence, collectCacheFlags, applyCacheFlags } from '../src/state/persistence.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { createSessionStats } from '../src/qa/session-stats.js';
+import { AssistantState, TriggerPriority } from '../src/types/index.js';
+import type { NpcCacheEntry, SceneIndexEntry, BeatReminderEntry, WhisperStageEntry } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+function npc(key: string): NpcCacheEntry {
+  return { key, display_name: key, pronunciation: '', brief: key, full_card: key, aliases: [key], served: false, last_served_at: null };
+}
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'magi-gm-state-'));
+const statePath = path.join(tmpDir, 'nested', 'gm-state.json');
+
+// ── Test 1: Save + load round trip ──────────────────────────────────────────
+
+console.log('\n── Test 1: Save + load round trip ──');
+
+const pacing = new PacingStateManager();
+pacing.startSession();
+pacing.transitionTo(AssistantState.ACTIVE);
+pacing.advanceAct(2, 60);
+pacing.advanceScene('The Concourse', 20);
+
+const memory = new AdviceMemoryBuffer(3);
+memory.push({
+  category: 'creative', tag: 'NPC', priority: TriggerPriority.P2,
+  summary: 'Daokresh brief', body: 'War chief', confidence: 0.9, source_cards: [],
+});
+
+const stats = createSessionStats();
+stats.adviceDelivered = 4;
+
+const persistence = new StatePersistence(statePath, 60);
+const saved = persistence.save({
+  sessionId: 'sess-1',
+  pacing: pacing.snapshot(),
+  adviceMemory: memory.toJSON(),
+  gmNotes: [{ text: 'Remember the seed', timestamp: '2026-01-01T00:00:00Z' }],
+  cacheFlags: collectCacheFlags([], [], [], []),
+  cursors: { transcriptRowId: 42, textEventId: 7, sceneId: 'scene-a', chatMsgId: 'msg-9' },
+  transcriptCache: [{ rowId: 42, text: 'hello', timestamp: '2026-01-01T00:00:00Z' }],
+  sessionStats: stats,
+});
+assert(saved, 'save() returns true and creates parent directory');
+assert(fs.existsSync(statePath), 'Snapshot file exists');
+assert(!fs.existsSync(`${statePath}.tmp`), 'Temp file renamed away');
+
+const loaded = persistence.load('sess-1');
+assert(loaded !== null, 'load() returns snapshot for matching session');
+assert(loaded?.cursors.transcriptRowId === 42, 'Transcript cursor restored');
+assert(loaded?.cursors.textEventId === 7, 'Text event cursor restored');
+assert(loaded?.sessionStats.adviceDelivered === 4, 'Session stats restored');
+assert(loaded?.gmNotes.length === 1, 'GM notes restored');
+
+const restoredPacing = new PacingStateManager();
+restoredPacing.restore(loaded!.pacing);
+assert(restoredPacing.assistantState === AssistantState.ACTIVE, 'Pacing assistant state restored');
+assert(restoredPacing.state.current_act === 2, 'Act number restored');
+assert(restoredPacing.state.current_scene === 'The Concourse', 'Scene name restored');
+assert(restoredPacing.state.scene_timing.started_at === pacing.state.scene_timing.started_at, 'Scene clock start restored');
+
+const restoredMemory = new AdviceMemoryBuffer(3);
+restoredMemory.restore(loaded!.adviceMemory);
+assert(restoredMemory.size === 1, 'Advice memory restored');
+assert(restoredMemory.isDuplicate({
+  category: 'creative', tag: 'NPC', priority: TriggerPriority.P2,
+  summary: 'Daokresh brief', body: null, confidence: 1, source_cards: [],
+}), 'Restored memory still dedups');
+
+// ── Test 2: Rejection rules ─────────────────────────────────────────────────
+
+console.log('\n── Test 2: Rejection rules ──');
+
+assert(persistence.load('sess-2') === null, 'Different session id is ignored');
+
+const later = new Date(Date.now() + 61 * 60_000);
+assert(persistence.load('sess-1', later) === null, 'Snapshot older than max age is ignored');
+
+fs.writeFileSync(statePath, '{not json', 'utf-8');
+assert(persistence.load('sess-1') === null, 'Corrupt snapshot is ignored');
+
+persistence.clear();
+assert(!fs.existsSync(statePath), 'clear() removes snapshot');
+assert(persistence.load('sess-1') === null, 'Missing snapshot returns null');
+
+// ── Test 3: Cache flag round trip ───────────────────────────────────────────
+
+console.log('\n── Test 3: Cache flags ──');
+
+const npcs = [npc('daokresh'), npc('vexa')];
+npcs[0].served = true;
+npcs[0].last_served_at = '2026-01-01T01:00:00Z';
+const scenes: SceneIndexEntry[] = [{ id: 'a1', title: 'A1', card: 'c', keywords: [], npcs: [], served: true, served_at: 't' }];
+const beats: BeatReminderEntry[] = [{ sceneId: 'a1', sceneTitle: 'A1', sourceCard: 'c', bullets: [], keywords: [], served: true, servedAt: 't' }];
+const whispers: WhisperStageEntry[] = [{ id: 'w1', target: 'Kai', description: 'd', text: 't', sceneKeywords: [], sourceCard: 'c', notified: true, sent: true }];
+
+const flags = collectCacheFlags(npcs, scenes, beats, whispers);
+
+const rebuiltNpcs = [npc('daokresh'), npc('vexa'), npc('newcomer')];
+const rebuiltScenes: SceneIndexEntry[] = [{ ...scenes[0], served: false, served_at: null }];
+const rebuiltBeats: BeatReminderEntry[] = [{ ...beats[0], served: false, servedAt: null }];
+const rebuiltWhispers: WhisperStageEntry[] = [{ ...whispers[0], notified: false, sent: false }];
+const applied = applyCacheFlags(flags, {
+  npcCache: rebuiltNpcs, sceneIndex: rebuiltScenes, beatCache: rebuiltBeats, whisperStage: rebuiltWhispers,
+});
+
+assert(applied === 5, `Applied flags to 5 matching entries (got ${applied})`);
+assert(rebuiltNpcs[0].served && rebuiltNpcs[0].last_served_at === '2026-01-01T01:00:00Z', 'NPC served flag re-applied');
+assert(!rebuiltNpcs[1].served, 'Unserved NPC stays unserved');
+assert(!rebuiltNpcs[2].served, 'New NPC not in snapshot untouched');
+assert(rebuiltScenes[0].served, 'Scene served flag re-applied');
+assert(rebuiltBeats[0].served, 'Beat served flag re-applied');
+assert(rebuiltWhispers[0].sent && rebuiltWhispers[0].notified, 'Whisper sent/notified flags re-applied');
+
+fs.rmSync(tmpDir, { recursive: true, force: true });
+
+// ── Results ─────────────────────────────────────────────────────────────────
+
+console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+process.exit(failed > 0 ? 1 : 0);
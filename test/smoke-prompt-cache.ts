@@ -0,0 +1,191 @@
+/**
+ * Prompt caching smoke test — the stable context prefix from the assembler
+ * (unchanged by budget trimming and token recalibration), cache-control
+ * breakpoints on Anthropic requests, the cache-aware inter-call delay, and
+ * hit rates in the QA report.
+ *
+ * Run: npx tsx test/smoke-prompt-cache.ts
+ */
+
+import { resetConfig, getConfig } from '../src/config.js';
+import { ContextAssembler } from '../src/reasoning/context.js';
+import { TokenCounter } from '../src/reasoning/context-budget.js';
+import { ReasoningEngine } from '../src/reasoning/engine.js';
+import { AnthropicProvider, MockProvider } from '../src/llm/index.js';
+import { cacheHitRate, createLlmUsageTotals, addLlmUsage } from '../src/qa/llm-cost.js';
+import { createSessionStats } from '../src/qa/session-stats.js';
+import { formatQaReport } from '../src/qa/post-session.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { VirtualClock } from '../src/replay/virtual-clock.js';
+import { AssistantState, TriggerPriority, type TriggerBatch, type TriggerEvent } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+process.env.CAMPAIGN_WIKI_CARD = 'Campaign+Plan';
+process.env.USER_MAPPINGS = JSON.stringify({ kai: 'Mira' });
+
+const START = new Date('2026-03-01T19:00:00Z');
+const event = (type: string, priority: TriggerPriority, data: Record<string, unknown> = {}): TriggerEvent => ({
+  type: type as TriggerEvent['type'], priority, source: 'transcript', data, timestamp: START.toISOString(),
+});
+const batchOf = (...events: TriggerEvent[]): TriggerBatch => ({ events, flushedAt: START.toISOString() });
+
+const fakeMcp = {
+  isConnected: () => true,
+  readResource: async () => '{}',
+  callTool: async (name: string) => name === 'wiki__get_card'
+    ? { content: [{ type: 'text', text: '<p>Act 2: the heist at the harbor.</p>' }] }
+    : { content: [] },
+  getAllTools: () => [{ name: 'wiki__search', description: 'Search the wiki', input_schema: { type: 'object' } }],
+  recordLlmExchange() {},
+};
+
+function activePacing(): PacingStateManager {
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+  return pacing;
+}
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Stable context prefix ─────────────────────────────────────────
+
+  console.log('\n── Test 1: Stable context prefix ──');
+
+  const assembler = new ContextAssembler(fakeMcp as any, activePacing(), new AdviceMemoryBuffer(5));
+  assembler.loadTemplate();
+  const question = await assembler.assemble(batchOf(event('gm_question', TriggerPriority.P1, { transcript: 'who runs the docks?' })), [
+    { text: 'we sneak in', displayName: 'kai', timestamp: START.toISOString() },
+  ]);
+  const overrun = await assembler.assemble(batchOf(event('pacing_alert', TriggerPriority.P3, { elapsed: 40, planned: 25 })), []);
+  assert(question.stableContext.includes('heist at the harbor') && question.stableContext.includes('kai → Mira'),
+    'Episode plan and player mappings in the stable prefix');
+  assert(!question.gameState.includes('Episode Plan') && !question.gameState.includes('Player Identity Mappings'),
+    'Stable blocks not repeated in the per-call context');
+  assert(question.stableContext === overrun.stableContext && question.gameState !== overrun.gameState,
+    'Prefix identical across different triggers');
+
+  const longPlan = `<p>${'The harbor heist unfolds in stages. '.repeat(400)}</p>`;
+  const tokens = new TokenCounter();
+  const tight = new ContextAssembler(
+    { ...fakeMcp, callTool: async () => ({ content: [{ type: 'text', text: longPlan }] }) } as any,
+    activePacing(), new AdviceMemoryBuffer(5), undefined, { ...getConfig(), maxContextTokens: 6000 }, tokens,
+  );
+  tight.loadTemplate();
+  const chatter = Array.from({ length: 300 }, (_, i) => ({ text: `line ${i} about the vault and the guards`, displayName: 'kai', timestamp: START.toISOString() }));
+  const before = await tight.assemble(batchOf(event('gm_question', TriggerPriority.P1, { transcript: 'who runs the docks?' })), chatter);
+  tokens.calibrate(30_000, 10_000);
+  const after = await tight.assemble(batchOf(event('gm_question', TriggerPriority.P1, { transcript: 'who runs the docks?' })), chatter);
+  assert(before.budget.sections.find(s => s.name === 'transcript')!.trimmedTokens > 0 &&
+    after.budget.sections.find(s => s.name === 'episode-plan')!.trimmedTokens === 0, 'Budget pressure trims other sections, not the plan');
+  assert(before.stableContext === after.stableContext, 'Prefix unchanged when the token estimate recalibrates');
+
+  // ── Test 2: Cache-control breakpoints ─────────────────────────────────────
+
+  console.log('\n── Test 2: Cache-control breakpoints ──');
+
+  const sent: any[] = [];
+  let turn = 0;
+  const fakeClient = {
+    messages: {
+      create: async (params: any) => {
+        sent.push(structuredClone(params));
+        turn++;
+        return turn <= 2
+          ? {
+            content: [{ type: 'tool_use', id: `tu_${turn}`, name: 'wiki__search', input: { q: turn } }],
+            stop_reason: 'tool_use', usage: { input_tokens: 200, output_tokens: 20, cache_read_input_tokens: 3000, cache_creation_input_tokens: 0 },
+          }
+          : {
+            content: [{ type: 'text', text: 'NO_ADVICE' }],
+            stop_reason: 'end_turn', usage: { input_tokens: 200, output_tokens: 5 },
+          };
+      },
+    },
+  };
+  const provider = new AnthropicProvider(fakeClient as any, 'claude-sonnet-4-5');
+  const request = {
+    system: 'You are a stage manager.', stablePrompt: '## Episode Plan\nAct 2', prompt: '## Trigger\nP1',
+    tools: [{ name: 'wiki__search', description: 'Search', inputSchema: { type: 'object' } }],
+    maxTokens: 512, maxToolIterations: 5, promptCache: true,
+  };
+  await provider.complete(request, { executeTool: async () => ({ content: 'result' }) });
+
+  const first = sent[0];
+  assert(first.system[0].cache_control?.type === 'ephemeral', 'Breakpoint after the system prompt (covers tools)');
+  assert(first.messages[0].content[0].text === '## Episode Plan\nAct 2' && first.messages[0].content[0].cache_control?.type === 'ephemeral' &&
+    !first.messages[0].content[1].cache_control, 'Breakpoint after the stable prefix, none on the per-call part');
+  const countBreakpoints = (params: any) => JSON.stringify(params).split('"cache_control"').length - 1;
+  const last = sent[2];
+  const toolTurns = last.messages.filter((m: any) => m.role === 'user' && Array.isArray(m.content) && m.content[0].type === 'tool_result');
+  assert(toolTurns.length === 2 && !toolTurns[0].content[0].cache_control && toolTurns[1].content[0].cache_control?.type === 'ephemeral',
+    'Only the newest tool results carry the moving breakpoint');
+  assert(countBreakpoints(last) === 3, 'Never more than the API limit of breakpoints');
+
+  sent.length = 0;
+  turn = 2;
+  await provider.complete({ ...request, promptCache: false }, { executeTool: async () => ({ content: '' }) });
+  assert(countBreakpoints(sent[0]) === 0, 'PROMPT_CACHE_ENABLED=false sends no breakpoints');
+
+  // ── Test 3: Cache-aware inter-call delay ──────────────────────────────────
+
+  console.log('\n── Test 3: Cache-aware inter-call delay ──');
+
+  const queuedDelay = async (usage: { inputTokens: number; cacheReadTokens: number }): Promise<number> => {
+    const clock = new VirtualClock(START);
+    const mock = new MockProvider(() => ({ text: 'NO_ADVICE', usage }));
+    const engine = new ReasoningEngine(fakeMcp as any, activePacing(), new AdviceMemoryBuffer(5), () => [], { clock, provider: mock });
+    const running = engine.process(batchOf(event('gm_question', TriggerPriority.P1)));
+    await engine.process(batchOf(event('pacing_alert', TriggerPriority.P3)));
+    await running;
+    let ms = 0;
+    while (!clock.runNext(START.getTime() + ms)) ms += 500;
+    return ms;
+  };
+  assert(await queuedDelay({ inputTokens: 4000, cacheReadTokens: 0 }) === 10_000, 'Uncached prompt waits the full 10s');
+  assert(await queuedDelay({ inputTokens: 2000, cacheReadTokens: 6000 }) === 2_500, 'Mostly cached prompt waits less');
+  assert(await queuedDelay({ inputTokens: 100, cacheReadTokens: 9900 }) === 2_000, 'Delay never drops below the floor');
+
+  // ── Test 4: Hit rates ─────────────────────────────────────────────────────
+
+  console.log('\n── Test 4: Hit rates ──');
+
+  assert(cacheHitRate({ inputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 }) === null, 'No prompt tokens → no rate');
+  const totals = createLlmUsageTotals();
+  addLlmUsage(totals, { model: 'claude-sonnet-4-5', inputTokens: 500, outputTokens: 50, cacheReadTokens: 0, cacheWriteTokens: 3500 }, {});
+  addLlmUsage(totals, { model: 'claude-sonnet-4-5', inputTokens: 500, outputTokens: 50, cacheReadTokens: 3500, cacheWriteTokens: 0 }, {});
+  assert(cacheHitRate(totals) === 3500 / 8000, 'Session rate counts reads over all prompt tokens');
+  const report = formatQaReport({
+    durationMinutes: 60, segmentCount: 0, speakerCount: 0, speakerDistribution: {},
+    stats: { ...createSessionStats(), llmUsage: totals },
+    phoneticDiscoveries: [], fuzzyTableDelta: {}, fuzzyTablePersisted: false, engagementByScene: [],
+  });
+  assert(report.includes('Prompt cache: 3500 read, 3500 written (44% of prompt tokens from cache)'), 'QA report shows the hit rate');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,166 @@
+/**
+ * Reasoning queue smoke test — per-priority slots that merge instead of
+ * evicting, highest-priority-first draining, P1 preempting an in-flight
+ * P3/P4 call, and P1 skipping the inter-call delay.
+ *
+ * Run: npx tsx test/smoke-reasoning-queue.ts
+ */
+
+import { resetConfig } from '../src/config.js';
+import { ReasoningQueue, mergeBatches } from '../src/reasoning/reasoning-queue.js';
+import { ReasoningEngine } from '../src/reasoning/engine.js';
+import { MockProvider, type MockResponse } from '../src/llm/index.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { VirtualClock } from '../src/replay/virtual-clock.js';
+import { AssistantState, TriggerPriority, type AdviceEnvelope, type TriggerBatch, type TriggerEvent } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+
+const START = new Date('2026-03-01T19:00:00Z');
+let minute = 0;
+const event = (type: string, priority: TriggerPriority, data: Record<string, unknown> = {}): TriggerEvent => ({
+  type: type as TriggerEvent['type'], priority, source: 'transcript', data, timestamp: START.toISOString(),
+});
+const batchOf = (...events: TriggerEvent[]): TriggerBatch => ({
+  events, flushedAt: new Date(START.getTime() + 60_000 * minute++).toISOString(),
+});
+const types = (batch: TriggerBatch | null) => batch?.events.map(e => e.type).join(',') ?? '';
+
+let adviceCount = 0;
+const advice = (tag: string): MockResponse => ({
+  envelope: { category: 'pacing', tag, priority: 2, summary: `Advice ${tag.toLowerCase()} ${'i'.repeat(++adviceCount)}`, body: tag, confidence: 0.9, source_cards: [] },
+});
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Queue slots ───────────────────────────────────────────────────
+
+  console.log('\n── Test 1: Queue slots ──');
+
+  const queue = new ReasoningQueue();
+  queue.push(batchOf(event('scene_transition', TriggerPriority.P2)));
+  queue.push(batchOf(event('silence_detection', TriggerPriority.P4, { silenceSeconds: 30 })));
+  assert(queue.size === 2 && queue.nextPriority === TriggerPriority.P2, 'Lower priority queues beside higher instead of replacing it');
+
+  const merged = queue.push(batchOf(event('silence_detection', TriggerPriority.P4, { silenceSeconds: 45 }), event('pacing_alert', TriggerPriority.P4)));
+  assert(merged && queue.size === 2, 'Same-priority batch merges into the waiting one');
+  assert(types(queue.shift()) === 'scene_transition', 'Highest priority comes out first');
+  const p4 = queue.shift();
+  assert(types(p4) === 'silence_detection,pacing_alert' && p4!.events[0].data.silenceSeconds === 45, 'Newer event of a type replaces the older');
+  assert(queue.shift() === null, 'Empty queue yields nothing');
+
+  const npcs = mergeBatches(
+    batchOf(event('npc_first_appearance', TriggerPriority.P2, { npc_name: 'Vex' })),
+    batchOf(event('npc_first_appearance', TriggerPriority.P2, { npc_name: 'Orla' })),
+  );
+  assert(npcs.events.length === 2, 'Events about different subjects are both kept');
+
+  const fresh = batchOf(event('pacing_alert', TriggerPriority.P3, { elapsed: 50 }));
+  queue.push(fresh);
+  queue.push({ events: [event('pacing_alert', TriggerPriority.P3, { elapsed: 40 })], flushedAt: START.toISOString() }, true);
+  assert(queue.shift()!.events[0].data.elapsed === 50, 'Requeued batch yields to what arrived meanwhile');
+
+  queue.push(batchOf(event('gm_question', TriggerPriority.P1, { transcript: 'who?' })));
+  queue.push(batchOf(event('pacing_alert', TriggerPriority.P3)));
+  assert(queue.discardBelow(TriggerPriority.P1) === 1 && queue.nextPriority === TriggerPriority.P1, 'discardBelow keeps P1');
+
+  // ── Test 2: P1 preempts an in-flight P4 ───────────────────────────────────
+
+  console.log('\n── Test 2: P1 preempts an in-flight P4 ──');
+
+  const clock = new VirtualClock(START);
+  let releaseTool: () => void = () => {};
+  const fakeMcp = {
+    isConnected: () => true,
+    readResource: async () => null,
+    getAllTools: () => [{ name: 'wiki__search', description: 'Search', input_schema: { type: 'object' } }],
+    callTool: () => new Promise(resolve => { releaseTool = () => resolve('found'); }),
+    recordLlmExchange() {},
+  };
+  // Other turns look something up first, so they stay in flight until releaseTool()
+  const lookedUp = new WeakSet<object>();
+  const provider = new MockProvider((request) => {
+    if (request.prompt.includes('GM question')) return advice('ANSWER');
+    if (lookedUp.has(request)) return advice('NUDGE');
+    lookedUp.add(request);
+    return { toolCalls: [{ name: 'wiki__search', input: { q: 'toll' } }] };
+  });
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+  const engine = new ReasoningEngine(fakeMcp as any, pacing, new AdviceMemoryBuffer(10), () => [], { clock, provider });
+  const emitted: AdviceEnvelope[] = [];
+  engine.on('advice', envelopes => emitted.push(...envelopes));
+
+  const silence = engine.process(batchOf(event('silence_detection', TriggerPriority.P4, { silenceSeconds: 40 })));
+  await new Promise(resolve => setImmediate(resolve));
+  const question = await engine.process(batchOf(event('gm_question', TriggerPriority.P1, { transcript: 'what is the toll?' })));
+  assert(question.length === 0, 'P1 queued while the P4 call is in flight');
+  releaseTool();
+  assert((await silence).length === 0, 'Preempted P4 call returns nothing');
+
+  assert(clock.runNext(START.getTime()), 'P1 drains with no inter-call delay');
+  for (let i = 0; i < 5; i++) await new Promise(resolve => setImmediate(resolve));
+  assert(emitted.map(e => e.tag).join(',') === 'ANSWER', 'P1 answered first');
+
+  assert(!clock.runNext(START.getTime() + 1_000) && clock.runNext(START.getTime() + 10_000), 'Requeued P4 waits out the delay');
+  for (let i = 0; i < 5; i++) await new Promise(resolve => setImmediate(resolve));
+  releaseTool();
+  for (let i = 0; i < 5; i++) await new Promise(resolve => setImmediate(resolve));
+  assert(emitted.map(e => e.tag).join(',') === 'ANSWER,NUDGE', 'Preempted P4 retried afterwards');
+
+  // ── Test 3: No preemption of P2 ───────────────────────────────────────────
+
+  console.log('\n── Test 3: No preemption of P2 ──');
+
+  emitted.length = 0;
+  const scene = engine.process(batchOf(event('scene_transition', TriggerPriority.P2)));
+  await new Promise(resolve => setImmediate(resolve));
+  await engine.process(batchOf(event('gm_question', TriggerPriority.P1, { transcript: 'who owns the ship?' })));
+  releaseTool();
+  assert((await scene)[0]?.tag === 'NUDGE', 'In-flight P2 call finishes');
+  assert(clock.runNext(clock.now().getTime()), 'Queued P1 follows immediately');
+  for (let i = 0; i < 5; i++) await new Promise(resolve => setImmediate(resolve));
+  assert(emitted.map(e => e.tag).join(',') === 'ANSWER', 'Then the P1 is answered');
+
+  // ── Test 4: P1 during the inter-call delay ────────────────────────────────
+
+  console.log('\n── Test 4: P1 during the inter-call delay ──');
+
+  const quick = new MockProvider(request => request.prompt.includes('GM question') ? advice('DIRECT') : advice('LATER'));
+  const engine2 = new ReasoningEngine(fakeMcp as any, pacing, new AdviceMemoryBuffer(10), () => [], { clock, provider: quick });
+  const first = engine2.process(batchOf(event('pacing_alert', TriggerPriority.P3, { elapsed: 30 })));
+  await engine2.process(batchOf(event('silence_detection', TriggerPriority.P4, { silenceSeconds: 20 })));
+  await first;
+  assert(clock.pendingTimers === 1, 'P4 waiting out the delay');
+  const [direct] = await engine2.process(batchOf(event('gm_question', TriggerPriority.P1, { transcript: 'how deep is the bay?' })));
+  assert(direct?.tag === 'DIRECT', 'P1 answered at once instead of queuing behind the wait');
+  assert(clock.pendingTimers === 1, 'Waiting P4 rescheduled after it');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
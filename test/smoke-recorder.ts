@@ -0,0 +1,130 @@
+/**
+ * Session recorder smoke test — writes an archive to a temp dir and reads it
+ * back: session start/end framing, unchanged-read collapsing, row deltas for
+ * transcript-shaped resources, reads made before start() opening the
+ * archive, tool/LLM entries (success and error), and no-op behavior when not
+ * recording.
+ *
+ * Run: npx tsx test/smoke-recorder.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionRecorder, readRecording, applyRowDelta, RECORDING_FORMAT_VERSION } from '../src/mcp/recorder.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'magi-recorder-'));
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Idle recorder ─────────────────────────────────────────────────
+
+  console.log('\n── Test 1: Idle recorder ──');
+
+  const recorder = new SessionRecorder(dir, 'claude-test');
+  recorder.recordResource('discord', 'discord://session/current', 5, '{}');
+  recorder.recordToolCall('get_transcript', {}, 5, {});
+  assert(!recorder.recording && recorder.currentFile === null, 'Not recording before start()');
+  assert(fs.readdirSync(dir).length === 0, 'Nothing written while idle');
+
+  // ── Test 2: Round trip ────────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Round trip ──');
+
+  recorder.start('sess/1', new Date('2026-03-01T20:00:00Z'));
+  const file = recorder.currentFile!;
+  assert(path.basename(file).startsWith('sess_1-2026-03-01T20-00-00'), 'File named from sanitized session id + start time');
+
+  recorder.recordResource('discord', 'discord://session/current/transcript', 12, 'seg-1');
+  recorder.recordResource('discord', 'discord://session/current/transcript', 9, 'seg-1');
+  recorder.recordResource('discord', 'discord://session/current/transcript', 11, 'seg-1\nseg-2');
+  recorder.recordResource('foundry', 'foundry://game/state', 3, null, new Error('timeout'));
+  recorder.recordToolCall('get_wiki_page', { title: 'Plan' }, 40, { content: [] });
+  recorder.recordToolCall('update_wiki_page', { title: 'Plan' }, 7, undefined, 'rejected');
+  recorder.recordLlm({ model: 'claude-test' }, 900, { stop_reason: 'end_turn' });
+  recorder.recordNotification('discord', 'discord://session/current/transcript');
+  const closed = recorder.stop(new Date('2026-03-01T23:00:00Z'));
+
+  assert(!recorder.recording, 'stop() closes the archive');
+  await closed;
+
+  const entries = readRecording(file);
+  const kinds = entries.map(e => e.kind);
+  assert(kinds[0] === 'session_start' && kinds[kinds.length - 1] === 'session_end', 'Archive framed by session_start/session_end');
+
+  const start = entries[0];
+  assert(start.kind === 'session_start' && start.version === RECORDING_FORMAT_VERSION && start.model === 'claude-test', 'Start entry carries format version and model');
+
+  const [pending, ...reads] = entries.filter(e => e.kind === 'resource');
+  assert(pending?.kind === 'resource' && pending.uri === 'discord://session/current' && pending.result === '{}' && pending.ts === start.ts,
+    'Last read before start() opens the archive');
+  assert(reads.length === 4, 'Every resource read recorded');
+  assert(reads[0].kind === 'resource' && reads[0].result === 'seg-1', 'First read keeps its content');
+  assert(reads[1].kind === 'resource' && reads[1].unchanged === true && reads[1].result === undefined, 'Identical repeat collapsed to unchanged');
+  assert(reads[2].kind === 'resource' && reads[2].result === 'seg-1\nseg-2', 'Changed content written in full');
+  assert(reads[3].kind === 'resource' && reads[3].error === 'timeout', 'Read errors recorded');
+
+  const tools = entries.filter(e => e.kind === 'tool_call');
+  assert(tools.length === 2 && tools[1].kind === 'tool_call' && tools[1].error === 'rejected', 'Tool calls recorded with errors');
+  assert(entries.some(e => e.kind === 'llm' && e.durationMs === 900), 'LLM exchange recorded');
+  assert(entries.some(e => e.kind === 'notification'), 'Notification recorded');
+
+  // ── Test 3: Restart ───────────────────────────────────────────────────────
+
+  console.log('\n── Test 3: Restart ──');
+
+  recorder.start('sess-2', new Date('2026-03-08T20:00:00Z'));
+  const secondFile = recorder.currentFile!;
+  recorder.recordResource('discord', 'discord://session/current/transcript', 10, 'seg-1');
+  await recorder.stop();
+  const second = readRecording(secondFile);
+  const firstRead = second.find(e => e.kind === 'resource');
+  assert(firstRead?.kind === 'resource' && firstRead.result === 'seg-1', 'New session starts with a fresh unchanged-cache');
+
+  fs.appendFileSync(file, '{not json\n');
+  assert(readRecording(file).length === entries.length, 'Malformed lines skipped on read');
+
+  // ── Test 4: Transcript deltas ─────────────────────────────────────────────
+
+  console.log('\n── Test 4: Transcript deltas ──');
+
+  recorder.start('sess-3', new Date('2026-03-15T20:00:00Z'));
+  const thirdFile = recorder.currentFile!;
+  const rows = [{ id: 1, transcript: 'Welcome back', isFinal: true }, { id: 2, transcript: 'What should', isFinal: false }];
+  recorder.recordResource('discord', 'session://sess-3/transcript', 5, JSON.stringify(rows));
+  rows[1] = { id: 2, transcript: 'What should the guard say?', isFinal: true };
+  rows.push({ id: 3, transcript: 'He lies', isFinal: true });
+  recorder.recordResource('discord', 'session://sess-3/transcript', 5, JSON.stringify(rows));
+  await recorder.stop();
+
+  const [full, delta] = readRecording(thirdFile).filter(e => e.kind === 'resource');
+  assert(full?.kind === 'resource' && !full.delta && JSON.parse(full.result!).length === 2, 'First transcript read written in full');
+  assert(delta?.kind === 'resource' && delta.delta === true && (JSON.parse(delta.result!) as Array<{ id: number }>).map(r => r.id).join() === '2,3',
+    'Later reads carry only new and changed rows');
+  assert(full?.kind === 'resource' && delta?.kind === 'resource' && applyRowDelta(full.result, delta.result!) === JSON.stringify(rows),
+    'applyRowDelta rebuilds the full read');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().finally(() => fs.rmSync(dir, { recursive: true, force: true })).then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
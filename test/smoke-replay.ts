@@ -0,0 +1,172 @@
+/**
+ * Replay harness smoke test — virtual clock ordering, fixture and recording
+ * inputs, and the replayed timeline (P1 question, hesitation gap-fill,
+ * flowing-RP suppression, threshold overrides) with the stub LLM.
+ *
+ * Run: npx tsx test/smoke-replay.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getConfig, resetConfig } from '../src/config.js';
+import { VirtualClock } from '../src/replay/virtual-clock.js';
+import { parseFixture, loadReplayInput, type TranscriptFixture } from '../src/replay/input.js';
+import { runReplay, formatTimeline, type ReplayResult } from '../src/replay/harness.js';
+import { SessionRecorder } from '../src/mcp/recorder.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.GM_IDENTIFIER = 'gm';
+process.env.HESITATION_SILENCE_SECONDS = '15';
+getConfig();
+
+const T0 = Date.parse('2026-03-01T19:00:00Z');
+const at = (seconds: number) => new Date(T0 + seconds * 1000).toISOString();
+
+const fixture: TranscriptFixture = {
+  sessionId: 'fixture-1',
+  segments: [
+    { timestamp: at(0), userId: 'gm', text: 'The rain has not stopped for three days.' },
+    { timestamp: at(60), userId: 'gm', text: 'And the merchant, his name is, hmm' },
+    { timestamp: at(300), userId: 'gm', text: 'What should the harbor guard say here?' },
+    { timestamp: at(600), userId: 'gm', text: 'She hands you the thing' },
+    { timestamp: at(602), userId: 'p1', text: 'I take it and look it over.' },
+    { timestamp: at(606), userId: 'p2', text: 'Is it warm to the touch?' },
+    { timestamp: at(610), userId: 'p1', text: 'It hums when I hold it.' },
+    { timestamp: at(614), userId: 'p2', text: 'Put it down, put it down!' },
+    { timestamp: at(4 * 3600), userId: 'gm', text: 'And that is where we will stop tonight.' },
+  ],
+};
+
+const types = (result: ReplayResult, kind: 'trigger' | 'suppressed') =>
+  result.timeline.flatMap(e => e.kind === 'trigger' && kind === 'trigger'
+    ? e.events.map(ev => ev.type)
+    : e.kind === 'suppressed' && kind === 'suppressed' ? [`${e.type}:${e.reason}`] : []);
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Virtual clock ─────────────────────────────────────────────────
+
+  console.log('\n── Test 1: Virtual clock ──');
+
+  const clock = new VirtualClock(new Date(T0));
+  const fired: string[] = [];
+  clock.setTimeout(() => fired.push(`timeout@${clock.now().getTime() - T0}`), 25_000);
+  const interval = clock.setInterval(() => fired.push(`tick@${clock.now().getTime() - T0}`), 10_000);
+  while (clock.runNext(T0 + 30_000)) { /* drain */ }
+  clock.advanceTo(T0 + 30_000);
+  assert(fired.join(',') === 'tick@10000,tick@20000,timeout@25000,tick@30000', 'Timers fire in due order at their due time');
+  clock.clearInterval(interval);
+  assert(clock.pendingTimers === 0, 'Fired timeouts and cleared intervals are removed');
+  assert(!clock.runNext(T0 + 60_000) && clock.now().getTime() === T0 + 30_000, 'runNext leaves time alone when nothing is due');
+
+  // ── Test 2: Fixture replay ────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Fixture replay ──');
+
+  const started = Date.now();
+  const result = await runReplay(parseFixture(fixture), { llm: 'stub', startActive: true });
+  const elapsedMs = Date.now() - started;
+  console.log(formatTimeline(result).split('\n').map(l => `    ${l}`).join('\n'));
+
+  assert(elapsedMs < 20_000, `4-hour fixture replays in seconds (${elapsedMs}ms)`);
+  const fired1 = types(result, 'trigger');
+  assert(fired1.includes('gm_question'), 'P1 question fires');
+  assert(fired1.filter(t => t === 'gm_hesitation').length === 1, 'Lone hesitation fires a gap-fill');
+  assert(types(result, 'suppressed').includes('gm_hesitation:flowing_rp'), 'Hesitation during flowing RP is suppressed');
+  assert(types(result, 'trigger').filter(t => t === 'silence_detection').length >= 1, 'GM silence fires P4');
+
+  const question = result.timeline.findIndex(e => e.kind === 'trigger' && e.events.some(ev => ev.type === 'gm_question'));
+  const answer = result.timeline[question + 1];
+  assert(answer?.kind === 'envelope' && answer.at === at(300), 'P1 answered at the question time (virtual clock)');
+  assert(result.totals.envelopes >= 2 && result.totals.segments === fixture.segments.length, 'Totals count envelopes and segments');
+
+  const hesitation = result.timeline.find(e => e.kind === 'trigger' && e.events.some(ev => ev.type === 'gm_hesitation'));
+  // 15s silence (next 10s tick) + 30s batch window
+  assert(hesitation?.at === at(60 + 20 + 30), 'Hesitation batch flushes after silence + batch window');
+
+  // ── Test 3: Threshold overrides ───────────────────────────────────────────
+
+  console.log('\n── Test 3: Threshold overrides ──');
+
+  resetConfig();
+  process.env.FLOWING_RP_MIN_SPEAKERS = '4';
+  getConfig();
+  const loose = await runReplay(parseFixture(fixture), { llm: 'stub', startActive: true });
+  assert(types(loose, 'trigger').filter(t => t === 'gm_hesitation').length === 2, 'FLOWING_RP_MIN_SPEAKERS=4 lets the second hesitation through');
+
+  resetConfig();
+  delete process.env.FLOWING_RP_MIN_SPEAKERS;
+  process.env.HESITATION_SILENCE_SECONDS = '600';
+  getConfig();
+  const patient = await runReplay(parseFixture(fixture), { llm: 'stub', startActive: true });
+  const earlyGap = patient.timeline.some(e => e.kind === 'trigger' && Date.parse(e.at) < T0 + 600_000 &&
+    e.events.some(ev => ev.type === 'gm_hesitation'));
+  assert(!earlyGap, 'HESITATION_SILENCE_SECONDS=600 holds the first gap-fill back');
+
+  resetConfig();
+  process.env.HESITATION_SILENCE_SECONDS = '15';
+  getConfig();
+
+  // ── Test 4: Recording input ───────────────────────────────────────────────
+
+  console.log('\n── Test 4: Recording input ──');
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'magi-replay-'));
+  try {
+    const recorder = new SessionRecorder(dir, 'claude-test');
+    recorder.start('sess-1', new Date(T0));
+    const file = recorder.currentFile!;
+    const rows: Array<Record<string, unknown>> = [];
+    const transcriptRead = (seconds: number) =>
+      recorder.recordResource('discord', 'session://sess-1/transcript', 5, JSON.stringify(rows), undefined, new Date(at(seconds)));
+
+    rows.push({ id: 1, transcript: 'Welcome back everyone', segmentStart: at(0), userId: 'gm', isFinal: true });
+    transcriptRead(5);
+    rows.push({ id: 2, transcript: 'What should the', segmentStart: at(20), userId: 'gm', isFinal: false });
+    transcriptRead(25);
+    transcriptRead(35);
+    rows[1] = { ...rows[1], transcript: 'What should the guard say?', isFinal: true };
+    transcriptRead(45);
+    recorder.recordToolCall('wiki__get_card', { name: 'Plan' }, 9, { content: [] });
+    await recorder.stop(new Date(T0 + 60_000));
+
+    const input = loadReplayInput(file, true);
+    assert(input.kind === 'recording' && input.sessionId === 'sess-1', 'Recording detected from session_start line');
+    assert(input.segments.length === 2 && input.segments[0].seeded === true, 'First read seeds history without triggers');
+    assert(input.segments[1].text === 'What should the guard say?' && input.segments[1].arrivedAt === Date.parse(at(45)),
+      'Interim segment fed once final, at the finalizing read');
+    assert(input.toolResults.size === 1, 'Recorded tool results indexed for the replay MCP');
+
+    const replayed = await runReplay(input, { llm: 'stub', startActive: true });
+    assert(types(replayed, 'trigger').filter(t => t !== 'silence_detection').join(',') === 'gm_question',
+      'Only the live segment reaches the triggers');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,166 @@
+/**
+ * Spotlight tracking smoke test — talk time credited to characters through
+ * USER_MAPPINGS (unmapped speakers ignored), rolling shares and debt, scene
+ * involvement, quiet time that only runs during active play, the P3
+ * spotlight trigger (once per quiet stretch), the GM's /spotlight override,
+ * and tracking staying off without GM_IDENTIFIER.
+ *
+ * Run: npx tsx test/smoke-spotlight.ts
+ */
+
+import { resetConfig, getConfig } from '../src/config.js';
+import { SpotlightTracker } from '../src/state/spotlight.js';
+import { TriggerDetector } from '../src/reasoning/triggers.js';
+import { ContextAssembler } from '../src/reasoning/context.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { VirtualClock } from '../src/replay/virtual-clock.js';
+import { AssistantState, TriggerPriority, type TriggerEvent } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+process.env.GM_IDENTIFIER = 'gm';
+process.env.USER_MAPPINGS = JSON.stringify({ alice: 'Mira', bob: 'Tavi', carol: 'Oren' });
+
+const START = new Date('2026-03-01T19:00:00Z');
+const MINUTE = 60_000;
+const LINE = 'I climb the tower and look out over the harbor';
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Tracker ───────────────────────────────────────────────────────
+
+  console.log('\n── Test 1: Tracker ──');
+
+  const tracker = new SpotlightTracker({ windowMinutes: 20, quietMinutes: 15, minWords: 4, userMappings: getConfig().userMappings });
+  assert(tracker.characters.join() === 'Mira,Tavi,Oren', 'Mapped characters tracked before they speak');
+  assert(tracker.characterFor({ userId: 'u1', displayName: 'Alice' }) === 'Mira' && tracker.characterFor({ displayName: 'mira' }) === 'Mira',
+    'Discord names and character names resolve to the character');
+  assert(tracker.characterFor({ displayName: 'Dana' }) === null && tracker.record({ text: LINE, displayName: 'Dana' }) === null,
+    'With USER_MAPPINGS, unmapped speakers are not tracked');
+  const unmapped = new SpotlightTracker({ windowMinutes: 20, quietMinutes: 15, minWords: 4 });
+  assert(unmapped.characterFor({ displayName: 'Dana' }) === 'Dana', 'Without mappings, speakers count under their display name');
+
+  tracker.tick(0, true);
+  for (let i = 0; i < 6; i++) tracker.record({ text: LINE, displayName: 'alice' });
+  tracker.record({ text: LINE, displayName: 'bob' });
+  assert(tracker.record({ text: 'yeah ok', displayName: 'carol' }) === null, 'Short lines are talk but not a meaningful turn');
+  let standings = new Map(tracker.standings().map(s => [s.character, s]));
+  assert(Math.round(standings.get('Mira')!.share * 100) === 83, 'Share of player talk per character');
+  assert(standings.get('Oren')!.debt === 0, 'Debt rounds to whole minutes of talk owed');
+  for (let i = 0; i < 30; i++) tracker.record({ text: LINE, displayName: 'alice' });
+  standings = new Map(tracker.standings().map(s => [s.character, s]));
+  assert(standings.get('Oren')!.debt === 1 && standings.get('Mira')!.debt === 0, 'Quiet players owe talk, the talker owes none');
+  assert(standings.get('Tavi')!.inScene && !standings.get('Oren')!.inScene, 'Scene involvement needs a meaningful line');
+  tracker.sceneChanged();
+  assert(tracker.standings().every(s => !s.inScene), 'New scene: nobody involved yet');
+
+  tracker.tick(10 * MINUTE, false);
+  tracker.tick(30 * MINUTE, true);
+  assert(tracker.standings().every(s => s.quietMinutes === 20), 'Quiet time only runs while active');
+  tracker.tick(50 * MINUTE, true);
+  assert(tracker.standings().find(s => s.character === 'Mira')!.share === 0, 'Talk ages out of the window');
+
+  // ── Test 2: Triggers ──────────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Triggers ──');
+
+  const clock = new VirtualClock(START);
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+  const detector = new TriggerDetector(pacing, {}, clock, { ...getConfig(), userMappings: { alice: 'Mira', bob: 'Tavi', carol: 'Oren' } });
+  const fired: TriggerEvent[] = [];
+  detector.on('trigger', batch => fired.push(...batch.events));
+  detector.start();
+
+  const say = (displayName: string) => detector.onTranscriptUpdate([{ text: LINE, userId: displayName, displayName, timestamp: clock.now().toISOString() }]);
+  const at = (minutes: number) => {
+    const until = START.getTime() + minutes * MINUTE;
+    while (clock.runNext(until)) { /* fire the 10s checks */ }
+    clock.advanceTo(until);
+  };
+  const spotlights = () => [...fired, ...detector.getPendingEvents()].filter(e => e.type === 'spotlight_debt');
+
+  for (let m = 0; m < 16; m++) {
+    at(m);
+    say('alice');
+    say('bob');
+    say('gm');
+  }
+  at(16);
+  assert(pacing.state.spotlight_share.Mira === 50 && pacing.state.spotlight_share.Oren === 0, 'Shares written to the pacing state');
+  assert(pacing.state.spotlight_debt.Oren > 0 && pacing.state.players_without_recent_spotlight.includes('Oren'), 'Debt updated automatically');
+  assert(spotlights().map(e => e.data.player).join() === 'Oren', 'Quiet player fires a P3 spotlight trigger');
+  const event = spotlights()[0];
+  assert(event.priority === TriggerPriority.P3 && event.data.quiet_minutes === 15 && event.data.in_scene === false, 'Trigger carries quiet time and scene involvement');
+  at(20);
+  assert(spotlights().length === 1, 'Once per quiet stretch');
+
+  pacing.transitionTo(AssistantState.SLEEP);
+  at(60);
+  pacing.transitionTo(AssistantState.ACTIVE);
+  at(61);
+  assert(spotlights().length === 1, 'SLEEP time does not count as quiet');
+
+  // ── Test 3: GM override ───────────────────────────────────────────────────
+
+  console.log('\n── Test 3: GM override ──');
+
+  detector.setSpotlightOverride('bob', 4);
+  at(62);
+  assert(pacing.state.spotlight_debt.Tavi === 4 && pacing.isSpotlightOverridden('Tavi'), '/spotlight with a Discord name sets the character\'s debt');
+  detector.setSpotlightOverride('Oren', 0);
+  at(63);
+  assert(pacing.state.spotlight_debt.Oren === 0, 'Override holds against automatic tracking');
+  say('bob');
+  at(64);
+  assert(!pacing.isSpotlightOverridden('Tavi') && pacing.state.spotlight_debt.Tavi !== 4, 'Speaking again hands the player back to tracking');
+  detector.stop();
+
+  const noGmPacing = new PacingStateManager();
+  noGmPacing.startSession();
+  noGmPacing.transitionTo(AssistantState.ACTIVE);
+  const noGm = new TriggerDetector(noGmPacing, {}, clock, { ...getConfig(), gmIdentifier: '' });
+  noGm.start();
+  at(90);
+  noGm.stop();
+  assert(Object.keys(noGmPacing.state.spotlight_share).length === 0 && noGm.getPendingEvents().length === 0,
+    'No GM_IDENTIFIER → spotlight tracking off');
+
+  // ── Test 4: Trigger summary ───────────────────────────────────────────────
+
+  console.log('\n── Test 4: Trigger summary ──');
+
+  const fakeMcp = { isConnected: () => true, readResource: async () => null, getAllTools: () => [] };
+  const assembler = new ContextAssembler(fakeMcp as any, pacing, new AdviceMemoryBuffer(5));
+  const summary: string = (assembler as any).summarizeTriggers({ events: [event], flushedAt: START.toISOString() });
+  assert(summary.includes('P3 — Spotlight: Oren has been quiet for 15min of play (0% of player talk lately, not yet in this scene)'),
+    'Quiet player described to the model');
+  assert((assembler as any).buildPacingBlock().includes('"spotlight_share":{'), 'Shares reach the pacing block');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,267 @@
+/**
+ * Seed and thread lifecycle smoke test — extraction from plan/beat cards,
+ * pacing-state bookkeeping, /reveal /thread /close, transcript reveal
+ * detection pending GM confirmation (not in the planting scene, not on the
+ * name alone), the convergence gate and context, and carry-over of
+ * unresolved seeds and threads into the next session.
+ *
+ * Run: npx tsx test/smoke-story-threads.ts
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { EventEmitter } from 'node:events';
+import { resetConfig, getConfig } from '../src/config.js';
+import { extractStoryThreads, revealHits, revealKeywords } from '../src/reasoning/story-threads.js';
+import { TriggerDetector } from '../src/reasoning/triggers.js';
+import { ContextAssembler } from '../src/reasoning/context.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { StoryCarryoverStore } from '../src/state/carryover.js';
+import { parseGmCommand } from '../src/state/gm-commands.js';
+import { SessionController } from '../src/session/controller.js';
+import { ToolApprovalQueue } from '../src/output/tool-approval-queue.js';
+import { VirtualClock } from '../src/replay/virtual-clock.js';
+import { AssistantState, TriggerPriority, type AdviceEnvelope, type TriggerEvent } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+process.env.GM_IDENTIFIER = 'gm-user';
+process.env.TARGET_GUILD_ID = '';
+process.env.STATE_PERSISTENCE_ENABLED = 'false';
+
+const PLAN_HTML = `
+<h2>Overview</h2><p>The crew returns to Port Vell.</p>
+<h3>Seeds</h3>
+<ul>
+  <li>The broken signet — revealed when Captain Ilse shows the matching half of the signet</li>
+  <li>Silent bell: the harbor bell hasn't rung in years</li>
+</ul>
+<h3>Open Threads</h3>
+<ul><li>Who hired the smugglers?</li><li>The debt to Madam Oru — due at the full moon</li></ul>
+<h3>Scene 1</h3><p>Nothing to see here.</p>`;
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Extraction ────────────────────────────────────────────────────
+
+  console.log('\n── Test 1: Extraction ──');
+
+  const extracted = extractStoryThreads(PLAN_HTML, 'Port Vell');
+  assert(extracted.seeds.map(s => s.name).join('|') === 'The broken signet|Silent bell', 'Seed names from a Seeds section');
+  assert(extracted.seeds[0].scene === 'Port Vell', 'Seeds planted in the card\'s scene');
+  assert(extracted.seeds[0].revealKeywords.join() === 'captain,ilse,shows,matching,half,signet', 'Reveal clause supplies the keywords');
+  assert(extracted.seeds[1].revealKeywords.includes('harbor') && extracted.seeds[1].revealKeywords.includes('bell'), 'Without a clause, the item\'s own words');
+  assert(extracted.threads.join('|') === 'Who hired the smugglers?|The debt to Madam Oru', 'Threads from an Open Threads section');
+  assert(extractStoryThreads('<p>No sections</p>', 'X').seeds.length === 0, 'Cards without sections add nothing');
+
+  assert(revealHits('Ilse slides the other half of the signet across the table', extracted.seeds[0].revealKeywords).join() === 'ilse,half,signet',
+    'Two or more keywords together → probable reveal');
+  assert(revealHits('Captain, the bell!', extracted.seeds[0].revealKeywords).length === 0, 'One keyword alone is not enough');
+  assert(revealHits('We found the ledger', revealKeywords('Ledger')).join() === 'ledger', 'One-keyword seeds need just that word');
+
+  // ── Test 2: Pacing state ──────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Pacing state ──');
+
+  const pacing = new PacingStateManager();
+  assert(pacing.addSeed('The broken signet', 'Port Vell') && !pacing.addSeed('the Broken Signet', 'Docks'), 'Seeds deduplicated by name');
+  pacing.addSeed('Silent bell', 'Port Vell');
+  assert(pacing.findSeed('signet')?.name === 'The broken signet', 'A unique part of the name finds the seed');
+  pacing.addThread('Who hired the smugglers?');
+  pacing.addThread('who hired the smugglers?');
+  pacing.addThread('The debt to Madam Oru');
+  assert(pacing.state.open_threads.length === 2, 'Threads deduplicated case-insensitively');
+  assert(pacing.closeThread('oru') === 'The debt to Madam Oru' && pacing.state.open_threads.length === 1, 'Close a thread by part of its name');
+  assert(pacing.closeThread('nothing') === null, 'Unknown thread → null');
+  pacing.markRevealPending('Silent bell');
+  assert(pacing.revealSeed('bell')?.revealed === true && !pacing.findSeed('bell')!.reveal_pending, 'Reveal clears the pending flag');
+  assert(pacing.unrevealedSeeds().map(s => s.name).join() === 'The broken signet', 'Unrevealed seeds');
+
+  const next = new PacingStateManager();
+  next.carryOver(pacing.state.planted_seeds, pacing.state.open_threads);
+  assert(next.state.planted_seeds.length === 1 && next.state.planted_seeds[0].carried_over === true, 'Carry-over keeps only unrevealed seeds, marked');
+  assert(next.state.open_threads.join() === 'Who hired the smugglers?', 'Open threads carried over');
+
+  const reveal = parseGmCommand('/reveal The broken signet', '');
+  const thread = parseGmCommand('/thread The lighthouse keeper', '');
+  const close = parseGmCommand('/close lighthouse', '');
+  assert(reveal?.args.join('|') === 'The broken signet' && thread?.type === 'thread' && close?.args[0] === 'lighthouse',
+    '/reveal, /thread and /close take their full text');
+
+  // ── Test 3: Reveal detection + convergence ────────────────────────────────
+
+  console.log('\n── Test 3: Reveal detection + convergence ──');
+
+  const start = new Date('2026-03-01T19:00:00Z');
+  const clock = new VirtualClock(start);
+  const live = new PacingStateManager();
+  live.startSession();
+  live.transitionTo(AssistantState.ACTIVE);
+  for (const seed of extracted.seeds) live.addSeed(seed.name, seed.scene, seed.revealKeywords);
+  live.addThread('Who hired the smugglers?');
+  live.setSessionEndTime(new Date(start.getTime() + 60 * 60_000).toISOString());
+
+  const detector = new TriggerDetector(live, {}, clock, { ...getConfig(), convergenceGateMinutes: 45 });
+  const fired: TriggerEvent[] = [];
+  detector.on('trigger', batch => fired.push(...batch.events));
+  detector.start();
+  const say = (text: string) => detector.onTranscriptUpdate([{ text, userId: 'gm-user', displayName: 'gm-user', timestamp: clock.now().toISOString() }]);
+  const events = (type: string) => [...fired, ...detector.getPendingEvents()].filter(e => e.type === type);
+
+  say('Captain Ilse sets the other half of the signet on the table.');
+  say('Ilse shows you the signet again.');
+  const seedEvents = events('seed_reveal');
+  assert(seedEvents.length === 1 && seedEvents[0].data.seed === 'The broken signet' && seedEvents[0].priority === TriggerPriority.P3,
+    'Matching line fires one P3 seed_reveal');
+  assert(live.findSeed('signet')!.reveal_pending === true && !live.findSeed('signet')!.revealed, 'Seed is pending GM confirmation, not revealed');
+
+  const until = start.getTime() + 20 * 60_000;
+  while (clock.runNext(until)) { /* fire the 10s checks */ }
+  clock.advanceTo(until);
+  const gate = events('pacing_gate_convergence')[0];
+  const unrevealed = gate?.data.unrevealed_seeds as Array<{ name: string; reveal_pending?: boolean }> | undefined;
+  assert(unrevealed?.map(s => s.name).join() === 'The broken signet,Silent bell' && unrevealed[0].reveal_pending === true,
+    'Convergence gate carries unrevealed seeds');
+  detector.stop();
+
+  const fakeMcp = { isConnected: () => true, readResource: async () => null, getAllTools: () => [] };
+  const assembler = new ContextAssembler(fakeMcp as any, live, new AdviceMemoryBuffer(5));
+  const summary: string = (assembler as any).summarizeTriggers({ events: [gate], flushedAt: start.toISOString() });
+  assert(summary.includes('Open threads: Who hired the smugglers?') && summary.includes('Unrevealed seeds: The broken signet (planted in Port Vell)'),
+    'Convergence summary names threads and seeds');
+  const block: string = (assembler as any).buildPacingBlock();
+  assert(block.includes('"planted_seeds":[{"name":"The broken signet"') && block.includes('"open_threads":["Who hired the smugglers?"]'),
+    'Seeds and threads reach the pacing block');
+  assert(!block.includes('reveal_keywords'), 'Reveal keywords stay out of the context');
+
+  live.advanceScene('Lighthouse');
+  live.addSeed('The drowned lantern', 'Lighthouse', revealKeywords('drowned lantern keeper confesses'));
+  say('The keeper confesses nothing, but the drowned lantern hangs above you.');
+  assert(!live.findSeed('lantern')!.reveal_pending, 'No reveal in the scene that plants the seed');
+  live.advanceScene('Harbor');
+  say('You still have the drowned lantern with you.');
+  assert(!live.findSeed('lantern')!.reveal_pending, 'Repeating the seed\'s name is not a reveal');
+  say('At last the keeper confesses what the lantern was for.');
+  assert(live.findSeed('lantern')!.reveal_pending === true, 'Reveal keywords beyond the name fire in a later scene');
+
+  // ── Test 4: Controller lifecycle + carry-over ─────────────────────────────
+
+  console.log('\n── Test 4: Controller lifecycle + carry-over ──');
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-threads-'));
+  try {
+    const resources: Record<string, string> = {
+      'discord|session://active': JSON.stringify({ active: true, sessions: [{ id: 's1' }] }),
+    };
+    const mcp = Object.assign(new EventEmitter(), {
+      isConnected: () => true,
+      readResource: async (server: string, uri: string) => resources[`${server}|${uri}`] ?? null,
+      callTool: async (name: string, args: Record<string, unknown>) => ({
+        content: name === 'wiki__get_card' && args.name === 'Plan' ? [{ type: 'text', text: PLAN_HTML }] : [],
+      }),
+      subscribeResource: async () => false,
+      unsubscribeResource: async () => {},
+      isSubscribed: () => false,
+      startRecording() {},
+      stopRecording() {},
+    });
+    const engine = Object.assign(new EventEmitter(), {
+      setGmNotes() {}, setNpcCache() {}, setSceneIndex() {}, setFuzzyTable() {},
+      async process() { return []; },
+      toolApprovals: new ToolApprovalQueue(),
+    });
+    const delivered: AdviceEnvelope[] = [];
+    const delivery = {
+      deliver: async (env: AdviceEnvelope) => { delivered.push(env); return 'foundry' as const; },
+      async deliverAll(envs: AdviceEnvelope[]) { const channels = []; for (const env of envs) channels.push(await this.deliver(env)); return channels; },
+      postSystemMessage: async () => true,
+    };
+    const triggers = Object.assign(new EventEmitter(), {
+      start() {}, stop() {}, resetSession() {},
+      onTranscriptUpdate() {}, onGameEvent() {}, checkPacingOverrun() {},
+      getPhoneticDiscoveries: () => [], getEngagementReport: () => [],
+      setNpcCache() {}, setSceneIndex() {}, setBeatCache() {}, setWhisperStage() {},
+      backfillNpcMentions() {}, reloadFuzzyTable() {},
+      getPendingEvents: () => [],
+    });
+
+    const file = path.join(dir, 'carryover.json');
+    const session = new PacingStateManager();
+    const controller = new SessionController({
+      mcp: mcp as any,
+      pacing: session,
+      memory: new AdviceMemoryBuffer(10),
+      triggers: triggers as any,
+      engine: engine as any,
+      delivery: delivery as any,
+      carryover: new StoryCarryoverStore(file),
+      config: getConfig(),
+    });
+
+    await controller.pollForSession();
+    await flush();
+    await (controller as any).buildActivationCaches('Plan');
+    assert(session.state.planted_seeds.length === 2 && session.state.open_threads.length === 2, 'Plan card seeds and threads tracked');
+
+    session.markRevealPending('The broken signet');
+    await controller.handleTriggerBatch({
+      events: [{ type: 'seed_reveal', priority: TriggerPriority.P3, source: 'transcript', timestamp: '',
+        data: { seed: 'The broken signet', planted_in_scene: 'Port Vell', transcript: 'Ilse shows the other half of the signet' } }],
+      flushedAt: '',
+    });
+    const notice = delivered.find(e => e.tag === 'SEED');
+    assert(notice?.category === 'continuity' && !!notice.body?.includes('/reveal The broken signet'), 'Probable reveal delivered pre-composed, asking for /reveal');
+
+    controller.applyGmCommand(parseGmCommand('/reveal', '')!);
+    assert(session.findSeed('signet')!.revealed, '/reveal alone confirms the one pending seed');
+    controller.applyGmCommand(parseGmCommand('/thread The lighthouse keeper', '')!);
+    controller.applyGmCommand(parseGmCommand('/close smugglers', '')!);
+    assert(session.state.open_threads.join('|') === 'The debt to Madam Oru|The lighthouse keeper', '/thread opens, /close closes');
+
+    await controller.stopSessionLoops();
+    const saved = new StoryCarryoverStore(file).load();
+    assert(saved.seeds.map(s => s.name).join() === 'Silent bell' && saved.threads.length === 2, 'Unresolved seeds and threads saved at session end');
+    assert(saved.resolved.includes('the broken signet') && saved.resolved.includes('who hired the smugglers?'), 'Resolved names remembered');
+
+    resources['discord|session://active'] = JSON.stringify({ active: true, sessions: [{ id: 's2' }] });
+    await controller.pollForSession();
+    await flush();
+    assert(session.state.planted_seeds.map(s => s.name).join() === 'Silent bell' && session.state.planted_seeds[0].carried_over === true,
+      'Next session starts with the carried-over seeds');
+    await (controller as any).buildActivationCaches('Plan');
+    assert(!session.findSeed('signet') && !session.state.open_threads.some(t => t.includes('smugglers')),
+      'Re-reading the same plan does not re-plant resolved seeds or threads');
+    await controller.stopSessionLoops();
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
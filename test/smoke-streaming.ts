@@ -0,0 +1,231 @@
+/**
+ * Streaming delivery smoke test — partial envelope parsing, the stream
+ * tracker's open/withdraw rules, the engine streaming a script envelope,
+ * and Foundry's edit-in-place and summary-then-body delivery paths (with
+ * retraction of withdrawn summaries and stream cleanup on every exit).
+ *
+ * Run: npx tsx test/smoke-streaming.ts
+ */
+
+import { resetConfig, getConfig } from '../src/config.js';
+import { parsePartialEnvelope } from '../src/reasoning/envelope-parser.js';
+import { AdviceStreamTracker } from '../src/reasoning/advice-stream.js';
+import { ReasoningEngine } from '../src/reasoning/engine.js';
+import { MockProvider } from '../src/llm/index.js';
+import { FoundryAdviceOutput } from '../src/output/foundry-sidebar.js';
+import { AdviceDelivery } from '../src/output/index.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { AssistantState, TriggerPriority, type AdviceEnvelope, type AdviceStreamUpdate } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+
+const flush = async () => { for (let i = 0; i < 10; i++) await new Promise(resolve => setImmediate(resolve)); };
+
+const READ_ALOUD: AdviceEnvelope = {
+  category: 'script', tag: 'READ_ALOUD', priority: TriggerPriority.P2,
+  summary: 'Docks at night — read the arrival text',
+  body: 'Fog rolls off the black water. Lanterns sway on the "Gull\'s Rest" as a bell tolls twice.',
+  confidence: 0.9, source_cards: ['Scenes+Docks'],
+};
+
+function collector() {
+  const updates: AdviceStreamUpdate[] = [];
+  return { updates, emit: (u: AdviceStreamUpdate) => updates.push(u) };
+}
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Partial envelopes ─────────────────────────────────────────────
+
+  console.log('\n── Test 1: Partial envelopes ──');
+
+  const full = JSON.stringify(READ_ALOUD);
+  const cut = full.slice(0, full.indexOf('black water') + 5);
+  const partial = parsePartialEnvelope('```json\n' + cut);
+  assert(partial.category === 'script' && partial.tag === 'READ_ALOUD' && partial.complete.has('summary'),
+    'Fields before the cut are complete (code fence skipped)');
+  assert(partial.body === 'Fog rolls off the black' && !partial.complete.has('body'), 'Body cut off mid-string');
+  assert(parsePartialEnvelope(full).body === READ_ALOUD.body, 'Escaped quotes decoded');
+  assert(parsePartialEnvelope('{"tag":"X","body":"line\\').body === 'line', 'Dangling escape dropped');
+  assert(parsePartialEnvelope('{"priority":2,"source_cards":["a,b"],"tag":"T"}').tag === 'T', 'Non-string values skipped');
+  assert(parsePartialEnvelope('Let me check the wiki first.').complete.size === 0, 'Preamble text yields nothing');
+
+  // ── Test 2: Stream tracker ────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Stream tracker ──');
+
+  const scriptOnly = new Set(['script']);
+  const a = collector();
+  const tracker = new AdviceStreamTracker('s1', TriggerPriority.P2, scriptOnly, () => true, a.emit);
+  for (let end = 10; end <= full.length; end += 10) tracker.onText(full.slice(0, end));
+  tracker.onText(full);
+  assert(tracker.opened && a.updates[0].tag === 'READ_ALOUD' && a.updates[a.updates.length - 1].body === READ_ALOUD.body,
+    'Script envelope streams through to the full body');
+  assert(a.updates.every((u, i) => i === 0 || u.summary !== a.updates[i - 1].summary || u.body !== a.updates[i - 1].body ||
+    u.summaryComplete !== a.updates[i - 1].summaryComplete), 'Only changes are emitted');
+
+  const b = collector();
+  const pacing = new AdviceStreamTracker('s2', TriggerPriority.P3, scriptOnly, () => true, b.emit);
+  pacing.onText(JSON.stringify({ ...READ_ALOUD, category: 'pacing' }));
+  const none = new AdviceStreamTracker('s3', TriggerPriority.P3, new Set(['none', 'script']), () => true, b.emit);
+  none.onText('{"category":"none","tag":"NO_ADVICE","summary":""}');
+  assert(b.updates.length === 0 && !pacing.opened && !none.opened, 'Other categories and NO_ADVICE never open');
+
+  const c = collector();
+  let checks = 0;
+  const dup = new AdviceStreamTracker('s4', TriggerPriority.P2, scriptOnly, () => ++checks < 2, c.emit);
+  dup.onText(full.slice(0, full.indexOf('"summary"') + 15));
+  dup.onText(full);
+  assert(c.updates.length === 2 && c.updates[1].state === 'withdrawn', 'Rejected once the summary completes → withdrawn');
+
+  // ── Test 3: Engine streaming ──────────────────────────────────────────────
+
+  console.log('\n── Test 3: Engine streaming ──');
+
+  const fakeMcp = {
+    isConnected: () => true,
+    readResource: async () => null,
+    getAllTools: () => [],
+    callTool: async () => ({ content: [] }),
+    recordLlmExchange() {},
+  };
+  const activePacing = () => {
+    const p = new PacingStateManager();
+    p.startSession();
+    p.transitionTo(AssistantState.ACTIVE);
+    return p;
+  };
+  const batch = {
+    events: [{ type: 'scene_transition' as const, priority: TriggerPriority.P2, source: 'foundry' as const, data: {}, timestamp: new Date().toISOString() }],
+    flushedAt: new Date().toISOString(),
+  };
+
+  const memory = new AdviceMemoryBuffer(10);
+  const engine = new ReasoningEngine(fakeMcp as any, activePacing(), memory, () => [], {
+    provider: new MockProvider([{ envelope: READ_ALOUD as any }, { envelope: READ_ALOUD as any }]),
+  });
+  const streamed = collector();
+  engine.on('stream', streamed.emit);
+  const [envelope] = await engine.process(batch);
+  assert(streamed.updates.length > 2 && envelope?.stream_id === streamed.updates[0].id, 'Final envelope carries the stream id');
+  assert(streamed.updates[0].priority === TriggerPriority.P2, 'Stream takes the batch priority');
+
+  streamed.updates.length = 0;
+  const repeat = await engine.process(batch);
+  assert(repeat.length === 0 && streamed.updates[streamed.updates.length - 1]?.state === 'withdrawn', 'Duplicate advice withdrawn');
+
+  const quiet = new ReasoningEngine(fakeMcp as any, activePacing(), new AdviceMemoryBuffer(10), () => [], {
+    provider: new MockProvider([{ envelope: READ_ALOUD as any }]),
+  });
+  assert((await quiet.process(batch))[0]?.stream_id === undefined, 'No listener → no streaming');
+
+  // ── Test 4: Foundry edit-in-place ─────────────────────────────────────────
+
+  console.log('\n── Test 4: Foundry edit-in-place ──');
+
+  const calls: Array<{ name: string; args: Record<string, unknown> }> = [];
+  const foundryMcp = (tools: string[]) => ({
+    isConnected: () => true,
+    getAllTools: () => tools.map(name => ({ name })),
+    callTool: async (name: string, args: Record<string, unknown>) => {
+      calls.push({ name, args });
+      return { content: [{ type: 'text', text: JSON.stringify({ messageId: `msg-${calls.length}` }) }] };
+    },
+  });
+  const editing = new FoundryAdviceOutput(foundryMcp(['foundry__send_whisper', 'foundry__update_message']) as any);
+
+  const live = collector();
+  const liveTracker = new AdviceStreamTracker('live', TriggerPriority.P2, scriptOnly, () => true, live.emit);
+  for (let end = 10; end <= full.length; end += 10) liveTracker.onText(full.slice(0, end));
+  for (const u of live.updates) editing.stream(u);
+  await flush();
+  assert(calls[0]?.name === 'foundry__send_whisper' && String(calls[0].args.content).includes('[READ_ALOUD]'), 'Placeholder posted');
+  assert(calls.length === 1, 'Updates inside the interval are coalesced');
+
+  const ok = await editing.deliver({ ...READ_ALOUD, stream_id: 'live' });
+  const last = calls[calls.length - 1];
+  assert(ok && last.name === 'foundry__update_message' && last.args.message_id === 'msg-1' &&
+    String(last.args.content).includes('black water'), 'Finished advice replaces the placeholder');
+  assert(calls.filter(c => c.name === 'foundry__send_whisper').length === 1, 'No second whisper');
+
+  calls.length = 0;
+  const gone = collector();
+  const goneTracker = new AdviceStreamTracker('gone', TriggerPriority.P2, scriptOnly, () => true, gone.emit);
+  goneTracker.onText(full.slice(0, 60));
+  editing.stream(gone.updates[0]);
+  await flush();
+  goneTracker.withdraw();
+  editing.stream(gone.updates[gone.updates.length - 1]);
+  await flush();
+  assert(calls.length === 2 && calls[1].name === 'foundry__update_message' && String(calls[1].args.content).includes('withdrawn'),
+    'Withdrawn stream edits the placeholder');
+
+  // ── Test 5: Summary first, body second ────────────────────────────────────
+
+  console.log('\n── Test 5: Summary first, body second ──');
+
+  calls.length = 0;
+  const split = new FoundryAdviceOutput(foundryMcp(['foundry__send_whisper']) as any);
+  for (const u of live.updates) split.stream(u);
+  await flush();
+  assert(calls.length === 1 && String(calls[0].args.content).includes('Docks at night') &&
+    !String(calls[0].args.content).includes('Fog'), 'Summary posted alone once complete');
+  await split.deliver({ ...READ_ALOUD, stream_id: 'live' });
+  assert(calls.length === 2 && calls[1].name === 'foundry__send_whisper' && String(calls[1].args.content).includes('black water'),
+    'Body follows as its own whisper');
+
+  calls.length = 0;
+  const splitGone = collector();
+  const splitGoneTracker = new AdviceStreamTracker('split-gone', TriggerPriority.P2, scriptOnly, () => true, splitGone.emit);
+  splitGoneTracker.onText(full);
+  for (const u of splitGone.updates) split.stream(u);
+  await flush();
+  splitGoneTracker.withdraw();
+  split.stream(splitGone.updates[splitGone.updates.length - 1]);
+  await flush();
+  assert(calls.length === 2 && calls[1].name === 'foundry__send_whisper' && String(calls[1].args.content).includes('withdrawn') &&
+    String(calls[1].args.content).includes('Docks at night'), 'Withdrawn after its summary → retraction whisper');
+
+  let foundryUp = true;
+  const flaky = new FoundryAdviceOutput({ ...foundryMcp(['foundry__send_whisper']), isConnected: () => foundryUp } as any);
+  for (const u of live.updates) flaky.stream(u);
+  await flush();
+  foundryUp = false;
+  assert(!await flaky.deliver({ ...READ_ALOUD, stream_id: 'live' }) && (flaky as any).streams.size === 0,
+    'Stream released when the finished advice goes elsewhere');
+
+  calls.length = 0;
+  process.env.DRY_RUN = 'true';
+  resetConfig();
+  const dry = new AdviceDelivery(foundryMcp(['foundry__send_whisper']) as any, getConfig());
+  for (const u of live.updates) dry.stream(u);
+  await flush();
+  assert(calls.length === 0, 'Dry run streams nothing');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,159 @@
+/**
+ * Tool policy smoke test — rule resolution, TOOL_POLICY parsing, the context
+ * only offering permitted tools, the engine refusing denied calls and staging
+ * "confirm" calls, and the approval queue behind /approve and /reject.
+ *
+ * Run: npx tsx test/smoke-tool-policy.ts
+ */
+
+import { resetConfig, getConfig, DEFAULT_TOOL_POLICY } from '../src/config.js';
+import { ToolPolicy } from '../src/mcp/tool-policy.js';
+import { ToolApprovalQueue, type PendingToolCall } from '../src/output/tool-approval-queue.js';
+import { ContextAssembler } from '../src/reasoning/context.js';
+import { ReasoningEngine } from '../src/reasoning/engine.js';
+import { MockProvider } from '../src/llm/index.js';
+import { parseGmCommand } from '../src/state/gm-commands.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { AssistantState, TriggerPriority, type TriggerBatch } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+
+const question = (): TriggerBatch => ({
+  events: [{ type: 'gm_question', priority: TriggerPriority.P1, source: 'transcript', data: { transcript: 'who owns the Gull?' }, timestamp: new Date().toISOString() }],
+  flushedAt: new Date().toISOString(),
+});
+
+const TOOLS = ['wiki__get_card', 'wiki__search_cards', 'wiki__update_card', 'foundry__get_actor', 'foundry__send_whisper', 'discord__post_image'];
+
+function activePacing(): PacingStateManager {
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  pacing.transitionTo(AssistantState.ACTIVE);
+  return pacing;
+}
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Rule resolution ───────────────────────────────────────────────
+
+  console.log('\n── Test 1: Rule resolution ──');
+
+  const defaults = new ToolPolicy(DEFAULT_TOOL_POLICY);
+  assert(['wiki__get_card', 'wiki__search_cards', 'foundry__get_actor'].every(t => defaults.permission(t) === 'allow'),
+    'Read-only wiki and Foundry tools allowed by default');
+  assert(['wiki__update_card', 'foundry__send_whisper', 'discord__post_image'].every(t => defaults.permission(t) === 'deny'),
+    'Side-effecting tools denied by default');
+
+  const custom = new ToolPolicy({ 'foundry__*': 'deny', 'foundry__get*': 'confirm', 'foundry__get_actor': 'allow' });
+  assert(custom.permission('foundry__get_actor') === 'allow', 'Exact name beats patterns');
+  assert(custom.permission('foundry__get_scene') === 'confirm', 'Longer pattern beats shorter');
+  assert(custom.permission('foundry__roll') === 'deny' && custom.permission('wiki__get_card') === 'deny', 'Unmatched tools denied');
+  assert(new ToolPolicy({ 'wiki__get.card': 'allow' }).permission('wiki__getXcard') === 'deny', 'Pattern characters other than * are literal');
+
+  // ── Test 2: TOOL_POLICY ───────────────────────────────────────────────────
+
+  console.log('\n── Test 2: TOOL_POLICY ──');
+
+  process.env.TOOL_POLICY = JSON.stringify({ wiki__update_card: 'Confirm', 'wiki__list*': 'deny', foundry__roll: 'maybe' });
+  resetConfig();
+  const policy = getConfig().toolPolicy;
+  assert(policy.wiki__update_card === 'confirm' && policy['wiki__list*'] === 'deny', 'Entries override or extend the defaults');
+  assert(policy['wiki__get*'] === 'allow' && !('foundry__roll' in policy), 'Defaults kept, invalid permissions skipped');
+  process.env.TOOL_POLICY = '{ nope';
+  resetConfig();
+  assert(JSON.stringify(getConfig().toolPolicy) === JSON.stringify(DEFAULT_TOOL_POLICY), 'Malformed JSON → built-in policy');
+
+  process.env.TOOL_POLICY = JSON.stringify({ wiki__update_card: 'confirm' });
+  resetConfig();
+
+  // ── Test 3: Offered tools ─────────────────────────────────────────────────
+
+  console.log('\n── Test 3: Offered tools ──');
+
+  const toolCalls: string[] = [];
+  const fakeMcp = {
+    isConnected: () => true,
+    readResource: async () => null,
+    getAllTools: () => TOOLS.map(name => ({ name, description: `Tool ${name}`, input_schema: { type: 'object' } })),
+    callTool: async (name: string) => { toolCalls.push(name); return 'ok'; },
+    recordLlmExchange() {},
+  };
+  const assembler = new ContextAssembler(fakeMcp as any, activePacing(), new AdviceMemoryBuffer(5));
+  assembler.loadTemplate();
+  const context = await assembler.assemble(question(), []);
+  const tools = context.tools as Array<{ name: string; description?: string }>;
+  const offered = tools.map(t => t.name);
+  assert(offered.join(',') === 'wiki__get_card,wiki__search_cards,wiki__update_card,foundry__get_actor', 'Denied tools never offered');
+  assert(tools.find(t => t.name === 'wiki__update_card')!.description!.startsWith('[Requires GM approval'),
+    '"confirm" tools carry the approval note');
+
+  // ── Test 4: Engine enforcement ────────────────────────────────────────────
+
+  console.log('\n── Test 4: Engine enforcement ──');
+
+  const provider = new MockProvider([
+    { toolCalls: [
+      { name: 'foundry__send_whisper', input: { target: 'Mira', content: 'psst' } },
+      { name: 'wiki__update_card', input: { name: 'NPCs+Vex', content: 'Vex is dead.' } },
+      { name: 'wiki__get_card', input: { name: 'NPCs+Vex' } },
+    ] },
+    { text: '{"category":"none","tag":"NO_ADVICE"}' },
+  ]);
+  const engine = new ReasoningEngine(fakeMcp as any, activePacing(), new AdviceMemoryBuffer(10), () => [], { provider });
+  const staged: PendingToolCall[] = [];
+  engine.on('toolStaged', call => staged.push(call));
+  await engine.process(question());
+
+  const [whisper, update, read] = provider.toolExchanges;
+  assert(whisper.outcome.isError === true && whisper.outcome.content.includes('not available'), 'Denied call refused');
+  assert(update.outcome.isError !== true && update.outcome.content.includes('#1') && update.outcome.content.includes('NOT run'),
+    '"confirm" call answered as staged');
+  assert(read.outcome.content === 'ok' && toolCalls.join(',') === 'wiki__get_card', 'Only the allowed call reached MCP');
+  assert(staged.length === 1 && staged[0].name === 'wiki__update_card' && engine.toolApprovals.hasPending(), 'toolStaged emitted and queued');
+
+  // ── Test 5: Approval queue ────────────────────────────────────────────────
+
+  console.log('\n── Test 5: Approval queue ──');
+
+  const queue = new ToolApprovalQueue();
+  const first = queue.stage('wiki__update_card', { name: 'A' });
+  const second = queue.stage('foundry__send_whisper', { target: 'Mira' });
+  assert(queue.stage('wiki__update_card', { name: 'A' }) === first && queue.list().length === 2, 'Identical call staged once');
+  assert(queue.take(first.id) === first && queue.take(first.id) === null, 'Taken by id, only once');
+  assert(queue.take() === second && !queue.hasPending(), 'No id takes the latest');
+  const expiring = new ToolApprovalQueue(-1);
+  expiring.stage('wiki__update_card', { name: 'B' });
+  assert(!expiring.hasPending() && expiring.take() === null, 'Expired calls dropped');
+
+  const approve = parseGmCommand('/approve 2', new Date().toISOString());
+  const reject = parseGmCommand('/reject', new Date().toISOString());
+  assert(approve?.type === 'approve' && approve.args[0] === '2' && reject?.type === 'reject' && reject.args.length === 0,
+    '/approve and /reject parsed');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
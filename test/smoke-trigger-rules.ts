@@ -0,0 +1,167 @@
+/**
+ * Custom trigger rules smoke test — rule validation and defaults, unsafe
+ * regexes rejected, rules from a file and a wiki card (card wins, skipped
+ * while the wiki is down), regex / keyword-set / phonetic matching, speaker
+ * and state filters, per-rule cooldowns, and the rule's description reaching
+ * the model's trigger summary.
+ *
+ * Run: npx tsx test/smoke-trigger-rules.ts
+ */
+
+import { resetConfig, getConfig, configForBinding } from '../src/config.js';
+import {
+  parseTriggerRules, parseTriggerRulesCard, loadTriggerRulesFile, loadTriggerRules, hasNestedQuantifier, type TriggerRule,
+} from '../src/reasoning/trigger-rules.js';
+import { TriggerDetector } from '../src/reasoning/triggers.js';
+import { ContextAssembler } from '../src/reasoning/context.js';
+import { PacingStateManager } from '../src/state/pacing.js';
+import { AdviceMemoryBuffer } from '../src/state/advice-memory.js';
+import { VirtualClock } from '../src/replay/virtual-clock.js';
+import { AssistantState, TriggerPriority } from '../src/types/index.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    failed++;
+  }
+}
+
+resetConfig();
+process.env.WIKI_MCP_URL = 'http://fake';
+process.env.ANTHROPIC_API_KEY = 'fake';
+process.env.GM_IDENTIFIER = 'gm';
+
+const START = new Date('2026-03-01T19:00:00Z');
+
+function detectorWith(rules: TriggerRule[], state = AssistantState.ACTIVE) {
+  const clock = new VirtualClock(START);
+  const pacing = new PacingStateManager();
+  pacing.startSession();
+  if (state !== AssistantState.PREGAME) pacing.transitionTo(state);
+  const detector = new TriggerDetector(pacing, {}, clock, getConfig());
+  detector.setCustomRules(rules);
+  const batches: string[][] = [];
+  detector.on('trigger', batch => batches.push(batch.events.map(e => e.type)));
+  const say = (text: string, userId = 'gm') => detector.onTranscriptUpdate([{ text, userId, timestamp: clock.now().toISOString() }]);
+  const fired = () => [...detector.getPendingEvents().map(e => e.type), ...batches.flat()];
+  return { detector, clock, say, fired };
+}
+
+async function runTests(): Promise<void> {
+  // ── Test 1: Validation ────────────────────────────────────────────────────
+
+  console.log('\n── Test 1: Validation ──');
+
+  const example = loadTriggerRulesFile('./config/trigger-rules.example.json');
+  assert(example.map(r => r.type).join() === 'roll_initiative,veil_opens,daokresh_mentioned', 'Example file loads');
+  const [defaults] = parseTriggerRules([{ type: 'cue', regex: 'cue' }], 'test');
+  assert(defaults.speaker === 'any' && defaults.states.join() === 'ACTIVE' && defaults.priority === TriggerPriority.P3 && defaults.cooldownSeconds === 120,
+    'Defaults: any speaker, ACTIVE, P3, 120s');
+  const invalid = parseTriggerRules({
+    rules: [
+      { type: 'Bad Name', regex: 'x' },
+      { type: 'two', regex: 'x', keywords: ['y'] },
+      { type: 'broken', regex: '(' },
+      { type: 'loud', regex: 'x', priority: 7 },
+      { type: 'sleepy', regex: 'x', states: ['NAPPING'] },
+      { type: 'short', phonetic: 'vex' },
+      { type: 'ok', keywords: ['Veil', 'opens'], minKeywords: 5 },
+    ],
+  }, 'test');
+  assert(invalid.length === 1 && invalid[0].keywords?.join() === 'veil,opens' && invalid[0].minKeywords === 2,
+    'Invalid rules skipped; minKeywords capped at the keyword count');
+  assert(parseTriggerRules([{ type: 'a', regex: 'x' }, { type: 'a', regex: 'y' }], 'test')[0].regex === 'y', 'Later rule of the same type wins');
+  assert(parseTriggerRules('nonsense', 'test').length === 0, 'Wrong shape → no rules');
+  const risky = parseTriggerRules([
+    { type: 'nested', regex: '(a+)+$' },
+    { type: 'words', regex: '(\\w+\\s?)*!' },
+    { type: 'long', regex: 'x'.repeat(201) },
+    { type: 'bounded', regex: '(?:ab+){2}|[+*]+(?:cd)*' },
+  ], 'test');
+  assert(risky.map(r => r.type).join() === 'bounded', 'Nested unbounded quantifiers and overlong patterns rejected');
+  assert(hasNestedQuantifier('(x{2,})*') && !hasNestedQuantifier('\\(a+\\)+') && !hasNestedQuantifier('([a+])+'),
+    'Escapes and character classes are not quantifiers');
+
+  // ── Test 2: Wiki card ─────────────────────────────────────────────────────
+
+  console.log('\n── Test 2: Wiki card ──');
+
+  const card = '<p>Rules for Group 1:</p><pre>[{&quot;type&quot;:&quot;roll_initiative&quot;,&quot;regex&quot;:&quot;initiative&quot;,&quot;priority&quot;:1}]</pre>';
+  assert(parseTriggerRulesCard(card, 'Rules')[0]?.priority === TriggerPriority.P1, 'JSON read out of an HTML card');
+  let wikiUp = true;
+  const mcp = { isConnected: () => wikiUp, callTool: async () => ({ content: [{ type: 'text', text: card }] }) };
+  const base = { ...getConfig(), triggerRulesPath: './config/trigger-rules.example.json', triggerRulesCard: 'Rules' };
+  const merged = await loadTriggerRules(mcp as any, base);
+  assert(merged.length === 3 && merged.find(r => r.type === 'roll_initiative')?.regex === 'initiative', 'Card rule replaces the file rule of the same type');
+  wikiUp = false;
+  const fileOnly = await loadTriggerRules(mcp as any, base);
+  assert(fileOnly.length === 3 && fileOnly.find(r => r.type === 'roll_initiative')?.regex !== 'initiative', 'Wiki down → card skipped, file rules kept');
+  const bound = configForBinding(base, { id: 'g2', guildId: '2', triggerRulesPath: './other.json' });
+  assert(bound.triggerRulesPath === './other.json' && bound.triggerRulesCard === 'Rules', 'Per-campaign paths override, the rest inherit');
+
+  // ── Test 3: Matching and filters ──────────────────────────────────────────
+
+  console.log('\n── Test 3: Matching and filters ──');
+
+  const { say, fired, clock } = detectorWith(example);
+  say('Everyone roll initiative, please.', 'alice');
+  assert(!fired().includes('custom:roll_initiative'), 'GM-only rule ignores players');
+  say('Okay, roll for initiative.');
+  assert(fired().includes('custom:roll_initiative'), 'Regex rule fires on the GM');
+  say('The veil shimmers.');
+  assert(!fired().includes('custom:veil_opens'), 'One keyword of two is not enough');
+  say('The Veil opens above the harbor!');
+  assert(fired().includes('custom:veil_opens'), 'Keyword set fires at minKeywords');
+  say('Should we ask Dowkresh about the orb?', 'alice');
+  assert(fired().includes('custom:daokresh_mentioned'), 'Phonetic rule catches an STT garble');
+
+  const count = (type: string) => fired().filter(t => t === type).length;
+  clock.advanceTo(START.getTime() + 60_000);
+  say('And roll initiative again.');
+  assert(count('custom:roll_initiative') === 1, 'Cooldown holds a repeat back');
+  clock.advanceTo(START.getTime() + 11 * 60_000);
+  say('New fight, roll initiative.');
+  assert(count('custom:roll_initiative') === 2, 'Fires again once the cooldown passes');
+
+  const pregame = detectorWith([
+    ...example,
+    ...parseTriggerRules([{ type: 'table_ready', regex: "let'?s begin", states: ['PREGAME'], priority: 1 }], 'test'),
+  ], AssistantState.PREGAME);
+  pregame.say("Alright, let's begin. Roll initiative!");
+  assert(pregame.fired().join() === 'custom:table_ready', 'States filter: only the PREGAME rule fires before play');
+
+  // ── Test 4: Trigger summary ───────────────────────────────────────────────
+
+  console.log('\n── Test 4: Trigger summary ──');
+
+  const fakeMcp = { isConnected: () => true, readResource: async () => null, getAllTools: () => [] };
+  const assembler = new ContextAssembler(fakeMcp as any, new PacingStateManager(), new AdviceMemoryBuffer(5));
+  const summary: string = (assembler as any).summarizeTriggers({
+    events: [{
+      type: 'custom:veil_opens', priority: TriggerPriority.P2, source: 'gm',
+      data: { rule: 'veil_opens', description: example[1].description, matched: 'veil, opens', transcript: 'The Veil opens!' },
+      timestamp: START.toISOString(),
+    }],
+    flushedAt: START.toISOString(),
+  });
+  assert(summary.includes('P2 — Custom trigger "veil_opens": The Veil is tearing') && summary.includes('Heard: "The Veil opens!"'),
+    'Rule description and the heard line reach the model');
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────────
+
+runTests().then(() => {
+  console.log(`\n── Results: ${passed} passed, ${failed} failed ──\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}).catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});